@@ -3,7 +3,10 @@ import { LoginScreen } from './components/login-screen';
 import { Dashboard } from './components/dashboard';
 import { HomePage } from './components/home-page';
 import { BetaGate, useBetaAccess } from './components/beta-gate';
+import { Toaster } from './components/ui/sonner';
 import { supabase } from './utils/supabase-client';
+import { navigate, takeReturnPath } from './utils/router';
+import { isReturnPath } from '../lib/routes';
 
 // Beta password protection - hardcoded for reliability
 // Set to false when ready for public launch
@@ -19,7 +22,11 @@ export default function App() {
   } | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState<'home' | 'login' | 'beta'>('home');
+  // Deep links (e.g. /events/:id from an email) skip the home page and go straight to sign-in
+  const [currentPage, setCurrentPage] = useState<'home' | 'login' | 'beta'>(() => {
+    if (!isReturnPath(window.location.pathname)) return 'home';
+    return BETA_MODE_ENABLED && !hasAccess ? 'beta' : 'login';
+  });
 
   useEffect(() => {
     // Check for existing session
@@ -37,6 +44,7 @@ export default function App() {
           });
           setAccessToken(session.access_token);
           setCurrentPage('dashboard'); // Hide login when user is authenticated
+          restoreReturnPath();
         } else {
           setUser(null);
           setAccessToken(null);
@@ -50,6 +58,14 @@ export default function App() {
     };
   }, []);
 
+  // Back to the page the user was trying to open before the OAuth redirect
+  const restoreReturnPath = () => {
+    const returnTo = takeReturnPath();
+    if (returnTo) {
+      navigate(returnTo, { replace: true });
+    }
+  };
+
   const checkSession = async () => {
     try {
       const { data: { session }, error } = await supabase.auth.getSession();
@@ -72,6 +88,7 @@ export default function App() {
         });
         setAccessToken(session.access_token);
         setCurrentPage('dashboard'); // Hide login when user is authenticated
+        restoreReturnPath();
       } else {
         console.log('No session found');
       }
@@ -88,6 +105,7 @@ export default function App() {
       setUser(null);
       setAccessToken(null);
       setCurrentPage('home');
+      navigate('/', { replace: true });
       // Clear beta access on logout so password is required again
       if (BETA_MODE_ENABLED) {
         revokeAccess();
@@ -131,6 +149,7 @@ export default function App() {
       ) : (
         <HomePage onSignIn={handleSignIn} />
       )}
+      <Toaster position="top-right" />
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { User, Mail, Calendar, Trash2, Search, Phone, Plus, X, Loader2 } from 'lucide-react';
+import { User, Mail, Calendar, Trash2, Search, Phone, Plus, X, Loader2, AlertTriangle, Ban } from 'lucide-react';
 import { useState } from 'react';
 import type { Contact } from '../types';
 
@@ -311,6 +311,15 @@ export function ContactList({ contacts, onDeleteContact, onAddContact }: Contact
                         <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
                           <Mail className="w-4 h-4 flex-shrink-0" />
                           <span className="truncate">{contact.email}</span>
+                          {contact.emailUndeliverableAt && (
+                            <span
+                              className="flex items-center gap-1 text-xs text-amber-700 flex-shrink-0"
+                              title={contact.emailUndeliverableReason || 'Emails to this address are not being delivered'}
+                            >
+                              <AlertTriangle className="w-3.5 h-3.5" />
+                              Undeliverable
+                            </span>
+                          )}
                         </div>
                       )}
 
@@ -319,6 +328,24 @@ export function ContactList({ contacts, onDeleteContact, onAddContact }: Contact
                         <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
                           <Phone className="w-4 h-4 flex-shrink-0" />
                           <span>{formatPhoneDisplay(contact.phone)}</span>
+                          {contact.phoneUndeliverableAt && (
+                            <span
+                              className="flex items-center gap-1 text-xs text-amber-700 flex-shrink-0"
+                              title={contact.phoneUndeliverableReason || 'Texts to this number are not being delivered'}
+                            >
+                              <AlertTriangle className="w-3.5 h-3.5" />
+                              Undeliverable
+                            </span>
+                          )}
+                          {contact.smsOptedOutAt && (
+                            <span
+                              className="flex items-center gap-1 text-xs text-gray-500 flex-shrink-0"
+                              title="Replied STOP. No texts are sent until they reply START."
+                            >
+                              <Ban className="w-3.5 h-3.5" />
+                              Opted out
+                            </span>
+                          )}
                         </div>
                       )}
 
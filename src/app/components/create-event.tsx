@@ -1,46 +1,97 @@
 import { useEffect, useState, useMemo } from 'react';
-import { Calendar, Clock, MapPin, Plus, X, ArrowUp, ArrowDown, Users, Zap, UserPlus, AlertCircle, ChevronDown, Phone, Loader2 } from 'lucide-react';
-import type { Event, Invitee, InviteMode, Contact } from '../types';
+import { Calendar, Clock, MapPin, Plus, X, ArrowUp, ArrowDown, Users, Zap, UserPlus, AlertCircle, ChevronDown, Phone, Loader2, Repeat, Bell, Vote } from 'lucide-react';
+import type { Event, EventDraft, Invitee, InviteMode, Contact, RecurrenceFrequency, RecurrenceRule, RecurrenceScope } from '../types';
+import { describeRecurrence, expandOccurrenceDates, validateRecurrenceRule, MAX_SERIES_OCCURRENCES } from '../../lib/recurrence';
+import { DEFAULT_REMINDER_OFFSETS, REMINDER_OFFSET_CHOICES, MAX_REMINDERS, formatLeadTime, normalizeReminderOffsets } from '../../lib/reminders';
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, validatePollOptions, type PollOptionInput } from '../../lib/polls';
 
 interface CreateEventProps {
   currentUser: { email: string; name: string };
   contacts: Contact[];
   timeZone?: string;
-  onCreateEvent: (event: Omit<Event, 'id' | 'organizer' | 'createdAt'>) => Promise<void>;
+  initialEvent?: Event; // When set, the form edits this event instead of creating a new one
+  onCreateEvent: (
+    event: Omit<Event, 'id' | 'organizer' | 'createdAt'>,
+    options?: { scope?: RecurrenceScope } // Which occurrences of a series an edit applies to
+  ) => Promise<void>;
+  // Find-a-time mode: propose several times and let invitees vote before booking (create only)
+  onCreatePoll?: (poll: EventDraft & { pollOptions: PollOptionInput[] }) => Promise<void>;
   onCancel: () => void;
 }
 
+const TITLE_EMOJIS = ['🎾', '📅', '🎉', '🤝', '🧠', '📞', '☕'];
+
+// Split a stored title like "🎾 Tennis Match" back into the emoji picker value and the text
+const splitTitleEmoji = (fullTitle: string): { emoji: string; title: string } => {
+  const match = TITLE_EMOJIS.find((emoji) => fullTitle.startsWith(`${emoji} `));
+  return match
+    ? { emoji: match, title: fullTitle.slice(match.length + 1) }
+    : { emoji: '', title: fullTitle };
+};
+
 export function CreateEvent({
   currentUser,
   contacts,
   timeZone,
+  initialEvent,
   onCreateEvent,
+  onCreatePoll,
   onCancel,
 }: CreateEventProps) {
+  const isEditing = !!initialEvent;
+  const initialTitle = initialEvent ? splitTitleEmoji(initialEvent.title) : { emoji: '🎾', title: 'Tennis Match' };
   const locationKey = `booker_recent_locations_${currentUser.email}`;
-  const [title, setTitle] = useState('Tennis Match');
-  const [description, setDescription] = useState('');
-  const [date, setDate] = useState('');
-  const [time, setTime] = useState('');
-  const [location, setLocation] = useState('');
-  const [titleEmoji, setTitleEmoji] = useState('🎾');
+  const [title, setTitle] = useState(initialTitle.title);
+  const [description, setDescription] = useState(initialEvent?.description ?? '');
+  const [date, setDate] = useState(initialEvent?.date ?? '');
+  const [time, setTime] = useState(initialEvent?.time?.slice(0, 5) ?? '');
+  const [location, setLocation] = useState(initialEvent?.location ?? '');
+  const [titleEmoji, setTitleEmoji] = useState(initialTitle.emoji);
   const [locationHistory, setLocationHistory] = useState<string[]>([]);
   const [showRecentLocations, setShowRecentLocations] = useState(false);
-  const [invitees, setInvitees] = useState<Invitee[]>([]);
+  const [invitees, setInvitees] = useState<Invitee[]>(initialEvent?.invitees ?? []);
   const MAX_INVITEES = 5; // Limit to 5 invitees for MVP
-  const [spots, setSpots] = useState<number>(1); // Number of spots available (default 1)
+  const [spots, setSpots] = useState<number>(initialEvent?.spots ?? 1); // Number of spots available (default 1)
   const [newInviteeEmail, setNewInviteeEmail] = useState('');
   const [newInviteeName, setNewInviteeName] = useState('');
   const [newInviteePhone, setNewInviteePhone] = useState('');
   const [phoneCountryCode, setPhoneCountryCode] = useState('+1');
-  const [inviteMode, setInviteMode] = useState<InviteMode>('first-come-first-serve');
-  const [autoPromoteInterval, setAutoPromoteInterval] = useState<number>(30); // Default 30 minutes
-  const [durationMinutes, setDurationMinutes] = useState<number>(60);
+  const [inviteMode, setInviteMode] = useState<InviteMode>(initialEvent?.inviteMode ?? 'first-come-first-serve');
+  const [autoPromoteInterval, setAutoPromoteInterval] = useState<number>(initialEvent?.autoPromoteInterval ?? 30); // Default 30 minutes
+  const [expiryNudgeMinutes, setExpiryNudgeMinutes] = useState<number>(initialEvent?.expiryNudgeMinutes ?? 10); // 0 = no nudge
+  const [tentativeHoldMinutes, setTentativeHoldMinutes] = useState<number>(initialEvent?.tentativeHoldMinutes ?? 60); // 0 = no hold
+  const [withdrawCutoffMinutes, setWithdrawCutoffMinutes] = useState<number>(initialEvent?.withdrawCutoffMinutes ?? 0); // 0 = until it starts
+  const [durationMinutes, setDurationMinutes] = useState<number>(initialEvent?.durationMinutes ?? 60);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(initialEvent?.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [showContactPicker, setShowContactPicker] = useState(false);
   const [contactSearchQuery, setContactSearchQuery] = useState('');
   const [duplicateAlert, setDuplicateAlert] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | 'none'>('none');
+  const [repeatInterval, setRepeatInterval] = useState<number>(1);
+  const [repeatEnd, setRepeatEnd] = useState<'count' | 'until'>('count');
+  const [repeatCount, setRepeatCount] = useState<number>(8);
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [editScope, setEditScope] = useState<RecurrenceScope>('this');
+  const [isPoll, setIsPoll] = useState(false);
+  const [pollOptions, setPollOptions] = useState<PollOptionInput[]>(
+    Array.from({ length: MIN_POLL_OPTIONS }, () => ({ date: '', time: '' }))
+  );
+  const canPoll = !isEditing && !!onCreatePoll;
+  const isSeriesOccurrence = isEditing && !!initialEvent?.seriesId;
+
+  // Recurrence rule built from the Repeat controls (create mode only)
+  const recurrence: RecurrenceRule | undefined = !isEditing && !isPoll && repeatFrequency !== 'none'
+    ? {
+        frequency: repeatFrequency,
+        interval: repeatInterval,
+        ...(repeatEnd === 'count' ? { count: repeatCount } : { until: repeatUntil }),
+      }
+    : undefined;
+  const occurrencePreview = recurrence && date && !validateRecurrenceRule(recurrence, date)
+    ? expandOccurrenceDates(date, recurrence)
+    : [];
 
   // Format a Date as local YYYY-MM-DD (avoid UTC shift)
   const formatLocalDate = (d: Date) => {
@@ -410,6 +461,12 @@ export function CreateEvent({
     setInvitees(recalculated);
   };
 
+  const eventTimeZone = initialEvent?.timeZone || timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  const updatePollOption = (index: number, field: keyof PollOptionInput, value: string) => {
+    setPollOptions((options) => options.map((option, i) => (i === index ? { ...option, [field]: value } : option)));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     console.log('📋 Form submitted with date:', date, 'time:', time);
@@ -421,16 +478,23 @@ export function CreateEvent({
       validationErrors.title = 'Event title is required';
     }
     
-    if (!date) {
-      validationErrors.date = 'Event date is required';
-    }
-    
-    if (!time) {
-      validationErrors.time = 'Event time is required';
+    if (isPoll) {
+      const pollError = validatePollOptions(pollOptions, eventTimeZone);
+      if (pollError) {
+        validationErrors.pollOptions = pollError;
+      }
+    } else {
+      if (!date) {
+        validationErrors.date = 'Event date is required';
+      }
+
+      if (!time) {
+        validationErrors.time = 'Event time is required';
+      }
     }
 
     // Check if date/time is in the future
-    if (date && time) {
+    if (!isPoll && date && time) {
       const isFuture = isDateTimeInFuture(date, time);
       console.log('📋 Date/time future check result:', isFuture);
       if (!isFuture) {
@@ -447,6 +511,13 @@ export function CreateEvent({
     if (!durationMinutes || durationMinutes <= 0) {
       validationErrors.durationMinutes = 'Duration must be greater than 0 minutes';
     }
+
+    if (recurrence && date) {
+      const recurrenceError = validateRecurrenceRule(recurrence, date);
+      if (recurrenceError) {
+        validationErrors.recurrence = recurrenceError;
+      }
+    }
     
     if (inviteMode === 'priority') {
       if (!autoPromoteInterval) {
@@ -455,6 +526,8 @@ export function CreateEvent({
         validationErrors.autoPromoteInterval = 'Minimum interval is 5 minutes';
       } else if (autoPromoteInterval > 360) {
         validationErrors.autoPromoteInterval = 'Maximum interval is 360 minutes (6 hours)';
+      } else if (expiryNudgeMinutes > 0 && expiryNudgeMinutes >= autoPromoteInterval) {
+        validationErrors.autoPromoteInterval = 'The expiry reminder must come before the timer runs out';
       }
     }
 
@@ -478,22 +551,32 @@ export function CreateEvent({
       date,
       time,
       location: trimmedLocation,
-      timeZone: timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+      timeZone: eventTimeZone,
       durationMinutes,
       spots, // Number of spots available
       invitees,
       inviteMode,
       autoPromoteInterval: inviteMode === 'priority' ? autoPromoteInterval : undefined,
+      expiryNudgeMinutes: inviteMode === 'priority' ? expiryNudgeMinutes : undefined,
+      tentativeHoldMinutes: inviteMode === 'priority' ? tentativeHoldMinutes : undefined,
+      withdrawCutoffMinutes,
+      reminderOffsets: normalizeReminderOffsets(reminderOffsets),
       sendOrganizerCalendarInvite: true,
       sendInviteesCalendarInvite: true,
       notifyByPhone: false,
+      recurrence,
     };
 
     rememberLocation(trimmedLocation);
 
     setIsCreating(true);
     try {
-      await onCreateEvent(event);
+      if (isPoll && onCreatePoll) {
+        const { date: _date, time: _time, recurrence: _recurrence, ...draft } = event;
+        await onCreatePoll({ ...draft, pollOptions });
+      } else {
+        await onCreateEvent(event, isSeriesOccurrence ? { scope: editScope } : undefined);
+      }
     } finally {
       setIsCreating(false);
     }
@@ -502,7 +585,12 @@ export function CreateEvent({
   return (
     <div className="max-w-3xl mx-auto">
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-        <h2 className="mb-6">Create New Event</h2>
+        <h2 className="mb-6">{isEditing ? 'Edit Event' : 'Create New Event'}</h2>
+        {isEditing && (
+          <p className="text-sm text-gray-600 -mt-4 mb-6">
+            Invitees holding an invite will be notified of your changes. Moving the date or time asks everyone who accepted to confirm again.
+          </p>
+        )}
 
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Event Details */}
@@ -517,13 +605,9 @@ export function CreateEvent({
                 onChange={(e) => setTitleEmoji(e.target.value)}
                 className="w-14 px-2 py-2 text-lg text-center border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none bg-white"
               >
-                <option value="🎾">🎾</option>
-                <option value="📅">📅</option>
-                <option value="🎉">🎉</option>
-                <option value="🤝">🤝</option>
-                <option value="🧠">🧠</option>
-                <option value="📞">📞</option>
-                <option value="☕">☕</option>
+                {TITLE_EMOJIS.map((emoji) => (
+                  <option key={emoji} value={emoji}>{emoji}</option>
+                ))}
                 <option value="">None</option>
               </select>
               <input
@@ -553,7 +637,89 @@ export function CreateEvent({
             />
           </div>
 
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {/* When - pick a time, or (create only) propose a few and let invitees vote */}
+          {canPoll && (
+            <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg text-sm">
+              <button
+                type="button"
+                onClick={() => setIsPoll(false)}
+                className={`flex items-center justify-center gap-2 px-3 py-2 rounded-md transition-colors ${!isPoll ? 'bg-white shadow-sm text-indigo-700' : 'text-gray-600 hover:text-gray-900'}`}
+              >
+                <Calendar className="w-4 h-4" />
+                Pick a time
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsPoll(true)}
+                className={`flex items-center justify-center gap-2 px-3 py-2 rounded-md transition-colors ${isPoll ? 'bg-white shadow-sm text-indigo-700' : 'text-gray-600 hover:text-gray-900'}`}
+              >
+                <Vote className="w-4 h-4" />
+                Find a time
+              </button>
+            </div>
+          )}
+
+          {isPoll && (
+            <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg space-y-3">
+              <p className="text-sm text-indigo-900">
+                Propose {MIN_POLL_OPTIONS}–{MAX_POLL_OPTIONS} times. Everyone below gets a link (and a text) to say which ones work; you book the winner from the poll page.
+              </p>
+              {pollOptions.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-indigo-900">{index + 1}.</span>
+                  <select
+                    aria-label={`Time ${index + 1} date`}
+                    value={option.date}
+                    onChange={(e) => updatePollOption(index, 'date', e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none bg-white"
+                  >
+                    <option value="">Select date...</option>
+                    {dateOptions.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label={`Time ${index + 1} time`}
+                    value={option.time}
+                    onChange={(e) => updatePollOption(index, 'time', e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none bg-white"
+                  >
+                    <option value="">Select time...</option>
+                    {allTimeOptions.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    aria-label={`Remove time ${index + 1}`}
+                    onClick={() => setPollOptions((options) => options.filter((_, i) => i !== index))}
+                    disabled={pollOptions.length <= MIN_POLL_OPTIONS}
+                    className="p-2 text-gray-500 hover:text-red-600 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {pollOptions.length < MAX_POLL_OPTIONS && (
+                <button
+                  type="button"
+                  onClick={() => setPollOptions((options) => [...options, { date: '', time: '' }])}
+                  className="flex items-center gap-1 text-sm text-indigo-700 hover:text-indigo-900"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add a time
+                </button>
+              )}
+              {errors.pollOptions && <p className="text-red-500 text-sm">{errors.pollOptions}</p>}
+            </div>
+          )}
+
+          <div className={`grid grid-cols-1 gap-4 ${isPoll ? '' : 'sm:grid-cols-3'}`}>
+            {!isPoll && (
             <div>
               <label htmlFor="date" className="block text-sm mb-2">
                 Date *
@@ -578,7 +744,9 @@ export function CreateEvent({
                 {errors.date && <p className="text-red-500 text-sm mt-1">{errors.date}</p>}
               </div>
             </div>
+            )}
 
+            {!isPoll && (
             <div>
               <label htmlFor="time" className="block text-sm mb-2">
                 Time *
@@ -603,6 +771,7 @@ export function CreateEvent({
                 {errors.time && <p className="text-red-500 text-sm mt-1">{errors.time}</p>}
               </div>
             </div>
+            )}
 
             <div>
               <label htmlFor="duration" className="block text-sm mb-2">
@@ -682,6 +851,117 @@ export function CreateEvent({
             </div>
           </div>
 
+          {/* Repeat - only when creating; each occurrence becomes its own event */}
+          {!isEditing && !isPoll && (
+            <div>
+              <label htmlFor="repeat" className="block text-sm mb-2">
+                Repeat
+              </label>
+              <div className="relative">
+                <Repeat className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+                <select
+                  id="repeat"
+                  value={repeatFrequency}
+                  onChange={(e) => setRepeatFrequency(e.target.value as RecurrenceFrequency | 'none')}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none appearance-none bg-white"
+                >
+                  <option value="none">Does not repeat</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+              </div>
+
+              {repeatFrequency !== 'none' && (
+                <div className="mt-3 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                    <span>Every</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={12}
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(parseInt(e.target.value, 10) || 1)}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                      aria-label="Repeat interval"
+                    />
+                    <span>{repeatFrequency === 'weekly' ? (repeatInterval === 1 ? 'week' : 'weeks') : (repeatInterval === 1 ? 'day' : 'days')}</span>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                    <span>Ends</span>
+                    <select
+                      value={repeatEnd}
+                      onChange={(e) => setRepeatEnd(e.target.value as 'count' | 'until')}
+                      className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                      aria-label="Repeat end"
+                    >
+                      <option value="count">after</option>
+                      <option value="until">on</option>
+                    </select>
+                    {repeatEnd === 'count' ? (
+                      <>
+                        <input
+                          type="number"
+                          min={1}
+                          max={MAX_SERIES_OCCURRENCES}
+                          value={repeatCount}
+                          onChange={(e) => setRepeatCount(parseInt(e.target.value, 10) || 1)}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                          aria-label="Number of events"
+                        />
+                        <span>events</span>
+                      </>
+                    ) : (
+                      <input
+                        type="date"
+                        value={repeatUntil}
+                        min={date || undefined}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                        aria-label="Repeat until"
+                      />
+                    )}
+                  </div>
+
+                  {recurrence && occurrencePreview.length > 0 && (
+                    <p className="text-sm text-gray-600">
+                      {describeRecurrence(recurrence)} · creates {occurrencePreview.length} {occurrencePreview.length === 1 ? 'event' : 'events'}, last on {occurrencePreview[occurrencePreview.length - 1]}.
+                      Invitations for each event go out once the previous one has taken place.
+                    </p>
+                  )}
+                  {errors.recurrence && <p className="text-red-500 text-sm">{errors.recurrence}</p>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Series scope - only when editing an occurrence of a recurring event */}
+          {isSeriesOccurrence && (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="block text-sm mb-2">Apply changes to</p>
+              <div className="space-y-2 text-sm text-gray-700">
+                {([
+                  ['this', 'This event only'],
+                  ['following', 'This and following events'],
+                  ['all', 'All events in the series'],
+                ] as [RecurrenceScope, string][]).map(([value, label]) => (
+                  <label key={value} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="edit-scope"
+                      value={value}
+                      checked={editScope === value}
+                      onChange={() => setEditScope(value)}
+                      className="text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Invite Mode Selector */}
           <div>
             <label className="block text-sm mb-3">
@@ -872,12 +1152,99 @@ export function CreateEvent({
                       </button>
                     </div>
                   </div>
+                  <div className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+                    <label htmlFor="expiryNudge">Remind them</label>
+                    <select
+                      id="expiryNudge"
+                      value={expiryNudgeMinutes}
+                      onChange={(e) => setExpiryNudgeMinutes(Number(e.target.value))}
+                      className="px-2 py-1 border border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                    >
+                      {[0, 5, 10, 15, 30, 60].map((minutes) => (
+                        <option key={minutes} value={minutes} disabled={minutes > 0 && minutes >= autoPromoteInterval}>
+                          {minutes === 0 ? 'never' : `${minutes} minutes before it expires`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+                    <label htmlFor="tentativeHold">A "maybe" holds their place</label>
+                    <select
+                      id="tentativeHold"
+                      value={tentativeHoldMinutes}
+                      onChange={(e) => setTentativeHoldMinutes(Number(e.target.value))}
+                      className="px-2 py-1 border border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                    >
+                      {[0, 30, 60, 120, 240, 1440].map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {minutes === 0 ? 'not at all' : minutes < 60 ? `for ${minutes} minutes` : `for ${minutes / 60} hour${minutes === 60 ? '' : 's'}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
               </div>
               {errors.autoPromoteInterval && <p className="text-red-500 text-sm mt-1">{errors.autoPromoteInterval}</p>}
             </div>
           )}
 
+          {/* Reminders */}
+          <div>
+            <label className="block text-sm mb-1">Reminders</label>
+            <p className="text-sm text-gray-600 mb-2">
+              You and everyone who accepts get a reminder by email and text.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {REMINDER_OFFSET_CHOICES.map((offset) => {
+                const selected = reminderOffsets.includes(offset);
+                const atLimit = !selected && reminderOffsets.length >= MAX_REMINDERS;
+                return (
+                  <button
+                    key={offset}
+                    type="button"
+                    disabled={atLimit}
+                    onClick={() =>
+                      setReminderOffsets((prev) =>
+                        selected ? prev.filter((value) => value !== offset) : [...prev, offset]
+                      )
+                    }
+                    className={`px-3 py-1 text-sm rounded-lg border transition-colors flex items-center gap-1 ${
+                      selected
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed'
+                    }`}
+                  >
+                    <Bell className="w-3 h-3" />
+                    {formatLeadTime(offset)} before
+                  </button>
+                );
+              })}
+            </div>
+            {reminderOffsets.length === 0 && (
+              <p className="text-sm text-gray-500 mt-2">No reminders will be sent.</p>
+            )}
+          </div>
+
+          {/* Withdrawals */}
+          <div>
+            <label htmlFor="withdrawCutoff" className="block text-sm mb-1">Withdrawals</label>
+            <p className="text-sm text-gray-600 mb-2">
+              People who accepted can give their spot back, and the next person is invited.
+            </p>
+            <select
+              id="withdrawCutoff"
+              value={withdrawCutoffMinutes}
+              onChange={(e) => setWithdrawCutoffMinutes(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-sm"
+            >
+              {[0, 60, 120, 240, 1440].map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Until the event starts' : `Until ${formatLeadTime(minutes)} before it starts`}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Invitees */}
           <div>
             <h3 className="mb-4">
@@ -889,8 +1256,8 @@ export function CreateEvent({
                 : 'Add all the people you want to invite. Everyone will receive the invitation at the same time.'}
             </p>
 
-            {/* Add Invitee Form - only show if under limit */}
-            {invitees.length < MAX_INVITEES && (
+            {/* Add Invitee Form - only show if under limit (invitees are fixed once the event exists) */}
+            {!isEditing && invitees.length < MAX_INVITEES && (
             <div className="flex flex-col sm:flex-row gap-2 mb-4">
               <div className="flex-1">
                 <input
@@ -958,7 +1325,7 @@ export function CreateEvent({
             )}
 
             {/* Contact Picker - only show if under limit */}
-            {invitees.length < MAX_INVITEES && availableContacts.length > 0 && (
+            {!isEditing && invitees.length < MAX_INVITEES && availableContacts.length > 0 && (
               <div className="mb-4 bg-gradient-to-r from-indigo-50 to-purple-50 border border-indigo-200 rounded-xl p-4">
                 <button
                   type="button"
@@ -1090,27 +1457,29 @@ export function CreateEvent({
                     </div>
 
                     {/* Status badge - only show in priority mode for first invitee */}
-                    {inviteMode === 'priority' && index === 0 && (
+                    {!isEditing && inviteMode === 'priority' && index === 0 && (
                       <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded">
                         Will be invited first
                       </span>
                     )}
 
                     {/* All Invited badge - show for all in first-come-first-serve mode */}
-                    {inviteMode === 'first-come-first-serve' && (
+                    {!isEditing && inviteMode === 'first-come-first-serve' && (
                       <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded">
                         Will be invited
                       </span>
                     )}
 
-                    <button
-                      type="button"
-                      onClick={() => handleRemoveInvitee(index)}
-                      className="p-2 hover:bg-gray-200 rounded-lg transition-colors"
-                      title="Remove invitee"
-                    >
-                      <X className="w-4 h-4 text-gray-600" />
-                    </button>
+                    {!isEditing && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveInvitee(index)}
+                        className="p-2 hover:bg-gray-200 rounded-lg transition-colors"
+                        title="Remove invitee"
+                      >
+                        <X className="w-4 h-4 text-gray-600" />
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -1143,10 +1512,10 @@ export function CreateEvent({
               {isCreating ? (
                 <>
                   <Loader2 className="w-5 h-5 animate-spin" />
-                  Creating...
+                  {isEditing ? 'Saving...' : isPoll ? 'Sending...' : 'Creating...'}
                 </>
               ) : (
-                'Create Event'
+                isEditing ? 'Save Changes' : isPoll ? 'Send Poll' : 'Create Event'
               )}
             </button>
           </div>
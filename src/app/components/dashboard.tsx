@@ -1,11 +1,20 @@
-import { useState, useEffect } from 'react';
-import { Calendar, LogOut, Plus, User, X, Filter, Users, Settings, CheckCircle, Trash2, Phone, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { Calendar, LogOut, Plus, User, X, Filter, Users, Settings, CheckCircle, Trash2, Phone, Loader2, Search, Vote } from 'lucide-react';
 import { CreateEvent } from './create-event';
 import { EventList } from './event-list';
 import { ContactList } from './contact-list';
+import { EventDetail } from './event-detail';
+import { PollDetail } from './poll-detail';
 import { API_BASE_URL } from '../utils/supabase-client';
 import { supabase } from '../utils/supabase-client';
 import { BookerLogo } from './booker-logo';
+import { navigate, useRoute } from '../utils/router';
+import { routePath, type AppRoute } from '../../lib/routes';
+import { diffInviteeStatuses } from '../../lib/invitee-changes';
+import { buildEventListParams, MAX_EVENTS_PAGE, type EventListFilters } from '../../lib/event-query';
+import type { NotificationDelivery } from '../../lib/notification-outbox';
+import { orderParticipantsForBooking, type PollOptionInput } from '../../lib/polls';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,7 +25,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from './ui/alert-dialog';
-import type { Event, InviteeStatus, Contact } from '../types';
+import type { Event, EventActivity, EventDraft, InviteeStatus, InviteMode, RsvpAnswer, Contact, Poll, RecurrenceScope } from '../types';
 
 interface DashboardProps {
   user: { id: string; email: string; name: string; picture: string };
@@ -25,9 +34,18 @@ interface DashboardProps {
 }
 
 export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
-  const [view, setView] = useState<'list' | 'create' | 'contacts' | 'settings'>('list');
+  const route = useRoute();
+  const view = route.view;
+  const routeEventId = route.view === 'detail' || route.view === 'edit' ? route.eventId : null;
+  const editingEventId = route.view === 'edit' ? route.eventId : null;
+  const routePollId = route.view === 'poll' ? route.pollId : null;
+  // An event opened by URL that is not on the loaded page of the list
+  const [linkedEvent, setLinkedEvent] = useState<Event | null>(null);
+  const [linkedEventMissing, setLinkedEventMissing] = useState(false);
   const [events, setEvents] = useState<Event[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [polls, setPolls] = useState<Poll[]>([]);
+  const [pollsLoaded, setPollsLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
   const [timeZone, setTimeZone] = useState<string>(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
@@ -38,6 +56,12 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
   const [showInviteeFilter, setShowInviteeFilter] = useState(false);
   const [selectedInvitees, setSelectedInvitees] = useState<string[]>([]);
   const [onlyScheduled, setOnlyScheduled] = useState(false);
+  const [roleFilter, setRoleFilter] = useState<'all' | 'organized' | 'invited'>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState(''); // searchInput, debounced
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalEventCount, setTotalEventCount] = useState(0);
+  const [eventCounts, setEventCounts] = useState<{ all: number; today: number; tomorrow: number; week: number; past: number; unconfirmed: number } | null>(null);
   const [showClearNoShowDialog, setShowClearNoShowDialog] = useState(false);
   const [clearingNoShows, setClearingNoShows] = useState(false);
   const [hasMoreEvents, setHasMoreEvents] = useState(true);
@@ -46,6 +70,8 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
   const [userPhoneCountryCode, setUserPhoneCountryCode] = useState<string>('+1');
   const [savingPhone, setSavingPhone] = useState(false);
   const [phoneSaveMessage, setPhoneSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  const [calendarFeedBusy, setCalendarFeedBusy] = useState(false);
   const EVENTS_PER_PAGE = 10;
 
   // Format phone number for display: +1 (555) 123-4567
@@ -108,6 +134,9 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
       priority: inv.priority ?? 0,
       status: inv.status as InviteeStatus,
       invitedAt: inv.invitedAt ?? inv.created_at,
+      respondedAt: inv.respondedAt ?? inv.responded_at,
+      note: inv.note,
+      noteAt: inv.noteAt,
     }));
 
     return {
@@ -124,9 +153,16 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
       invitees,
       inviteMode: rawEvent.inviteMode || 'priority',
       autoPromoteInterval: rawEvent.autoPromoteInterval,
+      expiryNudgeMinutes: rawEvent.expiryNudgeMinutes ?? rawEvent.expiry_nudge_minutes ?? undefined,
+      tentativeHoldMinutes: rawEvent.tentativeHoldMinutes ?? rawEvent.tentative_hold_minutes ?? undefined,
+      withdrawCutoffMinutes: rawEvent.withdrawCutoffMinutes ?? rawEvent.withdraw_cutoff_minutes ?? undefined,
+      reminderOffsets: rawEvent.reminderOffsets ?? rawEvent.reminder_offsets ?? undefined,
       sendOrganizerCalendarInvite: rawEvent.sendOrganizerCalendarInvite ?? true,
       sendInviteesCalendarInvite: rawEvent.sendInviteesCalendarInvite ?? true,
       notifyByPhone: rawEvent.notifyByPhone ?? false,
+      recurrence: rawEvent.recurrence ?? undefined,
+      seriesId: rawEvent.seriesId ?? rawEvent.series_id ?? undefined,
+      occurrenceIndex: rawEvent.occurrenceIndex ?? rawEvent.occurrence_index ?? undefined,
       createdAt: rawEvent.createdAt || rawEvent.created_at || new Date().toISOString(),
     };
   };
@@ -135,8 +171,8 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     console.log('🚀 Dashboard mounted, user:', user.email);
     console.log('📦 Initial accessToken prop:', accessToken?.substring(0, 30));
 
-    fetchEvents();
     fetchContacts();
+    fetchPolls();
     fetchUserPhone();
     testBackendConnection();
 
@@ -159,14 +195,65 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     }
   };
 
+  // Filters and sort for GET /events, from the filter bar
+  const getEventListFilters = (): EventListFilters => {
+    const filters: EventListFilters = {
+      role: roleFilter === 'all' ? undefined : roleFilter,
+      status: onlyScheduled ? 'scheduled' : undefined,
+      invitees: selectedInvitees,
+      search: searchQuery,
+      order: 'asc',
+    };
+
+    if (startDate || endDate) {
+      filters.from = startDate || undefined;
+      filters.to = endDate || undefined;
+      return filters;
+    }
+
+    switch (selectedQuickFilter) {
+      case 'today':
+        filters.from = filters.to = getTodayString();
+        break;
+      case 'tomorrow':
+        filters.from = filters.to = getTomorrowString();
+        break;
+      case 'week': {
+        const weekRange = getThisWeekRange();
+        filters.from = weekRange.start;
+        filters.to = weekRange.end;
+        break;
+      }
+      case 'past':
+        filters.to = getYesterdayString();
+        filters.order = 'desc'; // most recent first
+        break;
+      default:
+        // 'all' - latest dates first
+        filters.order = 'desc';
+        break;
+    }
+    return filters;
+  };
+
+  // Each reset bumps this, so responses for filters that have since changed are dropped
+  const eventsRequestRef = useRef(0);
+
   const fetchEvents = async (reset = true) => {
+    const requestId = reset ? ++eventsRequestRef.current : eventsRequestRef.current;
     try {
       console.log('📥 Fetching events...', reset ? '(initial)' : '(more)');
       const freshToken = await getFreshToken();
       console.log('🔑 Using token for fetch:', freshToken.substring(0, 30) + '...');
       
-      const offset = reset ? 0 : events.length;
-      const response = await fetch(`${API_BASE_URL}/events?limit=${EVENTS_PER_PAGE}&offset=${offset}`, {
+      const weekRange = getThisWeekRange();
+      const params = buildEventListParams(getEventListFilters(), {
+        limit: EVENTS_PER_PAGE,
+        cursor: reset ? null : nextCursor,
+        // Quick-filter counts only change with the filters, so ask for them on the first page
+        countDays: reset ? { today: getTodayString(), weekStart: weekRange.start, weekEnd: weekRange.end } : null,
+      });
+      const response = await fetch(`${API_BASE_URL}/events?${params}`, {
         headers: {
           'Authorization': `Bearer ${freshToken}`,
         },
@@ -179,14 +266,19 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
       }
 
       const data = await response.json();
+      if (requestId !== eventsRequestRef.current) return;
       const normalized = (data.events || []).map((evt: any) => normalizeEvent(evt));
       
       if (reset) {
         setEvents(normalized);
+        if (data.counts) setEventCounts(data.counts);
       } else {
-        setEvents(prev => [...prev, ...normalized]);
+        // A Realtime refresh may have added some of these already
+        setEvents(prev => [...prev, ...normalized.filter((e: Event) => !prev.some((p) => p.id === e.id))]);
       }
       setHasMoreEvents(data.hasMore ?? false);
+      setNextCursor(data.nextCursor ?? null);
+      setTotalEventCount(data.totalCount ?? 0);
     } catch (error) {
       console.error('Error fetching events:', error);
     } finally {
@@ -195,6 +287,169 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     }
   };
 
+  // Reload from the first page whenever a filter changes (and on mount)
+  useEffect(() => {
+    fetchEvents(true);
+  }, [selectedQuickFilter, startDate, endDate, selectedInvitees, onlyScheduled, roleFilter, searchQuery]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Fetch an event opened by URL (e.g. /events/:id from an email) that is not on the loaded page
+  const fetchLinkedEvent = async (eventId: string) => {
+    setLinkedEventMissing(false);
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/events/${encodeURIComponent(eventId)}`, {
+        headers: {
+          Authorization: `Bearer ${freshToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Error fetching event - Status:', response.status, 'Error:', errorText);
+        setLinkedEventMissing(true);
+        return;
+      }
+
+      const data = await response.json();
+      setLinkedEvent(normalizeEvent(data.event));
+    } catch (error) {
+      console.error('Error fetching event:', error);
+      setLinkedEventMissing(true);
+    }
+  };
+
+  // Wait for the first page of events, then fetch the routed event only if it was not on it
+  useEffect(() => {
+    if (!routeEventId || loading) return;
+    if (events.some((e) => e.id === routeEventId) || linkedEvent?.id === routeEventId) return;
+    fetchLinkedEvent(routeEventId);
+  }, [routeEventId, loading]);
+
+  const goTo = (next: AppRoute) => navigate(routePath(next));
+
+  // Live updates. The Realtime handlers are subscribed once, so they read state through refs.
+  const knownEventsRef = useRef<Event[]>([]);
+  knownEventsRef.current = linkedEvent ? [...events, linkedEvent] : events;
+  const realtimeRefreshesRef = useRef(new Map<string, { timer: ReturnType<typeof setTimeout>; addIfNew: boolean }>());
+
+  const toastInviteeChanges = (before: Event, after: Event) => {
+    const isOrganizer = after.organizer.email === user.email;
+    for (const { kind, invitee } of diffInviteeStatuses(before.invitees, after.invitees)) {
+      const isCurrentUser = invitee.email?.toLowerCase() === user.email.toLowerCase();
+      const name = invitee.name || invitee.email || invitee.phone || 'An invitee';
+      if (isCurrentUser) {
+        if (kind === 'promoted') {
+          toast(`You're invited to ${after.title}`, {
+            description: 'A spot opened up for you.',
+            action: { label: 'View', onClick: () => goTo({ view: 'detail', eventId: after.id }) },
+          });
+        }
+      } else if (isOrganizer) {
+        if (kind === 'accepted') {
+          toast.success(`${name} accepted`, { description: after.title });
+        } else if (kind === 'declined') {
+          toast(`${name} declined`, { description: after.title });
+        } else if (kind === 'tentative') {
+          toast(`${name} said maybe`, { description: after.title });
+        } else {
+          toast(`${name} was invited from the queue`, { description: after.title });
+        }
+      }
+    }
+  };
+
+  const removeEventLocally = (eventId: string) => {
+    setEvents((prev) => prev.filter((e) => e.id !== eventId));
+    setLinkedEvent((prev) => (prev?.id === eventId ? null : prev));
+    if (routeEventId === eventId) {
+      setLinkedEventMissing(true);
+    }
+  };
+
+  // Re-read one event after a Realtime change and patch it into state
+  const refreshEventFromRealtime = async (eventId: string, addIfNew: boolean) => {
+    if (!addIfNew && !knownEventsRef.current.some((e) => e.id === eventId)) return;
+
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/events/${encodeURIComponent(eventId)}`, {
+        headers: {
+          Authorization: `Bearer ${freshToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        // 404: cancelled, or no longer visible to this user
+        if (response.status === 404) removeEventLocally(eventId);
+        return;
+      }
+
+      const data = await response.json();
+      const updated = normalizeEvent(data.event);
+      // Compare against state as it is now, so changes we made ourselves don't toast
+      const current = knownEventsRef.current.find((e) => e.id === eventId);
+      if (current) toastInviteeChanges(current, updated);
+
+      setEvents((prev) =>
+        prev.some((e) => e.id === eventId)
+          ? prev.map((e) => (e.id === eventId ? updated : e))
+          : current ? prev : [updated, ...prev]
+      );
+      setLinkedEvent((prev) => (prev?.id === eventId ? updated : prev));
+    } catch (error) {
+      console.error('Error refreshing event:', error);
+    }
+  };
+
+  // One RSVP touches several invitee rows (the response, promotions), so coalesce per event
+  const scheduleRealtimeRefresh = (eventId: string, addIfNew: boolean) => {
+    const pending = realtimeRefreshesRef.current.get(eventId);
+    if (pending) clearTimeout(pending.timer);
+    const timer = setTimeout(() => {
+      const entry = realtimeRefreshesRef.current.get(eventId);
+      realtimeRefreshesRef.current.delete(eventId);
+      refreshEventFromRealtime(eventId, entry?.addIfNew ?? addIfNew);
+    }, 500);
+    realtimeRefreshesRef.current.set(eventId, { timer, addIfNew: addIfNew || !!pending?.addIfNew });
+  };
+
+  const realtimeHandlersRef = useRef({ scheduleRealtimeRefresh, removeEventLocally });
+  realtimeHandlersRef.current = { scheduleRealtimeRefresh, removeEventLocally };
+
+  // Realtime applies RLS per subscriber, so these only deliver the user's own events and invitations
+  useEffect(() => {
+    const channel = supabase
+      .channel(`dashboard:${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'events' }, (payload: any) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old?.id) realtimeHandlersRef.current.removeEventLocally(payload.old.id);
+          return;
+        }
+        realtimeHandlersRef.current.scheduleRealtimeRefresh(payload.new.id, payload.eventType === 'INSERT');
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'event_invitees' }, (payload: any) => {
+        // Deleted rows only carry their id; edits that remove invitees also update the event row
+        if (payload.eventType === 'DELETE' || !payload.new?.event_id) return;
+        realtimeHandlersRef.current.scheduleRealtimeRefresh(payload.new.event_id, payload.eventType === 'INSERT');
+      })
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('Realtime subscription failed:', status);
+        }
+      });
+
+    return () => {
+      realtimeRefreshesRef.current.forEach(({ timer }) => clearTimeout(timer));
+      realtimeRefreshesRef.current.clear();
+      supabase.removeChannel(channel);
+    };
+  }, [user.id]);
+
   const loadMoreEvents = async () => {
     if (loadingMore || !hasMoreEvents) return;
     setLoadingMore(true);
@@ -270,6 +525,59 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     }
   };
 
+  // Personal calendar feed link, created on first request. Regenerating revokes the old link.
+  const fetchCalendarFeed = async (regenerate = false) => {
+    setCalendarFeedBusy(true);
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/calendar-feed${regenerate ? '/regenerate' : ''}`, {
+        method: regenerate ? 'POST' : 'GET',
+        headers: {
+          Authorization: `Bearer ${freshToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        console.error('Error loading calendar feed:', await response.text());
+        toast.error(regenerate ? 'Failed to reset the calendar link' : 'Failed to load your calendar link');
+        return;
+      }
+
+      const data = await response.json();
+      setCalendarFeedUrl(data.url);
+      if (regenerate) {
+        toast.success('New calendar link created', { description: 'Subscribe to it again in your calendar app.' });
+      }
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+      toast.error('Failed to load your calendar link');
+    } finally {
+      setCalendarFeedBusy(false);
+    }
+  };
+
+  const handleRegenerateCalendarFeed = () => {
+    if (!window.confirm('Create a new calendar link? Calendars subscribed to the current link will stop updating.')) return;
+    fetchCalendarFeed(true);
+  };
+
+  const copyCalendarFeedUrl = async () => {
+    if (!calendarFeedUrl) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl);
+      toast.success('Calendar link copied');
+    } catch (error) {
+      console.error('Error copying calendar link:', error);
+      toast.error('Could not copy the link. Select it and copy it by hand.');
+    }
+  };
+
+  useEffect(() => {
+    if (view === 'settings' && !calendarFeedUrl && !calendarFeedBusy) {
+      fetchCalendarFeed();
+    }
+  }, [view]);
+
   const fetchContacts = async () => {
     try {
       console.log('📒 Fetching contacts...');
@@ -328,6 +636,11 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
           addedAt: c.created_at,
           lastInvitedAt: inviteInfo.lastInvitedAt || c.updated_at || c.created_at,
           eventCount: inviteInfo.count,
+          emailUndeliverableAt: c.email_undeliverable_at || undefined,
+          emailUndeliverableReason: c.email_undeliverable_reason || undefined,
+          phoneUndeliverableAt: c.phone_undeliverable_at || undefined,
+          phoneUndeliverableReason: c.phone_undeliverable_reason || undefined,
+          smsOptedOutAt: c.sms_opted_out_at || undefined,
           createdAt: c.created_at,
           updatedAt: c.updated_at,
         };
@@ -496,14 +809,19 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     }
   };
 
-  // Cancel an event with confirmation
-  const handleCancelEvent = (eventId: string) => {
-    const event = events.find(e => e.id === eventId);
+  // Cancel an event with confirmation. For a series occurrence, scope picks which occurrences are cancelled.
+  const handleCancelEvent = (eventId: string, scope: RecurrenceScope = 'this') => {
+    const event = events.find(e => e.id === eventId) ?? (linkedEvent?.id === eventId ? linkedEvent : undefined);
     if (!event) return;
 
+    const scopeLabel = scope === 'all'
+      ? 'every event in this series'
+      : scope === 'following'
+        ? 'this and all following events in the series'
+        : 'the event';
     const confirmed = window.confirm(
       `Are you sure you want to cancel "${event.title}"?\n\n` +
-      `This will permanently delete the event and notify all invitees.\n\n` +
+      `This will permanently delete ${scopeLabel} and notify all invitees.\n\n` +
       `This action cannot be undone.`
     );
 
@@ -512,7 +830,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     const performDelete = async () => {
       try {
         const freshToken = await getFreshToken();
-        const response = await fetch(`${API_BASE_URL}/events/${eventId}`, {
+        const response = await fetch(`${API_BASE_URL}/events/${eventId}?scope=${scope}`, {
           method: 'DELETE',
           headers: {
             Authorization: `Bearer ${freshToken}`,
@@ -526,8 +844,14 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
           return;
         }
 
-        setEvents((prev) => prev.filter((e) => e.id !== eventId));
-        console.log('✅ Event cancelled on backend:', eventId);
+        const data = await response.json();
+        const deletedIds: string[] = data.deletedIds || [eventId];
+        setEvents((prev) => prev.filter((e) => !deletedIds.includes(e.id)));
+        setLinkedEvent((prev) => (prev && deletedIds.includes(prev.id) ? null : prev));
+        if (routeEventId && deletedIds.includes(routeEventId)) {
+          goTo({ view: 'list' });
+        }
+        console.log('✅ Event cancelled on backend:', deletedIds);
       } catch (error) {
         console.error('Error cancelling event:', error);
         alert('An error occurred while deleting the event.');
@@ -563,19 +887,266 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
 
       const data = await response.json();
       const normalized = normalizeEvent({ ...data.event, ...eventData });
-      setEvents((prevEvents) => [normalized, ...prevEvents]);
-      setView('list');
+      // Later occurrences of a series come back separately with their own (not yet started) queues
+      const occurrences = (data.occurrences || []).map(normalizeEvent);
+      // A Realtime refresh may already have added them
+      const createdIds = new Set([normalized.id, ...occurrences.map((e: Event) => e.id)]);
+      setEvents((prevEvents) => [normalized, ...occurrences, ...prevEvents.filter((e) => !createdIds.has(e.id))]);
+      goTo({ view: 'list' });
     } catch (error) {
       console.error('Error creating event:', error);
       alert('An error occurred while creating the event.');
     }
   };
 
+  // Find-a-time polls the user organizes
+  const fetchPolls = async () => {
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/polls`, {
+        headers: {
+          Authorization: `Bearer ${freshToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching polls:', await response.text());
+        return;
+      }
+
+      const data = await response.json();
+      setPolls(data.polls || []);
+    } catch (error) {
+      console.error('Error fetching polls:', error);
+    } finally {
+      setPollsLoaded(true);
+    }
+  };
+
+  const handleCreatePoll = async (pollData: EventDraft & { pollOptions: PollOptionInput[] }) => {
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/polls`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${freshToken}`,
+        },
+        body: JSON.stringify(pollData),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        console.error('Error creating poll - Status:', response.status, 'Error:', data.error);
+        toast.error(data.error || 'Failed to create the poll. Please try again.');
+        return;
+      }
+
+      setPolls((prevPolls) => [data.poll, ...prevPolls]);
+      // The server added any new people to the address book
+      fetchContacts();
+      toast.success('Poll sent', { description: 'Everyone got a link to vote on the times.' });
+      goTo({ view: 'poll', pollId: data.poll.id });
+    } catch (error) {
+      console.error('Error creating poll:', error);
+      toast.error('An error occurred while creating the poll.');
+    }
+  };
+
+  // Book one of the poll's times as a normal event; voters who said no are left off the queue
+  const handleBookPoll = async (poll: Poll, optionId: string, inviteMode: InviteMode) => {
+    const option = poll.options.find((o) => o.id === optionId);
+    if (!option) return;
+
+    const queue = orderParticipantsForBooking(poll.participants, poll.votes, optionId);
+    if (queue.length === 0) {
+      toast.error('Everyone said no to that time.');
+      return;
+    }
+
+    const eventData = {
+      ...poll.draft,
+      title: poll.title,
+      description: poll.description,
+      location: poll.location,
+      timeZone: poll.timeZone,
+      date: option.date,
+      time: option.time,
+      inviteMode,
+      autoPromoteInterval: inviteMode === 'priority' ? (poll.draft.autoPromoteInterval ?? 30) : undefined,
+      invitees: queue.map((participant, index) => ({
+        name: participant.name,
+        email: participant.email,
+        phone: participant.phone,
+        priority: index,
+        status: 'pending' as InviteeStatus,
+      })),
+      pollId: poll.id,
+      pollOptionId: optionId,
+    };
+
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/events`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${freshToken}`,
+        },
+        body: JSON.stringify(eventData),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error('Error booking poll - Status:', response.status, 'Error:', data.error);
+        toast.error(data.error || 'Failed to book the poll. Please try again.');
+        if (response.status === 409) fetchPolls();
+        return;
+      }
+
+      const data = await response.json();
+      const normalized = normalizeEvent({ ...data.event, ...eventData });
+      setEvents((prevEvents) => [normalized, ...prevEvents.filter((e) => e.id !== normalized.id)]);
+      setPolls((prevPolls) => prevPolls.map((p) =>
+        p.id === poll.id ? { ...p, status: 'booked', bookedOptionId: optionId, eventId: normalized.id } : p
+      ));
+      toast.success('Event booked', { description: `Invitations to ${poll.title} are on their way.` });
+      goTo({ view: 'detail', eventId: normalized.id });
+    } catch (error) {
+      console.error('Error booking poll:', error);
+      toast.error('An error occurred while booking the poll.');
+    }
+  };
+
+  const handleDeletePoll = async (pollId: string) => {
+    if (!window.confirm('Delete this poll? Vote links stop working.')) return;
+    try {
+      const freshToken = await getFreshToken();
+      const response = await fetch(`${API_BASE_URL}/polls/${encodeURIComponent(pollId)}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${freshToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        console.error('Error deleting poll:', await response.text());
+        toast.error('Failed to delete the poll');
+        return;
+      }
+
+      setPolls((prevPolls) => prevPolls.filter((p) => p.id !== pollId));
+      goTo({ view: 'list' });
+    } catch (error) {
+      console.error('Error deleting poll:', error);
+      toast.error('Failed to delete the poll');
+    }
+  };
+
+  // Auto-promote history for one event (organizer only); loaded when the card asks for it
+  const loadEventActivity = async (eventId: string): Promise<EventActivity[]> => {
+    const freshToken = await getFreshToken();
+    const response = await fetch(`${API_BASE_URL}/events/${eventId}/activity`, {
+      headers: {
+        Authorization: `Bearer ${freshToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error fetching event activity:', errorText);
+      throw new Error('Failed to load activity');
+    }
+
+    const data = await response.json();
+    return data.activity || [];
+  };
+
+  // Emails/SMS sent for one event and their delivery status (organizer only)
+  const loadEventNotifications = async (eventId: string): Promise<NotificationDelivery[]> => {
+    const freshToken = await getFreshToken();
+    const response = await fetch(`${API_BASE_URL}/events/${eventId}/notifications`, {
+      headers: {
+        Authorization: `Bearer ${freshToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error fetching event notifications:', errorText);
+      throw new Error('Failed to load notifications');
+    }
+
+    const data = await response.json();
+    return data.notifications || [];
+  };
+
+  // Open the event form pre-filled with an existing event
+  const handleEditEvent = (eventId: string) => {
+    goTo({ view: 'edit', eventId });
+  };
+
+  const handleOpenEvent = (eventId: string) => {
+    goTo({ view: 'detail', eventId });
+  };
+
+  const handleUpdateEvent = async (
+    eventData: Omit<Event, 'id' | 'organizer' | 'createdAt'>,
+    options?: { scope?: RecurrenceScope }
+  ) => {
+    if (!editingEventId) return;
+
+    try {
+      const freshToken = await getFreshToken();
+      const scope = options?.scope ?? 'this';
+      const response = await fetch(`${API_BASE_URL}/events/${editingEventId}?scope=${scope}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${freshToken}`,
+        },
+        body: JSON.stringify(eventData),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error('Error updating event - Status:', response.status, 'Error:', error);
+        let message = 'Failed to update event. Please try again.';
+        try {
+          const parsed = JSON.parse(error);
+          if (parsed?.error) message = parsed.error;
+        } catch {
+          // Non-JSON error body; keep the generic message
+        }
+        alert(message);
+        return;
+      }
+
+      const data = await response.json();
+      // A series edit returns every occurrence it touched
+      const updated: Event[] = (data.events || [data.event]).map(normalizeEvent);
+      const updatedById = new Map(updated.map((e) => [e.id, e]));
+      setEvents((prevEvents) =>
+        prevEvents.map((e) => updatedById.get(e.id) ?? e)
+      );
+      setLinkedEvent((prev) => (prev && updatedById.get(prev.id)) ?? prev);
+      console.log('✅ Event updated:', editingEventId, 'occurrences:', updated.length, 'notified:', data.notifiedCount);
+      goTo({ view: 'detail', eventId: editingEventId });
+    } catch (error) {
+      console.error('Error updating event:', error);
+      alert('An error occurred while updating the event.');
+    }
+  };
+
   const handleUpdateInviteeStatus = async (
     eventId: string,
     inviteeEmail: string,
-    status: InviteeStatus
+    status: RsvpAnswer
   ) => {
+    if (status === 'withdrawn' && !window.confirm('Give up your spot? The next person in line will be invited.')) {
+      return;
+    }
+
     try {
       const freshToken = await getFreshToken();
       const response = await fetch(
@@ -604,32 +1175,39 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
           event.id === eventId ? { ...normalized, inviteMode: event.inviteMode ?? normalized.inviteMode } : event
         )
       );
+      setLinkedEvent((prev) =>
+        prev?.id === eventId ? { ...normalized, inviteMode: prev.inviteMode ?? normalized.inviteMode } : prev
+      );
     } catch (error) {
       console.error('Error updating invitee status:', error);
       alert('An error occurred while updating the status.');
     }
   };
 
-  // Get no-show events (past events with no confirmed attendees)
-  const getNoShowEvents = () => {
-    const now = new Date();
-    return events.filter((event) => {
-      // Combine date and time for accurate comparison
-      const eventDateTime = new Date(`${event.date}T${event.time || '23:59'}`);
-      // Event is in the past (must be fully past, not just date)
-      if (eventDateTime >= now) return false;
-      // No accepted invitees
-      const hasAccepted = event.invitees?.some(
-        (inv) => inv.status === 'accepted'
-      );
-      return !hasAccepted;
-    });
+  // Clear no-show events
+  // Past events the user organized that nobody accepted, across all pages (not just loaded ones)
+  const fetchNoShowEventIds = async (token: string): Promise<string[]> => {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const params = buildEventListParams({ role: 'organized', status: 'unconfirmed' }, { limit: MAX_EVENTS_PAGE, cursor });
+      const response = await fetch(`${API_BASE_URL}/events?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to list past events: ${response.status}`);
+      }
+      const data = await response.json();
+      ids.push(...(data.events || []).map((event: any) => event.id));
+      cursor = data.nextCursor ?? null;
+    } while (cursor);
+    return ids;
   };
 
-  // Clear no-show events
   const handleClearNoShowEvents = async () => {
-    const noShowEvents = getNoShowEvents();
-    if (noShowEvents.length === 0) {
+    if (!noShowCount) {
       alert('No past events without confirmed attendees found.');
       setShowClearNoShowDialog(false);
       return;
@@ -638,10 +1216,11 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     setClearingNoShows(true);
     try {
       const freshToken = await getFreshToken();
+      const noShowEventIds = await fetchNoShowEventIds(freshToken);
       let deletedCount = 0;
       
-      for (const event of noShowEvents) {
-        const response = await fetch(`${API_BASE_URL}/events/${event.id}`, {
+      for (const eventId of noShowEventIds) {
+        const response = await fetch(`${API_BASE_URL}/events/${eventId}`, {
           method: 'DELETE',
           headers: {
             'Authorization': `Bearer ${freshToken}`,
@@ -651,7 +1230,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
         if (response.ok) {
           deletedCount++;
         } else {
-          console.error(`Failed to delete event ${event.id}`);
+          console.error(`Failed to delete event ${eventId}`);
         }
       }
 
@@ -673,6 +1252,13 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     return today.toISOString().split('T')[0];
   };
 
+  // Get yesterday's date string (the last day of the "past" filter)
+  const getYesterdayString = () => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    return yesterday.toISOString().split('T')[0];
+  };
+
   // Get tomorrow's date string
   const getTomorrowString = () => {
     const tomorrow = new Date();
@@ -699,39 +1285,21 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     };
   };
 
-  // Count events for each quick filter
-  const countEventsByFilter = () => {
-    const todayStr = getTodayString();
-    const tomorrowStr = getTomorrowString();
-    const weekRange = getThisWeekRange();
-    const today = new Date();
-    
-    const todayDateStr = todayStr; // YYYY-MM-DD format
-    return {
-      today: events.filter(e => e.date === todayStr).length,
-      tomorrow: events.filter(e => e.date === tomorrowStr).length,
-      week: events.filter(e => e.date >= weekRange.start && e.date <= weekRange.end).length,
-      past: events.filter(e => e.date < todayDateStr).length,
-    };
-  };
-
-  // Get all unique invitees from all events
+  // Invitees to filter by: everyone in the user's contacts (loaded events are already filtered)
   const getAllInvitees = () => {
     const inviteeMap = new Map<string, { identifier: string; email?: string; phone?: string; name: string }>();
     
-    events.forEach(event => {
-      event.invitees.forEach(invitee => {
-        // Use email or phone as identifier
-        const identifier = invitee.email || invitee.phone || '';
-        if (identifier && !inviteeMap.has(identifier)) {
-          inviteeMap.set(identifier, {
-            identifier,
-            email: invitee.email,
-            phone: invitee.phone,
-            name: invitee.name,
-          });
-        }
-      });
+    contacts.forEach(contact => {
+      // Use email or phone as identifier
+      const identifier = contact.email?.toLowerCase() || contact.phone || '';
+      if (identifier && !inviteeMap.has(identifier)) {
+        inviteeMap.set(identifier, {
+          identifier,
+          email: contact.email,
+          phone: contact.phone,
+          name: contact.name,
+        });
+      }
     });
     
     return Array.from(inviteeMap.values()).sort((a, b) => 
@@ -750,80 +1318,17 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
     });
   };
 
-  const isEventScheduled = (event: Event) =>
-    event.invitees.some(invitee => invitee.status === 'accepted');
-
   // Clear invitee filter
   const clearInviteeFilter = () => {
     setSelectedInvitees([]);
   };
 
-  // Filter events based on quick filter selection
-  const getFilteredEventsByQuickFilter = () => {
-    let eventsToFilter = events;
-
-    // Apply date filtering
-    if (startDate || endDate) {
-      // Date range filter is active
-      eventsToFilter = eventsToFilter.filter(event => {
-        try {
-          const eventDate = event.date;
-          if (!eventDate) return false;
-          
-          if (startDate && !endDate) {
-            return eventDate >= startDate;
-          }
-          
-          if (!startDate && endDate) {
-            return eventDate <= endDate;
-          }
-          
-          return eventDate >= startDate && eventDate <= endDate;
-        } catch (error) {
-          return false;
-        }
-      });
-    } else {
-      // Quick filter is active
-      switch (selectedQuickFilter) {
-        case 'today':
-          eventsToFilter = eventsToFilter.filter(e => e.date === getTodayString());
-          break;
-        case 'tomorrow':
-          eventsToFilter = eventsToFilter.filter(e => e.date === getTomorrowString());
-          break;
-        case 'week':
-          const weekRange = getThisWeekRange();
-          eventsToFilter = eventsToFilter.filter(e => e.date >= weekRange.start && e.date <= weekRange.end);
-          break;
-        case 'past':
-          const todayDateStr = getTodayString();
-          eventsToFilter = eventsToFilter.filter(e => e.date < todayDateStr);
-          break;
-        default:
-          // 'all' - no filtering
-          break;
-      }
-    }
-
-    // Apply invitee filtering
-    if (selectedInvitees.length > 0) {
-      eventsToFilter = eventsToFilter.filter(event => 
-        event.invitees.some(invitee => {
-          const identifier = invitee.email || invitee.phone || '';
-          return selectedInvitees.includes(identifier);
-        })
-      );
-    }
-
-    if (onlyScheduled) {
-      eventsToFilter = eventsToFilter.filter(isEventScheduled);
-    }
-
-    return eventsToFilter;
-  };
-
-  const filteredEvents = getFilteredEventsByQuickFilter();
+  const routeEvent = routeEventId
+    ? events.find((e) => e.id === routeEventId) ?? (linkedEvent?.id === routeEventId ? linkedEvent : undefined)
+    : undefined;
+  const editingEvent = editingEventId ? routeEvent : undefined;
+  const routePoll = routePollId ? polls.find((p) => p.id === routePollId) : undefined;
+  const noShowCount = eventCounts?.unconfirmed ?? 0;
 
   // Clear all filters
   const handleClearFilters = () => {
@@ -875,7 +1380,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                 </p>
               </div>
               <button
-                onClick={() => setView('settings')}
+                onClick={() => goTo({ view: 'settings' })}
                 className="px-4 py-1.5 bg-amber-600 text-white text-sm rounded-lg hover:bg-amber-700 transition-colors whitespace-nowrap"
               >
                 Go to Settings
@@ -890,7 +1395,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex items-center justify-between">
             <button 
-              onClick={() => setView('list')}
+              onClick={() => goTo({ view: 'list' })}
               className="flex items-center gap-3 hover:opacity-80 transition-opacity"
             >
               <BookerLogo className="w-8 h-8 text-indigo-600" />
@@ -910,7 +1415,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                 </div>
               </div>
               <button
-                onClick={() => setView('settings')}
+                onClick={() => goTo({ view: 'settings' })}
                 className={`p-2 rounded-lg transition-colors ${
                   view === 'settings' ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-100 text-gray-700'
                 }`}
@@ -935,9 +1440,9 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <nav className="flex gap-4 min-w-max">
             <button
-              onClick={() => setView('list')}
+              onClick={() => goTo({ view: 'list' })}
               className={`px-4 py-3 border-b-2 transition-colors ${
-                view === 'list'
+                view === 'list' || view === 'detail' || view === 'poll'
                   ? 'border-indigo-600 text-indigo-600'
                   : 'border-transparent text-gray-600 hover:text-gray-900'
               }`}
@@ -945,7 +1450,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
               My Events
             </button>
             <button
-              onClick={() => setView('create')}
+              onClick={() => goTo({ view: 'create' })}
               className={`px-4 py-3 border-b-2 transition-colors flex items-center gap-2 ${
                 view === 'create'
                   ? 'border-indigo-600 text-indigo-600'
@@ -956,7 +1461,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
               Create Event
             </button>
             <button
-              onClick={() => setView('contacts')}
+              onClick={() => goTo({ view: 'contacts' })}
               className={`px-4 py-3 border-b-2 transition-colors flex items-center gap-2 ${
                 view === 'contacts'
                   ? 'border-indigo-600 text-indigo-600'
@@ -981,6 +1486,31 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                 <h3 className="font-semibold text-gray-900">Filters</h3>
               </div>
               <div className="flex flex-wrap items-center gap-2">
+                {/* Text Search */}
+                <div className="relative">
+                  <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+                  <input
+                    type="search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search events"
+                    maxLength={100}
+                    className="w-40 sm:w-48 pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                </div>
+
+                {/* Role Filter */}
+                <select
+                  value={roleFilter}
+                  onChange={(e) => setRoleFilter(e.target.value as 'all' | 'organized' | 'invited')}
+                  className="px-3 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:border-indigo-300 transition-colors text-sm sm:text-base"
+                  aria-label="Show events"
+                >
+                  <option value="all">All events</option>
+                  <option value="organized">Organized by me</option>
+                  <option value="invited">Invited to</option>
+                </select>
+
                 {/* Invitee Filter Button */}
                 <div className="relative">
                   <button
@@ -1200,7 +1730,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                 </div>
 
                 {/* Clear Past Events Button - only show if there are unconfirmed past events */}
-                {getNoShowEvents().length > 0 && (
+                {noShowCount > 0 && (
                   <button
                     onClick={() => setShowClearNoShowDialog(true)}
                     className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-white text-red-600 border border-red-200 rounded-lg hover:border-red-400 hover:bg-red-50 transition-colors text-sm sm:text-base"
@@ -1209,7 +1739,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                     <Trash2 className="w-4 h-4" />
                     <span className="hidden sm:inline">Clear Past</span><span className="sm:hidden">Clear</span>
                     <span className="ml-1 px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">
-                      {getNoShowEvents().length}
+                      {noShowCount}
                     </span>
                   </button>
                 )}
@@ -1229,7 +1759,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                     : 'bg-white text-gray-700 border border-gray-300 hover:border-indigo-300 hover:bg-indigo-50'
                 }`}
               >
-                All ({events.length})
+                All ({eventCounts?.all ?? events.length})
               </button>
               <button
                 onClick={() => {
@@ -1243,7 +1773,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                     : 'bg-white text-gray-700 border border-gray-300 hover:border-indigo-300 hover:bg-indigo-50'
                 }`}
               >
-                Today ({countEventsByFilter().today})
+                Today ({eventCounts?.today ?? 0})
               </button>
               <button
                 onClick={() => {
@@ -1257,7 +1787,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                     : 'bg-white text-gray-700 border border-gray-300 hover:border-indigo-300 hover:bg-indigo-50'
                 }`}
               >
-                Tomorrow ({countEventsByFilter().tomorrow})
+                Tomorrow ({eventCounts?.tomorrow ?? 0})
               </button>
               <button
                 onClick={() => {
@@ -1271,7 +1801,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                     : 'bg-white text-gray-700 border border-gray-300 hover:border-indigo-300 hover:bg-indigo-50'
                 }`}
               >
-                Week ({countEventsByFilter().week})
+                Week ({eventCounts?.week ?? 0})
               </button>
               <button
                 onClick={() => {
@@ -1285,7 +1815,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
                     : 'bg-white text-gray-700 border border-gray-300 hover:border-indigo-300 hover:bg-indigo-50'
                 }`}
               >
-                Past ({countEventsByFilter().past})
+                Past ({eventCounts?.past ?? 0})
               </button>
             </div>
             
@@ -1293,7 +1823,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
             {(startDate || endDate) && (
               <div className="mt-3 px-4 py-2 bg-indigo-50 border border-indigo-200 rounded-lg flex items-center justify-between">
                 <p className="text-sm text-indigo-900">
-                  Showing {filteredEvents.length} event{filteredEvents.length !== 1 ? 's' : ''} 
+                  Showing {totalEventCount} event{totalEventCount !== 1 ? 's' : ''} 
                   {startDate && endDate && ` from ${formatDateDisplay(startDate)} to ${formatDateDisplay(endDate)}`}
                   {startDate && !endDate && ` from ${formatDateDisplay(startDate)} onwards`}
                   {!startDate && endDate && ` up to ${formatDateDisplay(endDate)}`}
@@ -1309,12 +1839,41 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
           </div>
         )}
         
+        {view === 'list' && polls.some((p) => p.status === 'open') && (
+          <div className="mb-6 bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Vote className="w-5 h-5 text-teal-600" />
+              <h3 className="font-semibold text-gray-900">Finding a time</h3>
+            </div>
+            <div className="space-y-2">
+              {polls.filter((p) => p.status === 'open').map((poll) => {
+                const answered = new Set(poll.votes.map((vote) => vote.participantId)).size;
+                return (
+                  <button
+                    key={poll.id}
+                    onClick={() => goTo({ view: 'poll', pollId: poll.id })}
+                    className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-gray-200 hover:bg-gray-50 text-left"
+                  >
+                    <span className="text-gray-900">{poll.title}</span>
+                    <span className="text-sm text-gray-500">
+                      {poll.options.length} times · {answered}/{poll.participants.length} answered
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {view === 'list' ? (
           <EventList
-            events={filteredEvents}
+            events={events}
             currentUser={user}
             onUpdateInviteeStatus={handleUpdateInviteeStatus}
             onCancelEvent={handleCancelEvent}
+            onEditEvent={handleEditEvent}
+            onOpenEvent={handleOpenEvent}
+            onLoadActivity={loadEventActivity}
             hasMore={hasMoreEvents}
             loadingMore={loadingMore}
             onLoadMore={loadMoreEvents}
@@ -1325,8 +1884,75 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
             contacts={contacts}
             timeZone={timeZone}
             onCreateEvent={handleCreateEvent}
-            onCancel={() => setView('list')}
+            onCreatePoll={handleCreatePoll}
+            onCancel={() => goTo({ view: 'list' })}
+          />
+        ) : view === 'detail' && routeEvent ? (
+          <EventDetail
+            key={routeEvent.id}
+            event={routeEvent}
+            currentUser={user}
+            onBack={() => goTo({ view: 'list' })}
+            onUpdateInviteeStatus={handleUpdateInviteeStatus}
+            onCancelEvent={handleCancelEvent}
+            onEditEvent={handleEditEvent}
+            onLoadActivity={loadEventActivity}
+            onLoadNotifications={loadEventNotifications}
+          />
+        ) : view === 'edit' && editingEvent ? (
+          <CreateEvent
+            key={editingEvent.id}
+            currentUser={user}
+            contacts={contacts}
+            timeZone={timeZone}
+            initialEvent={editingEvent}
+            onCreateEvent={handleUpdateEvent}
+            onCancel={() => goTo({ view: 'detail', eventId: editingEvent.id })}
           />
+        ) : view === 'detail' || view === 'edit' ? (
+          // Routed event still loading, or not visible to this user
+          <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+            {linkedEventMissing ? (
+              <>
+                <p className="text-gray-500 mb-4">This event doesn't exist or has been cancelled.</p>
+                <button
+                  onClick={() => goTo({ view: 'list' })}
+                  className="px-4 py-2 text-sm rounded-lg border border-gray-300 hover:bg-gray-50"
+                >
+                  Back to events
+                </button>
+              </>
+            ) : (
+              <Loader2 className="w-6 h-6 animate-spin text-indigo-600 mx-auto" />
+            )}
+          </div>
+        ) : view === 'poll' ? (
+          routePoll ? (
+            <PollDetail
+              key={routePoll.id}
+              poll={routePoll}
+              onBack={() => goTo({ view: 'list' })}
+              onBook={handleBookPoll}
+              onDelete={handleDeletePoll}
+              onOpenEvent={handleOpenEvent}
+            />
+          ) : (
+            <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+              {pollsLoaded ? (
+                <>
+                  <p className="text-gray-500 mb-4">This poll doesn't exist or has been deleted.</p>
+                  <button
+                    onClick={() => goTo({ view: 'list' })}
+                    className="px-4 py-2 text-sm rounded-lg border border-gray-300 hover:bg-gray-50"
+                  >
+                    Back to events
+                  </button>
+                </>
+              ) : (
+                <Loader2 className="w-6 h-6 animate-spin text-indigo-600 mx-auto" />
+              )}
+            </div>
+          )
         ) : view === 'contacts' ? (
           <ContactList
             contacts={contacts}
@@ -1431,9 +2057,53 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
               )}
             </div>
 
+            {/* Calendar feed: a private link calendar apps can subscribe to */}
+            <div className="p-4 border border-gray-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <Calendar className="w-4 h-4 text-indigo-600" />
+                <p className="text-sm font-semibold text-gray-900">Calendar Feed</p>
+              </div>
+              <p className="text-xs text-gray-600 mb-3">
+                Subscribe to this link in Google Calendar, Apple Calendar or Outlook to see the events you organize and the ones you accepted.
+                Keep it private: anyone with the link can see those events.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={calendarFeedUrl ?? ''}
+                  placeholder={calendarFeedBusy ? 'Loading...' : ''}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-xs font-mono text-gray-700 outline-none min-w-0"
+                />
+                <button
+                  onClick={copyCalendarFeedUrl}
+                  disabled={!calendarFeedUrl}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 w-full sm:w-auto"
+                >
+                  Copy
+                </button>
+                {calendarFeedUrl && (
+                  <a
+                    href={calendarFeedUrl.replace(/^https?:/, 'webcal:')}
+                    className="px-4 py-2 text-center border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors w-full sm:w-auto"
+                  >
+                    Subscribe
+                  </a>
+                )}
+              </div>
+              <button
+                onClick={handleRegenerateCalendarFeed}
+                disabled={calendarFeedBusy}
+                className="mt-3 text-xs text-red-600 hover:underline disabled:opacity-50"
+              >
+                Reset link
+              </button>
+            </div>
+
             <div className="flex justify-end">
               <button
-                onClick={() => setView('list')}
+                onClick={() => goTo({ view: 'list' })}
                 className="px-4 py-2 text-sm rounded-lg border border-gray-300 hover:bg-gray-50"
               >
                 Back to events
@@ -1449,7 +2119,7 @@ export function Dashboard({ user, accessToken, onLogout }: DashboardProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>Clear Past Events?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete <strong>{getNoShowEvents().length}</strong> past event{getNoShowEvents().length !== 1 ? 's' : ''} where no one accepted the invitation.
+              This will permanently delete <strong>{noShowCount}</strong> past event{noShowCount !== 1 ? 's' : ''} where no one accepted the invitation.
               <br /><br />
               This action cannot be undone.
             </AlertDialogDescription>
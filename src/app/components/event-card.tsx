@@ -1,6 +1,10 @@
-import { Calendar, Clock, MapPin, User, ChevronDown, ChevronUp, Users, Zap, Timer, Trash2, CheckCircle, XCircle, AlertCircle, CalendarDays, Mail, Phone } from 'lucide-react';
+import { Calendar, Clock, MapPin, User, ChevronDown, ChevronUp, Users, Zap, Timer, Trash2, Pencil, CheckCircle, XCircle, AlertCircle, CalendarDays, Mail, Phone, Repeat, History, MessageSquare } from 'lucide-react';
 import { useState } from 'react';
-import type { Event, InviteeStatus, ConfirmationStatus, TimeStatus } from '../types';
+import type { Event, EventActivity, InviteeStatus, RsvpAnswer, ConfirmationStatus, TimeStatus, RecurrenceScope } from '../types';
+import { describeRecurrence } from '../../lib/recurrence';
+import { routePath } from '../../lib/routes';
+import { getWithdrawDeadline } from '../../lib/rsvp-logic';
+import { formatEventDate, formatEventTime, wallClockElsewhere, zoneAbbreviation, zonedDateTimeToUtcMs } from '../../lib/zoned-time';
 
 interface EventCardProps {
   event: Event;
@@ -8,9 +12,12 @@ interface EventCardProps {
   onUpdateInviteeStatus: (
     eventId: string,
     inviteeEmail: string,
-    status: InviteeStatus
+    status: RsvpAnswer
   ) => void;
-  onCancelEvent?: (eventId: string) => void;
+  onCancelEvent?: (eventId: string, scope?: RecurrenceScope) => void;
+  onEditEvent?: (eventId: string) => void;
+  onOpenEvent?: (eventId: string) => void;
+  onLoadActivity?: (eventId: string) => Promise<EventActivity[]>;
   confirmationStatus: ConfirmationStatus;
   timeStatus: TimeStatus;
 }
@@ -20,35 +27,48 @@ export function EventCard({
   currentUser,
   onUpdateInviteeStatus,
   onCancelEvent,
+  onEditEvent,
+  onOpenEvent,
+  onLoadActivity,
   confirmationStatus,
   timeStatus,
 }: EventCardProps) {
   const [expanded, setExpanded] = useState(false);
+  const [choosingCancelScope, setChoosingCancelScope] = useState(false);
+  const [activity, setActivity] = useState<EventActivity[] | null>(null);
+  const [showActivity, setShowActivity] = useState(false);
+  const [loadingActivity, setLoadingActivity] = useState(false);
   
   const isOrganizer = event.organizer.email === currentUser.email;
   const currentUserInvitee = event.invitees.find(
     (inv) => inv.email?.toLowerCase() === currentUser.email.toLowerCase()
   );
   const isAcceptedByCurrentUser = currentUserInvitee?.status === 'accepted';
+  // Times are shown in the event's zone, plus the viewer's clock when that differs
+  const startMs = zonedDateTimeToUtcMs(event.date, event.time, event.timeZone);
+  const viewerStart = wallClockElsewhere(event.date, event.time, event.timeZone, Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const canWithdraw = isAcceptedByCurrentUser &&
+    Date.now() < getWithdrawDeadline(startMs, event.withdrawCutoffMinutes ?? 0).getTime();
 
-  const formatDate = (dateStr: string) => {
-    // Parse as local date to avoid timezone shift (YYYY-MM-DD parsed as UTC otherwise)
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day); // month is 0-indexed
-    return date.toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  };
+  const formatActivityTime = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  // Fetch the activity log the first time it is opened
+  const toggleActivity = async () => {
+    const opening = !showActivity;
+    setShowActivity(opening);
+    if (!opening || activity || !onLoadActivity) return;
 
-  const formatTime = (timeStr: string) => {
-    // timeStr is in HH:MM format (24-hour)
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    const period = hours >= 12 ? 'PM' : 'AM';
-    const displayHours = hours % 12 || 12; // Convert 0 to 12 for midnight
-    return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}`;
+    setLoadingActivity(true);
+    try {
+      setActivity(await onLoadActivity(event.id));
+    } catch (error) {
+      console.error('Error loading activity:', error);
+      setShowActivity(false);
+      alert('Failed to load activity. Please try again.');
+    } finally {
+      setLoadingActivity(false);
+    }
   };
 
   // Format phone number for display: +1 (555) 123-4567
@@ -82,6 +102,8 @@ export function EventCard({
         return 'bg-green-100 text-green-700';
       case 'declined':
         return 'bg-red-100 text-red-700';
+      case 'tentative':
+        return 'bg-amber-100 text-amber-700';
       case 'pending':
         return 'bg-gray-100 text-gray-700';
       default:
@@ -97,6 +119,8 @@ export function EventCard({
         return 'Accepted';
       case 'declined':
         return 'Declined';
+      case 'tentative':
+        return 'Maybe';
       case 'pending':
         return 'In Queue';
       default:
@@ -204,7 +228,22 @@ export function EventCard({
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
-              <h3 className="mb-0">{event.title}</h3>
+              {onOpenEvent ? (
+                <a
+                  href={routePath({ view: 'detail', eventId: event.id })}
+                  onClick={(e) => {
+                    // Plain clicks stay in the app; modified clicks open a new tab as usual
+                    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+                    e.preventDefault();
+                    onOpenEvent(event.id);
+                  }}
+                  className="hover:text-indigo-600 transition-colors"
+                >
+                  <h3 className="mb-0">{event.title}</h3>
+                </a>
+              ) : (
+                <h3 className="mb-0">{event.title}</h3>
+              )}
               {/* Invite Mode Badge */}
               {event.inviteMode === 'first-come-first-serve' ? (
                 <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full flex items-center gap-1">
@@ -222,6 +261,13 @@ export function EventCard({
                 <Users className="w-3 h-3" />
                 {event.invitees.filter(inv => inv.status === 'accepted').length}/{event.spots ?? 1} {(event.spots ?? 1) === 1 ? 'spot' : 'spots'}
               </span>
+              {/* Series Badge - recurring events */}
+              {event.recurrence && (
+                <span className="px-2 py-1 bg-teal-100 text-teal-700 text-xs rounded-full flex items-center gap-1">
+                  <Repeat className="w-3 h-3" />
+                  {describeRecurrence(event.recurrence)}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
               <User className="w-4 h-4" />
@@ -249,11 +295,19 @@ export function EventCard({
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
           <div className="flex items-center gap-2 text-sm text-gray-600">
             <Calendar className="w-4 h-4" />
-            <span>{formatDate(event.date)}</span>
+            <span>{formatEventDate(event.date, { year: true })}</span>
           </div>
           <div className="flex items-center gap-2 text-sm text-gray-600">
             <Clock className="w-4 h-4" />
-            <span>{formatTime(event.time)}</span>
+            <span>
+              {formatEventTime(event.time)} {zoneAbbreviation(startMs, event.timeZone)}
+              {viewerStart && (
+                <span className="text-gray-400">
+                  {' '}· {formatEventTime(viewerStart.time)}
+                  {viewerStart.date !== event.date ? ` ${formatEventDate(viewerStart.date)}` : ''} your time
+                </span>
+              )}
+            </span>
           </div>
           {event.location && (
             <div className="flex items-center gap-2 text-sm text-gray-600 sm:col-span-2">
@@ -296,11 +350,13 @@ export function EventCard({
         )}
 
         {/* Response Actions for Invitees */}
-        {currentUserInvitee && currentUserInvitee.status === 'invited' && (
+        {currentUserInvitee && (currentUserInvitee.status === 'invited' || currentUserInvitee.status === 'tentative') && (
           <div className="flex gap-3 mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
             <div className="flex-1">
               <p className="text-sm mb-2">
-                You've been invited to this event!
+                {currentUserInvitee.status === 'tentative'
+                  ? "You said maybe. Let the organizer know once you're sure."
+                  : "You've been invited to this event!"}
               </p>
             </div>
             <div className="flex gap-2">
@@ -320,10 +376,31 @@ export function EventCard({
               >
                 Decline
               </button>
+              {currentUserInvitee.status === 'invited' && (
+                <button
+                  onClick={() =>
+                    onUpdateInviteeStatus(event.id, currentUser.email, 'tentative')
+                  }
+                  className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors text-sm"
+                >
+                  Maybe
+                </button>
+              )}
             </div>
           </div>
         )}
 
+        {canWithdraw && (
+          <div className="flex justify-end mb-4">
+            <button
+              onClick={() => onUpdateInviteeStatus(event.id, currentUser.email, 'withdrawn')}
+              className="text-sm text-red-600 hover:text-red-700 hover:underline"
+            >
+              Can't make it anymore
+            </button>
+          </div>
+        )}
+
         {/* Invitees List */}
         <div>
           {event.invitees.length <= 3 ? (
@@ -362,6 +439,15 @@ export function EventCard({
                             </div>
                           )}
                         </div>
+                        {invitee.note && (
+                          <p
+                            className="flex items-start gap-1.5 mt-1 text-xs text-gray-700"
+                            title={invitee.noteAt ? `Texted ${new Date(invitee.noteAt).toLocaleString()}` : undefined}
+                          >
+                            <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                            <span className="italic break-words">&ldquo;{invitee.note}&rdquo;</span>
+                          </p>
+                        )}
                       </div>
                       <span
                         className={`px-2 py-1 rounded text-xs ${getStatusColor(
@@ -422,6 +508,15 @@ export function EventCard({
                               </div>
                             )}
                           </div>
+                          {invitee.note && (
+                            <p
+                              className="flex items-start gap-1.5 mt-1 text-xs text-gray-700"
+                              title={invitee.noteAt ? `Texted ${new Date(invitee.noteAt).toLocaleString()}` : undefined}
+                            >
+                              <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                              <span className="italic break-words">&ldquo;{invitee.note}&rdquo;</span>
+                            </p>
+                          )}
                         </div>
                         <span
                           className={`px-2 py-1 rounded text-xs ${getStatusColor(
@@ -438,15 +533,92 @@ export function EventCard({
           )}
         </div>
 
-        {/* Cancel Event Button - only show for organizer */}
-        {isOrganizer && onCancelEvent && (
-          <button
-            onClick={() => onCancelEvent(event.id)}
-            className="mt-4 px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm flex items-center justify-center gap-2 ml-auto"
-          >
-            <Trash2 className="w-3.5 h-3.5" />
-            Cancel Event
-          </button>
+        {/* Queue activity (auto-promote expiries and promotions) - organizer, priority mode */}
+        {isOrganizer && onLoadActivity && event.inviteMode !== 'first-come-first-serve' && (
+          <div className="mt-4">
+            <button
+              onClick={toggleActivity}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <History className="w-4 h-4" />
+              <span>Queue activity</span>
+              {showActivity ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+
+            {showActivity && (
+              <div className="mt-2 space-y-1 ml-6">
+                {loadingActivity ? (
+                  <p className="text-xs text-gray-500">Loading…</p>
+                ) : !activity || activity.length === 0 ? (
+                  <p className="text-xs text-gray-500">Nothing yet. Invitations that go unanswered for {event.autoPromoteInterval ?? 30} minutes pass to the next person in line.</p>
+                ) : (
+                  activity.map((entry) => (
+                    <div key={entry.id} className="flex items-start gap-2 text-xs text-gray-700">
+                      <span className={`mt-1 w-2 h-2 rounded-full ${entry.action === 'promoted' ? 'bg-blue-500' : 'bg-gray-400'}`}></span>
+                      <span>
+                        <span className="text-gray-500">{formatActivityTime(entry.createdAt)}</span>{' '}
+                        {entry.action === 'promoted' ? 'Invited' : 'Expired'} {entry.inviteeName || 'an invitee'}
+                        {entry.detail ? ` — ${entry.detail}` : ''}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Edit / Cancel Event Buttons - only show for organizer */}
+        {isOrganizer && (onEditEvent || onCancelEvent) && (
+          <div className="mt-4 flex items-center justify-end gap-2">
+            {onEditEvent && (
+              <button
+                onClick={() => onEditEvent(event.id)}
+                className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm flex items-center justify-center gap-2"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+                Edit Event
+              </button>
+            )}
+            {onCancelEvent && !choosingCancelScope && (
+              <button
+                onClick={() => (event.seriesId ? setChoosingCancelScope(true) : onCancelEvent(event.id))}
+                className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm flex items-center justify-center gap-2"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Cancel Event
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Series cancellation - choose which occurrences to cancel */}
+        {isOrganizer && onCancelEvent && choosingCancelScope && (
+          <div className="mt-3 flex flex-wrap items-center justify-end gap-2 text-sm">
+            <span className="text-gray-600">Cancel:</span>
+            {([
+              ['this', 'This event'],
+              ['following', 'This and following'],
+              ['all', 'All events'],
+            ] as [RecurrenceScope, string][]).map(([scope, label]) => (
+              <button
+                key={scope}
+                onClick={() => {
+                  setChoosingCancelScope(false);
+                  onCancelEvent(event.id, scope);
+                }}
+                className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              onClick={() => setChoosingCancelScope(false)}
+              className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Keep
+            </button>
+          </div>
         )}
       </div>
     </div>
@@ -0,0 +1,454 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Calendar, Clock, MapPin, User, Users, Zap, Timer, Trash2, Pencil, Mail, Phone, Repeat, History, MessageSquare } from 'lucide-react';
+import type { Event, EventActivity, InviteeStatus, RsvpAnswer, RecurrenceScope } from '../types';
+import { describeRecurrence } from '../../lib/recurrence';
+import { calculateEventStatuses } from '../../lib/event-status';
+import { getWithdrawDeadline } from '../../lib/rsvp-logic';
+import { formatEventDate, formatEventTime, wallClockElsewhere, zonedDateTimeToUtcMs } from '../../lib/zoned-time';
+import { buildEventTimeline, type TimelineEntry } from '../../lib/event-timeline';
+import { summarizeInviteDeliveries, type NotificationDelivery } from '../../lib/notification-outbox';
+
+interface EventDetailProps {
+  event: Event;
+  currentUser: { email: string; name: string };
+  onBack: () => void;
+  onUpdateInviteeStatus: (
+    eventId: string,
+    inviteeEmail: string,
+    status: RsvpAnswer
+  ) => void;
+  onCancelEvent?: (eventId: string, scope?: RecurrenceScope) => void;
+  onEditEvent?: (eventId: string) => void;
+  onLoadActivity?: (eventId: string) => Promise<EventActivity[]>;
+  onLoadNotifications?: (eventId: string) => Promise<NotificationDelivery[]>;
+}
+
+// Full page for one event (/events/:id): the whole invitee queue, what happened so far, and actions
+export function EventDetail({
+  event,
+  currentUser,
+  onBack,
+  onUpdateInviteeStatus,
+  onCancelEvent,
+  onEditEvent,
+  onLoadActivity,
+  onLoadNotifications,
+}: EventDetailProps) {
+  const [activity, setActivity] = useState<EventActivity[]>([]);
+  const [notifications, setNotifications] = useState<NotificationDelivery[]>([]);
+  const [choosingCancelScope, setChoosingCancelScope] = useState(false);
+
+  const isOrganizer = event.organizer.email === currentUser.email;
+  const currentUserInvitee = event.invitees.find(
+    (inv) => inv.email?.toLowerCase() === currentUser.email.toLowerCase()
+  );
+  const { confirmationStatus, timeStatus } = calculateEventStatuses(event);
+  const viewerStart = wallClockElsewhere(event.date, event.time, event.timeZone, Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const canWithdraw = currentUserInvitee?.status === 'accepted' &&
+    Date.now() < getWithdrawDeadline(zonedDateTimeToUtcMs(event.date, event.time, event.timeZone), event.withdrawCutoffMinutes ?? 0).getTime();
+  const acceptedCount = event.invitees.filter((inv) => inv.status === 'accepted').length;
+  const queue = [...event.invitees].sort((a, b) => a.priority - b.priority);
+  const timeline = buildEventTimeline(event, activity);
+  const inviteDeliveries = new Map(queue.map((invitee) => [invitee, summarizeInviteDeliveries(invitee, notifications)]));
+
+  // The activity log is organizer-only; without it the timeline still shows invitations and responses
+  useEffect(() => {
+    if (!isOrganizer || !onLoadActivity) return;
+    let cancelled = false;
+    onLoadActivity(event.id)
+      .then((entries) => {
+        if (!cancelled) setActivity(entries);
+      })
+      .catch((error) => console.error('Error loading activity:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [event.id, isOrganizer]);
+
+  // Whether each invite actually went out (organizer only)
+  useEffect(() => {
+    if (!isOrganizer || !onLoadNotifications) return;
+    let cancelled = false;
+    onLoadNotifications(event.id)
+      .then((entries) => {
+        if (!cancelled) setNotifications(entries);
+      })
+      .catch((error) => console.error('Error loading notifications:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [event.id, isOrganizer]);
+
+  const formatDate = (dateStr: string) => {
+    // Parse as local date to avoid timezone shift (YYYY-MM-DD parsed as UTC otherwise)
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day); // month is 0-indexed
+    return date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const formatTimestamp = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const getStatusColor = (status: InviteeStatus) => {
+    switch (status) {
+      case 'invited':
+        return 'bg-blue-100 text-blue-700';
+      case 'accepted':
+        return 'bg-green-100 text-green-700';
+      case 'declined':
+        return 'bg-red-100 text-red-700';
+      case 'tentative':
+        return 'bg-amber-100 text-amber-700';
+      default:
+        return 'bg-gray-100 text-gray-700';
+    }
+  };
+
+  const getStatusLabel = (status: InviteeStatus) => {
+    switch (status) {
+      case 'invited':
+        return 'Invited';
+      case 'accepted':
+        return 'Accepted';
+      case 'declined':
+        return 'Declined';
+      case 'tentative':
+        return 'Maybe';
+      case 'pending':
+        return 'In Queue';
+      default:
+        return status;
+    }
+  };
+
+  const deliveryLabel: Record<NotificationDelivery['status'], string> = {
+    queued: 'retrying',
+    sending: 'sending',
+    sent: 'sent',
+    failed: 'failed',
+    delivered: 'delivered',
+  };
+
+  const deliveryColor: Record<NotificationDelivery['status'], string> = {
+    queued: 'text-amber-600',
+    sending: 'text-gray-500',
+    sent: 'text-gray-500',
+    failed: 'text-red-600',
+    delivered: 'text-green-600',
+  };
+
+  const describeTimelineEntry = (entry: TimelineEntry) => {
+    const name = entry.inviteeName || 'an invitee';
+    switch (entry.kind) {
+      case 'created':
+        return 'Event created';
+      case 'invited':
+        return `Invited ${name}`;
+      case 'accepted':
+        return `${name} accepted`;
+      case 'declined':
+        return `${name} declined`;
+      case 'tentative':
+        return `${name} said maybe`;
+      case 'expired':
+        return `Invitation to ${name} expired`;
+      case 'promoted':
+        return `Invited ${name} from the queue`;
+    }
+  };
+
+  const timelineDotColor: Record<TimelineEntry['kind'], string> = {
+    created: 'bg-indigo-500',
+    invited: 'bg-blue-500',
+    accepted: 'bg-green-500',
+    declined: 'bg-red-500',
+    tentative: 'bg-amber-500',
+    expired: 'bg-gray-400',
+    promoted: 'bg-blue-500',
+  };
+
+  const statusSummary: Record<typeof confirmationStatus, string> = {
+    scheduled: 'Scheduled',
+    invited: 'Waiting for responses',
+    declined: 'All declined',
+    'no-show': 'No show',
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        All events
+      </button>
+
+      {/* Summary */}
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <h2 className="text-xl font-semibold text-gray-900 mb-0">{event.title}</h2>
+          {event.inviteMode === 'first-come-first-serve' ? (
+            <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full flex items-center gap-1">
+              <Zap className="w-3 h-3" />
+              First-Come
+            </span>
+          ) : (
+            <span className="px-2 py-1 bg-indigo-100 text-indigo-700 text-xs rounded-full flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              Priority
+            </span>
+          )}
+          {event.recurrence && (
+            <span className="px-2 py-1 bg-teal-100 text-teal-700 text-xs rounded-full flex items-center gap-1">
+              <Repeat className="w-3 h-3" />
+              {describeRecurrence(event.recurrence)}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {statusSummary[confirmationStatus]}
+          {timeStatus === 'completed' ? ' · Past event' : ''} · {acceptedCount}/{event.spots ?? 1} {(event.spots ?? 1) === 1 ? 'spot' : 'spots'} filled
+        </p>
+
+        {event.description && <p className="text-gray-600 mb-4">{event.description}</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-gray-600">
+          <div className="flex items-center gap-2">
+            <Calendar className="w-4 h-4" />
+            <span>{formatDate(event.date)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Clock className="w-4 h-4" />
+            <span>
+              {formatEventTime(event.time)}
+              {event.durationMinutes ? ` · ${event.durationMinutes} min` : ''}
+              {event.timeZone ? ` (${event.timeZone})` : ''}
+              {viewerStart && (
+                <span className="text-gray-400">
+                  {' '}· {formatEventTime(viewerStart.time)}
+                  {viewerStart.date !== event.date ? ` ${formatEventDate(viewerStart.date)}` : ''} your time
+                </span>
+              )}
+            </span>
+          </div>
+          {event.location && (
+            <div className="flex items-center gap-2">
+              <MapPin className="w-4 h-4" />
+              <span>{event.location}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <User className="w-4 h-4" />
+            <span>Organized by {isOrganizer ? 'You' : event.organizer.name}</span>
+          </div>
+          {event.inviteMode === 'priority' && event.autoPromoteInterval && (
+            <div className="flex items-center gap-2 sm:col-span-2">
+              <Timer className="w-4 h-4" />
+              <span>
+                Next person gets invited after {event.autoPromoteInterval} {event.autoPromoteInterval === 1 ? 'minute' : 'minutes'} of no response
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Response Actions for Invitees */}
+        {currentUserInvitee && (currentUserInvitee.status === 'invited' || currentUserInvitee.status === 'tentative') && (
+          <div className="flex flex-wrap items-center gap-3 mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+            <p className="flex-1 text-sm">
+              {currentUserInvitee.status === 'tentative'
+                ? "You said maybe. Let the organizer know once you're sure."
+                : "You've been invited to this event!"}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onUpdateInviteeStatus(event.id, currentUser.email, 'accepted')}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => onUpdateInviteeStatus(event.id, currentUser.email, 'declined')}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
+              >
+                Decline
+              </button>
+              {currentUserInvitee.status === 'invited' && (
+                <button
+                  onClick={() => onUpdateInviteeStatus(event.id, currentUser.email, 'tentative')}
+                  className="px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors text-sm"
+                >
+                  Maybe
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {canWithdraw && (
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={() => onUpdateInviteeStatus(event.id, currentUser.email, 'withdrawn')}
+              className="text-sm text-red-600 hover:text-red-700 hover:underline"
+            >
+              Can't make it anymore
+            </button>
+          </div>
+        )}
+
+        {/* Edit / Cancel - organizer only */}
+        {isOrganizer && (onEditEvent || onCancelEvent) && (
+          <div className="mt-4 flex flex-wrap items-center justify-end gap-2 text-sm">
+            {choosingCancelScope && onCancelEvent ? (
+              <>
+                <span className="text-gray-600">Cancel:</span>
+                {([
+                  ['this', 'This event'],
+                  ['following', 'This and following'],
+                  ['all', 'All events'],
+                ] as [RecurrenceScope, string][]).map(([scope, label]) => (
+                  <button
+                    key={scope}
+                    onClick={() => {
+                      setChoosingCancelScope(false);
+                      onCancelEvent(event.id, scope);
+                    }}
+                    className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setChoosingCancelScope(false)}
+                  className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Keep
+                </button>
+              </>
+            ) : (
+              <>
+                {onEditEvent && (
+                  <button
+                    onClick={() => onEditEvent(event.id)}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                    Edit Event
+                  </button>
+                )}
+                {onCancelEvent && (
+                  <button
+                    onClick={() => (event.seriesId ? setChoosingCancelScope(true) : onCancelEvent(event.id))}
+                    className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    Cancel Event
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Full invitee queue */}
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">
+          {event.inviteMode === 'first-come-first-serve' ? 'Invitees' : 'Priority Queue'} ({queue.length})
+        </h3>
+        {queue.length === 0 ? (
+          <p className="text-sm text-gray-500">No one has been invited yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {queue.map((invitee, index) => (
+              <div
+                key={invitee.email || invitee.phone || index}
+                className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg"
+              >
+                {event.inviteMode !== 'first-come-first-serve' && (
+                  <div className="flex items-center justify-center min-w-[2rem] h-8 bg-indigo-600 text-white rounded-full text-sm">
+                    {index + 1}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{invitee.name}</p>
+                  <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-gray-500">
+                    {invitee.email && (
+                      <span className="flex items-center gap-1.5">
+                        <Mail className="w-3 h-3" />
+                        {invitee.email}
+                      </span>
+                    )}
+                    {invitee.phone && (
+                      <span className="flex items-center gap-1.5">
+                        <Phone className="w-3 h-3" />
+                        {invitee.phone}
+                      </span>
+                    )}
+                  </div>
+                  {invitee.note && (
+                    <p className="flex items-start gap-1.5 mt-0.5 text-xs text-gray-700">
+                      <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span className="italic break-words">
+                        &ldquo;{invitee.note}&rdquo;
+                        {invitee.noteAt && <span className="not-italic text-gray-400"> · {formatTimestamp(invitee.noteAt)}</span>}
+                      </span>
+                    </p>
+                  )}
+                  {(invitee.invitedAt || invitee.respondedAt) && invitee.status !== 'pending' && (
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {invitee.invitedAt ? `Invited ${formatTimestamp(invitee.invitedAt)}` : ''}
+                      {invitee.invitedAt && invitee.respondedAt ? ' · ' : ''}
+                      {invitee.respondedAt ? `Responded ${formatTimestamp(invitee.respondedAt)}` : ''}
+                    </p>
+                  )}
+                  {(inviteDeliveries.get(invitee) ?? []).length > 0 && (
+                    <p className="text-xs mt-0.5 flex flex-wrap gap-x-3">
+                      {(inviteDeliveries.get(invitee) ?? []).map((delivery) => (
+                        <span
+                          key={delivery.id}
+                          className={deliveryColor[delivery.status]}
+                          title={delivery.lastError}
+                        >
+                          Invite {delivery.channel === 'email' ? 'email' : 'SMS'} {deliveryLabel[delivery.status]}
+                        </span>
+                      ))}
+                    </p>
+                  )}
+                </div>
+                <span className={`px-2 py-1 rounded text-xs ${getStatusColor(invitee.status)}`}>
+                  {getStatusLabel(invitee.status)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+          <History className="w-4 h-4 text-gray-500" />
+          Timeline
+        </h3>
+        <div className="space-y-2">
+          {timeline.map((entry, index) => (
+            <div key={`${entry.kind}-${entry.at}-${index}`} className="flex items-start gap-2 text-sm text-gray-700">
+              <span className={`mt-1.5 w-2 h-2 rounded-full ${timelineDotColor[entry.kind]}`}></span>
+              <span>
+                <span className="text-gray-500">{formatTimestamp(entry.at)}</span>{' '}
+                {describeTimelineEntry(entry)}
+                {entry.detail ? ` — ${entry.detail}` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
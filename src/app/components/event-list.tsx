@@ -2,7 +2,7 @@ import { useEffect, useRef, useCallback } from 'react';
 import { Loader2 } from 'lucide-react';
 import { EventCard } from './event-card';
 import { calculateEventStatuses } from '../../lib/event-status';
-import type { Event, InviteeStatus } from '../types';
+import type { Event, EventActivity, RecurrenceScope, RsvpAnswer } from '../types';
 
 interface EventListProps {
   events: Event[];
@@ -10,9 +10,12 @@ interface EventListProps {
   onUpdateInviteeStatus: (
     eventId: string,
     inviteeEmail: string,
-    status: InviteeStatus
+    status: RsvpAnswer
   ) => void;
-  onCancelEvent: (eventId: string) => void;
+  onCancelEvent: (eventId: string, scope?: RecurrenceScope) => void;
+  onEditEvent?: (eventId: string) => void;
+  onOpenEvent?: (eventId: string) => void;
+  onLoadActivity?: (eventId: string) => Promise<EventActivity[]>;
   hasMore?: boolean;
   loadingMore?: boolean;
   onLoadMore?: () => void;
@@ -23,6 +26,9 @@ export function EventList({
   currentUser,
   onUpdateInviteeStatus,
   onCancelEvent,
+  onEditEvent,
+  onOpenEvent,
+  onLoadActivity,
   hasMore = false,
   loadingMore = false,
   onLoadMore,
@@ -61,13 +67,9 @@ export function EventList({
     };
   }, [handleObserver]);
 
-  const sortedEvents = [...events].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
-
   return (
     <div>
-      {sortedEvents.length === 0 ? (
+      {events.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
           <p className="text-gray-500">
             No events yet. Create your first event!
@@ -75,7 +77,8 @@ export function EventList({
         </div>
       ) : (
         <div className="space-y-4">
-          {sortedEvents.map((event) => {
+          {/* Already sorted by the server (event date, per the active filter) */}
+          {events.map((event) => {
             const { confirmationStatus, timeStatus } = calculateEventStatuses(event);
             return (
               <EventCard
@@ -84,6 +87,9 @@ export function EventList({
                 currentUser={currentUser}
                 onUpdateInviteeStatus={onUpdateInviteeStatus}
                 onCancelEvent={onCancelEvent}
+                onEditEvent={onEditEvent}
+                onOpenEvent={onOpenEvent}
+                onLoadActivity={onLoadActivity}
                 confirmationStatus={confirmationStatus}
                 timeStatus={timeStatus}
               />
@@ -102,7 +108,7 @@ export function EventList({
           )}
           
           {/* End of list indicator */}
-          {!hasMore && sortedEvents.length > 0 && (
+          {!hasMore && events.length > 0 && (
             <div className="text-center py-4 text-gray-400 text-sm">
               No more events
             </div>
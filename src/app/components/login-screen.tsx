@@ -1,6 +1,7 @@
 import { Calendar, ArrowLeft } from 'lucide-react';
 import { useState } from 'react';
 import { supabase } from '../utils/supabase-client';
+import { saveReturnPath } from '../utils/router';
 import { Button } from './ui/button';
 
 interface LoginScreenProps {
@@ -12,6 +13,8 @@ export function LoginScreen({ onBack }: LoginScreenProps) {
 
   const handleGoogleLogin = async () => {
     setLoading(true);
+    // OAuth returns to the site root; remember a deep link so App can reopen it
+    saveReturnPath();
 
     try {
       const { error } = await supabase.auth.signInWithOAuth({
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { ArrowLeft, Check, CircleHelp, Loader2, MapPin, Trash2, Trophy, Users, Vote, X, Zap } from 'lucide-react';
+import type { InviteMode, Poll } from '../types';
+import { pickWinningOption, tallyPoll } from '../../lib/polls';
+import { formatEventDate, formatEventTime, wallClockElsewhere } from '../../lib/zoned-time';
+
+interface PollDetailProps {
+  poll: Poll;
+  onBack: () => void;
+  onBook: (poll: Poll, optionId: string, inviteMode: InviteMode) => Promise<void>;
+  onDelete?: (pollId: string) => void;
+  onOpenEvent?: (eventId: string) => void;
+}
+
+// Find-a-time poll page (/polls/:id): who can make which time, and booking the winner
+export function PollDetail({ poll, onBack, onBook, onDelete, onOpenEvent }: PollDetailProps) {
+  const [booking, setBooking] = useState<{ optionId: string; inviteMode: InviteMode } | null>(null);
+
+  const tallies = tallyPoll(poll.options.map((option) => option.id), poll.votes);
+  const winnerId = poll.status === 'booked' ? poll.bookedOptionId : pickWinningOption(tallies);
+  const answered = new Set(poll.votes.map((vote) => vote.participantId));
+  const nameOf = new Map(poll.participants.map((participant) => [participant.id, participant.name]));
+  const viewerZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const isOpen = poll.status === 'open';
+
+  const book = async (optionId: string, inviteMode: InviteMode) => {
+    setBooking({ optionId, inviteMode });
+    try {
+      await onBook(poll, optionId, inviteMode);
+    } finally {
+      setBooking(null);
+    }
+  };
+
+  const listNames = (ids: string[]) => ids.map((id) => nameOf.get(id) || 'Someone').join(', ');
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        All events
+      </button>
+
+      {/* Summary */}
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <h2 className="text-xl font-semibold text-gray-900 mb-0">{poll.title}</h2>
+          <span className="px-2 py-1 bg-teal-100 text-teal-700 text-xs rounded-full flex items-center gap-1">
+            <Vote className="w-3 h-3" />
+            {isOpen ? 'Finding a time' : 'Booked'}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {answered.size}/{poll.participants.length} answered
+          {poll.timeZone ? ` · Times in ${poll.timeZone}` : ''}
+        </p>
+        {poll.description && <p className="text-gray-600 mb-4">{poll.description}</p>}
+        {poll.location && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <MapPin className="w-4 h-4" />
+            <span>{poll.location}</span>
+          </div>
+        )}
+        {!isOpen && poll.eventId && onOpenEvent && (
+          <button
+            onClick={() => onOpenEvent(poll.eventId!)}
+            className="mt-4 px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            View event
+          </button>
+        )}
+      </div>
+
+      {/* Tally */}
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Proposed times</h3>
+        <div className="space-y-3">
+          {poll.options.map((option, index) => {
+            const tally = tallies[index];
+            const isWinner = option.id === winnerId;
+            const elsewhere = wallClockElsewhere(option.date, option.time, poll.timeZone, viewerZone);
+            return (
+              <div
+                key={option.id}
+                className={`p-4 rounded-lg border ${isWinner ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      {option.position}. {formatEventDate(option.date)} · {formatEventTime(option.time)}
+                      {isWinner && <Trophy className="w-4 h-4 text-green-600" aria-label={isOpen ? 'Best so far' : 'Booked'} />}
+                    </p>
+                    {elsewhere && (
+                      <p className="text-xs text-gray-400">
+                        {formatEventTime(elsewhere.time)}
+                        {elsewhere.date !== option.date ? ` ${formatEventDate(elsewhere.date)}` : ''} your time
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="flex items-center gap-1 text-green-700"><Check className="w-4 h-4" />{tally.yes.length}</span>
+                    <span className="flex items-center gap-1 text-amber-700"><CircleHelp className="w-4 h-4" />{tally.maybe.length}</span>
+                    <span className="flex items-center gap-1 text-red-700"><X className="w-4 h-4" />{tally.no.length}</span>
+                  </div>
+                </div>
+                <div className="mt-2 space-y-1 text-xs text-gray-600">
+                  {tally.yes.length > 0 && <p>Yes: {listNames(tally.yes)}</p>}
+                  {tally.maybe.length > 0 && <p>Maybe: {listNames(tally.maybe)}</p>}
+                  {tally.no.length > 0 && <p>No: {listNames(tally.no)}</p>}
+                </div>
+                {isOpen && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {([
+                      ['priority', 'Book (priority)', Users],
+                      ['first-come-first-serve', 'Book (first come)', Zap],
+                    ] as const).map(([inviteMode, label, Icon]) => (
+                      <button
+                        key={inviteMode}
+                        onClick={() => book(option.id, inviteMode)}
+                        disabled={!!booking}
+                        className={`px-3 py-1.5 text-sm rounded-lg flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          isWinner ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {booking?.optionId === option.id && booking.inviteMode === inviteMode
+                          ? <Loader2 className="w-4 h-4 animate-spin" />
+                          : <Icon className="w-4 h-4" />}
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {isOpen && (
+          <p className="text-xs text-gray-500 mt-4">
+            Booking invites everyone who said yes first, then maybe, then those who haven't answered, in your priority order. Anyone who said no to that time is left out.
+          </p>
+        )}
+      </div>
+
+      {/* Who was asked */}
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Asked</h3>
+        <ul className="space-y-2 text-sm">
+          {poll.participants.map((participant) => (
+            <li key={participant.id} className="flex items-center justify-between gap-3">
+              <span className="text-gray-900">{participant.name}</span>
+              <span className={answered.has(participant.id) ? 'text-green-700' : 'text-gray-400'}>
+                {answered.has(participant.id) ? 'Answered' : 'Waiting'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {onDelete && (
+        <button
+          onClick={() => onDelete(poll.id)}
+          className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete poll
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
-export type InviteeStatus = 'pending' | 'invited' | 'accepted' | 'declined';
+import type { PollVote } from '../lib/polls';
+import type { RecurrenceFrequency, RecurrenceRule } from '../lib/recurrence';
+
+export type { RecurrenceFrequency, RecurrenceRule };
+
+export type InviteeStatus = 'pending' | 'invited' | 'accepted' | 'declined' | 'tentative'; // tentative: answered "maybe"
+
+// What an invitee can answer from the dashboard; 'withdrawn' gives an accepted spot back (status becomes declined)
+export type RsvpAnswer = InviteeStatus | 'withdrawn';
 
 export type InviteMode = 'priority' | 'first-come-first-serve';
 
+// Which occurrences of a series an edit or cancellation applies to
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
 export type ConfirmationStatus = 'scheduled' | 'invited' | 'declined' | 'no-show';
 export type TimeStatus = 'approaching' | 'upcoming' | 'completed';
 
@@ -15,6 +26,9 @@ export interface Invitee {
   priority: number; // Lower number = higher priority
   status: InviteeStatus;
   invitedAt?: string; // Timestamp when this person was invited
+  respondedAt?: string; // Timestamp of their accept/decline
+  note?: string; // Latest maybe/running-late/free-text SMS they sent (organizer only)
+  noteAt?: string;
 }
 
 export interface Event {
@@ -34,9 +48,63 @@ export interface Event {
   invitees: Invitee[];
   inviteMode: InviteMode; // 'priority' or 'first-come-first-serve'
   autoPromoteInterval?: number; // Minutes to wait before auto-promoting to next invitee (priority mode only)
+  expiryNudgeMinutes?: number; // Priority mode: remind an invited person this long before their invite expires (0 = off)
+  tentativeHoldMinutes?: number; // Priority mode: how long a "maybe" keeps the next person from being invited (0 = not at all)
+  withdrawCutoffMinutes?: number; // Accepted invitees can withdraw until this long before the start (0 = until it starts)
+  reminderOffsets?: number[]; // Minutes before the start to remind the organizer and accepted invitees
   sendOrganizerCalendarInvite: boolean; // Send calendar invite to organizer
   sendInviteesCalendarInvite: boolean; // Send calendar invites to invitees
   notifyByPhone: boolean; // Send SMS notifications to invitees with phone numbers
+  recurrence?: RecurrenceRule; // Set when the event repeats; each occurrence is its own event
+  seriesId?: string; // Shared by all occurrences of a recurring event
+  occurrenceIndex?: number; // 0-based position within the series
+  createdAt: string;
+}
+
+// Something the invite queue did on its own (auto-promote sweep), for the organizer
+export interface EventActivity {
+  id: string;
+  action: 'expired' | 'promoted';
+  detail?: string;
+  inviteeName?: string;
+  createdAt: string;
+}
+
+// Everything the event form collects apart from the date and time, which a find-a-time poll leaves open
+export type EventDraft = Omit<Event, 'id' | 'organizer' | 'createdAt' | 'date' | 'time' | 'recurrence'>;
+
+// A proposed date/time in a find-a-time poll; position is the number invitees text back
+export interface PollOption {
+  id: string;
+  position: number;
+  date: string;
+  time: string;
+}
+
+export interface PollParticipant {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  priority: number; // Queue order once the poll is booked (lower = higher priority)
+  invitedAt?: string;
+  respondedAt?: string; // Last time they voted
+}
+
+// Find-a-time poll: invitees vote on proposed times, then the organizer books one as an event
+export interface Poll {
+  id: string;
+  title: string;
+  description: string;
+  location: string;
+  timeZone?: string;
+  status: 'open' | 'booked';
+  eventId?: string; // The event it was booked as
+  bookedOptionId?: string;
+  draft: Partial<EventDraft>; // The rest of the event form, used when booking
+  options: PollOption[];
+  participants: PollParticipant[];
+  votes: PollVote[];
   createdAt: string;
 }
 
@@ -48,6 +116,12 @@ export interface Contact {
   addedAt?: string; // When they were first added to contacts
   eventCount?: number; // Number of events they've been invited to
   lastInvitedAt?: string; // Last time they were invited to an event
+  // Set when the address bounced, was reported as spam or kept failing (delivery reports)
+  emailUndeliverableAt?: string;
+  emailUndeliverableReason?: string;
+  phoneUndeliverableAt?: string;
+  phoneUndeliverableReason?: string;
+  smsOptedOutAt?: string; // Replied STOP; no texts are sent until they reply START
   createdAt?: string;
   updatedAt?: string;
 }
\ No newline at end of file
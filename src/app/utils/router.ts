@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { isReturnPath, parseRoute, type AppRoute } from '../../lib/routes';
+
+// Where to go after signing in, saved before the OAuth round trip (which always lands on the site root)
+const RETURN_TO_KEY = 'booker:returnTo';
+
+/**
+ * Change the URL and notify useRoute listeners. pushState does not fire
+ * popstate itself, so we dispatch one.
+ */
+export function navigate(path: string, options: { replace?: boolean } = {}) {
+  if (path === window.location.pathname) return;
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
+/**
+ * Current route, following back/forward and navigate(). Unknown paths show the event list.
+ */
+export function useRoute(): AppRoute {
+  const [pathname, setPathname] = useState(() => window.location.pathname);
+
+  useEffect(() => {
+    const handlePopState = () => setPathname(window.location.pathname);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return parseRoute(pathname) ?? { view: 'list' };
+}
+
+export function saveReturnPath(path: string = window.location.pathname) {
+  if (isReturnPath(path)) {
+    sessionStorage.setItem(RETURN_TO_KEY, path);
+  }
+}
+
+/**
+ * Read and clear the path saved before login, if it is still a valid route.
+ */
+export function takeReturnPath(): string | null {
+  const path = sessionStorage.getItem(RETURN_TO_KEY);
+  sessionStorage.removeItem(RETURN_TO_KEY);
+  return isReturnPath(path) ? path : null;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { isContactReachable, shouldMarkUndeliverable, type DeliveryReport } from './delivery-reports';
+
+const report = (overrides: Partial<DeliveryReport>): DeliveryReport => ({
+  messageId: 'm1',
+  state: 'failed',
+  permanent: false,
+  ...overrides,
+});
+
+describe('shouldMarkUndeliverable', () => {
+  it('marks hard bounces and complaints right away', () => {
+    expect(shouldMarkUndeliverable(report({ permanent: true }), 0)).toBe(true);
+    expect(shouldMarkUndeliverable(report({ state: 'complained' }), 0)).toBe(true);
+  });
+
+  it('marks temporary failures only after three in a row', () => {
+    expect(shouldMarkUndeliverable(report({}), 0)).toBe(false);
+    expect(shouldMarkUndeliverable(report({}), 1)).toBe(false);
+    expect(shouldMarkUndeliverable(report({}), 2)).toBe(true);
+  });
+
+  it('never marks a delivery', () => {
+    expect(shouldMarkUndeliverable(report({ state: 'delivered' }), 5)).toBe(false);
+  });
+});
+
+describe('isContactReachable', () => {
+  it('needs one channel that has not been marked undeliverable', () => {
+    expect(isContactReachable({ email: 'ana@example.com' })).toBe(true);
+    expect(isContactReachable({ email: 'ana@example.com', emailUndeliverableAt: '2026-01-20T10:00:00Z' })).toBe(false);
+    expect(
+      isContactReachable({ email: 'ana@example.com', phone: '+15550102000', emailUndeliverableAt: '2026-01-20T10:00:00Z' })
+    ).toBe(true);
+    expect(isContactReachable({ phone: '+15550102000', phoneUndeliverableAt: '2026-01-20T10:00:00Z' })).toBe(false);
+    expect(isContactReachable({})).toBe(false);
+  });
+
+  it('treats an opted-out phone as unreachable', () => {
+    expect(isContactReachable({ phone: '+15550102000', smsOptedOutAt: '2026-01-20T10:00:00Z' })).toBe(false);
+    expect(
+      isContactReachable({ email: 'ana@example.com', phone: '+15550102000', smsOptedOutAt: '2026-01-20T10:00:00Z' })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Delivery reports: what providers tell us after a message was accepted, and
+ * when a contact's email or phone counts as undeliverable.
+ *
+ * The transports parse their provider's callbacks into reports
+ * (`parseResendWebhook`, `SmsTransport.parseInbound`); the
+ * `record_delivery_report` database function applies them to the
+ * notification and the contacts with that address, following the same rules
+ * as `shouldMarkUndeliverable`; keep them in sync. Promotion skips invitees
+ * who cannot be reached on any channel (`isContactReachable`).
+ */
+
+// complained: the recipient marked the email as spam; never email them again
+export type DeliveryState = 'delivered' | 'failed' | 'complained';
+
+export interface DeliveryReport {
+  messageId: string; // Provider message id, as stored on the notification
+  state: DeliveryState;
+  permanent: boolean; // The address itself is bad (hard bounce, unknown number), not a passing problem
+  error?: string;
+}
+
+// Temporary failures in a row before an address counts as undeliverable
+export const UNDELIVERABLE_AFTER_FAILURES = 3;
+
+/**
+ * Whether a report (with `failuresInARow` earlier failures for the address)
+ * makes the address undeliverable.
+ */
+export function shouldMarkUndeliverable(report: DeliveryReport, failuresInARow: number): boolean {
+  if (report.state === 'delivered') return false;
+  if (report.state === 'complained' || report.permanent) return true;
+  return failuresInARow + 1 >= UNDELIVERABLE_AFTER_FAILURES;
+}
+
+export interface ContactDeliverability {
+  email?: string | null;
+  phone?: string | null;
+  emailUndeliverableAt?: string | null;
+  phoneUndeliverableAt?: string | null;
+  smsOptedOutAt?: string | null; // Replied STOP; the phone cannot be texted until START
+}
+
+/**
+ * A contact can be reached if they have an email that has not been marked
+ * undeliverable, or a phone number that is neither undeliverable nor opted out.
+ */
+export function isContactReachable(contact: ContactDeliverability): boolean {
+  return (
+    (!!contact.email && !contact.emailUndeliverableAt) ||
+    (!!contact.phone && !contact.phoneUndeliverableAt && !contact.smsOptedOutAt)
+  );
+}
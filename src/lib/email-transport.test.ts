@@ -0,0 +1,398 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMimeMessage,
+  createCaptureTransport,
+  createRateLimitedSender,
+  createResendTransport,
+  createSmtpTransport,
+  parseResendWebhook,
+  resolveEmailTransportConfig,
+  verifyResendWebhook,
+  RESEND_MIN_INTERVAL_MS,
+  type EmailMessage,
+  type EmailTransport,
+  type SmtpConnection,
+} from './email-transport';
+
+const message: EmailMessage = {
+  from: 'Booker <invites@example.com>',
+  to: ['ana@example.com'],
+  subject: "You're invited: Board games",
+  text: 'Hi Ana',
+  html: '<p>Hi Ana</p>',
+};
+
+const decodeParts = (mime: string) =>
+  [...mime.matchAll(/Content-Transfer-Encoding: base64\r\n(?:[^\r\n]+\r\n)*\r\n([A-Za-z0-9+/=\r\n]+?)\r\n--/g)]
+    .map((match) => new TextDecoder().decode(Uint8Array.from(atob(match[1].replace(/\r\n/g, '')), (c) => c.charCodeAt(0))));
+
+// Scripted SMTP server: answers each command with the next reply and records what was written
+const fakeSmtpServer = (options: { extensions?: string[]; rejectRcpt?: boolean } = {}) => {
+  const written: string[] = [];
+  const pending: string[] = ['220 localhost ESMTP\r\n'];
+  let tlsStarted = false;
+  let closed = false;
+  let inData = false;
+
+  const reply = (line: string) => {
+    if (inData) {
+      if (line.endsWith('\r\n.')) {
+        inData = false;
+        pending.push('250 Queued\r\n');
+      }
+      return;
+    }
+    const verb = line.split(/[ :]/)[0].toUpperCase();
+    if (verb === 'EHLO') {
+      const extensions = [...(options.extensions ?? [])].filter((ext) => !(tlsStarted && ext === 'STARTTLS'));
+      const lines = ['localhost', ...extensions];
+      pending.push(lines.map((text, i) => `250${i === lines.length - 1 ? ' ' : '-'}${text}\r\n`).join(''));
+    } else if (verb === 'STARTTLS') {
+      pending.push('220 Ready\r\n');
+    } else if (verb === 'AUTH') {
+      pending.push('235 OK\r\n');
+    } else if (verb === 'RCPT' && options.rejectRcpt) {
+      pending.push('550 No such user\r\n');
+    } else if (verb === 'DATA') {
+      inData = true;
+      pending.push('354 Go ahead\r\n');
+    } else {
+      pending.push('250 OK\r\n');
+    }
+  };
+
+  const connection = (): SmtpConnection => ({
+    async read() {
+      return pending.shift() ?? null;
+    },
+    async write(data) {
+      written.push(data);
+      reply(data.replace(/\r\n$/, ''));
+    },
+    async startTls() {
+      tlsStarted = true;
+      return connection();
+    },
+    close() {
+      closed = true;
+    },
+  });
+
+  return {
+    written,
+    get tlsStarted() {
+      return tlsStarted;
+    },
+    get closed() {
+      return closed;
+    },
+    connect: async () => connection(),
+  };
+};
+
+describe('buildMimeMessage', () => {
+  const options = { boundary: 'b1', date: new Date('2026-01-20T10:00:00Z'), messageId: 'm1@example.com' };
+
+  it('sends text and HTML as alternatives', () => {
+    const mime = buildMimeMessage(message, options);
+    expect(mime).toContain('From: "Booker" <invites@example.com>');
+    expect(mime).toContain('To: ana@example.com');
+    expect(mime).toContain('Message-ID: <m1@example.com>');
+    expect(mime).toContain('Content-Type: multipart/alternative; boundary="alt-b1"');
+    expect(mime).not.toContain('multipart/mixed');
+    expect(decodeParts(mime)).toEqual(['Hi Ana', '<p>Hi Ana</p>']);
+  });
+
+  it('encodes non-ASCII subjects and names', () => {
+    const mime = buildMimeMessage({ ...message, from: 'José <j@example.com>', subject: 'Café ☕' }, options);
+    expect(mime).toMatch(/Subject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=/);
+    expect(mime).toMatch(/From: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?= <j@example.com>/);
+  });
+
+  it('attaches .ics files as text/calendar', () => {
+    const ics = btoa('BEGIN:VCALENDAR\r\nEND:VCALENDAR');
+    const mime = buildMimeMessage({ ...message, attachments: [{ filename: 'event.ics', content: ics }] }, options);
+    expect(mime).toContain('Content-Type: multipart/mixed; boundary="mixed-b1"');
+    expect(mime).toContain('Content-Type: text/calendar; charset=utf-8; name="event.ics"');
+    expect(mime).toContain('Content-Disposition: attachment; filename="event.ics"');
+    expect(mime.trimEnd().endsWith('--mixed-b1--')).toBe(true);
+  });
+
+  it('wraps base64 lines at 76 characters', () => {
+    const mime = buildMimeMessage({ ...message, text: 'x'.repeat(500) }, options);
+    expect(mime.split('\r\n').every((line) => line.length <= 998)).toBe(true);
+    expect(mime.split('\r\n').filter((line) => /^[A-Za-z0-9+/=]+$/.test(line)).every((line) => line.length <= 76)).toBe(true);
+  });
+});
+
+describe('createSmtpTransport', () => {
+  it('runs the SMTP conversation and closes the connection', async () => {
+    const server = fakeSmtpServer();
+    const transport = createSmtpTransport({ host: 'localhost', port: 54325 }, server.connect);
+
+    const result = await transport.send({ ...message, to: ['ana@example.com', 'Ben <ben@example.com>'] });
+
+    expect(result.ok).toBe(true);
+    expect(result.id).toMatch(/@example\.com$/);
+    const commands = server.written.map((line) => line.split('\r\n')[0]);
+    expect(commands).toEqual([
+      'EHLO localhost',
+      'MAIL FROM:<invites@example.com>',
+      'RCPT TO:<ana@example.com>',
+      'RCPT TO:<ben@example.com>',
+      'DATA',
+      expect.stringMatching(/^From: /),
+      'QUIT',
+    ]);
+    expect(server.written[5].endsWith('\r\n.\r\n')).toBe(true);
+    expect(server.closed).toBe(true);
+  });
+
+  it('upgrades with STARTTLS and authenticates when offered', async () => {
+    const server = fakeSmtpServer({ extensions: ['STARTTLS', 'AUTH PLAIN LOGIN'] });
+    const transport = createSmtpTransport(
+      { host: 'smtp.example.com', port: 587, username: 'user', password: 'secret' },
+      server.connect
+    );
+
+    expect((await transport.send(message)).ok).toBe(true);
+    expect(server.tlsStarted).toBe(true);
+    const commands = server.written.map((line) => line.split('\r\n')[0]);
+    expect(commands.slice(0, 4)).toEqual(['EHLO localhost', 'STARTTLS', 'EHLO localhost', `AUTH PLAIN ${btoa('\0user\0secret')}`]);
+  });
+
+  it('reports rejected recipients without leaking credentials', async () => {
+    const server = fakeSmtpServer({ rejectRcpt: true });
+    const transport = createSmtpTransport({ host: 'localhost', port: 54325, username: 'user', password: 'secret' }, server.connect);
+
+    const result = await transport.send(message);
+
+    expect(result).toEqual({ ok: false, error: 'SMTP RCPT TO:<ana@example.com> failed: 550 No such user' });
+    expect(server.closed).toBe(true);
+  });
+
+  it('dot-stuffs lines that start with a period', async () => {
+    const server = fakeSmtpServer();
+    const transport = createSmtpTransport({ host: 'localhost', port: 54325 }, server.connect);
+    const attachment = { filename: 'notes.txt', content: '.c2VjcmV0', contentType: 'text/plain' };
+
+    await transport.send({ ...message, attachments: [attachment] });
+
+    const data = server.written[4];
+    expect(data).toContain('\r\n..c2VjcmV0\r\n');
+  });
+});
+
+describe('createResendTransport', () => {
+  it('posts the message to the Resend API', async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const transport = createResendTransport({
+      apiKey: 're_test',
+      fetchImpl: (async (url: string, init: RequestInit) => {
+        requests.push({ url, init });
+        return new Response(JSON.stringify({ id: 'email_1' }), { status: 200 });
+      }) as typeof fetch,
+    });
+
+    const attachment = { filename: 'event.ics', content: 'QQ==', contentType: 'text/calendar; charset=utf-8; method=REQUEST' };
+    const result = await transport.send({ ...message, attachments: [attachment] });
+
+    expect(result).toEqual({ ok: true, id: 'email_1' });
+    expect(requests[0].url).toBe('https://api.resend.com/emails');
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer re_test');
+    expect(JSON.parse(requests[0].init.body as string)).toMatchObject({
+      from: message.from,
+      to: message.to,
+      attachments: [{ filename: 'event.ics', content: 'QQ==', content_type: 'text/calendar; charset=utf-8; method=REQUEST' }],
+    });
+    expect(transport.rateLimit.minIntervalMs).toBe(RESEND_MIN_INTERVAL_MS);
+  });
+
+  it('returns the API error', async () => {
+    const transport = createResendTransport({
+      apiKey: 're_test',
+      fetchImpl: (async () => new Response('invalid from', { status: 422, statusText: 'Unprocessable Entity' })) as typeof fetch,
+    });
+    expect(await transport.send(message)).toEqual({ ok: false, error: '422 Unprocessable Entity: invalid from' });
+  });
+});
+
+describe('parseResendWebhook', () => {
+  const event = (type: string, data: Record<string, unknown> = {}) => JSON.stringify({ type, data: { email_id: 'email_1', ...data } });
+
+  it('parses deliveries, bounces and complaints', () => {
+    expect(parseResendWebhook(event('email.delivered'))).toEqual({
+      report: { messageId: 'email_1', state: 'delivered', permanent: false },
+    });
+    expect(
+      parseResendWebhook(event('email.bounced', { bounce: { type: 'Permanent', subType: 'General', message: 'No such user' } }))
+    ).toEqual({
+      report: { messageId: 'email_1', state: 'failed', permanent: true, error: 'Permanent: General: No such user' },
+    });
+    expect(parseResendWebhook(event('email.bounced', { bounce: { type: 'Transient' } }))).toMatchObject({
+      report: { permanent: false },
+    });
+    expect(parseResendWebhook(event('email.complained'))).toMatchObject({ report: { state: 'complained', permanent: true } });
+  });
+
+  it('ignores other events and rejects malformed ones', () => {
+    expect(parseResendWebhook(event('email.opened'))).toEqual({ ignore: 'email.opened' });
+    expect(parseResendWebhook('{"type":"email.delivered"}')).toHaveProperty('error');
+    expect(parseResendWebhook('nope')).toHaveProperty('error');
+  });
+});
+
+describe('verifyResendWebhook', () => {
+  // Recorded bounce event, signed with a test secret
+  const secret = 'whsec_AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8=';
+  const body =
+    '{"type":"email.bounced","created_at":"2026-01-21T12:53:20.000Z","data":{"email_id":"4ef9a417-02e9-4d39-ad75-9611e0fcc33c",' +
+    '"from":"Booker <invites@example.com>","to":["ana@example.com"],"subject":"You\'re invited","bounce":{"type":"Permanent",' +
+    '"subType":"General","message":"The recipient\'s email address does not exist."}}}';
+  const headers = {
+    'svix-id': 'msg_2kSfMv6iC1TzGq0bXw8YtZ3hRd1',
+    'svix-timestamp': '1769000000',
+    'svix-signature': 'v0,old v1,3+l1G7aS1TY0nkyzcg/bzdR9JTRtNSr3Uwf/sLCJfVs=',
+  };
+  const sentAt = new Date(1769000000 * 1000);
+
+  it('accepts a recorded event', async () => {
+    expect(await verifyResendWebhook(secret, body, headers, sentAt)).toEqual({ ok: true });
+  });
+
+  it('rejects altered, stale or unsigned events', async () => {
+    expect(await verifyResendWebhook(secret, body.replace('Permanent', 'Transient'), headers, sentAt)).toEqual({
+      ok: false,
+      error: 'Invalid svix-signature',
+    });
+    expect(await verifyResendWebhook(secret, body, headers, new Date(sentAt.getTime() + 301_000))).toMatchObject({ ok: false });
+    expect(await verifyResendWebhook(secret, body, { ...headers, 'svix-signature': '' }, sentAt)).toMatchObject({ ok: false });
+    expect(await verifyResendWebhook(undefined, body, headers, sentAt)).toMatchObject({ ok: false });
+  });
+});
+
+describe('createCaptureTransport', () => {
+  it('keeps messages and passes them to persist', async () => {
+    const persisted: EmailMessage[] = [];
+    const transport = createCaptureTransport({ persist: async (m) => void persisted.push(m) });
+
+    expect(await transport.send(message)).toEqual({ ok: true, id: 'capture-1' });
+    expect(transport.messages).toEqual([message]);
+    expect(persisted).toEqual([message]);
+
+    transport.clear();
+    expect(transport.messages).toEqual([]);
+  });
+
+  it('fails the send when persisting fails', async () => {
+    const transport = createCaptureTransport({ persist: async () => { throw new Error('disk full'); } });
+    expect(await transport.send(message)).toEqual({ ok: false, error: 'Capture failed: disk full' });
+  });
+});
+
+describe('createRateLimitedSender', () => {
+  const fakeClock = () => {
+    let now = 1000;
+    const sleeps: number[] = [];
+    return {
+      sleeps,
+      clock: {
+        now: () => now,
+        sleep: async (ms: number) => {
+          sleeps.push(ms);
+        },
+      },
+      advance: (ms: number) => {
+        now += ms;
+      },
+    };
+  };
+  const transportWithInterval = (minIntervalMs: number): EmailTransport => ({
+    name: 'test',
+    rateLimit: { minIntervalMs },
+    send: async () => ({ ok: true }),
+  });
+
+  it('spaces sends by the transport interval, including concurrent ones', async () => {
+    const { clock, sleeps } = fakeClock();
+    const send = createRateLimitedSender(transportWithInterval(1100), clock);
+
+    await Promise.all([send(message), send(message), send(message)]);
+
+    expect(sleeps).toEqual([1100, 2200]);
+  });
+
+  it('does not wait once the interval has passed', async () => {
+    const { clock, sleeps, advance } = fakeClock();
+    const send = createRateLimitedSender(transportWithInterval(1100), clock);
+
+    await send(message);
+    advance(1500);
+    await send(message);
+
+    expect(sleeps).toEqual([]);
+  });
+
+  it('never waits for transports without a limit', async () => {
+    const { clock, sleeps } = fakeClock();
+    const send = createRateLimitedSender(transportWithInterval(0), clock);
+    await Promise.all([send(message), send(message)]);
+    expect(sleeps).toEqual([]);
+  });
+});
+
+describe('resolveEmailTransportConfig', () => {
+  const resolve = (env: Record<string, string>) => resolveEmailTransportConfig((name) => env[name]);
+
+  it('is off when nothing is configured', () => {
+    expect(resolve({})).toEqual({ config: null });
+  });
+
+  it('defaults to Resend, then SMTP', () => {
+    expect(resolve({ RESEND_API_KEY: 're_1', SMTP_HOST: 'localhost' })).toEqual({
+      config: { kind: 'resend', apiKey: 're_1', minIntervalMs: undefined },
+    });
+    expect(resolve({ SMTP_HOST: 'localhost' })).toMatchObject({ config: { kind: 'smtp', host: 'localhost', port: 587 } });
+  });
+
+  it('reads SMTP settings for the chosen transport', () => {
+    expect(
+      resolve({
+        EMAIL_TRANSPORT: 'smtp',
+        RESEND_API_KEY: 're_1',
+        SMTP_HOST: 'smtp.example.com',
+        SMTP_SECURE: 'true',
+        SMTP_USER: 'user',
+        SMTP_PASSWORD: 'secret',
+        EMAIL_MIN_INTERVAL_MS: '200',
+      })
+    ).toEqual({
+      config: {
+        kind: 'smtp',
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        username: 'user',
+        password: 'secret',
+        minIntervalMs: 200,
+      },
+    });
+    expect(resolve({ EMAIL_TRANSPORT: 'smtp', SMTP_HOST: '127.0.0.1', SMTP_PORT: '54325' })).toMatchObject({
+      config: { port: 54325, secure: false },
+    });
+  });
+
+  it('configures capture with an optional file', () => {
+    expect(resolve({ EMAIL_TRANSPORT: 'Capture', EMAIL_CAPTURE_FILE: '/tmp/mail.jsonl' })).toEqual({
+      config: { kind: 'capture', file: '/tmp/mail.jsonl' },
+    });
+  });
+
+  it('rejects incomplete or invalid settings', () => {
+    expect(resolve({ EMAIL_TRANSPORT: 'resend' })).toEqual({ error: 'EMAIL_TRANSPORT=resend needs RESEND_API_KEY' });
+    expect(resolve({ EMAIL_TRANSPORT: 'smtp' })).toEqual({ error: 'EMAIL_TRANSPORT=smtp needs SMTP_HOST' });
+    expect(resolve({ SMTP_HOST: 'localhost', SMTP_PORT: 'abc' })).toEqual({ error: 'SMTP_PORT must be a port number' });
+    expect(resolve({ RESEND_API_KEY: 're_1', EMAIL_MIN_INTERVAL_MS: '-5' })).toHaveProperty('error');
+    expect(resolve({ EMAIL_TRANSPORT: 'sendgrid' })).toHaveProperty('error');
+  });
+});
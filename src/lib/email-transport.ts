@@ -0,0 +1,478 @@
+/**
+ * Email delivery behind one interface.
+ *
+ * The edge function sends every email through an `EmailTransport`: Resend's
+ * HTTP API, any SMTP server (including the local Supabase Inbucket), or a
+ * capture transport that keeps messages in memory (and optionally a file) for
+ * tests and local runs. Which one is used comes from configuration
+ * (`resolveEmailTransportConfig`). Each transport declares its own rate limit,
+ * which `createRateLimitedSender` enforces. Sockets and file writes are passed
+ * in by the caller.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // base64
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  from: string; // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailRateLimit {
+  minIntervalMs: number; // Minimum gap between two sends; 0 for none
+}
+
+export interface EmailSendResult {
+  ok: boolean;
+  id?: string; // Provider message id, when there is one
+  error?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  rateLimit: EmailRateLimit;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+// Resend's free tier allows 1 email/second; 1.1s to be safe
+export const RESEND_MIN_INTERVAL_MS = 1100;
+
+// --- Resend ---
+
+export function createResendTransport(options: {
+  apiKey: string;
+  minIntervalMs?: number;
+  fetchImpl?: typeof fetch;
+}): EmailTransport {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    name: 'resend',
+    rateLimit: { minIntervalMs: options.minIntervalMs ?? RESEND_MIN_INTERVAL_MS },
+    async send(message) {
+      const res = await fetchImpl('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          attachments: message.attachments?.length
+            ? message.attachments.map(({ filename, content, contentType }) => ({ filename, content, content_type: contentType }))
+            : undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        return { ok: false, error: `${res.status} ${res.statusText}: ${await res.text()}` };
+      }
+      const body = await res.json().catch(() => null);
+      return { ok: true, id: body?.id };
+    },
+  };
+}
+
+// A delivery report from Resend's webhook (same shape as DeliveryReport in delivery-reports.ts)
+export interface EmailDeliveryReport {
+  messageId: string;
+  state: 'delivered' | 'failed' | 'complained';
+  permanent: boolean;
+  error?: string;
+}
+
+/**
+ * Parse a Resend webhook event. Only delivered, bounced and complained events
+ * say anything about the address; others (sent, opened, delayed, ...) are ignored.
+ */
+export function parseResendWebhook(body: string): { report: EmailDeliveryReport } | { ignore: string } | { error: string } {
+  let event: any;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return { error: 'Invalid JSON' };
+  }
+  const type = event?.type;
+  const messageId = event?.data?.email_id;
+  if (typeof type !== 'string' || typeof messageId !== 'string') return { error: 'Not a Resend email event' };
+
+  switch (type) {
+    case 'email.delivered':
+      return { report: { messageId, state: 'delivered', permanent: false } };
+    case 'email.bounced': {
+      const bounce = event.data.bounce ?? {};
+      return {
+        report: {
+          messageId,
+          state: 'failed',
+          // Soft bounces (full mailbox, out of office) are Transient; count them instead
+          permanent: bounce.type === 'Permanent',
+          error: [bounce.type, bounce.subType, bounce.message].filter(Boolean).join(': ') || 'Bounced',
+        },
+      };
+    }
+    case 'email.complained':
+      return { report: { messageId, state: 'complained', permanent: true, error: 'Marked as spam' } };
+    default:
+      return { ignore: type };
+  }
+}
+
+// How old a signed Resend webhook may be before it counts as a replay
+export const RESEND_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Check a Resend webhook's signature. Resend signs through Svix: `svix-signature`
+ * holds space-separated `v1,<base64 HMAC-SHA256>` entries over
+ * `<svix-id>.<svix-timestamp>.<body>`, keyed with the base64 part of the
+ * `whsec_...` signing secret. `headers` use lowercase names.
+ */
+export async function verifyResendWebhook(
+  secret: string | undefined,
+  body: string,
+  headers: Record<string, string>,
+  now: Date = new Date()
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (!secret) return { ok: false, error: 'RESEND_WEBHOOK_SECRET is not set, so webhooks cannot be verified' };
+  const id = headers['svix-id'];
+  const timestamp = headers['svix-timestamp'];
+  const signatures = headers['svix-signature'];
+  if (!id || !timestamp || !signatures) return { ok: false, error: 'Missing svix-id, svix-timestamp or svix-signature' };
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > RESEND_WEBHOOK_TOLERANCE_SECONDS) {
+    return { ok: false, error: 'svix-timestamp is too old or in the future' };
+  }
+
+  const keyBytes = Uint8Array.from(atob(secret.replace(/^whsec_/, '')), (char) => char.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  const matches = signatures.split(' ').some((entry) => {
+    const [version, signature = ''] = entry.split(',');
+    // Compare without returning early, so response times don't leak how much matched
+    let diff = signature.length ^ expected.length;
+    for (let i = 0; i < expected.length; i++) diff |= (signature.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+    return version === 'v1' && diff === 0;
+  });
+  return matches ? { ok: true } : { ok: false, error: 'Invalid svix-signature' };
+}
+
+// --- Capture (tests and local development) ---
+
+export interface CaptureTransport extends EmailTransport {
+  messages: EmailMessage[];
+  clear(): void;
+}
+
+/**
+ * Keep sent messages in memory; `persist` can also write each one out (e.g. to a file).
+ */
+export function createCaptureTransport(options: { persist?: (message: EmailMessage) => Promise<void> } = {}): CaptureTransport {
+  const messages: EmailMessage[] = [];
+  return {
+    name: 'capture',
+    rateLimit: { minIntervalMs: 0 },
+    messages,
+    clear() {
+      messages.length = 0;
+    },
+    async send(message) {
+      messages.push(message);
+      try {
+        await options.persist?.(message);
+      } catch (error) {
+        return { ok: false, error: `Capture failed: ${error instanceof Error ? error.message : String(error)}` };
+      }
+      return { ok: true, id: `capture-${messages.length}` };
+    },
+  };
+}
+
+// --- SMTP ---
+
+// A socket to the SMTP server. read() returns the next chunk of text, or null once closed.
+export interface SmtpConnection {
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+  startTls?(hostname: string): Promise<SmtpConnection>;
+  close(): void;
+}
+
+export type SmtpConnector = (options: { hostname: string; port: number; tls: boolean }) => Promise<SmtpConnection>;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // TLS from the start (usually port 465); otherwise STARTTLS when the server offers it
+  username?: string;
+  password?: string;
+  heloName?: string;
+  minIntervalMs?: number;
+}
+
+const textEncoder = new TextEncoder();
+
+const base64Utf8 = (value: string) => {
+  let binary = '';
+  for (const byte of textEncoder.encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+// Wrap base64 at 76 characters per line, as MIME requires
+const wrapBase64 = (value: string) => value.replace(/.{1,76}/g, '$&\r\n').trimEnd();
+
+// RFC 2047 encoded-word for non-ASCII header values
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64Utf8(value)}?=`;
+
+// Address part of "Name <address>"
+export const emailAddress = (value: string) => value.match(/<([^>]+)>/)?.[1]?.trim() ?? value.trim();
+
+const encodeMailbox = (value: string) => {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return emailAddress(value);
+  const name = match[1].replace(/^"|"$/g, '');
+  return `${/^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : encodeHeader(name)} <${match[2]}>`;
+};
+
+const attachmentType = (attachment: EmailAttachment) =>
+  attachment.contentType ?? (attachment.filename.endsWith('.ics') ? 'text/calendar; charset=utf-8' : 'application/octet-stream');
+
+/**
+ * The message as MIME text (CRLF line endings): text and HTML alternatives,
+ * plus attachments when present. Bodies are base64 so no line needs dot-stuffing.
+ */
+export function buildMimeMessage(
+  message: EmailMessage,
+  options: { boundary: string; date: Date; messageId: string }
+): string {
+  const alternative = `alt-${options.boundary}`;
+  const mixed = `mixed-${options.boundary}`;
+  const attachments = message.attachments ?? [];
+
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to.map(encodeMailbox).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${options.date.toUTCString()}`,
+    `Message-ID: <${options.messageId}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const alternativePart = [
+    `--${alternative}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(base64Utf8(message.text)),
+    `--${alternative}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(base64Utf8(message.html)),
+    `--${alternative}--`,
+  ];
+
+  if (attachments.length === 0) {
+    return [...headers, `Content-Type: multipart/alternative; boundary="${alternative}"`, '', ...alternativePart].join('\r\n');
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixed}"`,
+    '',
+    `--${mixed}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    '',
+    ...alternativePart,
+    ...attachments.flatMap((attachment) => [
+      `--${mixed}`,
+      `Content-Type: ${attachmentType(attachment)}; name="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      '',
+      wrapBase64(attachment.content),
+    ]),
+    `--${mixed}--`,
+  ].join('\r\n');
+}
+
+// Reads complete SMTP replies (multi-line replies end with "NNN text")
+const createReplyReader = (connection: SmtpConnection) => {
+  let buffer = '';
+  return async (): Promise<{ code: number; lines: string[] }> => {
+    const lines: string[] = [];
+    while (true) {
+      const newline = buffer.indexOf('\r\n');
+      if (newline === -1) {
+        const chunk = await connection.read();
+        if (chunk === null) throw new Error('SMTP connection closed');
+        buffer += chunk;
+        continue;
+      }
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  };
+};
+
+/**
+ * Send over SMTP: EHLO, STARTTLS when offered (unless already TLS), AUTH PLAIN
+ * when credentials are set, then one message per connection.
+ */
+export function createSmtpTransport(options: SmtpOptions, connect: SmtpConnector): EmailTransport {
+  return {
+    name: 'smtp',
+    rateLimit: { minIntervalMs: options.minIntervalMs ?? 0 },
+    async send(message) {
+      let connection = await connect({ hostname: options.host, port: options.port, tls: !!options.secure });
+      let readReply = createReplyReader(connection);
+
+      const command = async (line: string | null, expected: number[]) => {
+        if (line !== null) await connection.write(`${line}\r\n`);
+        const reply = await readReply();
+        if (!expected.includes(reply.code)) {
+          const shown = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+          throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        const helo = `EHLO ${options.heloName ?? 'localhost'}`;
+        let extensions = (await command(helo, [250])).lines.map((line) => line.toUpperCase());
+
+        if (!options.secure && connection.startTls && extensions.some((ext) => ext.startsWith('STARTTLS'))) {
+          await command('STARTTLS', [220]);
+          connection = await connection.startTls(options.host);
+          readReply = createReplyReader(connection);
+          extensions = (await command(helo, [250])).lines.map((line) => line.toUpperCase());
+        }
+
+        if (options.username) {
+          await command(`AUTH PLAIN ${base64Utf8(`\0${options.username}\0${options.password ?? ''}`)}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${emailAddress(message.from)}>`, [250]);
+        for (const recipient of message.to) {
+          await command(`RCPT TO:<${emailAddress(recipient)}>`, [250, 251]);
+        }
+        await command('DATA', [354]);
+
+        const messageId = `${crypto.randomUUID()}@${emailAddress(message.from).split('@')[1] ?? 'localhost'}`;
+        const mime = buildMimeMessage(message, { boundary: crypto.randomUUID(), date: new Date(), messageId });
+        // Dot-stuff any line starting with "." (RFC 5321 4.5.2), then end the data
+        await command(`${mime.replace(/^\./gm, '..')}\r\n.`, [250]);
+
+        await connection.write('QUIT\r\n').catch(() => {});
+        return { ok: true, id: messageId };
+      } catch (error) {
+        return { ok: false, error: error instanceof Error ? error.message : String(error) };
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
+
+// --- Rate limiting ---
+
+/**
+ * Send through `transport` no faster than its declared rate limit. Slots are
+ * reserved in call order, so concurrent callers queue rather than burst.
+ */
+export function createRateLimitedSender(
+  transport: EmailTransport,
+  clock: { now: () => number; sleep: (ms: number) => Promise<void> } = {
+    now: () => Date.now(),
+    sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  }
+): (message: EmailMessage) => Promise<EmailSendResult> {
+  let nextSlotAt = 0;
+  return async (message) => {
+    const now = clock.now();
+    const slotAt = Math.max(now, nextSlotAt);
+    nextSlotAt = slotAt + transport.rateLimit.minIntervalMs;
+    if (slotAt > now) await clock.sleep(slotAt - now);
+    return transport.send(message);
+  };
+}
+
+// --- Configuration ---
+
+export type EmailTransportConfig =
+  | { kind: 'resend'; apiKey: string; minIntervalMs?: number }
+  | ({ kind: 'smtp' } & SmtpOptions)
+  | { kind: 'capture'; file?: string };
+
+/**
+ * Pick the transport from environment variables:
+ *
+ * - EMAIL_TRANSPORT: resend | smtp | capture. Without it, Resend is used when
+ *   RESEND_API_KEY is set, then SMTP when SMTP_HOST is set; otherwise email is off (null).
+ * - Resend: RESEND_API_KEY.
+ * - SMTP: SMTP_HOST, SMTP_PORT (default 465 with SMTP_SECURE=true, else 587),
+ *   SMTP_SECURE, SMTP_USER, SMTP_PASSWORD.
+ * - Capture: EMAIL_CAPTURE_FILE to also append each message to a file (JSON lines).
+ * - EMAIL_MIN_INTERVAL_MS overrides the transport's own rate limit.
+ */
+export function resolveEmailTransportConfig(
+  env: (name: string) => string | undefined
+): { config: EmailTransportConfig | null } | { error: string } {
+  const kind = env('EMAIL_TRANSPORT')?.trim().toLowerCase()
+    || (env('RESEND_API_KEY') ? 'resend' : env('SMTP_HOST') ? 'smtp' : '');
+  if (!kind) return { config: null };
+
+  const intervalSetting = env('EMAIL_MIN_INTERVAL_MS');
+  const minIntervalMs = intervalSetting ? Number(intervalSetting) : undefined;
+  if (minIntervalMs !== undefined && (!Number.isInteger(minIntervalMs) || minIntervalMs < 0)) {
+    return { error: 'EMAIL_MIN_INTERVAL_MS must be a whole number of milliseconds' };
+  }
+
+  switch (kind) {
+    case 'resend': {
+      const apiKey = env('RESEND_API_KEY');
+      if (!apiKey) return { error: 'EMAIL_TRANSPORT=resend needs RESEND_API_KEY' };
+      return { config: { kind: 'resend', apiKey, minIntervalMs } };
+    }
+    case 'smtp': {
+      const host = env('SMTP_HOST');
+      if (!host) return { error: 'EMAIL_TRANSPORT=smtp needs SMTP_HOST' };
+      const secure = env('SMTP_SECURE') === 'true';
+      const port = Number(env('SMTP_PORT') || (secure ? 465 : 587));
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        return { error: 'SMTP_PORT must be a port number' };
+      }
+      return {
+        config: {
+          kind: 'smtp',
+          host,
+          port,
+          secure,
+          username: env('SMTP_USER') || undefined,
+          password: env('SMTP_PASSWORD') || undefined,
+          minIntervalMs,
+        },
+      };
+    }
+    case 'capture':
+      return { config: { kind: 'capture', file: env('EMAIL_CAPTURE_FILE') || undefined } };
+    default:
+      return { error: `Unknown EMAIL_TRANSPORT "${kind}" (expected resend, smtp or capture)` };
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEventListQuery,
+  buildEventListParams,
+  encodeEventCursor,
+  decodeEventCursor,
+  MAX_EVENTS_PAGE,
+  type EventListQuery,
+} from './event-query';
+
+const parse = (search: string) => parseEventListQuery(new URLSearchParams(search));
+const parsed = (search: string): EventListQuery => {
+  const result = parse(search);
+  if ('error' in result) throw new Error(result.error);
+  return result.query;
+};
+
+describe('event cursors', () => {
+  it('round-trips and is URL-safe', () => {
+    const cursor = { date: '2026-01-20', time: '14:00:00', id: '3f2b0c8e-8d1a-4c4e-9b1f-1d2e3f4a5b6c' };
+    const encoded = encodeEventCursor(cursor);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeEventCursor(encoded)).toEqual(cursor);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeEventCursor('not-a-cursor')).toBeNull();
+    expect(decodeEventCursor(btoa(JSON.stringify(['2026-13-45', '14:00', 'x'])))).toBeNull();
+    expect(decodeEventCursor(btoa(JSON.stringify({ date: '2026-01-20' })))).toBeNull();
+  });
+});
+
+describe('parseEventListQuery', () => {
+  it('defaults to the first page in ascending date order', () => {
+    expect(parsed('')).toEqual({ order: 'asc', limit: 10, cursor: null, countDays: null });
+  });
+
+  it('reads every filter', () => {
+    const query = parsed('role=invited&from=2026-01-01&to=2026-01-31&status=scheduled&invitee=Ana@Test.com&invitee=%2B15551234567&q=%20tennis%20&order=desc&limit=20');
+    expect(query).toMatchObject({
+      role: 'invited',
+      from: '2026-01-01',
+      to: '2026-01-31',
+      status: 'scheduled',
+      invitees: ['ana@test.com', '+15551234567'],
+      search: 'tennis',
+      order: 'desc',
+      limit: 20,
+    });
+  });
+
+  it('caps the page size', () => {
+    expect(parsed('limit=500').limit).toBe(MAX_EVENTS_PAGE);
+  });
+
+  it('reads the days for quick-filter counts', () => {
+    expect(parsed('today=2026-01-20&weekStart=2026-01-18&weekEnd=2026-01-24').countDays).toEqual({
+      today: '2026-01-20',
+      weekStart: '2026-01-18',
+      weekEnd: '2026-01-24',
+    });
+    expect(parse('today=2026-01-20')).toHaveProperty('error');
+  });
+
+  it('rejects invalid values', () => {
+    expect(parse('role=owner')).toEqual({ error: 'role must be organized or invited' });
+    expect(parse('from=yesterday')).toHaveProperty('error');
+    expect(parse('from=2026-02-01&to=2026-01-01')).toHaveProperty('error');
+    expect(parse('status=maybe')).toHaveProperty('error');
+    expect(parse('order=up')).toHaveProperty('error');
+    expect(parse('limit=0')).toHaveProperty('error');
+    expect(parse('cursor=abc')).toEqual({ error: 'Invalid cursor' });
+    expect(parse(`q=${'x'.repeat(101)}`)).toHaveProperty('error');
+  });
+});
+
+describe('buildEventListParams', () => {
+  it('round-trips through parseEventListQuery', () => {
+    const cursor = encodeEventCursor({ date: '2026-01-20', time: '14:00:00', id: 'abc' });
+    const params = buildEventListParams(
+      { role: 'organized', from: '2026-01-01', status: 'no-show', invitees: ['ana@test.com'], search: 'court 4', order: 'desc' },
+      { limit: 25, cursor, countDays: { today: '2026-01-20', weekStart: '2026-01-18', weekEnd: '2026-01-24' } }
+    );
+
+    expect(parseEventListQuery(params)).toEqual({
+      query: {
+        role: 'organized',
+        from: '2026-01-01',
+        status: 'no-show',
+        invitees: ['ana@test.com'],
+        search: 'court 4',
+        order: 'desc',
+        limit: 25,
+        cursor: { date: '2026-01-20', time: '14:00:00', id: 'abc' },
+        countDays: { today: '2026-01-20', weekStart: '2026-01-18', weekEnd: '2026-01-24' },
+      },
+    });
+  });
+
+  it('leaves out empty filters', () => {
+    expect(buildEventListParams({ search: '  ', invitees: [] }).toString()).toBe('');
+  });
+});
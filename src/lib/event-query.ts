@@ -0,0 +1,177 @@
+/**
+ * Query string for GET /events: filters, sort by event date, and cursor
+ * pagination.
+ *
+ * The dashboard builds the query with `buildEventListParams` and the edge
+ * function parses it with `parseEventListQuery`; the filtering itself runs in
+ * SQL (`list_events`).
+ */
+
+export const EVENT_ROLES = ['organized', 'invited'] as const;
+export type EventRole = (typeof EVENT_ROLES)[number];
+
+// Confirmation statuses as in event-status.ts, plus 'unconfirmed': past events nobody accepted
+export const EVENT_STATUS_FILTERS = ['scheduled', 'invited', 'declined', 'no-show', 'unconfirmed'] as const;
+export type EventStatusFilter = (typeof EVENT_STATUS_FILTERS)[number];
+
+export const DEFAULT_EVENTS_PAGE = 10;
+export const MAX_EVENTS_PAGE = 50;
+export const MAX_EVENT_SEARCH_LENGTH = 100;
+
+export interface EventListFilters {
+  role?: EventRole;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  status?: EventStatusFilter;
+  invitees?: string[]; // Invitee emails or phone numbers; an event matches if it has any of them
+  search?: string; // Title, description or location
+  order?: 'asc' | 'desc'; // By event date and time; default ascending
+}
+
+// Position after the last event of a page: events sort by (date, time, id)
+export interface EventCursor {
+  date: string;
+  time: string;
+  id: string;
+}
+
+// The user's calendar days, for the quick-filter counts (today, tomorrow, this week, past)
+export interface EventCountDays {
+  today: string;
+  weekStart: string;
+  weekEnd: string;
+}
+
+export interface EventListQuery extends EventListFilters {
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor: EventCursor | null;
+  countDays: EventCountDays | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+
+const isDate = (value: string) => DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export function encodeEventCursor(cursor: EventCursor): string {
+  return btoa(JSON.stringify([cursor.date, cursor.time, cursor.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor from a previous page. Returns null if it was tampered with or malformed.
+ */
+export function decodeEventCursor(value: string): EventCursor | null {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const parsed = JSON.parse(atob(base64));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [date, time, id] = parsed;
+    if (typeof date !== 'string' || !isDate(date)) return null;
+    if (typeof time !== 'string' || !TIME_PATTERN.test(time)) return null;
+    if (typeof id !== 'string' || id.length === 0) return null;
+    return { date, time, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse and validate GET /events query parameters.
+ */
+export function parseEventListQuery(params: URLSearchParams): { query: EventListQuery } | { error: string } {
+  const query: EventListQuery = { order: 'asc', limit: DEFAULT_EVENTS_PAGE, cursor: null, countDays: null };
+
+  const role = params.get('role');
+  if (role) {
+    if (!(EVENT_ROLES as readonly string[]).includes(role)) return { error: 'role must be organized or invited' };
+    query.role = role as EventRole;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!isDate(value)) return { error: `${key} must be a date (YYYY-MM-DD)` };
+    query[key] = value;
+  }
+  if (query.from && query.to && query.from > query.to) {
+    return { error: 'from must not be after to' };
+  }
+
+  const status = params.get('status');
+  if (status) {
+    if (!(EVENT_STATUS_FILTERS as readonly string[]).includes(status)) return { error: 'Unknown status filter' };
+    query.status = status as EventStatusFilter;
+  }
+
+  const invitees = params.getAll('invitee').map((value) => value.trim()).filter(Boolean);
+  if (invitees.length > 0) {
+    // Emails compare case-insensitively; phone numbers have no letters to lower
+    query.invitees = [...new Set(invitees.map((value) => value.toLowerCase()))];
+  }
+
+  const search = params.get('q')?.trim();
+  if (search) {
+    if (search.length > MAX_EVENT_SEARCH_LENGTH) return { error: `Search is limited to ${MAX_EVENT_SEARCH_LENGTH} characters` };
+    query.search = search;
+  }
+
+  const order = params.get('order');
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+    query.order = order;
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1) return { error: 'limit must be a positive integer' };
+    query.limit = Math.min(parsed, MAX_EVENTS_PAGE);
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    query.cursor = decodeEventCursor(cursor);
+    if (!query.cursor) return { error: 'Invalid cursor' };
+  }
+
+  const today = params.get('today');
+  if (today) {
+    const weekStart = params.get('weekStart') ?? '';
+    const weekEnd = params.get('weekEnd') ?? '';
+    if (![today, weekStart, weekEnd].every(isDate)) {
+      return { error: 'today, weekStart and weekEnd must be dates (YYYY-MM-DD)' };
+    }
+    query.countDays = { today, weekStart, weekEnd };
+  }
+
+  return { query };
+}
+
+/**
+ * Query parameters for one page of GET /events.
+ */
+export function buildEventListParams(
+  filters: EventListFilters,
+  page: { limit?: number; cursor?: string | null; countDays?: EventCountDays | null } = {}
+): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.role) params.set('role', filters.role);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.status) params.set('status', filters.status);
+  for (const invitee of filters.invitees ?? []) params.append('invitee', invitee);
+  if (filters.search?.trim()) params.set('q', filters.search.trim());
+  if (filters.order) params.set('order', filters.order);
+  if (page.limit) params.set('limit', String(page.limit));
+  if (page.cursor) params.set('cursor', page.cursor);
+  if (page.countDays) {
+    params.set('today', page.countDays.today);
+    params.set('weekStart', page.countDays.weekStart);
+    params.set('weekEnd', page.countDays.weekEnd);
+  }
+  return params;
+}
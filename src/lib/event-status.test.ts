@@ -19,8 +19,8 @@ function createMockEvent(overrides: Partial<Event> = {}): Event {
 }
 
 describe('calculateEventStatuses', () => {
-  // Fixed "now" for consistent testing
-  const now = new Date('2026-01-15T12:00:00');
+  // Fixed "now" for consistent testing; events without a zone are UTC
+  const now = new Date('2026-01-15T12:00:00Z');
 
   describe('Confirmation Status', () => {
     describe('scheduled status', () => {
@@ -67,6 +67,20 @@ describe('calculateEventStatuses', () => {
     });
 
     describe('invited status', () => {
+      it('should return "invited" for future event where the only answer is a maybe', () => {
+        const event = createMockEvent({
+          date: '2026-01-20',
+          time: '14:00',
+          invitees: [
+            { name: 'Alice', email: 'alice@test.com', priority: 1, status: 'tentative' },
+            { name: 'Bob', email: 'bob@test.com', priority: 2, status: 'declined' },
+          ],
+        });
+
+        const result = calculateEventStatuses(event, now);
+        expect(result.confirmationStatus).toBe('invited');
+      });
+
       it('should return "invited" for future event with pending invitees', () => {
         const event = createMockEvent({
           date: '2026-01-20',
@@ -327,4 +341,21 @@ describe('calculateEventStatuses', () => {
       expect(result.timeStatus).toBe('completed');
     });
   });
+
+  describe('Time zones', () => {
+    // 18:00 in New York on 2026-06-01 is 22:00 UTC, 15:00 in Los Angeles
+    const event = createMockEvent({ date: '2026-06-01', time: '18:00', timeZone: 'America/New_York' });
+
+    it('reads the start in the event zone, not the viewer zone', () => {
+      expect(calculateEventStatuses(event, new Date('2026-06-01T21:59:00Z')).timeStatus).toBe('approaching');
+      expect(calculateEventStatuses(event, new Date('2026-06-01T22:01:00Z')).timeStatus).toBe('completed');
+    });
+
+    it('counts the 24 hours in real time across a daylight saving change', () => {
+      // 01:30 on the night New York springs forward is 06:30 UTC
+      const springEvent = createMockEvent({ date: '2026-03-08', time: '01:30', timeZone: 'America/New_York' });
+      expect(calculateEventStatuses(springEvent, new Date('2026-03-07T06:29:00Z')).timeStatus).toBe('upcoming');
+      expect(calculateEventStatuses(springEvent, new Date('2026-03-07T06:31:00Z')).timeStatus).toBe('approaching');
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import type { Event, ConfirmationStatus, TimeStatus } from '../app/types';
+import { zonedDateTimeToUtcMs } from './zoned-time';
 
 export interface EventStatuses {
   confirmationStatus: ConfirmationStatus;
@@ -11,22 +12,26 @@ export interface EventStatuses {
  * Confirmation Status:
  * - 'scheduled': At least one invitee has accepted
  * - 'declined': All invitees have declined (event won't happen)
- * - 'invited': Future event with pending/invited invitees (or no invitees yet)
+ * - 'invited': Future event with pending/invited/tentative invitees (or no invitees yet)
  * - 'no-show': Past event with no accepted invitees
  * 
  * Time Status:
  * - 'completed': Event is in the past
  * - 'approaching': Event is within 24 hours
  * - 'upcoming': Event is more than 24 hours away
+ *
+ * The start is read in the event's own time zone (UTC without one), so the
+ * result does not depend on where the viewer is.
  */
 export function calculateEventStatuses(event: Event, now: Date = new Date()): EventStatuses {
-  const eventDateTime = new Date(`${event.date}T${event.time}`);
-  const hoursUntilEvent = (eventDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+  const startMs = zonedDateTimeToUtcMs(event.date, event.time, event.timeZone);
+  const hoursUntilEvent = (startMs - now.getTime()) / (1000 * 60 * 60);
   
-  const hasPassed = eventDateTime < now;
+  const hasPassed = startMs < now.getTime();
   const hasAccepted = event.invitees.some(inv => inv.status === 'accepted');
   const hasInvited = event.invitees.some(inv => inv.status === 'invited');
   const hasPending = event.invitees.some(inv => inv.status === 'pending');
+  const hasTentative = event.invitees.some(inv => inv.status === 'tentative');
   const allDeclined = event.invitees.length > 0 && event.invitees.every(inv => inv.status === 'declined');
   
   // Confirmation status: scheduled (accepted) > declined (all declined) > invited > no-show (only for past events)
@@ -38,7 +43,7 @@ export function calculateEventStatuses(event: Event, now: Date = new Date()): Ev
   } else if (hasPassed) {
     // Past event with no accepted invitees = no-show
     confirmationStatus = 'no-show';
-  } else if (hasInvited || hasPending) {
+  } else if (hasInvited || hasPending || hasTentative) {
     confirmationStatus = 'invited';
   } else {
     // Future event with no invitees yet - treat as invited (pending setup)
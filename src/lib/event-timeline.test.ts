@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildEventTimeline } from './event-timeline';
+import type { Event, EventActivity } from '../app/types';
+
+function createMockEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: 'event-1',
+    title: 'Tennis',
+    description: '',
+    date: '2026-01-20',
+    time: '14:00',
+    location: '',
+    organizer: { email: 'organizer@test.com', name: 'Organizer' },
+    invitees: [],
+    inviteMode: 'priority',
+    sendOrganizerCalendarInvite: true,
+    sendInviteesCalendarInvite: true,
+    notifyByPhone: false,
+    createdAt: '2026-01-10T09:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('buildEventTimeline', () => {
+  it('lists creation, invitations and responses oldest first', () => {
+    const event = createMockEvent({
+      invitees: [
+        { name: 'Ana', priority: 1, status: 'accepted', invitedAt: '2026-01-10T09:00:01Z', respondedAt: '2026-01-10T11:00:00Z' },
+        { name: 'Ben', priority: 2, status: 'pending' },
+        { name: 'Cy', priority: 3, status: 'tentative', invitedAt: '2026-01-10T09:00:01Z', respondedAt: '2026-01-10T10:00:00Z' },
+      ],
+    });
+
+    expect(buildEventTimeline(event).map((entry) => [entry.kind, entry.inviteeName])).toEqual([
+      ['created', undefined],
+      ['invited', 'Ana'],
+      ['invited', 'Cy'],
+      ['tentative', 'Cy'],
+      ['accepted', 'Ana'],
+    ]);
+  });
+
+  it('keeps the activity row instead of the invitation an auto-promotion wrote', () => {
+    const event = createMockEvent({
+      invitees: [
+        { name: 'Ana', priority: 1, status: 'declined', invitedAt: '2026-01-10T09:00:01Z' },
+        { name: 'Ben', priority: 2, status: 'invited', invitedAt: '2026-01-10T09:30:00.000+00:00' },
+      ],
+    });
+    const activity: EventActivity[] = [
+      { id: 'a2', action: 'promoted', inviteeName: 'Ben', detail: 'Invited for an open spot (0 of 1 accepted)', createdAt: '2026-01-10T09:30:00Z' },
+      { id: 'a1', action: 'expired', inviteeName: 'Ana', detail: 'No response within 30 minutes', createdAt: '2026-01-10T09:30:00Z' },
+    ];
+
+    const timeline = buildEventTimeline(event, activity);
+    expect(timeline.map((entry) => [entry.kind, entry.inviteeName])).toEqual([
+      ['created', undefined],
+      ['invited', 'Ana'],
+      ['expired', 'Ana'],
+      ['promoted', 'Ben'],
+    ]);
+    expect(timeline[3].detail).toMatch(/open spot/);
+  });
+
+  it('ignores responses without a timestamp and invitees still in the queue', () => {
+    const event = createMockEvent({
+      invitees: [{ name: 'Ana', priority: 1, status: 'declined' }],
+    });
+    expect(buildEventTimeline(event)).toEqual([{ at: event.createdAt, kind: 'created' }]);
+  });
+});
@@ -0,0 +1,57 @@
+import type { Event, EventActivity } from '../app/types';
+
+export type TimelineKind = 'created' | 'invited' | 'accepted' | 'declined' | 'tentative' | 'expired' | 'promoted';
+
+// Tie-break for entries at the same instant: a sweep expires before it promotes
+const KIND_ORDER: TimelineKind[] = ['created', 'invited', 'expired', 'promoted', 'tentative', 'accepted', 'declined'];
+
+export interface TimelineEntry {
+  at: string; // ISO timestamp
+  kind: TimelineKind;
+  inviteeName?: string;
+  detail?: string;
+}
+
+/**
+ * Merge what happened to one event into a single, oldest-first timeline:
+ * creation, each invitee's latest invitation and response, and the
+ * auto-promote activity log (organizer only, so it may be empty).
+ *
+ * An auto-promotion writes both the invitee's invited_at and a 'promoted'
+ * activity row at the same instant; only the activity row is kept, since it
+ * says why the person was invited.
+ */
+export function buildEventTimeline(event: Event, activity: EventActivity[] = []): TimelineEntry[] {
+  const entries: TimelineEntry[] = [{ at: event.createdAt, kind: 'created' }];
+
+  const promotedAt = new Set(
+    activity
+      .filter((entry) => entry.action === 'promoted')
+      .map((entry) => `${entry.inviteeName ?? ''}@${Date.parse(entry.createdAt)}`)
+  );
+
+  for (const invitee of event.invitees) {
+    if (invitee.invitedAt && !promotedAt.has(`${invitee.name}@${Date.parse(invitee.invitedAt)}`)) {
+      entries.push({ at: invitee.invitedAt, kind: 'invited', inviteeName: invitee.name });
+    }
+    if (
+      invitee.respondedAt &&
+      (invitee.status === 'accepted' || invitee.status === 'declined' || invitee.status === 'tentative')
+    ) {
+      entries.push({ at: invitee.respondedAt, kind: invitee.status, inviteeName: invitee.name });
+    }
+  }
+
+  for (const entry of activity) {
+    entries.push({
+      at: entry.createdAt,
+      kind: entry.action,
+      inviteeName: entry.inviteeName,
+      detail: entry.detail,
+    });
+  }
+
+  return entries
+    .filter((entry) => !Number.isNaN(Date.parse(entry.at)))
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+}
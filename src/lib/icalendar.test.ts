@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendarFeed,
+  buildICalendar,
+  buildVTimezone,
+  escapeIcsText,
+  eventIdFromUid,
+  foldIcsLine,
+  icsUid,
+  parseItipReply,
+  rsvpActionForReply,
+  toPartstat,
+  type IcsEvent,
+} from './icalendar';
+
+const now = new Date('2026-01-01T00:00:00Z');
+
+const event: IcsEvent = {
+  uid: icsUid('event-1'),
+  sequence: 0,
+  title: 'Pickup game',
+  date: '2026-06-01',
+  time: '18:00',
+  timeZone: 'America/New_York',
+  durationMinutes: 90,
+  organizer: { email: 'olive@example.com', name: 'Olive' },
+  attendees: [{ email: 'ana@example.com', name: 'Ana', partstat: 'NEEDS-ACTION' }],
+};
+
+// Unfold and split into content lines
+const lines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeIcsText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `DESCRIPTION:${'é'.repeat(80)}`;
+    const folded = foldIcsLine(line);
+    const parts = folded.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
+
+describe('toPartstat', () => {
+  it('maps invitee statuses', () => {
+    expect(toPartstat('accepted')).toBe('ACCEPTED');
+    expect(toPartstat('declined')).toBe('DECLINED');
+    expect(toPartstat('tentative')).toBe('TENTATIVE');
+    expect(toPartstat('invited')).toBe('NEEDS-ACTION');
+    expect(toPartstat('pending')).toBe('NEEDS-ACTION');
+  });
+});
+
+describe('buildVTimezone', () => {
+  it('finds the daylight saving changes around the event', () => {
+    const start = Date.UTC(2026, 5, 1, 22);
+    const vtimezone = buildVTimezone('America/New_York', start, start);
+    expect(vtimezone[1]).toBe('TZID:America/New_York');
+    const text = vtimezone.join('\n');
+    expect(text).toContain('BEGIN:DAYLIGHT\nDTSTART:20260308T020000\nTZOFFSETFROM:-0500\nTZOFFSETTO:-0400');
+    expect(text).toContain('BEGIN:STANDARD\nDTSTART:20251102T020000\nTZOFFSETFROM:-0400\nTZOFFSETTO:-0500');
+  });
+
+  it('writes a single observance for zones without changes', () => {
+    const start = Date.UTC(2026, 5, 1);
+    expect(buildVTimezone('Asia/Kolkata', start, start)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+});
+
+describe('buildICalendar', () => {
+  it('writes a REQUEST in the event zone with the attendee asked to reply', () => {
+    const ics = buildICalendar('REQUEST', [event], now);
+    const content = lines(ics);
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(content).toContain('METHOD:REQUEST');
+    expect(content).toContain('UID:event-1@bookerbooker.com');
+    expect(content).toContain('SEQUENCE:0');
+    expect(content).toContain('DTSTAMP:20260101T000000Z');
+    expect(content).toContain('DTSTART;TZID=America/New_York:20260601T180000');
+    expect(content).toContain('DTEND;TZID=America/New_York:20260601T193000');
+    expect(content).toContain('STATUS:CONFIRMED');
+    expect(content).toContain('ORGANIZER;CN=Olive:mailto:olive@example.com');
+    expect(content).toContain('ATTENDEE;CN=Ana;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:ana@example.com');
+    expect(content.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(content.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('escapes text and quotes names with separators', () => {
+    const content = lines(buildICalendar('REQUEST', [{
+      ...event,
+      title: 'Games, snacks; fun',
+      description: 'Bring\nshoes',
+      organizer: { email: 'olive@example.com', name: 'Smith, Olive' },
+    }], now));
+    expect(content).toContain('SUMMARY:Games\\, snacks\\; fun');
+    expect(content).toContain('DESCRIPTION:Bring\\nshoes');
+    expect(content).toContain('ORGANIZER;CN="Smith, Olive":mailto:olive@example.com');
+  });
+
+  it('keeps the wall-clock end across a daylight saving change', () => {
+    const content = lines(buildICalendar('REQUEST', [{ ...event, date: '2026-03-08', time: '01:30' }], now));
+    expect(content).toContain('DTSTART;TZID=America/New_York:20260308T013000');
+    // 90 minutes after 01:30 EST is 04:00 EDT
+    expect(content).toContain('DTEND;TZID=America/New_York:20260308T040000');
+  });
+
+  it('writes events without a valid zone in UTC', () => {
+    for (const timeZone of [undefined, 'UTC', 'Not/AZone']) {
+      const content = lines(buildICalendar('REQUEST', [{ ...event, timeZone }], now));
+      expect(content).toContain('DTSTART:20260601T180000Z');
+      expect(content).toContain('DTEND:20260601T193000Z');
+      expect(content).not.toContain('BEGIN:VTIMEZONE');
+    }
+  });
+
+  it('marks a CANCEL as cancelled with the given sequence', () => {
+    const content = lines(buildICalendar('CANCEL', [{ ...event, sequence: 3 }], now));
+    expect(content).toContain('METHOD:CANCEL');
+    expect(content).toContain('SEQUENCE:3');
+    expect(content).toContain('STATUS:CANCELLED');
+    expect(content.find((line) => line.startsWith('ATTENDEE'))).not.toContain('RSVP=TRUE');
+  });
+
+  it('writes a REPLY for the first attendee only', () => {
+    const content = lines(buildICalendar('REPLY', [{
+      ...event,
+      attendees: [
+        { email: 'ana@example.com', partstat: 'ACCEPTED' },
+        { email: 'ben@example.com', partstat: 'DECLINED' },
+      ],
+    }], now));
+    expect(content).toContain('METHOD:REPLY');
+    expect(content).toContain('ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:ana@example.com');
+    expect(content.some((line) => line.includes('ben@example.com'))).toBe(false);
+  });
+
+  it('shares one VTIMEZONE between events in the same zone', () => {
+    const ics = buildICalendar('PUBLISH', [event, { ...event, uid: icsUid('event-2'), date: '2026-12-01' }], now);
+    expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).not.toContain('ATTENDEE');
+    // The December event falls in standard time again
+    expect(ics).toContain('DTSTART:20261101T020000');
+  });
+});
+
+describe('buildCalendarFeed', () => {
+  it('publishes the events under a name with a refresh interval', () => {
+    const content = lines(buildCalendarFeed('Booker, Olive', [event, { ...event, uid: icsUid('event-2'), timeZone: undefined }], now));
+    expect(content).toContain('METHOD:PUBLISH');
+    expect(content).toContain('X-WR-CALNAME:Booker\\, Olive');
+    expect(content).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+    expect(content.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(content).toContain('DTSTART:20260601T180000Z');
+    expect(content.some((line) => line.startsWith('ATTENDEE'))).toBe(false);
+  });
+
+  it('is a valid empty calendar without events', () => {
+    const content = lines(buildCalendarFeed('Booker', [], now));
+    expect(content[0]).toBe('BEGIN:VCALENDAR');
+    expect(content).not.toContain('BEGIN:VEVENT');
+    expect(content).toContain('END:VCALENDAR');
+  });
+});
+
+describe('eventIdFromUid', () => {
+  it('reads back ids written by icsUid and ignores other UIDs', () => {
+    expect(eventIdFromUid(icsUid('event-1'))).toBe('event-1');
+    expect(eventIdFromUid('abc123@google.com')).toBeNull();
+  });
+});
+
+describe('parseItipReply', () => {
+  it('reads our own REPLY back', () => {
+    const ics = buildICalendar('REPLY', [{
+      ...event,
+      sequence: 4,
+      attendees: [{ email: 'Ana@Example.com', name: 'Smith, Ana', partstat: 'TENTATIVE' }],
+    }], now);
+    expect(parseItipReply(ics)).toEqual({
+      uid: 'event-1@bookerbooker.com',
+      sequence: 4,
+      attendee: { email: 'ana@example.com', partstat: 'TENTATIVE' },
+    });
+  });
+
+  it('handles folded lines, quoted parameters and MAILTO in capitals', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'METHOD:REPLY',
+      'BEGIN:VEVENT',
+      'UID:event-1@bookerbooker.com',
+      'ATTENDEE;CN="Smith; Ana: Jr";PARTSTAT=DECLINED;RSVP=FALSE:MAILTO:ana@exam',
+      ' ple.com',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    expect(parseItipReply(ics)).toEqual({
+      uid: 'event-1@bookerbooker.com',
+      sequence: 0,
+      attendee: { email: 'ana@example.com', partstat: 'DECLINED' },
+    });
+  });
+
+  it('ignores anything but a REPLY', () => {
+    expect(parseItipReply(buildICalendar('REQUEST', [event], now))).toBeNull();
+    expect(parseItipReply(buildICalendar('REPLY', [{ ...event, attendees: [] }], now))).toBeNull();
+    expect(parseItipReply('not a calendar')).toBeNull();
+  });
+});
+
+describe('rsvpActionForReply', () => {
+  it('maps PARTSTAT to the RSVP action', () => {
+    expect(rsvpActionForReply('ACCEPTED', 'invited')).toBe('confirm');
+    expect(rsvpActionForReply('TENTATIVE', 'invited')).toBe('tentative');
+    expect(rsvpActionForReply('DECLINED', 'invited')).toBe('decline');
+    expect(rsvpActionForReply('NEEDS-ACTION', 'invited')).toBeNull();
+    expect(rsvpActionForReply('DELEGATED', 'invited')).toBeNull();
+  });
+
+  it('withdraws someone who had accepted', () => {
+    expect(rsvpActionForReply('declined', 'accepted')).toBe('withdraw');
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Calendar invites: iCalendar (RFC 5545) with iTIP methods (RFC 5546).
+ *
+ * The organizer side sends REQUEST when someone confirms or an event they
+ * hold changes, and CANCEL when the event is called off. Every change bumps
+ * the event's SEQUENCE (events.ics_sequence), so calendar apps replace the
+ * copy they already have instead of adding a second one. REPLY is what an
+ * invitee's calendar sends back with their PARTSTAT (parseItipReply reads
+ * it for the inbound email webhook). Subscribed feeds
+ * (buildCalendarFeed) are PUBLISH calendars that apps poll.
+ *
+ * Times are written in the event's own zone with an embedded VTIMEZONE, so
+ * clients do not need to know the IANA name. Events without a (valid) zone
+ * are written in UTC, like the reminders (see zoned-time.ts).
+ */
+
+import { isValidTimeZone, wallClockMs, zonedDateTimeToUtcMs, zoneOffsetReader } from './zoned-time.ts';
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL' | 'REPLY';
+
+export type IcsPartstat = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE';
+
+export interface IcsPerson {
+  email: string;
+  name?: string;
+}
+
+export interface IcsAttendee extends IcsPerson {
+  partstat: IcsPartstat;
+}
+
+export interface IcsEvent {
+  uid: string; // Stable per event, see icsUid
+  sequence: number; // events.ics_sequence
+  title: string;
+  description?: string;
+  location?: string;
+  date: string; // YYYY-MM-DD, wall clock in timeZone
+  time: string; // HH:MM or HH:MM:SS
+  timeZone?: string; // IANA zone; missing or unknown means UTC
+  durationMinutes?: number; // Defaults to 60
+  organizer: IcsPerson;
+  attendees?: IcsAttendee[]; // Usually just the recipient, so invitees never see each other
+  url?: string;
+}
+
+export const DEFAULT_ICS_DURATION_MINUTES = 60;
+
+// Lines longer than this many octets are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * UID of an event's calendar entry. It never changes, so updates and
+ * cancellations land on the entry the invitee already has.
+ */
+export function icsUid(eventId: string): string {
+  return `${eventId}@bookerbooker.com`;
+}
+
+/**
+ * The event id in a UID written by icsUid, or null for anyone else's UID.
+ */
+export function eventIdFromUid(uid: string): string | null {
+  const match = uid.trim().match(/^(.+)@bookerbooker\.com$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * PARTSTAT for an invitee status. Anyone who has not answered yet
+ * (invited, pending) needs to act.
+ */
+export function toPartstat(status: string): IcsPartstat {
+  switch (status) {
+    case 'accepted':
+      return 'ACCEPTED';
+    case 'declined':
+      return 'DECLINED';
+    case 'tentative':
+      return 'TENTATIVE';
+    default:
+      return 'NEEDS-ACTION';
+  }
+}
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks.
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Parameter values (CN) cannot be escaped, only quoted; quotes themselves are dropped
+const paramValue = (value: string) => {
+  const cleaned = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold a content line at 75 octets: continuation lines start with a space.
+ * Never splits a multi-byte character.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// --- Time zones ---
+
+// The zone to write times in, or null for UTC
+const resolveTimeZone = (timeZone?: string): string | null => (isValidTimeZone(timeZone) ? timeZone : null);
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// YYYYMMDDTHHMMSS of a wall-clock instant stored as if it were UTC
+const formatWallClock = (wallClockMs: number) => {
+  const d = new Date(wallClockMs);
+  return `${pad(d.getUTCFullYear(), 4)}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`;
+};
+
+const formatUtc = (utcMs: number) => `${formatWallClock(utcMs)}Z`;
+
+// +HHMM / -HHMM
+const formatOffset = (offsetMs: number) => {
+  const minutes = Math.round(Math.abs(offsetMs) / 60_000);
+  return `${offsetMs < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * VTIMEZONE lines for a zone, covering every offset change from a year
+ * before `fromMs` up to `toMs`. A change to a larger offset starts a DAYLIGHT
+ * observance, any other a STANDARD one; a zone that never changes in that
+ * window gets a single STANDARD observance.
+ */
+export function buildVTimezone(timeZone: string, fromMs: number, toMs: number): string[] {
+  const offsetAt = zoneOffsetReader(timeZone);
+  const windowStart = Math.floor((fromMs - 366 * DAY_MS) / 60_000) * 60_000;
+  const initialOffset = offsetAt(windowStart);
+
+  // Day by day to find each change, then narrow it down to the minute
+  const transitions: { at: number; from: number; to: number }[] = [];
+  let previous = initialOffset;
+  for (let day = windowStart + DAY_MS; day < toMs + DAY_MS; day += DAY_MS) {
+    const offset = offsetAt(day);
+    if (offset === previous) continue;
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > 60_000) {
+      const mid = low + Math.floor((high - low) / 120_000) * 60_000;
+      if (offsetAt(mid) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const observance = (kind: 'STANDARD' | 'DAYLIGHT', start: string, from: number, to: number) => [
+    `BEGIN:${kind}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(from)}`,
+    `TZOFFSETTO:${formatOffset(to)}`,
+    `END:${kind}`,
+  ];
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    lines.push(...observance('STANDARD', '19700101T000000', initialOffset, initialOffset));
+  } else {
+    // What applied before the first change, so the whole window is covered
+    const firstIsDaylight = transitions[0].to > transitions[0].from;
+    lines.push(...observance(firstIsDaylight ? 'STANDARD' : 'DAYLIGHT', formatWallClock(windowStart + initialOffset), initialOffset, initialOffset));
+    for (const { at, from, to } of transitions) {
+      // DTSTART is the local time just before the change, in the old offset
+      lines.push(...observance(to > from ? 'DAYLIGHT' : 'STANDARD', formatWallClock(at + from), from, to));
+    }
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// --- Calendar objects ---
+
+// Start and end as UTC ms, plus the property values to write
+const eventTimes = (event: IcsEvent, timeZone: string | null) => {
+  const duration = (event.durationMinutes ?? DEFAULT_ICS_DURATION_MINUTES) * 60_000;
+  const wallStart = wallClockMs(event.date, event.time);
+  if (!timeZone) {
+    return { startMs: wallStart, endMs: wallStart + duration, start: `:${formatUtc(wallStart)}`, end: `:${formatUtc(wallStart + duration)}` };
+  }
+  const offsetAt = zoneOffsetReader(timeZone);
+  const startMs = zonedDateTimeToUtcMs(event.date, event.time, timeZone);
+  const endMs = startMs + duration;
+  return {
+    startMs,
+    endMs,
+    start: `;TZID=${timeZone}:${formatWallClock(wallStart)}`,
+    end: `;TZID=${timeZone}:${formatWallClock(endMs + offsetAt(endMs))}`,
+  };
+};
+
+const personLine = (property: 'ORGANIZER' | 'ATTENDEE', person: IcsPerson, params: string[] = []) =>
+  [property, ...(person.name ? [`CN=${paramValue(person.name)}`] : []), ...params].join(';') + `:mailto:${person.email}`;
+
+/**
+ * A complete iCalendar object (CRLF line endings) for one or more events.
+ *
+ * - REQUEST: STATUS:CONFIRMED, attendees who still need to answer get RSVP=TRUE.
+ * - CANCEL: STATUS:CANCELLED; pass the bumped sequence.
+ * - REPLY: the first attendee is the one replying.
+ * - PUBLISH: no attendees, for read-only feeds.
+ */
+export function buildICalendar(method: IcsMethod, events: IcsEvent[], now: Date = new Date()): string {
+  return buildCalendar(method, events, now, []);
+}
+
+// How often subscribed calendar apps are asked to check the feed again
+export const FEED_REFRESH_MINUTES = 60;
+
+/**
+ * A read-only feed of events (PUBLISH) for calendar apps to subscribe to,
+ * named and with a suggested refresh interval.
+ */
+export function buildCalendarFeed(name: string, events: IcsEvent[], now: Date = new Date()): string {
+  return buildCalendar('PUBLISH', events, now, [
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${FEED_REFRESH_MINUTES}M`,
+    `X-PUBLISHED-TTL:PT${FEED_REFRESH_MINUTES}M`,
+  ]);
+}
+
+const buildCalendar = (method: IcsMethod, events: IcsEvent[], now: Date, headers: string[]): string => {
+  const zones = new Map<string, { fromMs: number; toMs: number }>();
+  const components: string[][] = [];
+
+  for (const event of events) {
+    const timeZone = resolveTimeZone(event.timeZone);
+    const times = eventTimes(event, timeZone);
+    if (timeZone) {
+      const range = zones.get(timeZone);
+      zones.set(timeZone, {
+        fromMs: Math.min(range?.fromMs ?? times.startMs, times.startMs),
+        toMs: Math.max(range?.toMs ?? times.endMs, times.endMs),
+      });
+    }
+
+    const attendees = method === 'PUBLISH'
+      ? []
+      : method === 'REPLY'
+        ? (event.attendees ?? []).slice(0, 1)
+        : event.attendees ?? [];
+
+    components.push([
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${formatUtc(now.getTime())}`,
+      `DTSTART${times.start}`,
+      `DTEND${times.end}`,
+      `SUMMARY:${escapeIcsText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+      personLine('ORGANIZER', event.organizer),
+      ...attendees.map((attendee) =>
+        personLine('ATTENDEE', attendee, [
+          'ROLE=REQ-PARTICIPANT',
+          `PARTSTAT=${attendee.partstat}`,
+          ...(method === 'REQUEST' && attendee.partstat === 'NEEDS-ACTION' ? ['RSVP=TRUE'] : []),
+        ])
+      ),
+      'END:VEVENT',
+    ]);
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Booker//Booker Invites//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...headers,
+    ...[...zones].flatMap(([timeZone, { fromMs, toMs }]) => buildVTimezone(timeZone, fromMs, toMs)),
+    ...components.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// --- Replies ---
+
+export interface ItipReply {
+  uid: string;
+  sequence: number;
+  attendee: { email: string; partstat: string };
+}
+
+// Unfolded content lines of an iCalendar object
+const unfoldLines = (ics: string) => ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(Boolean);
+
+// NAME;PARAM=value;PARAM="quoted; value":VALUE, with parameter names uppercased
+const parseContentLine = (line: string) => {
+  let index = 0;
+  let inQuotes = false;
+  while (index < line.length && (inQuotes || line[index] !== ':')) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    index += 1;
+  }
+  const head = line.slice(0, index);
+  const value = line.slice(index + 1);
+  const [name, ...rawParams] = head.match(/(?:[^;"]|"[^"]*")+/g) ?? [''];
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    if (equals < 0) continue;
+    params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value };
+};
+
+/**
+ * The answer in an iTIP REPLY: the event's UID and SEQUENCE and the replying
+ * attendee's address and PARTSTAT. Null for anything but a REPLY with an
+ * attendee and a UID.
+ */
+export function parseItipReply(ics: string): ItipReply | null {
+  let method: string | null = null;
+  let uid: string | null = null;
+  let sequence = 0;
+  let attendee: ItipReply['attendee'] | null = null;
+  let inEvent = false;
+
+  for (const line of unfoldLines(ics)) {
+    const { name, params, value } = parseContentLine(line);
+    if (name === 'METHOD') method = value.trim().toUpperCase();
+    else if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') inEvent = true;
+    else if (name === 'END' && value.toUpperCase() === 'VEVENT') break;
+    else if (inEvent && name === 'UID') uid = value.trim();
+    else if (inEvent && name === 'SEQUENCE') sequence = Number.parseInt(value, 10) || 0;
+    else if (inEvent && name === 'ATTENDEE' && !attendee) {
+      const email = value.replace(/^mailto:/i, '').trim().toLowerCase();
+      if (email) attendee = { email, partstat: (params.PARTSTAT ?? 'NEEDS-ACTION').toUpperCase() };
+    }
+  }
+
+  if (method !== 'REPLY' || !uid || !attendee) return null;
+  return { uid, sequence, attendee };
+}
+
+/**
+ * The RSVP action a reply stands for, given the invitee's current status:
+ * ACCEPTED confirms, TENTATIVE is a maybe, DECLINED declines (or withdraws
+ * someone who had accepted). Null when there is nothing to do.
+ */
+export function rsvpActionForReply(
+  partstat: string,
+  status: string
+): 'confirm' | 'decline' | 'tentative' | 'withdraw' | null {
+  switch (partstat.toUpperCase()) {
+    case 'ACCEPTED':
+      return 'confirm';
+    case 'TENTATIVE':
+      return 'tentative';
+    case 'DECLINED':
+      return status === 'accepted' ? 'withdraw' : 'decline';
+    default:
+      return null;
+  }
+}
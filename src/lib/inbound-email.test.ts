@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { parseInboundEmail } from './inbound-email';
+import { parseItipReply } from './icalendar';
+
+const reply = (partstat: string, sequence = 0) => [
+  'BEGIN:VCALENDAR',
+  'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+  'VERSION:2.0',
+  'CALSCALE:GREGORIAN',
+  'METHOD:REPLY',
+  'BEGIN:VEVENT',
+  'DTSTART:20260601T220000Z',
+  'ORGANIZER;CN=Olive:mailto:rsvp@inbound.bookerbooker.com',
+  'UID:event-1@bookerbooker.com',
+  `ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat};CN=Ana`,
+  '  Smith;X-NUM-GUESTS=0:mailto:ana@example.com',
+  `SEQUENCE:${sequence}`,
+  'SUMMARY:Pickup game',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+const base64 = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/.{76}/g, '$&\r\n');
+
+// Gmail: the reply is an inline text/calendar alternative plus an invite.ics attachment
+const gmailFixture = [
+  'From: Ana Smith <Ana@Example.com>',
+  'To: Olive <rsvp@inbound.bookerbooker.com>',
+  'Subject: Accepted: Pickup game @ Mon Jun 1, 2026 6pm - 7:30pm (EDT)',
+  'Message-ID: <CAF1234@mail.gmail.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="000000000000mixed"',
+  '',
+  '--000000000000mixed',
+  'Content-Type: multipart/alternative; boundary="000000000000alt"',
+  '',
+  '--000000000000alt',
+  'Content-Type: text/plain; charset="UTF-8"',
+  '',
+  'Ana Smith has accepted this invitation.',
+  '',
+  '--000000000000alt',
+  'Content-Type: text/calendar; charset="UTF-8"; method=REPLY',
+  'Content-Transfer-Encoding: 7bit',
+  '',
+  reply('ACCEPTED', 2),
+  '--000000000000alt--',
+  '',
+  '--000000000000mixed',
+  'Content-Type: application/ics; name="invite.ics"',
+  'Content-Disposition: attachment; filename="invite.ics"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  base64(reply('ACCEPTED', 2)),
+  '--000000000000mixed--',
+  '',
+].join('\r\n');
+
+// Outlook: a base64 text/calendar alternative, LF line endings from a forwarding provider
+const outlookFixture = [
+  'From: "Smith, Ana" <ana@example.com>',
+  'Subject: Declined: Pickup game',
+  'Content-Type: multipart/alternative;',
+  '\tboundary="_000_outlook_"',
+  '',
+  '--_000_outlook_',
+  'Content-Type: text/plain; charset="us-ascii"',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Sorry, can=E2=80=99t make it.',
+  '',
+  '--_000_outlook_',
+  'Content-Type: text/calendar; charset="utf-8"; method=REPLY',
+  'Content-Transfer-Encoding: base64',
+  '',
+  base64(reply('DECLINED')),
+  '',
+  '--_000_outlook_--',
+  '',
+].join('\n');
+
+describe('parseInboundEmail', () => {
+  it('finds the inline and attached calendars in a Gmail reply', () => {
+    const parsed = parseInboundEmail(gmailFixture);
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.from).toBe('ana@example.com');
+    expect(parsed.messageId).toBe('CAF1234@mail.gmail.com');
+    expect(parsed.subject).toMatch(/^Accepted: Pickup game/);
+    expect(parsed.calendars).toHaveLength(2);
+    for (const calendar of parsed.calendars) {
+      expect(parseItipReply(calendar)).toEqual({
+        uid: 'event-1@bookerbooker.com',
+        sequence: 2,
+        attendee: { email: 'ana@example.com', partstat: 'ACCEPTED' },
+      });
+    }
+  });
+
+  it('decodes a base64 Outlook reply with folded headers and LF line endings', () => {
+    const parsed = parseInboundEmail(outlookFixture);
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.from).toBe('ana@example.com');
+    expect(parsed.calendars).toHaveLength(1);
+    expect(parseItipReply(parsed.calendars[0])?.attendee.partstat).toBe('DECLINED');
+  });
+
+  it('decodes quoted-printable calendar parts', () => {
+    const qp = reply('TENTATIVE').replace('Pickup game', 'Café game').replace('SUMMARY:Café', 'SUMMARY:Caf=C3=A9');
+    const raw = [
+      'From: ana@example.com',
+      'Content-Type: text/calendar; method=REPLY; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      qp,
+    ].join('\r\n');
+    const parsed = parseInboundEmail(raw);
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.calendars[0]).toContain('SUMMARY:Café game');
+    expect(parseItipReply(parsed.calendars[0])?.attendee.partstat).toBe('TENTATIVE');
+  });
+
+  it('returns no calendars for an ordinary email', () => {
+    const parsed = parseInboundEmail('From: ana@example.com\r\nSubject: Hi\r\n\r\nSee you there!');
+    expect(parsed).toMatchObject({ from: 'ana@example.com', calendars: [] });
+  });
+
+  it('rejects messages without a sender', () => {
+    expect(parseInboundEmail('Subject: Hi\r\n\r\nHello')).toEqual({ error: 'Message has no sender' });
+  });
+});
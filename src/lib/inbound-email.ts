@@ -0,0 +1,142 @@
+/**
+ * Inbound email: just enough MIME parsing to find calendar replies.
+ *
+ * When an invitee answers a calendar invite inside Outlook, Gmail or Apple
+ * Mail, their client emails an iTIP REPLY (see icalendar.ts) to the invite's
+ * ORGANIZER address. The mail provider forwards that message to
+ * /email/inbound as raw MIME; `parseInboundEmail` pulls out the sender and
+ * every text/calendar part (inline or attached, base64 or quoted-printable).
+ */
+
+export interface InboundEmail {
+  from: string; // Sender address, lowercased
+  messageId?: string;
+  subject?: string;
+  calendars: string[]; // Decoded text/calendar parts
+}
+
+// Nested multiparts deeper than this are not searched
+const MAX_MIME_DEPTH = 8;
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Headers are unfolded and keyed by lowercase name; the first of a repeated header wins
+const parsePart = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return { headers, body };
+};
+
+// "text/calendar; method=REPLY; charset=UTF-8" -> type and lowercase-named params
+const parseHeaderValue = (value = '') => {
+  const [type, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals < 0) continue;
+    params[param.slice(0, equals).trim().toLowerCase()] = param.slice(equals + 1).trim().replace(/^"|"$/g, '');
+  }
+  return { type: type.trim().toLowerCase(), params };
+};
+
+const decodeBytes = (bytes: Uint8Array, charset: string) => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeBody = (body: string, encoding: string, charset: string): string => {
+  switch (encoding.toLowerCase()) {
+    case 'base64': {
+      const binary = atob(body.replace(/[^A-Za-z0-9+/=]/g, ''));
+      return decodeBytes(Uint8Array.from(binary, (char) => char.charCodeAt(0)), charset);
+    }
+    case 'quoted-printable': {
+      const text = body.replace(/=\r?\n/g, '');
+      const bytes: number[] = [];
+      for (let i = 0; i < text.length; i++) {
+        const hex = text.slice(i + 1, i + 3);
+        if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+          bytes.push(parseInt(hex, 16));
+          i += 2;
+        } else {
+          bytes.push(...new TextEncoder().encode(text[i]));
+        }
+      }
+      return decodeBytes(new Uint8Array(bytes), charset);
+    }
+    default:
+      return body;
+  }
+};
+
+// The parts of a multipart body, without the preamble and epilogue
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  const sections = body.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+  for (const section of sections.slice(1)) {
+    if (section.startsWith('--')) break;
+    parts.push(section.replace(/^[ \t]*\r?\n/, ''));
+  }
+  return parts;
+};
+
+const isCalendarPart = (part: MimePart, type: string, params: Record<string, string>) => {
+  if (type === 'text/calendar' || type === 'application/ics') return true;
+  const disposition = parseHeaderValue(part.headers['content-disposition']);
+  const filename = disposition.params.filename || params.name || '';
+  return /\.ics$/i.test(filename);
+};
+
+const collectCalendars = (part: MimePart, calendars: string[], depth: number) => {
+  const { type, params } = parseHeaderValue(part.headers['content-type'] || 'text/plain');
+  if (type.startsWith('multipart/')) {
+    if (!params.boundary || depth >= MAX_MIME_DEPTH) return;
+    for (const child of splitMultipart(part.body, params.boundary)) {
+      collectCalendars(parsePart(child), calendars, depth + 1);
+    }
+    return;
+  }
+  if (isCalendarPart(part, type, params)) {
+    calendars.push(decodeBody(part.body, part.headers['content-transfer-encoding'] || '7bit', params.charset || 'utf-8'));
+  }
+};
+
+// "Ana Smith <Ana@Example.com>" -> "ana@example.com"
+const addressOf = (value: string) => (value.match(/<([^>]+)>/)?.[1] ?? value).trim().toLowerCase();
+
+/**
+ * Read a raw MIME message. Returns an error when it has no sender; a message
+ * without calendar parts is valid and has an empty `calendars` list.
+ */
+export function parseInboundEmail(raw: string): InboundEmail | { error: string } {
+  const message = parsePart(raw);
+  const from = message.headers.from ? addressOf(message.headers.from) : '';
+  if (!from.includes('@')) {
+    return { error: 'Message has no sender' };
+  }
+
+  const calendars: string[] = [];
+  collectCalendars(message, calendars, 0);
+
+  return {
+    from,
+    messageId: message.headers['message-id']?.replace(/^<|>$/g, '') || undefined,
+    subject: message.headers.subject,
+    calendars,
+  };
+}
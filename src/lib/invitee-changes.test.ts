@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { diffInviteeStatuses } from './invitee-changes';
+import type { Invitee } from '../app/types';
+
+const invitee = (name: string, status: Invitee['status'], extra: Partial<Invitee> = {}): Invitee => ({
+  name,
+  email: `${name.toLowerCase()}@test.com`,
+  priority: 0,
+  status,
+  ...extra,
+});
+
+describe('diffInviteeStatuses', () => {
+  it('reports responses and promotions', () => {
+    const before = [invitee('Ana', 'invited'), invitee('Ben', 'pending'), invitee('Cy', 'invited'), invitee('Di', 'invited')];
+    const after = [invitee('Ana', 'declined'), invitee('Ben', 'invited'), invitee('Cy', 'accepted'), invitee('Di', 'tentative')];
+
+    expect(diffInviteeStatuses(before, after).map((change) => [change.kind, change.invitee.name])).toEqual([
+      ['declined', 'Ana'],
+      ['promoted', 'Ben'],
+      ['accepted', 'Cy'],
+      ['tentative', 'Di'],
+    ]);
+  });
+
+  it('matches invitees case-insensitively by email, then by phone', () => {
+    const before = [invitee('Ana', 'invited', { email: 'Ana@Test.com' }), invitee('Ben', 'invited', { email: undefined, phone: '+15551234567' })];
+    const after = [invitee('Ana', 'accepted', { email: 'ana@test.com' }), invitee('Ben', 'accepted', { email: undefined, phone: '+15551234567' })];
+
+    expect(diffInviteeStatuses(before, after)).toHaveLength(2);
+  });
+
+  it('ignores unchanged, new and reset invitees', () => {
+    const before = [invitee('Ana', 'accepted'), invitee('Ben', 'pending')];
+    const after = [invitee('Ana', 'invited'), invitee('Ben', 'pending'), invitee('Cy', 'invited')];
+
+    expect(diffInviteeStatuses(before, after)).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { Invitee } from '../app/types';
+
+export type InviteeChangeKind = 'accepted' | 'declined' | 'tentative' | 'promoted';
+
+export interface InviteeChange {
+  kind: InviteeChangeKind;
+  invitee: Invitee;
+}
+
+// Invitees have no id on the client; email, then phone, then name identifies them within one event
+const inviteeKey = (invitee: Invitee) =>
+  invitee.email?.toLowerCase() || invitee.phone || invitee.name;
+
+/**
+ * Status changes between two snapshots of one event's invitees, for live
+ * notifications: someone accepted, declined (including an expired invite),
+ * said maybe, or was promoted from the queue (pending → invited). Invitees added or
+ * removed by an edit, and accepted people reset to invited, are not reported.
+ */
+export function diffInviteeStatuses(before: Invitee[], after: Invitee[]): InviteeChange[] {
+  const previous = new Map(before.map((invitee) => [inviteeKey(invitee), invitee.status]));
+  const changes: InviteeChange[] = [];
+
+  for (const invitee of after) {
+    const was = previous.get(inviteeKey(invitee));
+    if (!was || was === invitee.status) continue;
+
+    if (invitee.status === 'accepted' || invitee.status === 'declined' || invitee.status === 'tentative') {
+      changes.push({ kind: invitee.status, invitee });
+    } else if (invitee.status === 'invited' && was === 'pending') {
+      changes.push({ kind: 'promoted', invitee });
+    }
+  }
+
+  return changes;
+}
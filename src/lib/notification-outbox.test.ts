@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  notificationRetryDelayMs,
+  planNotificationOutcome,
+  smsSuppressionFailure,
+  summarizeInviteDeliveries,
+  NOTIFICATION_RETRY_MAX_MS,
+  type NotificationDelivery,
+} from './notification-outbox';
+
+const noJitter = () => 0.5;
+const now = new Date('2026-01-20T10:00:00Z');
+
+describe('notificationRetryDelayMs', () => {
+  it('doubles from one minute and caps at six hours', () => {
+    expect([1, 2, 3, 4].map((attempt) => notificationRetryDelayMs(attempt, noJitter))).toEqual([
+      60_000, 120_000, 240_000, 480_000,
+    ]);
+    expect(notificationRetryDelayMs(20, noJitter)).toBe(NOTIFICATION_RETRY_MAX_MS);
+  });
+
+  it('spreads retries by up to 20%', () => {
+    expect(notificationRetryDelayMs(1, () => 0)).toBe(48_000);
+    expect(notificationRetryDelayMs(1, () => 1)).toBe(72_000);
+  });
+});
+
+describe('planNotificationOutcome', () => {
+  it('records a successful send', () => {
+    expect(planNotificationOutcome({ ok: true }, 1, 5, now)).toEqual({ status: 'sent' });
+  });
+
+  it('requeues a failure with backoff', () => {
+    expect(planNotificationOutcome({ ok: false, error: '503 Service Unavailable' }, 2, 5, now, noJitter)).toEqual({
+      status: 'queued',
+      nextAttemptAt: '2026-01-20T10:02:00.000Z',
+      error: '503 Service Unavailable',
+    });
+  });
+
+  it('gives up after the last attempt', () => {
+    expect(planNotificationOutcome({ ok: false }, 5, 5, now)).toEqual({
+      status: 'failed',
+      error: 'Provider did not accept the message',
+    });
+  });
+
+  it('does not retry a permanent failure', () => {
+    expect(planNotificationOutcome({ ok: false, error: 'Recipient opted out', permanent: true }, 1, 5, now)).toEqual({
+      status: 'failed',
+      error: 'Recipient opted out',
+    });
+  });
+});
+
+describe('smsSuppressionFailure', () => {
+  it('lets the send go ahead for a number that did not opt out', () => {
+    expect(smsSuppressionFailure({ data: false, error: null })).toBeNull();
+  });
+
+  it('fails an opted-out number for good', () => {
+    const failure = smsSuppressionFailure({ data: true, error: null });
+    expect(failure).toMatchObject({ ok: false, permanent: true });
+    expect(planNotificationOutcome(failure!, 1, 5, now).status).toBe('failed');
+  });
+
+  it('holds the send back for a retry when the lookup fails', () => {
+    const failure = smsSuppressionFailure({ data: null, error: { message: 'connection reset' } });
+    expect(failure).toEqual({ ok: false, error: 'Could not check the SMS opt-out list' });
+    expect(planNotificationOutcome(failure!, 1, 5, now, noJitter)).toEqual({
+      status: 'queued',
+      nextAttemptAt: '2026-01-20T10:01:00.000Z',
+      error: 'Could not check the SMS opt-out list',
+    });
+  });
+});
+
+describe('summarizeInviteDeliveries', () => {
+  const delivery = (overrides: Partial<NotificationDelivery>): NotificationDelivery => ({
+    id: 'n1',
+    kind: 'invite',
+    channel: 'email',
+    recipient: 'ana@example.com',
+    status: 'sent',
+    attempts: 1,
+    createdAt: '2026-01-20T10:00:00Z',
+    ...overrides,
+  });
+
+  it('picks the latest invite per channel for the invitee', () => {
+    const deliveries = [
+      delivery({ id: 'old', status: 'failed' }),
+      delivery({ id: 'new', recipient: 'Ana@Example.com', createdAt: '2026-01-21T10:00:00Z', status: 'delivered' }),
+      delivery({ id: 'sms', channel: 'sms', recipient: '+15550102000', status: 'queued' }),
+      delivery({ id: 'reminder', kind: 'reminder', createdAt: '2026-01-22T10:00:00Z' }),
+      delivery({ id: 'other', recipient: 'ben@example.com', createdAt: '2026-01-23T10:00:00Z' }),
+    ];
+
+    const summary = summarizeInviteDeliveries({ email: 'ana@example.com', phone: '(555) 010-2000' }, deliveries);
+
+    expect(summary.map((d) => d.id)).toEqual(['new', 'sms']);
+  });
+
+  it('is empty when nothing was sent to the invitee', () => {
+    expect(summarizeInviteDeliveries({ phone: '+15550102000' }, [delivery({})])).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Notification outbox rules: when a failed email/SMS is retried, when it is
+ * given up on, and what the event page shows about each invitee's invite.
+ *
+ * Every email and SMS is a row in the `notifications` table. The edge function
+ * tries it right away; failures are retried by `/cron/notifications` after
+ * `notificationRetryDelayMs` and marked `failed` (dead-lettered) once they run
+ * out of attempts.
+ */
+
+// sending: claimed by a worker; delivered: the provider confirmed delivery to the handset/mailbox
+export const NOTIFICATION_STATUSES = ['queued', 'sending', 'sent', 'failed', 'delivered'] as const;
+export type NotificationStatus = (typeof NOTIFICATION_STATUSES)[number];
+
+export type NotificationChannel = 'email' | 'sms';
+
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+export const NOTIFICATION_RETRY_BASE_MS = 60_000;
+export const NOTIFICATION_RETRY_MAX_MS = 6 * 60 * 60_000;
+
+/**
+ * Wait before the next attempt after `attempt` failed ones: 1, 2, 4, 8... minutes
+ * (capped at 6 hours), give or take 20% so retries of a batch spread out.
+ */
+export function notificationRetryDelayMs(attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(NOTIFICATION_RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), NOTIFICATION_RETRY_MAX_MS);
+  return Math.round(delay * (0.8 + 0.4 * random()));
+}
+
+export type NotificationOutcome =
+  | { status: 'sent' }
+  | { status: 'queued'; nextAttemptAt: string; error: string }
+  | { status: 'failed'; error: string };
+
+/**
+ * What to record after an attempt. `attempts` includes the one just made.
+ * A `permanent` failure (e.g. the recipient opted out) is never retried.
+ */
+export function planNotificationOutcome(
+  result: { ok: boolean; error?: string; permanent?: boolean },
+  attempts: number,
+  maxAttempts: number,
+  now: Date,
+  random: () => number = Math.random
+): NotificationOutcome {
+  if (result.ok) return { status: 'sent' };
+  const error = result.error || 'Provider did not accept the message';
+  if (result.permanent || attempts >= maxAttempts) return { status: 'failed', error };
+  return {
+    status: 'queued',
+    nextAttemptAt: new Date(now.getTime() + notificationRetryDelayMs(attempts, random)).toISOString(),
+    error,
+  };
+}
+
+/**
+ * Why an SMS must not go out, from the `sms_is_suppressed` lookup, or null if
+ * it may. A failed lookup holds the send back for a retry rather than texting
+ * a number that may have replied STOP.
+ */
+export function smsSuppressionFailure(lookup: {
+  data: unknown;
+  error: unknown;
+}): { ok: false; error: string; permanent?: boolean } | null {
+  if (lookup.error) return { ok: false, error: 'Could not check the SMS opt-out list' };
+  if (lookup.data === true) return { ok: false, error: 'Recipient opted out of texts (STOP)', permanent: true };
+  return null;
+}
+
+// One outbox row as GET /events/:id/notifications returns it
+export interface NotificationDelivery {
+  id: string;
+  kind: string; // invite, confirm, update, reminder, ...
+  channel: NotificationChannel;
+  recipient: string; // Email address or phone number
+  status: NotificationStatus;
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+// Phone numbers compare by their last 10 digits, so +1 (555) 010-2000 matches 5550102000
+const recipientKey = (channel: NotificationChannel, recipient: string) =>
+  channel === 'email' ? recipient.trim().toLowerCase() : recipient.replace(/\D/g, '').slice(-10);
+
+/**
+ * The latest invite sent to this invitee on each channel (email first), or an
+ * empty list if none was sent through the outbox.
+ */
+export function summarizeInviteDeliveries(
+  invitee: { email?: string; phone?: string },
+  deliveries: NotificationDelivery[]
+): NotificationDelivery[] {
+  const latest = new Map<NotificationChannel, NotificationDelivery>();
+  for (const delivery of deliveries) {
+    if (delivery.kind !== 'invite') continue;
+    const address = delivery.channel === 'email' ? invitee.email : invitee.phone;
+    if (!address || recipientKey(delivery.channel, address) !== recipientKey(delivery.channel, delivery.recipient)) continue;
+    const current = latest.get(delivery.channel);
+    if (!current || delivery.createdAt > current.createdAt) latest.set(delivery.channel, delivery);
+  }
+  return (['email', 'sms'] as const).flatMap((channel) => latest.get(channel) ?? []);
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  answersFromSmsChoices,
+  orderParticipantsForBooking,
+  pickWinningOption,
+  readPollForm,
+  tallyPoll,
+  validatePollOptions,
+  type PollVote,
+} from './polls';
+
+const now = new Date('2026-01-15T12:00:00Z');
+
+const vote = (participantId: string, optionId: string, answer: PollVote['answer']): PollVote => ({ participantId, optionId, answer });
+
+describe('validatePollOptions', () => {
+  it('accepts two to six distinct future times', () => {
+    expect(validatePollOptions([{ date: '2026-01-20', time: '18:00' }, { date: '2026-01-21', time: '18:00' }], 'America/New_York', now)).toBeNull();
+  });
+
+  it('rejects too few, too many, blank, past and repeated times', () => {
+    const option = (day: number) => ({ date: `2026-01-${20 + day}`, time: '18:00' });
+    expect(validatePollOptions([option(0)], null, now)).toBe('Propose at least 2 times');
+    expect(validatePollOptions([0, 1, 2, 3, 4, 5, 6].map(option), null, now)).toBe('A poll can have at most 6 times');
+    expect(validatePollOptions([option(0), { date: '2026-01-21', time: '' }], null, now)).toBe('Each time needs a date and a time');
+    expect(validatePollOptions([option(0), { date: '2026-01-15', time: '11:00' }], null, now)).toBe('All proposed times must be in the future');
+    expect(validatePollOptions([option(0), option(0)], null, now)).toBe('Each time can only be proposed once');
+  });
+
+  it('reads the times in the poll zone', () => {
+    // 08:00 in Los Angeles is 16:00 UTC, still ahead of now
+    expect(validatePollOptions([{ date: '2026-01-15', time: '08:00' }, { date: '2026-01-16', time: '08:00' }], 'America/Los_Angeles', now)).toBeNull();
+    expect(validatePollOptions([{ date: '2026-01-15', time: '08:00' }, { date: '2026-01-16', time: '08:00' }], null, now))
+      .toBe('All proposed times must be in the future');
+  });
+});
+
+describe('tallyPoll and pickWinningOption', () => {
+  it('groups voters by answer for each option', () => {
+    const tallies = tallyPoll(['a', 'b'], [vote('ana', 'a', 'yes'), vote('ben', 'a', 'no'), vote('ana', 'b', 'maybe')]);
+    expect(tallies).toEqual([
+      { optionId: 'a', yes: ['ana'], maybe: [], no: ['ben'] },
+      { optionId: 'b', yes: [], maybe: ['ana'], no: [] },
+    ]);
+  });
+
+  it('picks the most yes, then maybe, then fewest no, then the first listed', () => {
+    expect(pickWinningOption(tallyPoll(['a', 'b'], [vote('ana', 'a', 'yes'), vote('ana', 'b', 'yes'), vote('ben', 'b', 'yes')]))).toBe('b');
+    expect(pickWinningOption(tallyPoll(['a', 'b'], [vote('ana', 'a', 'yes'), vote('ana', 'b', 'yes'), vote('ben', 'b', 'maybe')]))).toBe('b');
+    expect(pickWinningOption(tallyPoll(['a', 'b'], [vote('ana', 'a', 'yes'), vote('ben', 'a', 'no'), vote('ana', 'b', 'yes')]))).toBe('b');
+    expect(pickWinningOption(tallyPoll(['a', 'b'], [vote('ana', 'a', 'yes'), vote('ana', 'b', 'yes')]))).toBe('a');
+  });
+
+  it('has no winner until someone says yes or maybe', () => {
+    expect(pickWinningOption(tallyPoll(['a', 'b'], []))).toBeNull();
+    expect(pickWinningOption(tallyPoll(['a', 'b'], [vote('ana', 'a', 'no'), vote('ana', 'b', 'no')]))).toBeNull();
+  });
+});
+
+describe('orderParticipantsForBooking', () => {
+  it('queues yes, then maybe, then no answer, each by priority, without the no votes', () => {
+    const participants = ['ana', 'ben', 'cy', 'dee', 'eve'].map((id, priority) => ({ id, priority }));
+    const votes = [
+      vote('ana', 'a', 'maybe'),
+      vote('ben', 'a', 'no'),
+      vote('dee', 'a', 'yes'),
+      vote('cy', 'a', 'yes'),
+      vote('eve', 'b', 'yes'), // Another option: eve counts as not answered here
+    ];
+    expect(orderParticipantsForBooking(participants, votes, 'a').map((p) => p.id)).toEqual(['cy', 'dee', 'ana', 'eve']);
+  });
+});
+
+describe('readPollForm', () => {
+  it('reads an answer for every option', () => {
+    expect(readPollForm({ 'option-a': 'yes', 'option-b': 'no', other: 'x' }, ['a', 'b'])).toEqual({ a: 'yes', b: 'no' });
+  });
+
+  it('errors when an option is missing or the answer is unknown', () => {
+    expect(readPollForm({ 'option-a': 'yes' }, ['a', 'b'])).toEqual({ error: 'Please answer yes, maybe or no for every time' });
+    expect(readPollForm({ 'option-a': 'sure', 'option-b': 'no' }, ['a', 'b'])).toHaveProperty('error');
+  });
+});
+
+describe('answersFromSmsChoices', () => {
+  it('says yes to the chosen numbers and no to the rest', () => {
+    expect(answersFromSmsChoices(['a', 'b', 'c'], [1, 3])).toEqual({ a: 'yes', b: 'no', c: 'yes' });
+    expect(answersFromSmsChoices(['a', 'b'], [])).toEqual({ a: 'no', b: 'no' });
+  });
+
+  it('rejects numbers that are not on the list', () => {
+    expect(answersFromSmsChoices(['a', 'b'], [3])).toEqual({
+      error: 'There is no option 3. Reply VOTE with numbers from 1 to 2, or VOTE NONE.',
+    });
+  });
+});
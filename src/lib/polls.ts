@@ -0,0 +1,160 @@
+/**
+ * Find-a-time polls.
+ *
+ * Before booking, the organizer can propose a few date/time options. Everyone
+ * on the list gets a personal link (and a text: "VOTE 1 3") to say which ones
+ * work; the organizer sees the tally and books the winning option as a normal
+ * event. `orderParticipantsForBooking` decides who is invited to it, in what
+ * order.
+ */
+
+import { zonedDateTimeToUtcMs } from './zoned-time.ts';
+
+export type PollAnswer = 'yes' | 'maybe' | 'no';
+
+export const POLL_ANSWERS: PollAnswer[] = ['yes', 'maybe', 'no'];
+
+// Few enough that the options fit in a text message
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 6;
+
+export interface PollOptionInput {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+export interface PollVote {
+  participantId: string;
+  optionId: string;
+  answer: PollAnswer;
+}
+
+export interface PollOptionTally {
+  optionId: string;
+  yes: string[]; // Participant ids
+  maybe: string[];
+  no: string[];
+}
+
+/**
+ * Validate the proposed options. Returns an error message, or null.
+ */
+export function validatePollOptions(
+  options: unknown,
+  timeZone?: string | null,
+  now: Date = new Date()
+): string | null {
+  if (!Array.isArray(options) || options.length < MIN_POLL_OPTIONS) {
+    return `Propose at least ${MIN_POLL_OPTIONS} times`;
+  }
+  if (options.length > MAX_POLL_OPTIONS) {
+    return `A poll can have at most ${MAX_POLL_OPTIONS} times`;
+  }
+  const seen = new Set<string>();
+  for (const option of options) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(option?.date ?? '') || !/^\d{2}:\d{2}$/.test(option?.time ?? '')) {
+      return 'Each time needs a date and a time';
+    }
+    if (zonedDateTimeToUtcMs(option.date, option.time, timeZone) <= now.getTime()) {
+      return 'All proposed times must be in the future';
+    }
+    const key = `${option.date}T${option.time}`;
+    if (seen.has(key)) {
+      return 'Each time can only be proposed once';
+    }
+    seen.add(key);
+  }
+  return null;
+}
+
+/**
+ * Who said what for each option, in the order the options are given.
+ */
+export function tallyPoll(optionIds: string[], votes: PollVote[]): PollOptionTally[] {
+  return optionIds.map((optionId) => {
+    const tally: PollOptionTally = { optionId, yes: [], maybe: [], no: [] };
+    for (const vote of votes) {
+      if (vote.optionId === optionId) tally[vote.answer].push(vote.participantId);
+    }
+    return tally;
+  });
+}
+
+/**
+ * The option to book: most yes, then most maybe, then fewest no; ties go to
+ * the option listed first. Null while nobody has said yes or maybe to anything.
+ */
+export function pickWinningOption(tallies: PollOptionTally[]): string | null {
+  let best: PollOptionTally | null = null;
+  for (const tally of tallies) {
+    if (tally.yes.length + tally.maybe.length === 0) continue;
+    if (
+      !best ||
+      tally.yes.length > best.yes.length ||
+      (tally.yes.length === best.yes.length && tally.maybe.length > best.maybe.length) ||
+      (tally.yes.length === best.yes.length && tally.maybe.length === best.maybe.length && tally.no.length < best.no.length)
+    ) {
+      best = tally;
+    }
+  }
+  return best?.optionId ?? null;
+}
+
+/**
+ * Who to invite when booking an option, in queue order: those who said yes,
+ * then maybe, then those who did not answer for it, each group in the
+ * organizer's priority order. Anyone who said no to that option is left out.
+ */
+export function orderParticipantsForBooking<T extends { id: string; priority: number }>(
+  participants: T[],
+  votes: PollVote[],
+  optionId: string
+): T[] {
+  const answers = new Map(
+    votes.filter((vote) => vote.optionId === optionId).map((vote) => [vote.participantId, vote.answer])
+  );
+  const rank = (participant: T) => {
+    const answer = answers.get(participant.id);
+    return answer === 'yes' ? 0 : answer === 'maybe' ? 1 : 2;
+  };
+  return participants
+    .filter((participant) => answers.get(participant.id) !== 'no')
+    .sort((a, b) => rank(a) - rank(b) || a.priority - b.priority);
+}
+
+/**
+ * Answers from the vote page form (`option-<id>` fields): every option must
+ * be answered. Returns the answers by option id, or an error message.
+ */
+export function readPollForm(
+  fields: Record<string, unknown>,
+  optionIds: string[]
+): Record<string, PollAnswer> | { error: string } {
+  const answers: Record<string, PollAnswer> = {};
+  for (const optionId of optionIds) {
+    const answer = fields[`option-${optionId}`];
+    if (!POLL_ANSWERS.includes(answer as PollAnswer)) {
+      return { error: 'Please answer yes, maybe or no for every time' };
+    }
+    answers[optionId] = answer as PollAnswer;
+  }
+  return answers;
+}
+
+/**
+ * Answers from a "VOTE 1 3" text: yes to the numbered options (1-based, in
+ * the order they were listed), no to the rest. An empty list ("VOTE NONE")
+ * is no to all of them.
+ */
+export function answersFromSmsChoices(
+  optionIds: string[],
+  choices: number[]
+): Record<string, PollAnswer> | { error: string } {
+  const invalid = choices.find((choice) => choice < 1 || choice > optionIds.length);
+  if (invalid !== undefined) {
+    return { error: `There is no option ${invalid}. Reply VOTE with numbers from 1 to ${optionIds.length}, or VOTE NONE.` };
+  }
+  return Object.fromEntries(
+    optionIds.map((optionId, index) => [optionId, choices.includes(index + 1) ? 'yes' : 'no'])
+  );
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Concurrency tests for the record_rsvp database function.
+ *
+ * These need a database with the migrations applied, e.g. a local stack:
+ *   supabase start
+ *   SUPABASE_TEST_URL=http://127.0.0.1:54321 SUPABASE_TEST_SERVICE_ROLE_KEY=<service_role key> npm run test:run
+ * Without those variables the suite is skipped.
+ */
+const testUrl = process.env.SUPABASE_TEST_URL;
+const testServiceKey = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY;
+
+type Decision = { success: boolean; reason?: string; new_status?: string; promoted_invitee_id?: string | null };
+
+describe.skipIf(!testUrl || !testServiceKey)('record_rsvp (database)', () => {
+  let supabase: SupabaseClient;
+  let organizerId: string;
+  const runId = Date.now();
+
+  // Create an event with one invitee per entry in `statuses`, queued in that order
+  const createEvent = async (options: {
+    spots: number;
+    inviteMode: 'priority' | 'first-come-first-serve';
+    statuses: ('pending' | 'invited')[];
+  }) => {
+    const { data: event, error } = await supabase
+      .from('events')
+      .insert({
+        title: 'Race test',
+        date: '2030-01-01',
+        time: '10:00',
+        organizer_id: organizerId,
+        spots: options.spots,
+        invite_mode: options.inviteMode,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const { data: contacts, error: contactError } = await supabase
+      .from('contacts')
+      .insert(options.statuses.map((_, index) => ({
+        owner_id: organizerId,
+        email: `invitee-${runId}-${event.id.slice(0, 8)}-${index}@example.com`,
+        name: `Invitee ${index}`,
+      })))
+      .select();
+    if (contactError) throw contactError;
+
+    const { data: invitees, error: inviteeError } = await supabase
+      .from('event_invitees')
+      .insert(contacts!.map((contact, index) => ({
+        event_id: event.id,
+        contact_id: contact.id,
+        status: options.statuses[index],
+        priority: index,
+      })))
+      .select()
+      .order('priority', { ascending: true });
+    if (inviteeError) throw inviteeError;
+
+    return { eventId: event.id as string, inviteeIds: invitees!.map((inv) => inv.id as string) };
+  };
+
+  const recordRsvp = async (inviteeId: string, action: 'confirm' | 'decline'): Promise<Decision> => {
+    const { data, error } = await supabase.rpc('record_rsvp', { p_invitee_id: inviteeId, p_action: action });
+    if (error) throw error;
+    return data as Decision;
+  };
+
+  const countStatus = async (eventId: string, status: string) => {
+    const { count } = await supabase
+      .from('event_invitees')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('status', status);
+    return count ?? 0;
+  };
+
+  beforeAll(async () => {
+    supabase = createClient(testUrl!, testServiceKey!, { auth: { persistSession: false } });
+    const { data, error } = await supabase.auth.admin.createUser({
+      email: `rsvp-race-${runId}@example.com`,
+      email_confirm: true,
+    });
+    if (error) throw error;
+    organizerId = data.user.id;
+  });
+
+  afterAll(async () => {
+    if (!organizerId) return;
+    // Events, contacts and invitee links cascade from the user
+    await supabase.auth.admin.deleteUser(organizerId);
+  });
+
+  it('never accepts more people than there are spots', async () => {
+    const { eventId, inviteeIds } = await createEvent({
+      spots: 2,
+      inviteMode: 'first-come-first-serve',
+      statuses: Array(8).fill('invited'),
+    });
+
+    const decisions = await Promise.all(inviteeIds.map((id) => recordRsvp(id, 'confirm')));
+
+    expect(decisions.filter((d) => d.success)).toHaveLength(2);
+    expect(decisions.filter((d) => d.reason === 'event-full')).toHaveLength(6);
+    expect(await countStatus(eventId, 'accepted')).toBe(2);
+  });
+
+  it('accepts a double-clicked confirm only once', async () => {
+    const { eventId, inviteeIds } = await createEvent({
+      spots: 1,
+      inviteMode: 'first-come-first-serve',
+      statuses: ['invited', 'invited'],
+    });
+
+    const decisions = await Promise.all(Array(5).fill(inviteeIds[0]).map((id) => recordRsvp(id, 'confirm')));
+
+    expect(decisions.filter((d) => d.success)).toHaveLength(1);
+    expect(decisions.filter((d) => d.reason === 'already-accepted')).toHaveLength(4);
+    expect(await countStatus(eventId, 'accepted')).toBe(1);
+  });
+
+  it('promotes exactly one next invitee when declines race', async () => {
+    const { eventId, inviteeIds } = await createEvent({
+      spots: 1,
+      inviteMode: 'priority',
+      statuses: ['invited', 'pending', 'pending'],
+    });
+
+    const decisions = await Promise.all([
+      recordRsvp(inviteeIds[0], 'decline'),
+      recordRsvp(inviteeIds[0], 'decline'),
+    ]);
+
+    expect(decisions.filter((d) => d.success)).toHaveLength(1);
+    expect(decisions.find((d) => d.success)?.promoted_invitee_id).toBe(inviteeIds[1]);
+    expect(await countStatus(eventId, 'invited')).toBe(1);
+    expect(await countStatus(eventId, 'pending')).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  daysBetween,
+  validateRecurrenceRule,
+  expandOccurrenceDates,
+  describeRecurrence,
+  MAX_SERIES_OCCURRENCES,
+} from './recurrence';
+
+describe('addDays', () => {
+  it('adds days within a month', () => {
+    expect(addDays('2026-01-20', 7)).toBe('2026-01-27');
+  });
+
+  it('rolls over month and year boundaries', () => {
+    expect(addDays('2026-12-29', 7)).toBe('2027-01-05');
+    expect(addDays('2028-02-27', 2)).toBe('2028-02-29'); // leap year
+  });
+
+  it('is unaffected by daylight saving changes', () => {
+    // US DST starts 2026-03-08
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08');
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09');
+  });
+
+  it('subtracts with negative days', () => {
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+describe('daysBetween', () => {
+  it('returns positive and negative differences', () => {
+    expect(daysBetween('2026-01-20', '2026-01-27')).toBe(7);
+    expect(daysBetween('2026-01-27', '2026-01-20')).toBe(-7);
+    expect(daysBetween('2026-01-20', '2026-01-20')).toBe(0);
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  it('accepts a weekly rule with a count', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly', interval: 1, count: 8 }, '2026-01-20')).toBeNull();
+  });
+
+  it('accepts a daily rule with an end date', () => {
+    expect(validateRecurrenceRule({ frequency: 'daily', interval: 2, until: '2026-02-01' }, '2026-01-20')).toBeNull();
+  });
+
+  it('requires an end condition', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly', interval: 1 }, '2026-01-20')).toMatch(/ends/);
+  });
+
+  it('rejects an interval below 1', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly', interval: 0, count: 3 }, '2026-01-20')).toMatch(/interval/);
+  });
+
+  it('rejects a count above the maximum', () => {
+    const rule = { frequency: 'weekly' as const, interval: 1, count: MAX_SERIES_OCCURRENCES + 1 };
+    expect(validateRecurrenceRule(rule, '2026-01-20')).toMatch(/at most/);
+  });
+
+  it('rejects an end date that would create more than the maximum', () => {
+    expect(validateRecurrenceRule({ frequency: 'daily', interval: 1, until: '2027-12-31' }, '2026-01-01'))
+      .toBe(`A series can have at most ${MAX_SERIES_OCCURRENCES} events`);
+    // 52 weekly events: the first plus 51 weeks
+    expect(validateRecurrenceRule({ frequency: 'weekly', interval: 1, until: addDays('2026-01-01', 51 * 7) }, '2026-01-01')).toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'weekly', interval: 1, until: addDays('2026-01-01', 52 * 7) }, '2026-01-01')).toMatch(/at most/);
+  });
+
+  it('rejects an end date before the first event', () => {
+    expect(validateRecurrenceRule({ frequency: 'daily', interval: 1, until: '2026-01-19' }, '2026-01-20')).toMatch(/on or after/);
+  });
+
+  it('rejects an invalid end date', () => {
+    expect(validateRecurrenceRule({ frequency: 'daily', interval: 1, until: '2026-02-30' }, '2026-01-20')).toMatch(/valid date/);
+  });
+});
+
+describe('expandOccurrenceDates', () => {
+  it('expands a weekly rule by count, starting with the first date', () => {
+    expect(expandOccurrenceDates('2026-01-20', { frequency: 'weekly', interval: 1, count: 3 }))
+      .toEqual(['2026-01-20', '2026-01-27', '2026-02-03']);
+  });
+
+  it('expands every N weeks', () => {
+    expect(expandOccurrenceDates('2026-01-20', { frequency: 'weekly', interval: 2, count: 3 }))
+      .toEqual(['2026-01-20', '2026-02-03', '2026-02-17']);
+  });
+
+  it('stops at the until date (inclusive)', () => {
+    expect(expandOccurrenceDates('2026-01-20', { frequency: 'daily', interval: 1, until: '2026-01-23' }))
+      .toEqual(['2026-01-20', '2026-01-21', '2026-01-22', '2026-01-23']);
+  });
+
+  it('uses whichever of count and until comes first', () => {
+    expect(expandOccurrenceDates('2026-01-20', { frequency: 'daily', interval: 1, count: 2, until: '2026-01-30' }))
+      .toHaveLength(2);
+    expect(expandOccurrenceDates('2026-01-20', { frequency: 'weekly', interval: 1, count: 10, until: '2026-01-30' }))
+      .toEqual(['2026-01-20', '2026-01-27']);
+  });
+
+  it('never exceeds the maximum number of occurrences', () => {
+    const dates = expandOccurrenceDates('2026-01-01', { frequency: 'daily', interval: 1, until: '2027-12-31' });
+    expect(dates).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes simple weekly and daily rules', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 1, count: 6 })).toBe('Weekly, 6 times');
+    expect(describeRecurrence({ frequency: 'daily', interval: 1, count: 1 })).toBe('Daily, 1 time');
+  });
+
+  it('describes intervals and end dates', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, until: '2026-03-01' }))
+      .toBe('Every 2 weeks until 2026-03-01');
+  });
+});
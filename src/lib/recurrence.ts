@@ -0,0 +1,121 @@
+/**
+ * Recurrence rules for event series.
+ *
+ * A recurring event is stored as one event row per occurrence, all sharing a
+ * series id. These helpers expand a rule into occurrence dates and do the
+ * date arithmetic on plain YYYY-MM-DD strings (no time zone involved).
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks (1 = every day/week)
+  until?: string; // Last possible occurrence date (YYYY-MM-DD), inclusive
+  count?: number; // Total number of occurrences, including the first
+}
+
+// Upper bound on occurrences created for one series (a year of weekly events)
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toUtcMs = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const fromUtcMs = (ms: number): string => new Date(ms).toISOString().slice(0, 10);
+
+const isValidDate = (date: string): boolean => {
+  if (!DATE_PATTERN.test(date)) return false;
+  return fromUtcMs(toUtcMs(date)) === date;
+};
+
+/**
+ * Add (or subtract) whole days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  return fromUtcMs(toUtcMs(date) + days * MS_PER_DAY);
+}
+
+/**
+ * Number of days from `from` to `to` (negative when `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcMs(to) - toUtcMs(from)) / MS_PER_DAY);
+}
+
+/**
+ * Validate a recurrence rule against the first occurrence date.
+ * Returns an error message, or null when the rule is usable.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule, startDate: string): string | null {
+  if (rule.frequency !== 'daily' && rule.frequency !== 'weekly') {
+    return 'Repeat frequency must be daily or weekly';
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return 'Repeat interval must be a whole number of at least 1';
+  }
+  if (rule.count === undefined && !rule.until) {
+    return 'Choose when the series ends (a number of events or an end date)';
+  }
+  if (rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      return 'Number of events must be at least 1';
+    }
+    if (rule.count > MAX_SERIES_OCCURRENCES) {
+      return `A series can have at most ${MAX_SERIES_OCCURRENCES} events`;
+    }
+  }
+  if (rule.until) {
+    if (!isValidDate(rule.until)) {
+      return 'End date must be a valid date';
+    }
+    if (rule.until < startDate) {
+      return 'End date must be on or after the first event';
+    }
+    const stepDays = (rule.frequency === 'weekly' ? 7 : 1) * rule.interval;
+    if (rule.count === undefined && Math.floor(daysBetween(startDate, rule.until) / stepDays) + 1 > MAX_SERIES_OCCURRENCES) {
+      return `A series can have at most ${MAX_SERIES_OCCURRENCES} events`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Expand a rule into occurrence dates, starting with `startDate` itself.
+ * Stops at `until`, at `count`, or at MAX_SERIES_OCCURRENCES, whichever comes first.
+ */
+export function expandOccurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+  const stepDays = (rule.frequency === 'weekly' ? 7 : 1) * Math.max(1, rule.interval);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const dates: string[] = [];
+  let current = startDate;
+  while (dates.length < limit) {
+    if (rule.until && current > rule.until) break;
+    dates.push(current);
+    current = addDays(current, stepDays);
+  }
+  return dates;
+}
+
+/**
+ * Short human-readable description, e.g. "Every 2 weeks, 6 times".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = rule.frequency === 'weekly' ? 'week' : 'day';
+  const every = rule.interval === 1
+    ? (rule.frequency === 'weekly' ? 'Weekly' : 'Daily')
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.count !== undefined) {
+    return `${every}, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+  if (rule.until) {
+    return `${every} until ${rule.until}`;
+  }
+  return every;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateReminderOffsets,
+  normalizeReminderOffsets,
+  formatLeadTime,
+  planReminders,
+  MAX_REMINDERS,
+} from './reminders';
+
+describe('validateReminderOffsets', () => {
+  it('accepts the usual offsets and an empty list', () => {
+    expect(validateReminderOffsets([1440, 60])).toBeNull();
+    expect(validateReminderOffsets([])).toBeNull();
+  });
+
+  it('rejects non-lists, fractions and out-of-range values', () => {
+    expect(validateReminderOffsets('60')).toMatch(/list/);
+    expect(validateReminderOffsets([1.5])).toMatch(/between/);
+    expect(validateReminderOffsets([0])).toMatch(/between/);
+    expect(validateReminderOffsets([31 * 24 * 60])).toMatch(/between/);
+  });
+
+  it('rejects duplicates and too many reminders', () => {
+    expect(validateReminderOffsets([60, 60])).toMatch(/once/);
+    expect(validateReminderOffsets(Array.from({ length: MAX_REMINDERS + 1 }, (_, i) => i + 1))).toMatch(/at most/);
+  });
+});
+
+describe('normalizeReminderOffsets', () => {
+  it('deduplicates and sorts largest first', () => {
+    expect(normalizeReminderOffsets([60, 1440, 60, 15])).toEqual([1440, 60, 15]);
+  });
+});
+
+describe('formatLeadTime', () => {
+  it('uses the largest whole unit', () => {
+    expect(formatLeadTime(60)).toBe('1 hour');
+    expect(formatLeadTime(1440)).toBe('1 day');
+    expect(formatLeadTime(10080)).toBe('7 days');
+    expect(formatLeadTime(120)).toBe('2 hours');
+  });
+
+  it('keeps minutes below two hours and rounds larger odd values', () => {
+    expect(formatLeadTime(15)).toBe('15 minutes');
+    expect(formatLeadTime(90)).toBe('90 minutes');
+    expect(formatLeadTime(1)).toBe('1 minute');
+    expect(formatLeadTime(1190)).toBe('20 hours');
+  });
+});
+
+describe('planReminders', () => {
+  const start = Date.parse('2026-01-20T15:00:00Z');
+  const minutesBefore = (minutes: number) => new Date(start - minutes * 60_000);
+
+  it('sends nothing before the first slot', () => {
+    expect(planReminders(start, [1440, 60], minutesBefore(1500))).toEqual({ send: null, skip: [] });
+  });
+
+  it('sends the reminder whose slot has just passed', () => {
+    const plan = planReminders(start, [1440, 60], minutesBefore(1435));
+    expect(plan.send).toEqual({ offsetMinutes: 1440, leadMinutes: 1440 });
+    expect(plan.skip).toEqual([]);
+  });
+
+  it('sends only the closest reminder when several are due and skips the rest', () => {
+    const plan = planReminders(start, [1440, 60], minutesBefore(50));
+    expect(plan.send).toEqual({ offsetMinutes: 60, leadMinutes: 60 });
+    expect(plan.skip).toEqual([1440]);
+  });
+
+  it('quotes the real remaining time when a reminder goes out late', () => {
+    const plan = planReminders(start, [60], minutesBefore(20));
+    expect(plan.send).toEqual({ offsetMinutes: 60, leadMinutes: 20 });
+  });
+
+  it('skips slots that passed before the recipient joined', () => {
+    const acceptedAt = minutesBefore(600).getTime();
+    const plan = planReminders(start, [1440, 60], minutesBefore(590), acceptedAt);
+    expect(plan.send).toBeNull();
+    expect(plan.skip).toEqual([1440]);
+
+    const later = planReminders(start, [1440, 60], minutesBefore(55), acceptedAt);
+    expect(later.send?.offsetMinutes).toBe(60);
+    expect(later.skip).toEqual([1440]);
+  });
+
+  it('sends nothing once the event has started', () => {
+    expect(planReminders(start, [60], new Date(start + 60_000))).toEqual({ send: null, skip: [] });
+  });
+});
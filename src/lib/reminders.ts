@@ -0,0 +1,110 @@
+/**
+ * Reminder scheduling rules.
+ *
+ * Each event carries a list of offsets (minutes before the start). The
+ * reminders cron asks `planReminders` what is due for every recipient and
+ * records each send in event_reminders, so a reminder goes out at most once.
+ */
+
+// 24 hours and 1 hour before, unless the organizer picks otherwise
+export const DEFAULT_REMINDER_OFFSETS = [1440, 60];
+
+// Offsets offered in the event form, largest first
+export const REMINDER_OFFSET_CHOICES = [10080, 2880, 1440, 240, 120, 60, 30, 15];
+
+export const MAX_REMINDERS = 5;
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+
+// A reminder sent within this many minutes of its slot still quotes the
+// configured lead time ("starts in 1 hour") rather than the exact remainder
+export const REMINDER_GRACE_MINUTES = 15;
+
+/**
+ * Validate a list of reminder offsets. Returns an error message, or null.
+ */
+export function validateReminderOffsets(offsets: unknown): string | null {
+  if (!Array.isArray(offsets)) {
+    return 'Reminders must be a list of minutes before the event';
+  }
+  if (offsets.length > MAX_REMINDERS) {
+    return `An event can have at most ${MAX_REMINDERS} reminders`;
+  }
+  for (const offset of offsets) {
+    if (!Number.isInteger(offset) || offset < 1 || offset > MAX_REMINDER_OFFSET_MINUTES) {
+      return 'Reminders must be between 1 minute and 30 days before the event';
+    }
+  }
+  if (new Set(offsets).size !== offsets.length) {
+    return 'Each reminder time can only be used once';
+  }
+  return null;
+}
+
+/**
+ * Deduplicate and sort offsets, largest (earliest reminder) first.
+ */
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+/**
+ * Human-readable lead time, e.g. "1 hour", "90 minutes", "2 days".
+ */
+export function formatLeadTime(minutes: number): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (minutes >= 1440 && minutes % 1440 === 0) return plural(minutes / 1440, 'day');
+  if (minutes >= 60 && minutes % 60 === 0) return plural(minutes / 60, 'hour');
+  if (minutes < 120) return plural(Math.max(minutes, 1), 'minute');
+  if (minutes < 2880) return plural(Math.round(minutes / 60), 'hour');
+  return plural(Math.round(minutes / 1440), 'day');
+}
+
+export interface ReminderPlan {
+  send: { offsetMinutes: number; leadMinutes: number } | null;
+  skip: number[]; // Offsets that are due but should never be sent to this recipient
+}
+
+/**
+ * Decide which reminder (if any) is due for one recipient right now.
+ *
+ * - Nothing is due once the event has started.
+ * - An offset is due when its slot (start minus offset) has passed.
+ * - Slots that passed before the recipient joined (accepted, or created the
+ *   event) are skipped: they just heard about the event.
+ * - When several slots are due at once (e.g. the cron was down), only the
+ *   closest to the start is sent; the older ones are skipped.
+ *
+ * @param joinedAtMs - When the recipient came on board (epoch ms), if known
+ */
+export function planReminders(
+  startMs: number,
+  offsets: number[],
+  now: Date = new Date(),
+  joinedAtMs?: number | null
+): ReminderPlan {
+  const nowMs = now.getTime();
+  if (nowMs >= startMs) {
+    return { send: null, skip: [] };
+  }
+
+  const slotMs = (offset: number) => startMs - offset * 60_000;
+  const due = normalizeReminderOffsets(offsets).filter((offset) => slotMs(offset) <= nowMs);
+
+  const missed = due.filter((offset) => joinedAtMs != null && slotMs(offset) < joinedAtMs);
+  const sendable = due.filter((offset) => !missed.includes(offset));
+  if (sendable.length === 0) {
+    return { send: null, skip: missed };
+  }
+
+  // Sorted largest first, so the last one is closest to the start
+  const offsetMinutes = sendable[sendable.length - 1];
+  const remainingMinutes = Math.round((startMs - nowMs) / 60_000);
+  const leadMinutes = remainingMinutes >= offsetMinutes - REMINDER_GRACE_MINUTES
+    ? offsetMinutes
+    : remainingMinutes;
+
+  return {
+    send: { offsetMinutes, leadMinutes },
+    skip: [...missed, ...sendable.slice(0, -1)],
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoute, routePath, isReturnPath, type AppRoute } from './routes';
+
+describe('parseRoute', () => {
+  it('maps the top-level pages', () => {
+    expect(parseRoute('/')).toEqual({ view: 'list' });
+    expect(parseRoute('/events')).toEqual({ view: 'list' });
+    expect(parseRoute('/contacts')).toEqual({ view: 'contacts' });
+    expect(parseRoute('/settings/')).toEqual({ view: 'settings' });
+  });
+
+  it('maps event pages, keeping /events/new apart from event ids', () => {
+    expect(parseRoute('/events/new')).toEqual({ view: 'create' });
+    expect(parseRoute('/events/3f2b')).toEqual({ view: 'detail', eventId: '3f2b' });
+    expect(parseRoute('/events/3f2b/edit')).toEqual({ view: 'edit', eventId: '3f2b' });
+  });
+
+  it('maps find-a-time polls', () => {
+    expect(parseRoute('/polls/9c1d')).toEqual({ view: 'poll', pollId: '9c1d' });
+    expect(parseRoute('/polls')).toBeNull();
+    expect(parseRoute('/polls/9c1d/edit')).toBeNull();
+  });
+
+  it('returns null for unknown or malformed paths', () => {
+    expect(parseRoute('/nope')).toBeNull();
+    expect(parseRoute('/events/3f2b/delete')).toBeNull();
+    expect(parseRoute('/events/3f2b/edit/more')).toBeNull();
+    expect(parseRoute('/events/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('routePath', () => {
+  it('round-trips through parseRoute', () => {
+    const routes: AppRoute[] = [
+      { view: 'list' },
+      { view: 'create' },
+      { view: 'detail', eventId: 'a b' },
+      { view: 'edit', eventId: '3f2b' },
+      { view: 'poll', pollId: '9c1d' },
+      { view: 'contacts' },
+      { view: 'settings' },
+    ];
+    for (const route of routes) {
+      expect(parseRoute(routePath(route))).toEqual(route);
+    }
+  });
+});
+
+describe('isReturnPath', () => {
+  it('accepts deep links into the app', () => {
+    expect(isReturnPath('/events/3f2b')).toBe(true);
+    expect(isReturnPath('/settings')).toBe(true);
+    expect(isReturnPath('/polls/9c1d')).toBe(true);
+  });
+
+  it('rejects the home page, unknown paths and other origins', () => {
+    expect(isReturnPath('/')).toBe(false);
+    expect(isReturnPath('/nope')).toBe(false);
+    expect(isReturnPath('//evil.example/events/1')).toBe(false);
+    expect(isReturnPath('https://evil.example/events/1')).toBe(false);
+    expect(isReturnPath(null)).toBe(false);
+  });
+});
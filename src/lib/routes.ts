@@ -0,0 +1,83 @@
+/**
+ * Client-side routes for the signed-in app.
+ *
+ * The dashboard is addressed by URL so that links in emails and texts
+ * (`/events/:id`) open the right page, including after a login redirect.
+ * Parsing is kept here, free of React, so it can be tested on its own.
+ */
+
+export type AppRoute =
+  | { view: 'list' }
+  | { view: 'create' }
+  | { view: 'detail'; eventId: string }
+  | { view: 'edit'; eventId: string }
+  | { view: 'poll'; pollId: string } // Find-a-time poll tally
+  | { view: 'contacts' }
+  | { view: 'settings' };
+
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Route for a URL path. Unknown paths return null (callers show the event list).
+ */
+export function parseRoute(pathname: string): AppRoute | null {
+  const segments = pathname.split('/').filter(Boolean);
+
+  if (segments.length === 0) return { view: 'list' };
+  if (segments.length === 1) {
+    if (segments[0] === 'events') return { view: 'list' };
+    if (segments[0] === 'contacts') return { view: 'contacts' };
+    if (segments[0] === 'settings') return { view: 'settings' };
+    return null;
+  }
+  if (segments[0] === 'polls') {
+    const pollId = segments.length === 2 ? decodeSegment(segments[1]) : null;
+    return pollId ? { view: 'poll', pollId } : null;
+  }
+  if (segments[0] !== 'events' || segments.length > 3) return null;
+
+  if (segments.length === 2 && segments[1] === 'new') return { view: 'create' };
+
+  const eventId = decodeSegment(segments[1]);
+  if (!eventId) return null;
+  if (segments.length === 2) return { view: 'detail', eventId };
+  return segments[2] === 'edit' ? { view: 'edit', eventId } : null;
+}
+
+/**
+ * URL path for a route; the inverse of parseRoute.
+ */
+export function routePath(route: AppRoute): string {
+  switch (route.view) {
+    case 'list':
+      return '/';
+    case 'create':
+      return '/events/new';
+    case 'detail':
+      return `/events/${encodeURIComponent(route.eventId)}`;
+    case 'edit':
+      return `/events/${encodeURIComponent(route.eventId)}/edit`;
+    case 'poll':
+      return `/polls/${encodeURIComponent(route.pollId)}`;
+    case 'contacts':
+      return '/contacts';
+    case 'settings':
+      return '/settings';
+  }
+}
+
+/**
+ * Whether a path saved before login can be restored afterwards: a known
+ * route on this site (not another origin, and not the home page itself).
+ */
+export function isReturnPath(path: string | null | undefined): path is string {
+  if (!path || !path.startsWith('/') || path.startsWith('//')) return false;
+  const route = parseRoute(path);
+  return route !== null && route.view !== 'list';
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import {
   processRsvpAction,
+  processRsvpActionById,
+  planAutoPromotion,
+  planExpiryNudges,
   calculateEventStatuses,
   type Invitee,
 } from './rsvp-logic';
@@ -280,6 +283,16 @@ describe('calculateEventStatuses', () => {
       expect(result.confirmationStatus).toBe('invited');
     });
 
+    it('should return "invited" when the only open answer is a maybe', () => {
+      const invitees = [
+        { status: 'tentative' as const },
+        { status: 'declined' as const },
+      ];
+      const eventTime = new Date('2026-01-15T12:00:00');
+
+      expect(calculateEventStatuses(invitees, eventTime, now).confirmationStatus).toBe('invited');
+    });
+
     it('should return "declined" for past event with all declined invitees', () => {
       const invitees = [
         { status: 'declined' as const },
@@ -595,3 +608,409 @@ describe('processRsvpAction with spots', () => {
     });
   });
 });
+
+describe('processRsvpActionById', () => {
+  const createInvitee = (
+    id: string,
+    status: Invitee['status'],
+    priority: number,
+    email?: string
+  ): Invitee => ({
+    id,
+    email,
+    status,
+    priority,
+    contact_id: `contact-${id}`,
+  });
+
+  it('should handle phone-only invitees without an email', () => {
+    const invitees = [
+      createInvitee('sms-1', 'invited', 0),
+      createInvitee('sms-2', 'pending', 1),
+    ];
+
+    const result = processRsvpActionById(invitees, 'sms-1', 'confirm');
+
+    expect(result.success).toBe(true);
+    expect(result.newStatus).toBe('accepted');
+  });
+
+  it('should return a reason code for each rejection', () => {
+    const invitees = [
+      createInvitee('a', 'accepted', 0),
+      createInvitee('b', 'declined', 1),
+      createInvitee('c', 'invited', 2),
+    ];
+
+    expect(processRsvpActionById(invitees, 'missing', 'confirm').reason).toBe('not-found');
+    expect(processRsvpActionById(invitees, 'a', 'confirm').reason).toBe('already-accepted');
+    expect(processRsvpActionById(invitees, 'b', 'decline').reason).toBe('already-declined');
+    expect(processRsvpActionById(invitees, 'c', 'confirm').reason).toBe('event-full');
+  });
+
+  it('should report already accepted before event full for the same person', () => {
+    const invitees = [
+      createInvitee('a', 'accepted', 0),
+      createInvitee('b', 'accepted', 1),
+    ];
+
+    const result = processRsvpActionById(invitees, 'a', 'confirm', 'priority', 1);
+
+    expect(result.reason).toBe('already-accepted');
+  });
+
+  it('should list waiting invitees to notify when the last spot is taken', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0),
+      createInvitee('b', 'invited', 1),
+      createInvitee('c', 'pending', 2),
+      createInvitee('d', 'declined', 3),
+    ];
+
+    const result = processRsvpActionById(invitees, 'a', 'confirm', 'first-come-first-serve', 1);
+
+    expect(result.isEventFull).toBe(true);
+    expect(result.notifyEventFull?.map((inv) => inv.id)).toEqual(['b', 'c']);
+  });
+
+  it('should not list anyone to notify while spots remain', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0),
+      createInvitee('b', 'invited', 1),
+    ];
+
+    const result = processRsvpActionById(invitees, 'a', 'confirm', 'first-come-first-serve', 2);
+
+    expect(result.isEventFull).toBe(false);
+    expect(result.notifyEventFull).toEqual([]);
+  });
+
+  it('should not promote on decline when every spot is already taken', () => {
+    const invitees = [
+      createInvitee('a', 'accepted', 0),
+      createInvitee('b', 'invited', 1),
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const result = processRsvpActionById(invitees, 'b', 'decline', 'priority', 1);
+
+    expect(result.success).toBe(true);
+    expect(result.shouldPromoteNext).toBe(false);
+    expect(result.promotedInvitee).toBeUndefined();
+  });
+
+  it('should only promote invitees queued after the one who declined', () => {
+    const invitees = [
+      createInvitee('a', 'pending', 0),
+      createInvitee('b', 'invited', 1),
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const result = processRsvpActionById(invitees, 'b', 'decline', 'priority', 1);
+
+    expect(result.promotedInvitee?.id).toBe('c');
+  });
+
+  it('should skip unreachable invitees when promoting', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0),
+      { ...createInvitee('b', 'pending', 1), unreachable: true },
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const result = processRsvpActionById(invitees, 'a', 'decline', 'priority', 1);
+
+    expect(result.promotedInvitee?.id).toBe('c');
+  });
+
+  it('should preserve extra fields on returned invitees', () => {
+    const invitees = [
+      { ...createInvitee('a', 'invited', 0), phone: '+15551234567' },
+      { ...createInvitee('b', 'pending', 1), phone: '+15557654321' },
+    ];
+
+    const result = processRsvpActionById(invitees, 'a', 'decline', 'priority', 1);
+
+    expect(result.promotedInvitee?.phone).toBe('+15557654321');
+  });
+
+  describe('withdraw action', () => {
+    const now = new Date('2026-01-20T12:00:00Z');
+
+    it('frees an accepted spot and invites the front of the queue', () => {
+      const invitees = [
+        createInvitee('a', 'accepted', 0),
+        createInvitee('b', 'declined', 1),
+        createInvitee('c', 'pending', 2),
+        createInvitee('d', 'pending', 3),
+      ];
+
+      const result = processRsvpActionById(invitees, 'a', 'withdraw', 'priority', 1, null, now);
+
+      expect(result).toMatchObject({ success: true, newStatus: 'declined', shouldPromoteNext: true, spotsRemaining: 1 });
+      expect(result.promotedInvitee?.id).toBe('c');
+    });
+
+    it('promotes no one in first-come-first-serve mode', () => {
+      const invitees = [createInvitee('a', 'accepted', 0), createInvitee('b', 'invited', 1)];
+
+      const result = processRsvpActionById(invitees, 'a', 'withdraw', 'first-come-first-serve', 1, null, now);
+
+      expect(result.success).toBe(true);
+      expect(result.shouldPromoteNext).toBe(false);
+    });
+
+    it('only lets accepted invitees withdraw, before the deadline', () => {
+      const invitees = [createInvitee('a', 'accepted', 0), createInvitee('b', 'invited', 1), createInvitee('c', 'declined', 2)];
+      const deadline = new Date('2026-01-20T13:00:00Z');
+
+      expect(processRsvpActionById(invitees, 'b', 'withdraw', 'priority', 2, deadline, now).reason).toBe('not-accepted');
+      expect(processRsvpActionById(invitees, 'c', 'withdraw', 'priority', 2, deadline, now).reason).toBe('already-declined');
+      expect(processRsvpActionById(invitees, 'a', 'withdraw', 'priority', 2, deadline, now).success).toBe(true);
+      expect(processRsvpActionById(invitees, 'a', 'withdraw', 'priority', 2, deadline, deadline).reason).toBe('withdraw-closed');
+    });
+
+    it('still refuses a plain decline once accepted', () => {
+      const result = processRsvpActionById([createInvitee('a', 'accepted', 0)], 'a', 'decline');
+      expect(result.reason).toBe('already-accepted');
+    });
+  });
+
+  describe('tentative action', () => {
+    it('records a maybe without taking a spot or promoting anyone', () => {
+      const invitees = [createInvitee('a', 'invited', 0), createInvitee('b', 'pending', 1)];
+
+      const result = processRsvpActionById(invitees, 'a', 'tentative');
+
+      expect(result).toMatchObject({ success: true, newStatus: 'tentative', shouldPromoteNext: false });
+      expect(result.promotedInvitee).toBeUndefined();
+    });
+
+    it('lets a tentative invitee confirm or decline later', () => {
+      const invitees = [createInvitee('a', 'tentative', 0), createInvitee('b', 'pending', 1)];
+
+      expect(processRsvpActionById(invitees, 'a', 'confirm').newStatus).toBe('accepted');
+      const declined = processRsvpActionById(invitees, 'a', 'decline');
+      expect(declined.newStatus).toBe('declined');
+      // The sweep decides whether the spot they held is still theirs to hand on
+      expect(declined.shouldPromoteNext).toBe(false);
+    });
+
+    it('rejects a maybe after another answer or once the event is full', () => {
+      const invitees = [
+        createInvitee('a', 'accepted', 0),
+        createInvitee('b', 'declined', 1),
+        createInvitee('c', 'tentative', 2),
+        createInvitee('d', 'invited', 3),
+      ];
+
+      expect(processRsvpActionById(invitees, 'a', 'tentative').reason).toBe('already-accepted');
+      expect(processRsvpActionById(invitees, 'b', 'tentative').reason).toBe('already-declined');
+      expect(processRsvpActionById(invitees, 'c', 'tentative').reason).toBe('already-tentative');
+      expect(processRsvpActionById(invitees, 'd', 'tentative', 'priority', 1).reason).toBe('event-full');
+      expect(processRsvpActionById(invitees, 'd', 'tentative', 'priority', 2).success).toBe(true);
+    });
+
+    it('tells tentative invitees when the last spot is taken', () => {
+      const invitees = [createInvitee('a', 'invited', 0), createInvitee('b', 'tentative', 1)];
+
+      const result = processRsvpActionById(invitees, 'a', 'confirm', 'first-come-first-serve', 1);
+
+      expect(result.notifyEventFull?.map((inv) => inv.id)).toEqual(['b']);
+    });
+  });
+});
+
+describe('planAutoPromotion', () => {
+  const now = new Date('2026-01-20T12:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString();
+
+  const createInvitee = (
+    id: string,
+    status: Invitee['status'],
+    priority: number,
+    invitedAt: string | null = null
+  ): Invitee & { invitedAt: string | null } => ({
+    id,
+    status,
+    priority,
+    contact_id: `contact-${id}`,
+    invitedAt,
+  });
+
+  const ids = (invitees: { id: string }[]) => invitees.map((inv) => inv.id);
+
+  it('expires a stale invitation and promotes the next pending invitee', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0, minutesAgo(45)),
+      createInvitee('b', 'pending', 1),
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const plan = planAutoPromotion(invitees, 'priority', 1, 30, now);
+
+    expect(ids(plan.expired)).toEqual(['a']);
+    expect(ids(plan.promoted)).toEqual(['b']);
+  });
+
+  it('leaves invitations that are still within the threshold', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0, minutesAgo(10)),
+      createInvitee('b', 'pending', 1),
+    ];
+
+    const plan = planAutoPromotion(invitees, 'priority', 1, 30, now);
+
+    expect(plan.expired).toHaveLength(0);
+    expect(plan.promoted).toHaveLength(0);
+  });
+
+  it('fills every open spot of a multi-spot event in priority order', () => {
+    const invitees = [
+      createInvitee('a', 'accepted', 0),
+      createInvitee('b', 'invited', 1, minutesAgo(60)),
+      createInvitee('c', 'invited', 2, minutesAgo(5)),
+      createInvitee('e', 'pending', 4),
+      createInvitee('d', 'pending', 3),
+      createInvitee('f', 'pending', 5),
+    ];
+
+    // 4 spots: 1 accepted, 1 still outstanding, 1 expiring -> 2 to promote
+    const plan = planAutoPromotion(invitees, 'priority', 4, 30, now);
+
+    expect(ids(plan.expired)).toEqual(['b']);
+    expect(ids(plan.promoted)).toEqual(['d', 'e']);
+  });
+
+  it('fills open spots even when nothing expired (e.g. spots were increased)', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0, minutesAgo(5)),
+      createInvitee('b', 'pending', 1),
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const plan = planAutoPromotion(invitees, 'priority', 2, 30, now);
+
+    expect(plan.expired).toHaveLength(0);
+    expect(ids(plan.promoted)).toEqual(['b']);
+  });
+
+  it('skips pending invitees who cannot be reached', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0, minutesAgo(45)),
+      { ...createInvitee('b', 'pending', 1), unreachable: true },
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const plan = planAutoPromotion(invitees, 'priority', 1, 30, now);
+
+    expect(ids(plan.promoted)).toEqual(['c']);
+  });
+
+  it('expires but promotes nobody once every spot is accepted', () => {
+    const invitees = [
+      createInvitee('a', 'accepted', 0),
+      createInvitee('b', 'invited', 1, minutesAgo(90)),
+      createInvitee('c', 'pending', 2),
+    ];
+
+    const plan = planAutoPromotion(invitees, 'priority', 1, 30, now);
+
+    expect(ids(plan.expired)).toEqual(['b']);
+    expect(plan.promoted).toHaveLength(0);
+  });
+
+  it('holds a tentative invitee\'s spot until the hold runs out, without expiring them', () => {
+    const tentative = (respondedMinutesAgo: number) => ({
+      ...createInvitee('a', 'tentative', 0, minutesAgo(120)),
+      respondedAt: minutesAgo(respondedMinutesAgo),
+    });
+    const queue = (respondedMinutesAgo: number) => [tentative(respondedMinutesAgo), createInvitee('b', 'pending', 1)];
+
+    const holding = planAutoPromotion(queue(20), 'priority', 1, 30, now, 60);
+    expect(holding.expired).toHaveLength(0);
+    expect(holding.promoted).toHaveLength(0);
+
+    const released = planAutoPromotion(queue(90), 'priority', 1, 30, now, 60);
+    expect(released.expired).toHaveLength(0);
+    expect(ids(released.promoted)).toEqual(['b']);
+
+    // No hold: the next person is invited right away
+    expect(ids(planAutoPromotion(queue(1), 'priority', 1, 30, now).promoted)).toEqual(['b']);
+  });
+
+  it('does nothing for first-come-first-serve events', () => {
+    const invitees = [
+      createInvitee('a', 'invited', 0, minutesAgo(90)),
+      createInvitee('b', 'invited', 1, minutesAgo(90)),
+    ];
+
+    const plan = planAutoPromotion(invitees, 'first-come-first-serve', 1, 30, now);
+
+    expect(plan.expired).toHaveLength(0);
+    expect(plan.promoted).toHaveLength(0);
+  });
+});
+
+describe('planExpiryNudges', () => {
+  const now = new Date('2026-01-20T12:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString();
+
+  const createInvitee = (
+    id: string,
+    status: Invitee['status'],
+    invitedAt: string | null,
+    nudgedAt: string | null = null
+  ): Invitee & { invitedAt: string | null; nudgedAt: string | null } => ({
+    id,
+    status,
+    priority: 0,
+    contact_id: `contact-${id}`,
+    invitedAt,
+    nudgedAt,
+  });
+
+  it('nudges an invitation that is about to expire', () => {
+    // 30 minute timer, nudge 10 minutes before: invited 22 minutes ago -> 8 left
+    const nudges = planExpiryNudges([createInvitee('a', 'invited', minutesAgo(22))], 'priority', 30, 10, now);
+
+    expect(nudges).toHaveLength(1);
+    expect(nudges[0].invitee.id).toBe('a');
+    expect(nudges[0].minutesLeft).toBe(8);
+  });
+
+  it('waits until the nudge point and stops once the invitation has expired', () => {
+    const invitees = [
+      createInvitee('early', 'invited', minutesAgo(15)),
+      createInvitee('expired', 'invited', minutesAgo(31)),
+    ];
+
+    expect(planExpiryNudges(invitees, 'priority', 30, 10, now)).toHaveLength(0);
+  });
+
+  it('nudges only once per invitation, but again after a new invitation', () => {
+    const alreadyNudged = createInvitee('a', 'invited', minutesAgo(25), minutesAgo(3));
+    const reinvited = createInvitee('b', 'invited', minutesAgo(25), minutesAgo(60));
+
+    const nudges = planExpiryNudges([alreadyNudged, reinvited], 'priority', 30, 10, now);
+
+    expect(nudges.map((nudge) => nudge.invitee.id)).toEqual(['b']);
+  });
+
+  it('ignores people who responded or are still waiting in line', () => {
+    const invitees = [
+      createInvitee('accepted', 'accepted', minutesAgo(25)),
+      createInvitee('pending', 'pending', null),
+    ];
+
+    expect(planExpiryNudges(invitees, 'priority', 30, 10, now)).toHaveLength(0);
+  });
+
+  it('is off for a zero nudge point, an invalid one, or first-come-first-serve events', () => {
+    const invitees = [createInvitee('a', 'invited', minutesAgo(25))];
+
+    expect(planExpiryNudges(invitees, 'priority', 30, 0, now)).toHaveLength(0);
+    expect(planExpiryNudges(invitees, 'priority', 30, 30, now)).toHaveLength(0);
+    expect(planExpiryNudges(invitees, 'first-come-first-serve', 30, 10, now)).toHaveLength(0);
+  });
+});
@@ -1,32 +1,47 @@
 /**
  * Core business logic for RSVP handling.
- * Extracted for testability.
  */
 
-export type InviteeStatus = 'pending' | 'invited' | 'accepted' | 'declined';
+// tentative: answered "maybe"; holds their place without taking a spot (see planAutoPromotion)
+export type InviteeStatus = 'pending' | 'invited' | 'accepted' | 'declined' | 'tentative';
 export type InviteMode = 'priority' | 'first-come-first-serve';
+export type RsvpAction = 'confirm' | 'decline' | 'tentative' | 'withdraw'; // withdraw: accepted, can't make it anymore
 
 export interface Invitee {
   id: string;
-  email: string;
+  email?: string; // Phone-only contacts have no email
   status: InviteeStatus;
   priority: number;
   contact_id: string;
+  unreachable?: boolean; // Every address bounced or failed (see delivery-reports.ts); never promoted
 }
 
-export interface RsvpResult {
+// Why an RSVP was rejected, so each entry point can pick its own wording/UI
+export type RsvpFailureReason =
+  | 'not-found'
+  | 'event-full'
+  | 'already-accepted'
+  | 'already-declined'
+  | 'already-tentative'
+  | 'not-accepted'
+  | 'withdraw-closed'
+  | 'invalid-action';
+
+export interface RsvpResult<T extends Invitee = Invitee> {
   success: boolean;
   newStatus?: InviteeStatus;
   error?: string;
+  reason?: RsvpFailureReason;
   shouldPromoteNext?: boolean;
-  promotedInvitee?: Invitee;
+  promotedInvitee?: T;
   isEventFull?: boolean;
   spotsRemaining?: number;
+  notifyEventFull?: T[]; // Invitees still waiting when this acceptance filled the last spot
 }
 
 /**
- * Determines if an RSVP action (confirm/decline) should be allowed
- * and what the outcome should be.
+ * Determines if an RSVP action (confirm/decline/tentative) should be allowed
+ * and what the outcome should be. The invitee is identified by row id.
  * 
  * Business rules for FIRST-COME-FIRST-SERVE mode:
  * - All invitees are invited at the same time (all have status 'invited')
@@ -34,34 +49,56 @@ export interface RsvpResult {
  * - No promotion needed on decline (everyone was already invited)
  * 
  * Business rules for PRIORITY mode:
- * - Invitees are invited one at a time in priority order
- * - First invitee (priority 0) is invited, rest are pending
- * - When someone declines, next pending invitee is promoted to invited
+ * - Invitees are invited in priority order, one per open spot
+ * - The first N invitees (N = spots) are invited, the rest are pending
+ * - When someone declines, the next reachable pending invitee after them is
+ *   promoted to invited, unless every spot is already taken
  * - Only N people (where N = spots) can accept
+ *
+ * Tentative ("maybe") answers:
+ * - Do not take a spot; the invitee can still confirm or decline later
+ * - Are refused once every spot is taken, like a confirm
+ * - Promote no one: the auto-promote sweep invites the next person once the
+ *   tentative hold runs out, or on its next run if a tentative invitee declines
+ *
+ * Withdrawals ("can't make it anymore"):
+ * - Only for accepted invitees, and only before `withdrawDeadline` (the event
+ *   start minus the organizer's cutoff); after that they contact the organizer
+ * - The invitee is marked declined and, in priority mode, the first reachable
+ *   person still in the queue is invited to the freed spot
+ *
+ * When an acceptance fills the last spot, everyone still invited, pending or
+ * tentative is returned in `notifyEventFull`.
  * 
  * @param spots - Number of spots available (default 1)
+ * @param withdrawDeadline - Last moment to withdraw (null = until the event starts; callers pass the start then)
  */
-export function processRsvpAction(
-  invitees: Invitee[],
-  targetInviteeEmail: string,
-  action: 'confirm' | 'decline',
+export function processRsvpActionById<T extends Invitee>(
+  invitees: T[],
+  targetInviteeId: string,
+  action: RsvpAction,
   inviteMode: InviteMode = 'priority',
-  spots: number = 1
-): RsvpResult {
-  const targetInvitee = invitees.find(
-    (inv) => inv.email.toLowerCase() === targetInviteeEmail.toLowerCase()
-  );
+  spots: number = 1,
+  withdrawDeadline: Date | null = null,
+  now: Date = new Date()
+): RsvpResult<T> {
+  const targetInvitee = invitees.find((inv) => inv.id === targetInviteeId);
 
   if (!targetInvitee) {
-    return { success: false, error: 'Invitee not found' };
+    return { success: false, error: 'Invitee not found', reason: 'not-found' };
   }
 
   // Count how many have already accepted (excluding current invitee)
   const acceptedCount = invitees.filter(
-    (inv) => inv.status === 'accepted' && inv.email.toLowerCase() !== targetInviteeEmail.toLowerCase()
+    (inv) => inv.status === 'accepted' && inv.id !== targetInvitee.id
   ).length;
 
   if (action === 'confirm') {
+    // Check if invitee already responded
+    if (targetInvitee.status === 'accepted') {
+      return { success: false, error: 'You have already accepted this invitation', reason: 'already-accepted' };
+    }
+
     // Rule: Only N people can accept (where N = spots)
     if (acceptedCount >= spots) {
       return {
@@ -69,18 +106,13 @@ export function processRsvpAction(
         error: spots === 1 
           ? 'This event has already been confirmed by another invitee'
           : `This event is full (${spots} spot${spots > 1 ? 's' : ''} filled)`,
+        reason: 'event-full',
         isEventFull: true,
       };
     }
 
-    // Check if invitee is in a valid state to accept
-    if (targetInvitee.status !== 'invited' && targetInvitee.status !== 'pending') {
-      if (targetInvitee.status === 'accepted') {
-        return { success: false, error: 'You have already accepted this invitation' };
-      }
-      if (targetInvitee.status === 'declined') {
-        return { success: false, error: 'You have already declined this invitation' };
-      }
+    if (targetInvitee.status === 'declined') {
+      return { success: false, error: 'You have already declined this invitation', reason: 'already-declined' };
     }
 
     // Check if this acceptance fills all spots
@@ -91,20 +123,97 @@ export function processRsvpAction(
       newStatus: 'accepted',
       isEventFull: willBeFull,
       spotsRemaining: spots - acceptedCount - 1,
+      notifyEventFull: willBeFull
+        ? invitees.filter(
+            (inv) =>
+              inv.id !== targetInvitee.id &&
+              (inv.status === 'invited' || inv.status === 'pending' || inv.status === 'tentative')
+          )
+        : [],
+    };
+  }
+
+  if (action === 'tentative') {
+    if (targetInvitee.status === 'accepted') {
+      return {
+        success: false,
+        error: 'You have already accepted this invitation. Withdraw instead if you can no longer make it.',
+        reason: 'already-accepted',
+      };
+    }
+    if (targetInvitee.status === 'declined') {
+      return { success: false, error: 'You have already declined this invitation', reason: 'already-declined' };
+    }
+    if (targetInvitee.status === 'tentative') {
+      return { success: false, error: 'You have already answered maybe to this invitation', reason: 'already-tentative' };
+    }
+    if (acceptedCount >= spots) {
+      return {
+        success: false,
+        error: spots === 1
+          ? 'This event has already been confirmed by another invitee'
+          : `This event is full (${spots} spot${spots > 1 ? 's' : ''} filled)`,
+        reason: 'event-full',
+        isEventFull: true,
+      };
+    }
+
+    return { success: true, newStatus: 'tentative', shouldPromoteNext: false };
+  }
+
+  if (action === 'withdraw') {
+    if (targetInvitee.status === 'declined') {
+      return { success: false, error: 'You have already declined this invitation', reason: 'already-declined' };
+    }
+    if (targetInvitee.status !== 'accepted') {
+      return {
+        success: false,
+        error: 'You have not accepted this invitation. Decline it instead.',
+        reason: 'not-accepted',
+      };
+    }
+    if (withdrawDeadline && now.getTime() >= withdrawDeadline.getTime()) {
+      return {
+        success: false,
+        error: 'It is too late to withdraw. Contact the organizer.',
+        reason: 'withdraw-closed',
+      };
+    }
+
+    // The freed spot goes to the front of the queue (everyone is already invited in first-come-first-serve mode)
+    const nextPending = inviteMode === 'priority'
+      ? invitees
+          .filter((inv) => inv.status === 'pending' && !inv.unreachable)
+          .sort((a, b) => a.priority - b.priority)[0]
+      : undefined;
+
+    return {
+      success: true,
+      newStatus: 'declined',
+      spotsRemaining: spots - acceptedCount,
+      shouldPromoteNext: !!nextPending,
+      promotedInvitee: nextPending,
     };
   }
 
   if (action === 'decline') {
     // Check if invitee is in a valid state to decline
     if (targetInvitee.status === 'declined') {
-      return { success: false, error: 'You have already declined this invitation' };
+      return { success: false, error: 'You have already declined this invitation', reason: 'already-declined' };
     }
     if (targetInvitee.status === 'accepted') {
-      return { success: false, error: 'You have already accepted this invitation. Contact the organizer to cancel.' };
+      return {
+        success: false,
+        error: 'You have already accepted this invitation. Withdraw instead if you can no longer make it.',
+        reason: 'already-accepted',
+      };
     }
 
     // In first-come-first-serve mode, no promotion needed (everyone was already invited)
-    if (inviteMode === 'first-come-first-serve') {
+    // and a full event has nothing to promote into. A tentative invitee's place
+    // may already have been handed on when their hold ran out, so the sweep
+    // decides whether their decline opens a spot.
+    if (inviteMode === 'first-come-first-serve' || acceptedCount >= spots || targetInvitee.status === 'tentative') {
       return {
         success: true,
         newStatus: 'declined',
@@ -114,7 +223,7 @@ export function processRsvpAction(
 
     // In priority mode, find next pending invitee to promote
     const pendingInvitees = invitees
-      .filter((inv) => inv.status === 'pending')
+      .filter((inv) => inv.status === 'pending' && !inv.unreachable)
       .sort((a, b) => a.priority - b.priority);
 
     const nextPending = pendingInvitees.find(
@@ -129,7 +238,128 @@ export function processRsvpAction(
     };
   }
 
-  return { success: false, error: 'Invalid action' };
+  return { success: false, error: 'Invalid action', reason: 'invalid-action' };
+}
+
+/**
+ * Last moment an accepted invitee can withdraw: the event start (epoch ms)
+ * minus the organizer's cutoff in minutes (0 = until the event starts).
+ */
+export function getWithdrawDeadline(startMs: number, cutoffMinutes: number = 0): Date {
+  return new Date(startMs - cutoffMinutes * 60_000);
+}
+
+/**
+ * Same as processRsvpActionById, identifying the invitee by email (case-insensitive).
+ */
+export function processRsvpAction<T extends Invitee>(
+  invitees: T[],
+  targetInviteeEmail: string,
+  action: RsvpAction,
+  inviteMode: InviteMode = 'priority',
+  spots: number = 1,
+  withdrawDeadline: Date | null = null,
+  now: Date = new Date()
+): RsvpResult<T> {
+  const targetInvitee = invitees.find(
+    (inv) => inv.email?.toLowerCase() === targetInviteeEmail.toLowerCase()
+  );
+
+  if (!targetInvitee) {
+    return { success: false, error: 'Invitee not found', reason: 'not-found' };
+  }
+
+  return processRsvpActionById(invitees, targetInvitee.id, action, inviteMode, spots, withdrawDeadline, now);
+}
+
+export interface AutoPromotionPlan<T extends Invitee = Invitee> {
+  expired: T[]; // Invited too long ago without answering; they lose the invitation
+  promoted: T[]; // Next pending invitees, one per open spot
+}
+
+/**
+ * Plan one auto-promote sweep of a priority-mode queue.
+ *
+ * Invitations older than `thresholdMinutes` expire (the invitee is treated as
+ * declined). Then open spots — spots minus accepted minus invitations still
+ * outstanding — are filled from the pending queue in priority order, skipping
+ * invitees who cannot be reached. A tentative answer counts as outstanding for
+ * `tentativeHoldMinutes` after it was given; after that the next person is
+ * invited too, and the tentative invitee keeps their invitation (they never
+ * expire).
+ * First-come-first-serve events invite everyone up front, so nothing happens.
+ *
+ * The edge function uses this to decide which events need work; the
+ * auto_promote_event database function applies the same rules under a lock.
+ */
+export function planAutoPromotion<T extends Invitee & { invitedAt?: string | null; respondedAt?: string | null }>(
+  invitees: T[],
+  inviteMode: InviteMode = 'priority',
+  spots: number = 1,
+  thresholdMinutes: number,
+  now: Date = new Date(),
+  tentativeHoldMinutes: number = 0
+): AutoPromotionPlan<T> {
+  if (inviteMode !== 'priority') {
+    return { expired: [], promoted: [] };
+  }
+
+  const cutoff = now.getTime() - thresholdMinutes * 60_000;
+  const expired = invitees.filter(
+    (inv) => inv.status === 'invited' && !!inv.invitedAt && new Date(inv.invitedAt).getTime() <= cutoff
+  );
+
+  const acceptedCount = invitees.filter((inv) => inv.status === 'accepted').length;
+  const holdCutoff = now.getTime() - tentativeHoldMinutes * 60_000;
+  const outstandingCount = invitees.filter(
+    (inv) =>
+      (inv.status === 'invited' && !expired.includes(inv)) ||
+      (inv.status === 'tentative' && !!inv.respondedAt && new Date(inv.respondedAt).getTime() > holdCutoff)
+  ).length;
+  const openSpots = Math.max(spots - acceptedCount - outstandingCount, 0);
+
+  const promoted = invitees
+    .filter((inv) => inv.status === 'pending' && !inv.unreachable)
+    .sort((a, b) => a.priority - b.priority)
+    .slice(0, openSpots);
+
+  return { expired, promoted };
+}
+
+export interface ExpiryNudge<T extends Invitee = Invitee> {
+  invitee: T;
+  minutesLeft: number; // Until the invitation expires
+}
+
+/**
+ * Invited people in a priority-mode queue who should get a "your invite
+ * expires soon" nudge: their invitation is within `nudgeBeforeMinutes` of
+ * expiring and they have not been nudged since they were (re-)invited.
+ * A nudge point of 0 turns nudges off.
+ */
+export function planExpiryNudges<T extends Invitee & { invitedAt?: string | null; nudgedAt?: string | null }>(
+  invitees: T[],
+  inviteMode: InviteMode = 'priority',
+  thresholdMinutes: number,
+  nudgeBeforeMinutes: number,
+  now: Date = new Date()
+): ExpiryNudge<T>[] {
+  if (inviteMode !== 'priority' || nudgeBeforeMinutes <= 0 || nudgeBeforeMinutes >= thresholdMinutes) {
+    return [];
+  }
+
+  const nowMs = now.getTime();
+  return invitees.flatMap((inv) => {
+    if (inv.status !== 'invited' || !inv.invitedAt) return [];
+    const invitedMs = new Date(inv.invitedAt).getTime();
+    if (inv.nudgedAt && new Date(inv.nudgedAt).getTime() >= invitedMs) return [];
+
+    const expiresMs = invitedMs + thresholdMinutes * 60_000;
+    const nudgeMs = expiresMs - nudgeBeforeMinutes * 60_000;
+    if (nowMs < nudgeMs || nowMs >= expiresMs) return [];
+
+    return [{ invitee: inv, minutesLeft: Math.ceil((expiresMs - nowMs) / 60_000) }];
+  });
 }
 
 /**
@@ -148,15 +378,16 @@ export function calculateEventStatuses(
   const hasAccepted = invitees.some((inv) => inv.status === 'accepted');
   const hasInvited = invitees.some((inv) => inv.status === 'invited');
   const hasPending = invitees.some((inv) => inv.status === 'pending');
+  const hasTentative = invitees.some((inv) => inv.status === 'tentative');
   const allDeclined = invitees.length > 0 && invitees.every((inv) => inv.status === 'declined');
 
-  // Confirmation status
+  // Confirmation status (a "maybe" is still an open invitation)
   let confirmationStatus: ConfirmationStatus;
   if (hasAccepted) {
     confirmationStatus = 'scheduled';
   } else if (allDeclined) {
     confirmationStatus = 'declined';
-  } else if (hasInvited || hasPending) {
+  } else if (hasInvited || hasPending || hasTentative) {
     confirmationStatus = 'invited';
   } else {
     confirmationStatus = 'no-show';
@@ -6,12 +6,41 @@ import {
   getOrganizerDeclineSms,
   getInviteeReminderSms,
   getOrganizerReminderSms,
+  getCancellationSms,
+  getSeriesCancellationSms,
+  getEventUpdatedSms,
+  getExpiryNudgeSms,
+  getInviteExpiredSms,
+  getOrganizerQueueSummarySms,
   formatDateForSms,
   formatTimeForSms,
   parseReplyStatus,
+  parseSmsReply,
+  parseSmsKeyword,
+  parseRunningLate,
+  parseInboundSms,
+  parseWithdrawal,
+  getInviteeNote,
+  chooseNoteInvite,
+  getMaybeReplySms,
+  getRunningLateReplySms,
+  getNoteForwardedSms,
+  getOrganizerNoteSms,
+  getWithdrawnReplySms,
+  getOrganizerWithdrawSms,
+  getOptOutSms,
+  getOptInSms,
+  getHelpSms,
+  generateReplyCode,
+  isReplyCode,
+  chooseReplyInvite,
+  getWhichEventSms,
   getUnrecognizedReplySms,
   getNoPendingInvitationSms,
   getAlreadyRespondedSms,
+  parsePollVote,
+  getPollInviteSms,
+  getPollVoteReplySms,
   type EventSmsData,
 } from './sms-templates';
 
@@ -56,6 +85,12 @@ describe('SMS Templates', () => {
     it('formats 11 PM correctly', () => {
       expect(formatTimeForSms('23:45')).toBe('11:45 PM');
     });
+
+    it('adds the event zone as it stands on the day', () => {
+      expect(formatTimeForSms('18:00', '2026-01-20', 'America/New_York')).toBe('6:00 PM EST');
+      expect(formatTimeForSms('18:00', '2026-07-20', 'America/New_York')).toBe('6:00 PM EDT');
+      expect(formatTimeForSms('18:00', '2026-07-20', null)).toBe('6:00 PM');
+    });
   });
 
   describe('getInvitationSms', () => {
@@ -75,6 +110,11 @@ describe('SMS Templates', () => {
       expect(sms).toContain('Reply Y to confirm, N to decline');
     });
 
+    it('asks for the reply code when the invitation has one', () => {
+      const sms = getInvitationSms({ ...baseEventData, replyCode: '4K' });
+      expect(sms).toContain('Reply Y 4K to confirm, N 4K to decline.');
+    });
+
     it('invitation is reasonably short for SMS', () => {
       const sms = getInvitationSms(baseEventData);
       // Should be under 320 chars (2 SMS segments max)
@@ -147,6 +187,12 @@ describe('SMS Templates', () => {
       expect(sms).toContain('starts in 1 hour');
       expect(sms).not.toContain('at Central Park Courts');
     });
+
+    it('uses the given lead time', () => {
+      const sms = getInviteeReminderSms(baseEventData, '1 day');
+      expect(sms).toContain('starts in 1 day');
+      expect(sms.length).toBeLessThanOrEqual(160);
+    });
   });
 
   describe('getOrganizerReminderSms', () => {
@@ -158,6 +204,71 @@ describe('SMS Templates', () => {
       expect(sms).toContain('starts in 1 hour');
     });
   });
+
+  describe('getExpiryNudgeSms', () => {
+    it('says how long is left and asks for a reply', () => {
+      const sms = getExpiryNudgeSms(baseEventData, '10 minutes');
+      expect(sms).toContain('"Tennis Match" on Tue, Jan 20 at 3:00 PM expires in 10 minutes');
+      expect(sms).toContain('Reply Y to confirm, N to decline');
+      expect(sms.length).toBeLessThanOrEqual(160);
+    });
+  });
+
+  describe('getInviteExpiredSms', () => {
+    it('tells the invitee the invite moved on', () => {
+      const sms = getInviteExpiredSms(baseEventData);
+      expect(sms).toContain('expired and was passed to the next person');
+      expect(sms).not.toContain('Reply Y');
+    });
+  });
+
+  describe('getOrganizerQueueSummarySms', () => {
+    it('lists who expired and who is invited now', () => {
+      const sms = getOrganizerQueueSummarySms(baseEventData, { expired: ['Jane'], promoted: ['Bob'] });
+      expect(sms).toBe('"Tennis Match" on Tue, Jan 20: Jane didn\'t respond in time; now invited: Bob.');
+    });
+
+    it('shortens long name lists', () => {
+      const sms = getOrganizerQueueSummarySms(baseEventData, {
+        expired: ['Ann', 'Ben', 'Cat', 'Dan'],
+        promoted: ['Eve'],
+      });
+      expect(sms).toContain('Ann, Ben +2 more didn\'t respond in time');
+    });
+
+    it('says when nobody is left to invite', () => {
+      const sms = getOrganizerQueueSummarySms(baseEventData, { expired: ['Jane'], promoted: [] });
+      expect(sms).toContain('no one left in line');
+    });
+  });
+
+  describe('getSeriesCancellationSms', () => {
+    it('names how many dates were cancelled and the first one', () => {
+      const sms = getSeriesCancellationSms(baseEventData, 4);
+      expect(sms).toBe('CANCELLED: "Tennis Match" (4 dates from Tue, Jan 20) has been cancelled by John Doe.');
+    });
+
+    it('reads like the single-event cancellation', () => {
+      expect(getCancellationSms(baseEventData))
+        .toBe('CANCELLED: "Tennis Match" on Tue, Jan 20 at 3:00 PM has been cancelled by John Doe.');
+    });
+  });
+
+  describe('getEventUpdatedSms', () => {
+    it('asks for a new reply when the time moved', () => {
+      const sms = getEventUpdatedSms(baseEventData, true);
+      expect(sms).toContain('UPDATED: "Tennis Match"');
+      expect(sms).toContain('Tue, Jan 20 at 3:00 PM');
+      expect(sms).toContain('at Central Park Courts');
+      expect(sms).toContain('Reply Y to confirm, N to decline');
+    });
+
+    it('omits reply instructions when no response is needed', () => {
+      const sms = getEventUpdatedSms({ ...baseEventData, location: undefined }, false);
+      expect(sms).not.toContain('Reply Y');
+      expect(sms).not.toContain('Central Park Courts');
+    });
+  });
 });
 
 describe('parseReplyStatus', () => {
@@ -177,7 +288,7 @@ describe('parseReplyStatus', () => {
   });
 
   describe('accepts variations of No', () => {
-    const noVariations = ['N', 'n', 'NO', 'no', 'No', 'NOPE', 'nope', 'NAH', 'DECLINE', 'CANCEL', 'CANT', "CAN'T", 'CANNOT'];
+    const noVariations = ['N', 'n', 'NO', 'no', 'No', 'NOPE', 'nope', 'NAH', 'DECLINE', 'CANT', "CAN'T", 'CANNOT'];
     
     noVariations.forEach((input) => {
       it(`parses "${input}" as declined`, () => {
@@ -191,8 +302,24 @@ describe('parseReplyStatus', () => {
     });
   });
 
+  describe('never reads carrier keywords as answers', () => {
+    ['STOP', 'CANCEL', 'cancel', 'END', 'QUIT', 'UNSUBSCRIBE', 'START', 'HELP'].forEach((input) => {
+      it(`returns null for "${input}"`, () => {
+        expect(parseReplyStatus(input)).toBeNull();
+      });
+    });
+  });
+
+  describe('recognizes maybe variations', () => {
+    ['maybe', 'Maybe?', 'perhaps', 'TENTATIVE', 'unsure'].forEach((input) => {
+      it(`returns 'maybe' for "${input}"`, () => {
+        expect(parseReplyStatus(input)).toBe('maybe');
+      });
+    });
+  });
+
   describe('returns null for unrecognized inputs', () => {
-    const invalidInputs = ['maybe', 'perhaps', 'hello', '123', '', 'yesno', 'nyes', 'y n', 'what'];
+    const invalidInputs = ['hello', '123', '', 'yesno', 'nyes', 'y n', 'what', 'probably'];
     
     invalidInputs.forEach((input) => {
       it(`returns null for "${input}"`, () => {
@@ -202,6 +329,265 @@ describe('parseReplyStatus', () => {
   });
 });
 
+describe('parseRunningLate', () => {
+  it('reads how late, in several phrasings', () => {
+    expect(parseRunningLate('late')).toEqual({ minutes: null, code: null });
+    expect(parseRunningLate('Late 15')).toEqual({ minutes: 15, code: null });
+    expect(parseRunningLate('running 10 min late')).toEqual({ minutes: 10, code: null });
+    expect(parseRunningLate("I'm 5 mins late 4K")).toEqual({ minutes: 5, code: '4K' });
+    expect(parseRunningLate('running late by 20min')).toEqual({ minutes: 20, code: null });
+  });
+
+  it('ignores other messages that mention being late', () => {
+    expect(parseRunningLate('sorry it is too late for me')).toBeNull();
+    expect(parseRunningLate('see you later')).toBeNull();
+  });
+});
+
+describe('parseInboundSms', () => {
+  it('tells answers, late messages and notes apart', () => {
+    expect(parseInboundSms('Y 4K')).toEqual({ kind: 'reply', status: 'accepted', code: '4K' });
+    expect(parseInboundSms('maybe')).toEqual({ kind: 'reply', status: 'maybe', code: null });
+    expect(parseInboundSms('late 15')).toEqual({ kind: 'late', minutes: 15, code: null });
+    expect(parseInboundSms('  Can I bring   my dog? ')).toEqual({ kind: 'note', text: 'Can I bring my dog?', code: null });
+    expect(parseInboundSms('?!')).toEqual({ kind: 'unrecognized' });
+  });
+
+  it('picks up a reply code at either end of a note and caps its length', () => {
+    expect(parseInboundSms('4k can I bring my dog')).toMatchObject({ kind: 'note', code: '4K' });
+    expect(parseInboundSms('parking is where? 7P')).toMatchObject({ kind: 'note', code: '7P' });
+    const long = parseInboundSms('a'.repeat(800));
+    expect(long.kind === 'note' && long.text.length).toBe(500);
+  });
+
+  it('describes what to store on the invitation', () => {
+    expect(getInviteeNote(parseInboundSms('late 15'))).toBe('Running 15 min late');
+    expect(getInviteeNote(parseInboundSms('running late'))).toBe('Running late');
+    expect(getInviteeNote(parseInboundSms('Can I bring my dog?'))).toBe('Can I bring my dog?');
+    expect(getInviteeNote(parseInboundSms('Y'))).toBeNull();
+    // A maybe is an RSVP (tentative), not a note
+    expect(getInviteeNote(parseInboundSms('maybe'))).toBeNull();
+  });
+});
+
+describe('chooseNoteInvite', () => {
+  const today = '2026-01-20';
+  const invite = (id: string, status: string, eventDate: string, replyCode?: string) => ({ id, status, eventDate, replyCode });
+
+  it('uses the reply code when it matches', () => {
+    const invites = [invite('a', 'accepted', '2026-01-21'), invite('b', 'invited', '2026-02-01', '4K')];
+    expect(chooseNoteInvite(invites, '4K', today)?.id).toBe('b');
+    expect(chooseNoteInvite(invites, '9Z', today)?.id).toBe('a');
+  });
+
+  it('prefers the soonest upcoming invited, maybe or confirmed event, then the queue', () => {
+    expect(
+      chooseNoteInvite([invite('a', 'invited', '2026-02-01'), invite('b', 'accepted', '2026-01-20'), invite('c', 'accepted', '2026-01-10')], null, today)?.id
+    ).toBe('b');
+    expect(chooseNoteInvite([invite('a', 'invited', '2026-02-01'), invite('b', 'tentative', '2026-01-25')], null, today)?.id).toBe('b');
+    expect(chooseNoteInvite([invite('a', 'pending', '2026-02-01')], null, today)?.id).toBe('a');
+    expect(chooseNoteInvite([invite('a', 'accepted', '2026-01-10')], null, today)).toBeNull();
+  });
+});
+
+describe('note and late replies', () => {
+  const data: EventSmsData = { eventTitle: 'Tennis', eventDate: '2026-01-21', eventTime: '18:00', organizerName: 'Sam', inviteeName: 'Ana' };
+
+  it('confirms what was passed on', () => {
+    expect(getMaybeReplySms({ ...data, replyCode: '4K' })).toBe(`Thanks, you're down as a maybe for "Tennis". Reply Y 4K to confirm, N 4K to decline.`);
+    expect(getRunningLateReplySms(data, 15)).toBe(`Thanks, we told Sam you're running 15 min late for "Tennis".`);
+    expect(getRunningLateReplySms(data, null)).toBe(`Thanks, we told Sam you're running late for "Tennis".`);
+    expect(getNoteForwardedSms(data)).toContain('passed your message about "Tennis" on to Sam');
+  });
+
+  it('forwards the note to the organizer, shortened', () => {
+    expect(getOrganizerNoteSms(data, 'Can I bring my dog?')).toBe('Ana about "Tennis": Can I bring my dog?');
+    expect(getOrganizerNoteSms(data, 'x'.repeat(400)).length).toBeLessThan(260);
+  });
+});
+
+describe('withdrawals', () => {
+  const data: EventSmsData = { eventTitle: 'Tennis', eventDate: '2026-01-21', eventTime: '18:00', organizerName: 'Sam', inviteeName: 'Ana' };
+
+  it('recognizes "can\'t make it anymore" texts, with or without a code', () => {
+    expect(parseWithdrawal('WITHDRAW')).toEqual({ code: null });
+    expect(parseWithdrawal("Sorry, can't make it anymore!")).toEqual({ code: null });
+    expect(parseWithdrawal('I cannot make it after all 4k')).toEqual({ code: '4K' });
+    expect(parseWithdrawal('7P cant make it')).toEqual({ code: '7P' });
+    expect(parseWithdrawal("can't make it tonight, sorry")).toBeUndefined();
+    expect(parseInboundSms("can't make it")).toEqual({ kind: 'withdraw', code: null });
+    // A bare "can't" stays a decline
+    expect(parseInboundSms("can't")).toMatchObject({ kind: 'reply', status: 'declined' });
+  });
+
+  it('confirms the withdrawal and tells the organizer about the spot', () => {
+    expect(getWithdrawnReplySms(data)).toBe(`Got it, you're no longer going to "Tennis". We've let Sam know.`);
+    expect(getOrganizerWithdrawSms(data, 'Ben')).toBe(`Ana can't make it to "Tennis" anymore. Ben was invited for the spot.`);
+    expect(getOrganizerWithdrawSms(data)).toBe(`Ana can't make it to "Tennis" anymore. Their spot is open again.`);
+  });
+
+  it('asks which confirmed event to withdraw from', () => {
+    const invites = [
+      { replyCode: '4K', eventTitle: 'Tennis', eventDate: 'Jan 21' },
+      { replyCode: '7P', eventTitle: 'Padel', eventDate: 'Jan 22' },
+    ];
+    expect(getWhichEventSms(invites, undefined, true)).toBe(
+      `You're confirmed for 2 events. Reply WITHDRAW with the code (e.g. WITHDRAW 4K): 4K "Tennis" Jan 21; 7P "Padel" Jan 22.`
+    );
+  });
+});
+
+describe('poll votes', () => {
+  it('reads the chosen option numbers', () => {
+    expect(parsePollVote('VOTE 1 3')).toEqual({ choices: [1, 3] });
+    expect(parsePollVote('vote 3,1, 3')).toEqual({ choices: [1, 3] });
+    expect(parsePollVote('Vote none')).toEqual({ choices: [] });
+    expect(parsePollVote('VOTE 0')).toEqual({ choices: [] });
+  });
+
+  it('ignores anything else', () => {
+    expect(parsePollVote('VOTE')).toBeNull();
+    expect(parsePollVote('vote for me')).toBeNull();
+    expect(parsePollVote('1 3')).toBeNull();
+  });
+
+  it('is read before an RSVP or a note', () => {
+    expect(parseInboundSms('vote 2')).toEqual({ kind: 'vote', choices: [2] });
+    expect(getInviteeNote(parseInboundSms('vote 2'))).toBeNull();
+  });
+
+  it('lists the numbered times with the vote link and confirms the vote', () => {
+    expect(getPollInviteSms({
+      organizerName: 'Sam',
+      pollTitle: 'Tennis',
+      options: ['Tue, Jan 20 6:00 PM EST', 'Wed, Jan 21 7:00 PM EST'],
+      voteUrl: 'https://x.test/poll/abc',
+    })).toBe(
+      'Sam is finding a time for "Tennis": 1) Tue, Jan 20 6:00 PM EST 2) Wed, Jan 21 7:00 PM EST. Reply VOTE with the numbers that work (e.g. VOTE 1 2) or VOTE NONE, or vote at https://x.test/poll/abc'
+    );
+    expect(getPollVoteReplySms('Tennis', ['Tue, Jan 20 6:00 PM EST'])).toBe(
+      `Thanks! Noted for "Tennis": Tue, Jan 20 6:00 PM EST. You'll get an invite once a time is picked.`
+    );
+    expect(getPollVoteReplySms('Tennis', [])).toBe('Thanks, noted that none of the times for "Tennis" work for you.');
+  });
+});
+
+describe('parseSmsReply', () => {
+  it('reads a reply code next to the answer', () => {
+    expect(parseSmsReply('Y 4K')).toEqual({ status: 'accepted', code: '4K' });
+    expect(parseSmsReply(' n 4k ')).toEqual({ status: 'declined', code: '4K' });
+    expect(parseSmsReply('4K yes')).toEqual({ status: 'accepted', code: '4K' });
+    expect(parseSmsReply('Y4K')).toEqual({ status: 'accepted', code: '4K' });
+    expect(parseSmsReply('no, 7PQ')).toEqual({ status: 'declined', code: '7PQ' });
+  });
+
+  it('returns no code for a plain answer', () => {
+    expect(parseSmsReply('yes')).toEqual({ status: 'accepted', code: null });
+  });
+
+  it('rejects codes that cannot have been sent', () => {
+    expect(parseSmsReply('Y 4O')).toBeNull(); // No O in codes
+    expect(parseSmsReply('Y AB')).toBeNull(); // Codes start with a digit
+    expect(parseSmsReply('Y 4K 7P')).toBeNull();
+  });
+
+  it('ignores the code in parseReplyStatus', () => {
+    expect(parseReplyStatus('N 4K')).toBe('declined');
+  });
+});
+
+describe('parseSmsKeyword', () => {
+  it('recognizes opt-out, opt-in and help keywords', () => {
+    expect(parseSmsKeyword('STOP')).toBe('stop');
+    expect(parseSmsKeyword(' cancel ')).toBe('stop');
+    expect(parseSmsKeyword('Unsubscribe.')).toBe('stop');
+    expect(parseSmsKeyword('start')).toBe('start');
+    expect(parseSmsKeyword('UNSTOP')).toBe('start');
+    expect(parseSmsKeyword('help')).toBe('help');
+    expect(parseSmsKeyword('INFO')).toBe('help');
+  });
+
+  it('leaves RSVP answers and other text alone', () => {
+    expect(parseSmsKeyword('Y')).toBeNull();
+    expect(parseSmsKeyword('YES')).toBeNull();
+    expect(parseSmsKeyword('N 4K')).toBeNull();
+    expect(parseSmsKeyword("don't stop")).toBeNull();
+  });
+
+  it('has replies that say how to undo them', () => {
+    expect(getOptOutSms()).toContain('Reply START');
+    expect(getOptInSms()).toContain('Reply STOP');
+    expect(getHelpSms('https://bookerbooker.com')).toContain('STOP to unsubscribe');
+    expect(getHelpSms('https://bookerbooker.com').length).toBeLessThanOrEqual(160);
+  });
+});
+
+describe('generateReplyCode', () => {
+  it('makes a short code that is not taken', () => {
+    const code = generateReplyCode([]);
+    expect(isReplyCode(code)).toBe(true);
+    expect(code).toHaveLength(2);
+
+    expect(generateReplyCode([], () => 0)).toBe('2A');
+    const taken = ['2A', '3B', '4C'];
+    expect(taken).not.toContain(generateReplyCode(taken));
+  });
+
+  it('moves to three characters when short codes keep clashing', () => {
+    expect(generateReplyCode(['2A'], () => 0)).toBe('2AA');
+  });
+});
+
+describe('chooseReplyInvite', () => {
+  const invite = (id: string, status: string, replyCode?: string) => ({ id, status, replyCode });
+
+  it('picks the invitation with the code', () => {
+    const invites = [invite('a', 'invited', '4K'), invite('b', 'invited', '7P')];
+    expect(chooseReplyInvite(invites, '7P')).toEqual({ invite: invites[1] });
+  });
+
+  it('picks the only open invitation when there is no code', () => {
+    const invites = [invite('a', 'invited'), invite('b', 'pending')];
+    expect(chooseReplyInvite(invites, null)).toEqual({ invite: invites[0] });
+    // Someone who answered maybe can still reply Y or N without a code
+    const maybe = [invite('a', 'tentative'), invite('b', 'pending')];
+    expect(chooseReplyInvite(maybe, null)).toEqual({ invite: maybe[0] });
+  });
+
+  it('asks which event when several are open or the code is unknown', () => {
+    const invites = [invite('a', 'invited', '4K'), invite('b', 'invited', '7P')];
+    expect(chooseReplyInvite(invites, null)).toEqual({ ask: invites });
+    expect(chooseReplyInvite(invites, '9Z')).toEqual({ ask: invites, unknownCode: '9Z' });
+  });
+
+  it('finds nothing without open invitations', () => {
+    expect(chooseReplyInvite([], '4K')).toEqual({ none: true });
+  });
+});
+
+describe('getWhichEventSms', () => {
+  const invites = [
+    { replyCode: '4K', eventTitle: 'Tennis Match', eventDate: 'Tue, Jan 20' },
+    { replyCode: '7P', eventTitle: 'Board Game Night With The Neighbours', eventDate: 'Fri, Jan 23' },
+  ];
+
+  it('lists each open invitation with its code', () => {
+    expect(getWhichEventSms(invites)).toBe(
+      'You have 2 open invites. Reply Y or N with the code (e.g. Y 4K): 4K "Tennis Match" Tue, Jan 20; 7P "Board Game Night With T..." Fri, Jan 23.'
+    );
+  });
+
+  it('says when the code did not match', () => {
+    expect(getWhichEventSms(invites, '9Z')).toMatch(/^No open invite has code 9Z\./);
+  });
+
+  it('lists at most three', () => {
+    const many = ['2A', '3B', '4C', '5D', '6E'].map((replyCode) => ({ replyCode, eventTitle: 'Run', eventDate: 'Sat, Jan 24' }));
+    expect(getWhichEventSms(many)).toContain('+2 more');
+    expect(getWhichEventSms(many)).not.toContain('5D "Run"');
+  });
+});
+
 describe('Error response messages', () => {
   describe('getUnrecognizedReplySms', () => {
     it('returns helpful error message', () => {
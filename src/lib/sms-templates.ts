@@ -6,6 +6,8 @@
  * NO EMOJIS - emojis force Unicode encoding (70 chars/segment vs 160)
  */
 
+import { formatEventDate, formatEventTime, zoneAbbreviation, zonedDateTimeToUtcMs } from './zoned-time.ts';
+
 export interface EventSmsData {
   eventTitle: string;
   eventDate: string; // Formatted date string (e.g., "Sat, Jan 15")
@@ -13,6 +15,47 @@ export interface EventSmsData {
   location?: string;
   organizerName: string;
   inviteeName?: string;
+  replyCode?: string; // Per-invitation code for replies ("Reply Y 4K"), see generateReplyCode
+}
+
+/**
+ * Reply codes tell apart the invitations of someone invited to several events:
+ * a digit and a letter ("4K"), or a digit and two letters once a person has
+ * used up the short ones. Leading with a digit keeps codes from reading as a
+ * reply word ("NYES" is not N + YES). No 0/O, 1/I/L to mix up.
+ */
+export const REPLY_CODE_DIGITS = '23456789';
+export const REPLY_CODE_LETTERS = 'ABCDEFGHJKMNPQRSTUVWXYZ';
+const REPLY_CODE_PATTERN = /^[2-9][A-HJKMNP-Z]{1,2}$/;
+
+export function isReplyCode(value: string): boolean {
+  return REPLY_CODE_PATTERN.test(value);
+}
+
+/**
+ * Pick a code not in `taken` (the codes of the person's other open invitations).
+ */
+export function generateReplyCode(taken: Iterable<string>, random: () => number = Math.random): string {
+  const used = new Set(taken);
+  const pick = (chars: string) => chars[Math.floor(random() * chars.length)];
+  for (const letters of [1, 2]) {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      let code = pick(REPLY_CODE_DIGITS);
+      for (let i = 0; i < letters; i++) code += pick(REPLY_CODE_LETTERS);
+      if (!used.has(code)) return code;
+    }
+  }
+  // Hundreds of open invitations for one number; a clash only means a "which event?" reply
+  return pick(REPLY_CODE_DIGITS) + pick(REPLY_CODE_LETTERS) + pick(REPLY_CODE_LETTERS);
+}
+
+/**
+ * Helper: Y/N reply instructions, with the invitation's code when it has one
+ */
+export function getReplyInstructions(replyCode?: string): string {
+  return replyCode
+    ? `Reply Y ${replyCode} to confirm, N ${replyCode} to decline.`
+    : 'Reply Y to confirm, N to decline.';
 }
 
 /**
@@ -21,7 +64,7 @@ export interface EventSmsData {
  */
 export function getInvitationSms(data: EventSmsData): string {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `${data.organizerName} invited you to "${data.eventTitle}" on ${data.eventDate} at ${data.eventTime}${locationPart}. Reply Y to confirm, N to decline.`;
+  return `${data.organizerName} invited you to "${data.eventTitle}" on ${data.eventDate} at ${data.eventTime}${locationPart}. ${getReplyInstructions(data.replyCode)}`;
 }
 
 /**
@@ -47,19 +90,20 @@ export function getOrganizerDeclineSms(data: EventSmsData): string {
 }
 
 /**
- * 3a. REMINDER SMS - Sent to invitee 1 hour before event
+ * 3a. REMINDER SMS - Sent to accepted invitees before the event
+ * @param leadTime - How far off the event is, e.g. "1 hour" or "1 day"
  */
-export function getInviteeReminderSms(data: EventSmsData): string {
+export function getInviteeReminderSms(data: EventSmsData, leadTime: string = '1 hour'): string {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `Reminder: "${data.eventTitle}" starts in 1 hour (${data.eventTime})${locationPart}. See you soon!`;
+  return `Reminder: "${data.eventTitle}" starts in ${leadTime} (${data.eventTime})${locationPart}. See you soon!`;
 }
 
 /**
- * 3b. REMINDER SMS - Sent to organizer 1 hour before event
+ * 3b. REMINDER SMS - Sent to organizer before the event
  */
-export function getOrganizerReminderSms(data: EventSmsData): string {
+export function getOrganizerReminderSms(data: EventSmsData, leadTime: string = '1 hour'): string {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `Reminder: Your event "${data.eventTitle}" starts in 1 hour (${data.eventTime})${locationPart}.`;
+  return `Reminder: Your event "${data.eventTitle}" starts in ${leadTime} (${data.eventTime})${locationPart}.`;
 }
 
 /**
@@ -70,47 +114,414 @@ export function getCancellationSms(data: EventSmsData): string {
 }
 
 /**
- * Helper: Format date for SMS (compact format)
+ * 4b. SERIES CANCELLATION SMS - Sent once per invitee when several occurrences of a series are cancelled
+ * @param dateCount - How many of the invitee's dates were cancelled; eventDate is the first
+ */
+export function getSeriesCancellationSms(data: EventSmsData, dateCount: number): string {
+  return `CANCELLED: "${data.eventTitle}" (${dateCount} dates from ${data.eventDate}) has been cancelled by ${data.organizerName}.`;
+}
+
+/**
+ * 5. UPDATE SMS - Sent to invitees holding an invite when the organizer edits the event
+ * When the time moved, acceptances are reset and the invitee must reply again
+ */
+export function getEventUpdatedSms(data: EventSmsData, needsResponse: boolean): string {
+  const locationPart = data.location ? ` at ${data.location}` : '';
+  const replyPart = needsResponse ? ` ${getReplyInstructions(data.replyCode)}` : '';
+  return `UPDATED: "${data.eventTitle}" is now on ${data.eventDate} at ${data.eventTime}${locationPart}.${replyPart}`;
+}
+
+/**
+ * 6a. EXPIRY NUDGE SMS - Sent to an invited person (priority mode) shortly before their invite passes on
+ * @param leadTime - Time left, e.g. "10 minutes"
+ */
+export function getExpiryNudgeSms(data: EventSmsData, leadTime: string): string {
+  return `Your invite to "${data.eventTitle}" on ${data.eventDate} at ${data.eventTime} expires in ${leadTime}. ${getReplyInstructions(data.replyCode)}`;
+}
+
+/**
+ * 6b. EXPIRED SMS - Sent to an invited person whose invite expired and went to the next in line
+ */
+export function getInviteExpiredSms(data: EventSmsData): string {
+  return `Your invite to "${data.eventTitle}" on ${data.eventDate} expired and was passed to the next person. No reply needed.`;
+}
+
+/**
+ * 6c. QUEUE SUMMARY SMS - Sent to organizer when the auto-promote sweep advanced the queue
+ */
+export function getOrganizerQueueSummarySms(
+  data: EventSmsData,
+  summary: { expired: string[]; promoted: string[] }
+): string {
+  const parts: string[] = [];
+  if (summary.expired.length > 0) {
+    parts.push(`${listNamesForSms(summary.expired)} didn't respond in time`);
+  }
+  parts.push(summary.promoted.length > 0
+    ? `now invited: ${listNamesForSms(summary.promoted)}`
+    : 'no one left in line');
+  return `"${data.eventTitle}" on ${data.eventDate}: ${parts.join('; ')}.`;
+}
+
+/**
+ * Helper: Short list of names for SMS ("Alice, Bob +2 more")
+ */
+export function listNamesForSms(names: string[], max: number = 2): string {
+  const shown = names.slice(0, max).join(', ');
+  return names.length > max ? `${shown} +${names.length - max} more` : shown;
+}
+
+/**
+ * Helper: Format date for SMS (compact format). The date is the event's own,
+ * so it reads the same wherever the server runs.
  */
 export function formatDateForSms(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
-  return date.toLocaleDateString('en-US', {
-    weekday: 'short',
-    month: 'short',
-    day: 'numeric',
-  });
+  return formatEventDate(dateStr);
 }
 
 /**
- * Helper: Format time for SMS (12-hour format)
+ * Helper: Format time for SMS (12-hour format). Given the event's date and
+ * zone, appends the zone's abbreviation on that day ("6:00 PM EDT"), since the
+ * recipient may be somewhere else.
  */
-export function formatTimeForSms(timeStr: string): string {
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  const period = hours >= 12 ? 'PM' : 'AM';
-  const hour12 = hours % 12 || 12;
-  return `${hour12}:${minutes.toString().padStart(2, '0')} ${period}`;
+export function formatTimeForSms(timeStr: string, dateStr?: string, timeZone?: string | null): string {
+  const time = formatEventTime(timeStr);
+  if (!dateStr || !timeZone) return time;
+  return `${time} ${zoneAbbreviation(zonedDateTimeToUtcMs(dateStr, timeStr, timeZone), timeZone)}`;
 }
 
 /**
- * Parse Y/N reply from incoming SMS
- * Returns 'accepted' | 'declined' | null (if unrecognized)
+ * Carrier keywords (CTIA): opting out, back in, and asking for help. These are
+ * checked before any RSVP parsing and are never RSVP answers, so CANCEL opts
+ * out rather than declining. YES is left to RSVPs, so opting back in is START.
  */
-export function parseReplyStatus(message: string): 'accepted' | 'declined' | null {
-  const normalized = message.trim().toUpperCase();
-  
+export const SMS_OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE'];
+export const SMS_OPT_IN_KEYWORDS = ['START', 'UNSTOP'];
+export const SMS_HELP_KEYWORDS = ['HELP', 'INFO'];
+
+export type SmsKeyword = 'stop' | 'start' | 'help';
+
+/**
+ * Recognize a keyword message ("STOP", "stop.", " Help ").
+ * Returns null for anything else.
+ */
+export function parseSmsKeyword(message: string): SmsKeyword | null {
+  const normalized = message.trim().toUpperCase().replace(/[\s.!]+$/, '');
+  if (SMS_OPT_OUT_KEYWORDS.includes(normalized)) return 'stop';
+  if (SMS_OPT_IN_KEYWORDS.includes(normalized)) return 'start';
+  if (SMS_HELP_KEYWORDS.includes(normalized)) return 'help';
+  return null;
+}
+
+export type SmsReplyStatus = 'accepted' | 'declined' | 'maybe';
+
+const replyWordStatus = (word: string): SmsReplyStatus | null => {
   // Accept variations of Yes
-  if (['Y', 'YES', 'YEP', 'YA', 'YEAH', 'YUP', 'CONFIRM', 'OK', 'OKAY', 'SURE'].includes(normalized)) {
+  if (['Y', 'YES', 'YEP', 'YA', 'YEAH', 'YUP', 'CONFIRM', 'OK', 'OKAY', 'SURE'].includes(word)) {
     return 'accepted';
   }
-  
-  // Accept variations of No
-  if (['N', 'NO', 'NOPE', 'NAH', 'DECLINE', 'CANCEL', 'CANT', "CAN'T", 'CANNOT'].includes(normalized)) {
+
+  // Accept variations of No (no carrier keywords: CANCEL, STOP, END and QUIT opt out)
+  if (['N', 'NO', 'NOPE', 'NAH', 'DECLINE', 'CANT', "CAN'T", 'CANNOT'].includes(word)) {
     return 'declined';
   }
-  
+
+  // Not sure yet: passed on to the organizer, the invitation stays open
+  if (['MAYBE', 'MBY', 'PERHAPS', 'POSSIBLY', 'UNSURE', 'TENTATIVE'].includes(word)) {
+    return 'maybe';
+  }
+
+  return null;
+};
+
+const SMS_WORD_SEPARATORS = /[\s,.!?:;#()-]+/;
+
+export interface SmsReply {
+  status: SmsReplyStatus;
+  code: string | null; // Reply code, when the sender included one
+}
+
+/**
+ * Parse a Y/N/maybe reply from incoming SMS, with or without a reply code:
+ * "Y", "y 4k", "4K yes", "N4K", "maybe?". Returns null if unrecognized.
+ */
+export function parseSmsReply(message: string): SmsReply | null {
+  const normalized = message.trim().toUpperCase();
+  const status = replyWordStatus(normalized);
+  if (status) return { status, code: null };
+
+  const words = normalized.split(SMS_WORD_SEPARATORS).filter(Boolean);
+  if (words.length === 1 && replyWordStatus(words[0])) {
+    return { status: replyWordStatus(words[0])!, code: null };
+  }
+  if (words.length === 2) {
+    for (const [word, code] of [words, [words[1], words[0]]]) {
+      const wordStatus = replyWordStatus(word);
+      if (wordStatus && isReplyCode(code)) return { status: wordStatus, code };
+    }
+    return null;
+  }
+
+  // Code typed straight after the answer: "Y4K", "NO4K"
+  const glued = words.length === 1 ? /^(YES|NO|MAYBE|Y|N)([2-9][A-Z]{1,2})$/.exec(words[0]) : null;
+  if (glued && isReplyCode(glued[2])) {
+    return { status: replyWordStatus(glued[1])!, code: glued[2] };
+  }
   return null;
 }
 
+/**
+ * Parse Y/N/maybe reply from incoming SMS (ignoring any reply code)
+ * Returns 'accepted' | 'declined' | 'maybe' | null (if unrecognized)
+ */
+export function parseReplyStatus(message: string): SmsReplyStatus | null {
+  return parseSmsReply(message)?.status ?? null;
+}
+
+export interface RunningLate {
+  minutes: number | null; // When they said how late
+  code: string | null;
+}
+
+/**
+ * Parse a "running late" text: "late", "late 15", "running 10 min late",
+ * "I'm 5 mins late 4K". Returns null for anything else.
+ */
+export function parseRunningLate(message: string): RunningLate | null {
+  const words = message.trim().toUpperCase().split(SMS_WORD_SEPARATORS).filter(Boolean);
+  let code: string | null = null;
+  if (words.length > 1 && isReplyCode(words[words.length - 1])) code = words.pop()!;
+  else if (words.length > 1 && isReplyCode(words[0])) code = words.shift()!;
+
+  const minutes = String.raw`(\d{1,3})\s?(?:M|MIN|MINS|MINUTE|MINUTES)?`;
+  const match = new RegExp(
+    String.raw`^(?:(?:I'?M|I AM)\s)?(?:RUNNING\s)?(?:${minutes}\s)?LATE(?:\s(?:BY\s)?${minutes})?$`
+  ).exec(words.join(' '));
+  if (!match) return null;
+
+  const late = Number(match[1] ?? match[2]);
+  return { minutes: late > 0 ? late : null, code };
+}
+
+/**
+ * Parse a "can't make it anymore" text from someone who accepted: "withdraw",
+ * "can't make it", "cannot make it anymore 4K". Returns the reply code (or
+ * null without one), or undefined for anything else.
+ */
+export function parseWithdrawal(message: string): { code: string | null } | undefined {
+  const words = message.trim().toUpperCase().split(SMS_WORD_SEPARATORS).filter(Boolean);
+  let code: string | null = null;
+  if (words.length > 1 && isReplyCode(words[words.length - 1])) code = words.pop()!;
+  else if (words.length > 1 && isReplyCode(words[0])) code = words.shift()!;
+
+  const match = /^(?:SORRY\s)?(?:WITHDRAW|(?:I\s)?(?:CANT|CAN'T|CANNOT|CAN NOT)\sMAKE\sIT(?:\s(?:ANYMORE|AFTER\sALL))?)$/.test(words.join(' '));
+  return match ? { code } : undefined;
+}
+
+// Free-text notes are cut to this length before they are stored and passed on
+export const SMS_NOTE_MAX_LENGTH = 500;
+
+/**
+ * Parse a find-a-time vote: "VOTE 1 3", "vote 1,3", "VOTE NONE". Returns the
+ * chosen option numbers (empty for NONE), or null for anything else.
+ */
+export function parsePollVote(message: string): { choices: number[] } | null {
+  const words = message.trim().toUpperCase().split(SMS_WORD_SEPARATORS).filter(Boolean);
+  if (words[0] !== 'VOTE' || words.length < 2) return null;
+  const rest = words.slice(1);
+  if (rest.length === 1 && (rest[0] === 'NONE' || rest[0] === '0')) return { choices: [] };
+  if (!rest.every((word) => /^\d{1,2}$/.test(word))) return null;
+  return { choices: [...new Set(rest.map(Number))].sort((a, b) => a - b) };
+}
+
+export type InboundSmsIntent =
+  | { kind: 'vote'; choices: number[] } // Find-a-time poll answer
+  | ({ kind: 'reply' } & SmsReply)
+  | ({ kind: 'late' } & RunningLate)
+  | { kind: 'withdraw'; code: string | null } // Accepted, can't make it anymore
+  | { kind: 'note'; text: string; code: string | null } // Anything else: passed on to the organizer
+  | { kind: 'unrecognized' }; // Nothing to pass on (punctuation, emoji only)
+
+/**
+ * What an incoming SMS (that is not a carrier keyword) is: a poll vote, an
+ * RSVP answer, a "running late" message, a withdrawal, or a note for the
+ * organizer. A note starting or ending with a reply code ("4K can I bring my
+ * kid?") is about that invitation.
+ */
+export function parseInboundSms(message: string): InboundSmsIntent {
+  const vote = parsePollVote(message);
+  if (vote) return { kind: 'vote', ...vote };
+  const reply = parseSmsReply(message);
+  if (reply) return { kind: 'reply', ...reply };
+  const late = parseRunningLate(message);
+  if (late) return { kind: 'late', ...late };
+  const withdrawal = parseWithdrawal(message);
+  if (withdrawal) return { kind: 'withdraw', ...withdrawal };
+
+  const text = message.trim().replace(/\s+/g, ' ');
+  if (!/[\p{L}\p{N}]/u.test(text)) return { kind: 'unrecognized' };
+  const words = text.split(' ');
+  const code = [words[0], words[words.length - 1]].map((word) => word.toUpperCase()).find(isReplyCode) ?? null;
+  return { kind: 'note', text: text.slice(0, SMS_NOTE_MAX_LENGTH), code };
+}
+
+/**
+ * What is stored on the invitation (and shown to the organizer) for a
+ * running-late or free-text message. Replies, maybe included, are RSVPs.
+ */
+export function getInviteeNote(intent: InboundSmsIntent): string | null {
+  switch (intent.kind) {
+    case 'vote':
+    case 'reply':
+    case 'withdraw':
+      return null;
+    case 'late':
+      return intent.minutes ? `Running ${intent.minutes} min late` : 'Running late';
+    case 'note':
+      return intent.text;
+    case 'unrecognized':
+      return null;
+  }
+}
+
+/**
+ * Which invitation a note or "running late" text is about: the one holding
+ * its code; otherwise the soonest upcoming event they were invited to,
+ * answered maybe to or confirmed for; otherwise the first still waiting in line.
+ */
+export function chooseNoteInvite<T extends { status: string; replyCode?: string | null; eventDate: string }>(
+  invites: T[],
+  code: string | null,
+  today: string
+): T | null {
+  const byCode = code ? invites.find((inv) => inv.replyCode === code) : undefined;
+  if (byCode) return byCode;
+  const upcoming = invites
+    .filter((inv) => ['invited', 'tentative', 'accepted'].includes(inv.status) && inv.eventDate >= today)
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate));
+  return upcoming[0] ?? invites.find((inv) => inv.status === 'pending') ?? null;
+}
+
+export type ReplyTarget<T> =
+  | { invite: T }
+  | { ask: T[]; unknownCode?: string } // Ask which event, listing these invitations
+  | { none: true };
+
+/**
+ * Which open invitation an SMS reply answers. With a code, the invitation
+ * holding it. Without one, the only open invitation, counting invitations
+ * already sent (or answered maybe) before queued ones; with several, ask which event.
+ */
+export function chooseReplyInvite<T extends { status: string; replyCode?: string | null }>(
+  invites: T[],
+  code: string | null
+): ReplyTarget<T> {
+  if (invites.length === 0) return { none: true };
+  const sent = invites.filter((inv) => inv.status === 'invited' || inv.status === 'tentative');
+  const candidates = sent.length > 0 ? sent : invites;
+
+  if (code) {
+    const matches = invites.filter((inv) => inv.replyCode === code);
+    if (matches.length === 1) return { invite: matches[0] };
+    return matches.length === 0 ? { ask: candidates, unknownCode: code } : { ask: matches };
+  }
+  return candidates.length === 1 ? { invite: candidates[0] } : { ask: candidates };
+}
+
+/**
+ * "Which event?" reply listing open invitations with their codes
+ * (at most 3, titles shortened, so it stays around two segments).
+ * With `withdrawing`, the list is of events they're confirmed for.
+ */
+export function getWhichEventSms(
+  invites: { replyCode: string; eventTitle: string; eventDate: string }[],
+  unknownCode?: string,
+  withdrawing: boolean = false
+): string {
+  const shorten = (title: string) => (title.length > 24 ? `${title.slice(0, 23).trimEnd()}...` : title);
+  const listed = invites
+    .slice(0, 3)
+    .map((inv) => `${inv.replyCode} "${shorten(inv.eventTitle)}" ${inv.eventDate}`)
+    .join('; ');
+  const more = invites.length > 3 ? ` +${invites.length - 3} more` : '';
+  const example = invites[0]?.replyCode ?? '4K';
+  if (withdrawing) {
+    const intro = unknownCode
+      ? `None of your confirmed events has code ${unknownCode}.`
+      : `You're confirmed for ${invites.length} events.`;
+    return `${intro} Reply WITHDRAW with the code (e.g. WITHDRAW ${example}): ${listed}${more}.`;
+  }
+  const intro = unknownCode
+    ? `No open invite has code ${unknownCode}.`
+    : `You have ${invites.length} open invites.`;
+  return `${intro} Reply Y or N with the code (e.g. Y ${example}): ${listed}${more}.`;
+}
+
+/**
+ * Reply to "maybe": recorded as tentative, the invitation stays open
+ */
+export function getMaybeReplySms(data: EventSmsData): string {
+  return `Thanks, you're down as a maybe for "${data.eventTitle}". ${getReplyInstructions(data.replyCode)}`;
+}
+
+/**
+ * Reply to a "running late" text
+ */
+export function getRunningLateReplySms(data: EventSmsData, minutes: number | null): string {
+  return `Thanks, we told ${data.organizerName} you're running ${minutes ? `${minutes} min ` : ''}late for "${data.eventTitle}".`;
+}
+
+/**
+ * Reply to a free-text message passed on to the organizer
+ */
+export function getNoteForwardedSms(data: EventSmsData): string {
+  return `Thanks, we passed your message about "${data.eventTitle}" on to ${data.organizerName}.`;
+}
+
+/**
+ * Find-a-time poll: the proposed times numbered for a VOTE reply, plus the
+ * person's own link to vote on the web
+ */
+export function getPollInviteSms(data: { organizerName: string; pollTitle: string; options: string[]; voteUrl: string }): string {
+  const listed = data.options.map((option, index) => `${index + 1}) ${option}`).join(' ');
+  return `${data.organizerName} is finding a time for "${data.pollTitle}": ${listed}. Reply VOTE with the numbers that work (e.g. VOTE 1 2) or VOTE NONE, or vote at ${data.voteUrl}`;
+}
+
+/**
+ * Reply to a VOTE text
+ * @param chosen - The times they said yes to, formatted
+ */
+export function getPollVoteReplySms(pollTitle: string, chosen: string[]): string {
+  return chosen.length > 0
+    ? `Thanks! Noted for "${pollTitle}": ${chosen.join('; ')}. You'll get an invite once a time is picked.`
+    : `Thanks, noted that none of the times for "${pollTitle}" work for you.`;
+}
+
+/**
+ * Invitee's maybe/late/free-text message, passed on to the organizer
+ * (long notes are shortened; the full text is on the event page)
+ */
+export function getOrganizerNoteSms(data: EventSmsData, note: string): string {
+  const shortened = note.length > 200 ? `${note.slice(0, 199).trimEnd()}...` : note;
+  return `${data.inviteeName || 'Someone'} about "${data.eventTitle}": ${shortened}`;
+}
+
+/**
+ * Reply to a withdrawal ("can't make it anymore")
+ */
+export function getWithdrawnReplySms(data: EventSmsData): string {
+  return `Got it, you're no longer going to "${data.eventTitle}". We've let ${data.organizerName} know.`;
+}
+
+/**
+ * Sent to organizer when someone who accepted withdraws
+ * @param promotedName - Who was invited for the freed spot, if anyone
+ */
+export function getOrganizerWithdrawSms(data: EventSmsData, promotedName?: string): string {
+  const spotPart = promotedName ? `${promotedName} was invited for the spot.` : 'Their spot is open again.';
+  return `${data.inviteeName || 'Someone'} can't make it to "${data.eventTitle}" anymore. ${spotPart}`;
+}
+
 /**
  * Unrecognized reply response
  */
@@ -132,3 +543,25 @@ export function getAlreadyRespondedSms(status: 'accepted' | 'declined'): string
   const statusText = status === 'accepted' ? 'confirmed' : 'declined';
   return `You've already ${statusText} this invitation.`;
 }
+
+/**
+ * Reply to STOP (and the other opt-out keywords)
+ */
+export function getOptOutSms(): string {
+  return `You're unsubscribed and will get no more texts from us. Reply START to resubscribe.`;
+}
+
+/**
+ * Reply to START/UNSTOP
+ */
+export function getOptInSms(): string {
+  return `You're resubscribed and will get event texts again. Reply STOP to unsubscribe, HELP for help.`;
+}
+
+/**
+ * Reply to HELP/INFO
+ * @param supportUrl - Where to get help, e.g. the app's URL
+ */
+export function getHelpSms(supportUrl: string): string {
+  return `Event invitations and RSVPs. Reply Y or N to answer an invite, STOP to unsubscribe. Msg & data rates may apply. Help: ${supportUrl}`;
+}
@@ -0,0 +1,393 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFakeSmsTransport,
+  createTelnyxTransport,
+  createTwilioTransport,
+  fakeDeliveryReport,
+  fakeInboundSms,
+  handleSmsWebhook,
+  resolveSmsTransportConfig,
+  type InboundSms,
+  type SmsWebhookRequest,
+} from './sms-transport';
+
+// Recorded webhooks, signed with test credentials
+const TWILIO_SAMPLE = {
+  authToken: 'f3c2a1b0d9e8f7a6b5c4d3e2f1a0b9c8',
+  url: 'https://example.supabase.co/functions/v1/make-server-37f8437f/sms/webhook',
+  body:
+    'ToCountry=US&SmsMessageSid=SM4f1b0f5c8a6c4e7d9b2a3c1d0e9f8a7b&NumMedia=0&SmsSid=SM4f1b0f5c8a6c4e7d9b2a3c1d0e9f8a7b' +
+    '&SmsStatus=received&Body=Y&To=%2B15550001111&MessageSid=SM4f1b0f5c8a6c4e7d9b2a3c1d0e9f8a7b' +
+    '&AccountSid=AC0123456789abcdef0123456789abcdef&From=%2B15550002222&ApiVersion=2010-04-01',
+  signature: 'snBoKb68WzbYIsrZE7LGq9kYGDQ=',
+};
+
+const TELNYX_SAMPLE = {
+  publicKey: 'gbV3ipvfnDcbAKMypi9JbTaAi2FoM8MdPZqKi2gvQWg=',
+  timestamp: '1769000000',
+  body: JSON.stringify({
+    data: {
+      event_type: 'message.received',
+      id: 'b301ed3f-1490-491f-995f-6e64e69674d4',
+      occurred_at: '2026-01-21T12:53:20.000+00:00',
+      payload: {
+        id: '40385f64-5717-4562-b3fc-2c963f66afa6',
+        direction: 'inbound',
+        from: { phone_number: '+15550002222' },
+        to: [{ phone_number: '+15550001111' }],
+        text: 'Y',
+        type: 'SMS',
+      },
+      record_type: 'event',
+    },
+    meta: { attempt: 1, delivered_to: 'https://example.supabase.co/functions/v1/make-server-37f8437f/sms/webhook' },
+  }),
+  signature: 'twae/R5RgnTw/3Gn+EClY0zOG8LWYah9Uqh9wFdD5qnfvepy8n+q+0sworSsFX6qAtssXzAaGREk2kxQakgeCA==',
+};
+const TELNYX_SAMPLE_TIME = new Date(Number(TELNYX_SAMPLE.timestamp) * 1000);
+
+const twilioSample = (overrides: Partial<SmsWebhookRequest> = {}): SmsWebhookRequest => ({
+  contentType: 'application/x-www-form-urlencoded',
+  body: TWILIO_SAMPLE.body,
+  url: TWILIO_SAMPLE.url,
+  headers: { 'x-twilio-signature': TWILIO_SAMPLE.signature },
+  ...overrides,
+});
+
+const telnyxSample = (overrides: Partial<SmsWebhookRequest> = {}): SmsWebhookRequest => ({
+  contentType: 'application/json',
+  body: TELNYX_SAMPLE.body,
+  headers: { 'telnyx-signature-ed25519': TELNYX_SAMPLE.signature, 'telnyx-timestamp': TELNYX_SAMPLE.timestamp },
+  ...overrides,
+});
+
+// Sign a Telnyx webhook with a fresh key, for flow tests that need other payloads
+const telnyxSigner = async () => {
+  const keys = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+  const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+  return {
+    publicKey: toBase64(raw),
+    async sign(request: SmsWebhookRequest, now = new Date()): Promise<SmsWebhookRequest> {
+      const timestamp = String(Math.floor(now.getTime() / 1000));
+      const signature = await crypto.subtle.sign('Ed25519', keys.privateKey, new TextEncoder().encode(`${timestamp}|${request.body}`));
+      return {
+        ...request,
+        headers: { 'telnyx-signature-ed25519': toBase64(new Uint8Array(signature)), 'telnyx-timestamp': timestamp },
+      };
+    },
+  };
+};
+
+const recordingFetch = (response: Response) => {
+  const requests: { url: string; init: RequestInit }[] = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    requests.push({ url, init });
+    return response;
+  }) as typeof fetch;
+  return { requests, fetchImpl };
+};
+
+const telnyxWebhook = (eventType: string, payload: Record<string, unknown>) => ({
+  contentType: 'application/json',
+  body: JSON.stringify({ data: { event_type: eventType, payload } }),
+});
+
+describe('Twilio transport', () => {
+  const options = { accountSid: 'AC1', apiKey: 'SK1', apiSecret: 'secret', from: '+15550001111' };
+
+  it('sends with API key basic auth', async () => {
+    const { requests, fetchImpl } = recordingFetch(new Response(JSON.stringify({ sid: 'SM1' }), { status: 201 }));
+    const transport = createTwilioTransport({ ...options, fetchImpl });
+
+    expect(await transport.send('+15550002222', 'Hello')).toEqual({ ok: true, id: 'SM1' });
+    expect(requests[0].url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC1/Messages.json');
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa('SK1:secret')}`);
+    expect(Object.fromEntries(new URLSearchParams(requests[0].init.body as string))).toEqual({
+      To: '+15550002222',
+      From: '+15550001111',
+      Body: 'Hello',
+    });
+  });
+
+  it('returns the API error', async () => {
+    const { fetchImpl } = recordingFetch(new Response('bad number', { status: 400, statusText: 'Bad Request' }));
+    const transport = createTwilioTransport({ ...options, fetchImpl });
+    expect(await transport.send('x', 'Hello')).toEqual({ ok: false, error: '400 Bad Request: bad number' });
+  });
+
+  it('parses form webhooks', () => {
+    const transport = createTwilioTransport(options);
+    const body = new URLSearchParams({ From: '+15550002222', To: '+15550001111', Body: 'Y', MessageSid: 'SM2' }).toString();
+    expect(transport.parseInbound({ contentType: 'application/x-www-form-urlencoded', body })).toEqual({
+      message: { from: '+15550002222', to: '+15550001111', body: 'Y', messageId: 'SM2' },
+    });
+    expect(transport.parseInbound({ contentType: 'application/x-www-form-urlencoded', body: 'Body=Y' })).toHaveProperty('error');
+  });
+
+  it('asks for and parses delivery receipts', async () => {
+    const { requests, fetchImpl } = recordingFetch(new Response(JSON.stringify({ sid: 'SM1' }), { status: 201 }));
+    const transport = createTwilioTransport({ ...options, statusCallbackUrl: 'https://example.com/sms/webhook', fetchImpl });
+    await transport.send('+15550002222', 'Hello');
+    expect(new URLSearchParams(requests[0].init.body as string).get('StatusCallback')).toBe('https://example.com/sms/webhook');
+
+    const status = (fields: Record<string, string>) =>
+      transport.parseInbound({
+        contentType: 'application/x-www-form-urlencoded',
+        body: new URLSearchParams({ MessageSid: 'SM1', ...fields }).toString(),
+      });
+    expect(status({ MessageStatus: 'delivered' })).toEqual({ status: { messageId: 'SM1', state: 'delivered', permanent: false } });
+    expect(status({ MessageStatus: 'undelivered', ErrorCode: '30006' })).toEqual({
+      status: { messageId: 'SM1', state: 'failed', permanent: true, error: 'Twilio error 30006' },
+    });
+    expect(status({ MessageStatus: 'failed', ErrorCode: '30003' })).toMatchObject({ status: { permanent: false } });
+    expect(status({ MessageStatus: 'sent' })).toEqual({ ignore: 'sent' });
+  });
+
+  it('replies inline with escaped TwiML', () => {
+    const reply = createTwilioTransport(options).formatReply('Confirmed! "Tea & cake" <3');
+    expect(reply.contentType).toBe('text/xml');
+    expect(reply.body).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Confirmed! &quot;Tea &amp; cake&quot; &lt;3</Message></Response>'
+    );
+    expect(reply.sendSeparately).toBeNull();
+    expect(createTwilioTransport(options).formatReply(null).body).not.toContain('<Message>');
+  });
+});
+
+describe('Telnyx transport', () => {
+  const options = { apiKey: 'KEY1', from: '+15550001111' };
+
+  it('sends JSON with a bearer token', async () => {
+    const { requests, fetchImpl } = recordingFetch(new Response(JSON.stringify({ data: { id: 'msg-1' } }), { status: 200 }));
+    const transport = createTelnyxTransport({ ...options, messagingProfileId: 'profile-1', fetchImpl });
+
+    expect(await transport.send('+15550002222', 'Hello')).toEqual({ ok: true, id: 'msg-1' });
+    expect(requests[0].url).toBe('https://api.telnyx.com/v2/messages');
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer KEY1');
+    expect(JSON.parse(requests[0].init.body as string)).toEqual({
+      from: '+15550001111',
+      to: '+15550002222',
+      text: 'Hello',
+      messaging_profile_id: 'profile-1',
+    });
+  });
+
+  it('parses received messages and ignores other events', () => {
+    const transport = createTelnyxTransport(options);
+    expect(
+      transport.parseInbound(
+        telnyxWebhook('message.received', {
+          id: 'msg-2',
+          from: { phone_number: '+15550002222' },
+          to: [{ phone_number: '+15550001111' }],
+          text: 'N',
+        })
+      )
+    ).toEqual({ message: { from: '+15550002222', to: '+15550001111', body: 'N', messageId: 'msg-2' } });
+    expect(transport.parseInbound(telnyxWebhook('message.sent', {}))).toEqual({ ignore: 'message.sent' });
+    expect(transport.parseInbound({ contentType: 'application/json', body: 'nope' })).toHaveProperty('error');
+  });
+
+  it('parses delivery receipts', () => {
+    const transport = createTelnyxTransport(options);
+    const finalized = (status: string, errors: unknown[] = []) =>
+      transport.parseInbound(telnyxWebhook('message.finalized', { id: 'msg-1', to: [{ phone_number: '+15550002222', status }], errors }));
+    expect(finalized('delivered')).toEqual({ status: { messageId: 'msg-1', state: 'delivered', permanent: false } });
+    expect(finalized('delivery_failed', [{ title: 'Unreachable destination' }])).toEqual({
+      status: { messageId: 'msg-1', state: 'failed', permanent: false, error: 'Unreachable destination' },
+    });
+    expect(finalized('delivery_unconfirmed')).toHaveProperty('ignore');
+  });
+
+  it('sends replies as separate messages', () => {
+    expect(createTelnyxTransport(options).formatReply('Thanks')).toEqual({
+      contentType: 'application/json',
+      body: '{"received":true}',
+      sendSeparately: 'Thanks',
+    });
+  });
+});
+
+describe('resolveSmsTransportConfig', () => {
+  const resolve = (env: Record<string, string>) => resolveSmsTransportConfig((name) => env[name]);
+  const twilioEnv = {
+    TWILIO_ACCOUNT_SID: 'AC1',
+    TWILIO_API_KEY: 'SK1',
+    TWILIO_API_SECRET: 'secret',
+    TWILIO_PHONE_NUMBER: '+15550001111',
+  };
+
+  it('is off when nothing is configured', () => {
+    expect(resolve({})).toEqual({ config: null });
+  });
+
+  it('defaults to Twilio, then Telnyx', () => {
+    expect(resolve({ ...twilioEnv, TELNYX_API_KEY: 'KEY1' })).toMatchObject({ config: { kind: 'twilio', accountSid: 'AC1' } });
+    expect(resolve({ TELNYX_API_KEY: 'KEY1', TELNYX_PHONE_NUMBER: '+15550003333' })).toEqual({
+      config: { kind: 'telnyx', apiKey: 'KEY1', from: '+15550003333', messagingProfileId: undefined, publicKey: undefined },
+    });
+  });
+
+  it('uses the chosen provider', () => {
+    expect(resolve({ ...twilioEnv, SMS_PROVIDER: 'fake', SMS_FAKE_FILE: '/tmp/sms.jsonl' })).toEqual({
+      config: { kind: 'fake', file: '/tmp/sms.jsonl' },
+    });
+  });
+
+  it('rejects incomplete settings', () => {
+    expect(resolve({ TWILIO_ACCOUNT_SID: 'AC1' })).toHaveProperty('error');
+    expect(resolve({ SMS_PROVIDER: 'telnyx', TELNYX_API_KEY: 'KEY1' })).toHaveProperty('error');
+    expect(resolve({ SMS_PROVIDER: 'plivo' })).toHaveProperty('error');
+  });
+});
+
+describe('SMS webhook flow with the fake provider', () => {
+  const rsvpReplies = async ({ body }: InboundSms) =>
+    body.trim().toUpperCase() === 'Y' ? 'Confirmed! See you there!' : null;
+
+  it('records sent messages', async () => {
+    const transport = createFakeSmsTransport();
+    expect(await transport.send('+15550002222', 'Reply Y to confirm')).toEqual({ ok: true, id: 'fake-1' });
+    expect(transport.sent).toEqual([{ to: '+15550002222', body: 'Reply Y to confirm' }]);
+    transport.clear();
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('answers a simulated reply', async () => {
+    const transport = createFakeSmsTransport();
+    const seen: InboundSms[] = [];
+
+    const reply = await handleSmsWebhook(transport, fakeInboundSms('+15550002222', 'Y'), {
+      respond: async (message) => {
+        seen.push(message);
+        return rsvpReplies(message);
+      },
+    });
+
+    expect(seen).toEqual([{ from: '+15550002222', to: '+15005550006', body: 'Y', messageId: undefined }]);
+    expect(reply).toMatchObject({ contentType: 'application/json', body: '{"reply":"Confirmed! See you there!"}' });
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('rejects malformed requests without calling respond', async () => {
+    const transport = createFakeSmsTransport();
+    let called = false;
+    const reply = await handleSmsWebhook(transport, { contentType: 'application/json', body: '{}' }, {
+      respond: async () => {
+        called = true;
+        return null;
+      },
+    });
+    expect(called).toBe(false);
+    expect(JSON.parse(reply.body)).toEqual({ reply: 'Invalid request' });
+  });
+
+  it('sends the reply separately for providers that cannot reply inline', async () => {
+    const { requests, fetchImpl } = recordingFetch(new Response('{}', { status: 200 }));
+    const signer = await telnyxSigner();
+    const transport = createTelnyxTransport({ apiKey: 'KEY1', from: '+15550001111', publicKey: signer.publicKey, fetchImpl });
+    const webhook = await signer.sign(telnyxWebhook('message.received', { from: { phone_number: '+15550002222' }, text: 'y' }));
+
+    const reply = await handleSmsWebhook(transport, webhook, { respond: rsvpReplies });
+
+    expect(reply.body).toBe('{"received":true}');
+    expect(JSON.parse(requests[0].init.body as string)).toMatchObject({ to: '+15550002222', text: 'Confirmed! See you there!' });
+  });
+
+  it('acknowledges events that are not messages', async () => {
+    const { requests, fetchImpl } = recordingFetch(new Response('{}', { status: 200 }));
+    const signer = await telnyxSigner();
+    const transport = createTelnyxTransport({ apiKey: 'KEY1', from: '+15550001111', publicKey: signer.publicKey, fetchImpl });
+
+    await handleSmsWebhook(transport, await signer.sign(telnyxWebhook('message.sent', {})), { respond: rsvpReplies });
+
+    expect(requests).toEqual([]);
+  });
+
+  it('passes delivery receipts to onStatus without replying', async () => {
+    const transport = createFakeSmsTransport();
+    const reports: unknown[] = [];
+
+    const reply = await handleSmsWebhook(transport, fakeDeliveryReport('fake-1', 'failed', true), {
+      respond: rsvpReplies,
+      onStatus: async (report) => {
+        reports.push(report);
+      },
+    });
+
+    expect(reports).toEqual([{ messageId: 'fake-1', state: 'failed', permanent: true, error: undefined }]);
+    expect(JSON.parse(reply.body)).toEqual({ reply: null });
+  });
+});
+
+describe('webhook signatures', () => {
+  const twilio = createTwilioTransport({
+    accountSid: 'AC0123456789abcdef0123456789abcdef',
+    apiKey: 'SK1',
+    apiSecret: 'secret',
+    from: '+15550001111',
+    authToken: TWILIO_SAMPLE.authToken,
+  });
+  const telnyx = createTelnyxTransport({ apiKey: 'KEY1', from: '+15550001111', publicKey: TELNYX_SAMPLE.publicKey });
+
+  it('accepts a recorded Twilio webhook', async () => {
+    expect(await twilio.verifyWebhook(twilioSample())).toEqual({ ok: true });
+  });
+
+  it('rejects Twilio webhooks that were altered, unsigned or cannot be checked', async () => {
+    const forged = twilioSample({ body: TWILIO_SAMPLE.body.replace('Body=Y', 'Body=N') });
+    expect(await twilio.verifyWebhook(forged)).toEqual({ ok: false, error: 'Invalid X-Twilio-Signature' });
+    expect(await twilio.verifyWebhook(twilioSample({ url: `${TWILIO_SAMPLE.url}?x=1` }))).toMatchObject({ ok: false });
+    expect(await twilio.verifyWebhook(twilioSample({ headers: {} }))).toMatchObject({ ok: false });
+
+    const withoutToken = createTwilioTransport({ accountSid: 'AC1', apiKey: 'SK1', apiSecret: 'secret', from: '+15550001111' });
+    expect(await withoutToken.verifyWebhook(twilioSample())).toMatchObject({ ok: false, error: expect.stringContaining('TWILIO_AUTH_TOKEN') });
+  });
+
+  it('accepts a recorded Telnyx webhook within five minutes of its timestamp', async () => {
+    expect(await telnyx.verifyWebhook(telnyxSample(), TELNYX_SAMPLE_TIME)).toEqual({ ok: true });
+    expect(await telnyx.verifyWebhook(telnyxSample(), new Date(TELNYX_SAMPLE_TIME.getTime() + 299_000))).toEqual({ ok: true });
+  });
+
+  it('rejects Telnyx webhooks that were altered, replayed late or unsigned', async () => {
+    const forged = telnyxSample({ body: TELNYX_SAMPLE.body.replace('"text":"Y"', '"text":"N"') });
+    expect(await telnyx.verifyWebhook(forged, TELNYX_SAMPLE_TIME)).toEqual({ ok: false, error: 'Invalid Telnyx-Signature-Ed25519' });
+    expect(await telnyx.verifyWebhook(telnyxSample(), new Date(TELNYX_SAMPLE_TIME.getTime() + 301_000))).toMatchObject({ ok: false });
+    expect(await telnyx.verifyWebhook(telnyxSample({ headers: {} }), TELNYX_SAMPLE_TIME)).toMatchObject({ ok: false });
+  });
+
+  it('rejects a forged reply without acting on it', async () => {
+    let called = false;
+    const reply = await handleSmsWebhook(twilio, twilioSample({ headers: { 'x-twilio-signature': 'forged' } }), {
+      respond: async () => {
+        called = true;
+        return 'Confirmed!';
+      },
+    });
+
+    expect(reply).toEqual({ status: 403, contentType: 'text/plain', body: 'Invalid X-Twilio-Signature' });
+    expect(called).toBe(false);
+  });
+
+  it('answers a replayed message only once', async () => {
+    const claimed = new Set<string>();
+    const seen: InboundSms[] = [];
+    const handlers = {
+      claim: async (key: string) => !claimed.has(key) && !!claimed.add(key),
+      respond: async (message: InboundSms) => {
+        seen.push(message);
+        return 'Confirmed!';
+      },
+      sendReply: async () => undefined,
+    };
+
+    const first = await handleSmsWebhook(telnyx, telnyxSample(), handlers, TELNYX_SAMPLE_TIME);
+    const replay = await handleSmsWebhook(telnyx, telnyxSample(), handlers, TELNYX_SAMPLE_TIME);
+
+    expect(first.status).toBe(200);
+    expect(replay).toMatchObject({ status: 200, body: '{"received":true}' });
+    expect(seen.map((message) => message.messageId)).toEqual(['40385f64-5717-4562-b3fc-2c963f66afa6']);
+    expect([...claimed]).toEqual(['message:40385f64-5717-4562-b3fc-2c963f66afa6']);
+  });
+});
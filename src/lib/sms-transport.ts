@@ -0,0 +1,472 @@
+/**
+ * SMS providers behind one interface.
+ *
+ * An `SmsTransport` sends messages, parses the provider's inbound webhook
+ * (Twilio posts a form, Telnyx posts JSON) and formats the webhook's reply:
+ * Twilio answers inline with TwiML, Telnyx cannot, so its reply is sent as a
+ * separate message. The same webhook carries delivery receipts for messages we
+ * sent, parsed into `SmsDeliveryReport`s. The fake provider records what it
+ * sends and parses a plain JSON webhook (`fakeInboundSms`,
+ * `fakeDeliveryReport`), so the webhook flow can run offline.
+ *
+ * Webhooks are only acted on once their signature checks out (Twilio signs
+ * with the account Auth Token, Telnyx with an ed25519 key) and each message
+ * or receipt is handled once (`SmsWebhookHandlers.claim`).
+ * Which provider is used comes from configuration (`resolveSmsTransportConfig`).
+ */
+
+export interface SmsSendResult {
+  ok: boolean;
+  id?: string; // Provider message id
+  error?: string;
+}
+
+export interface InboundSms {
+  from: string;
+  to?: string;
+  body: string;
+  messageId?: string;
+}
+
+// A webhook request as received: raw body and its Content-Type header
+export interface SmsWebhookRequest {
+  contentType: string;
+  body: string;
+  url?: string; // Public URL the provider posted to (Twilio signs it)
+  headers?: Record<string, string>; // Lowercase names
+}
+
+export type WebhookVerification = { ok: true } | { ok: false; error: string };
+
+// A delivery receipt (same shape as DeliveryReport in delivery-reports.ts)
+export interface SmsDeliveryReport {
+  messageId: string;
+  state: 'delivered' | 'failed';
+  permanent: boolean; // The number itself cannot receive SMS
+  error?: string;
+}
+
+export type InboundSmsResult =
+  | { message: InboundSms }
+  | { status: SmsDeliveryReport }
+  | { ignore: string } // A valid webhook we do not act on (e.g. a "sent" status)
+  | { error: string };
+
+export interface SmsWebhookReply {
+  contentType: string;
+  body: string;
+  sendSeparately: string | null; // Reply text to send as its own message, for providers that cannot reply inline
+}
+
+export interface SmsTransport {
+  name: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+  verifyWebhook(request: SmsWebhookRequest, now?: Date): Promise<WebhookVerification>;
+  parseInbound(request: SmsWebhookRequest): InboundSmsResult;
+  formatReply(message: string | null): SmsWebhookReply;
+}
+
+// How old a timestamped (Telnyx) webhook may be before it counts as a replay
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const parseJson = (body: string): any => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const base64ToBytes = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+const bytesToBase64 = (bytes: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+// Compare without returning early, so response times don't leak how much of a signature matched
+const timingSafeEqual = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+/**
+ * Twilio's X-Twilio-Signature: base64 HMAC-SHA1 (keyed with the Auth Token) of
+ * the full URL followed by every POST parameter's name and value, sorted by name.
+ */
+export async function twilioSignature(authToken: string, url: string, params: URLSearchParams): Promise<string> {
+  const data = url + [...params].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)).map(([name, value]) => name + value).join('');
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(authToken), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  return bytesToBase64(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+}
+
+// --- Twilio ---
+
+// Error codes that mean the number cannot get SMS: invalid, opted out (STOP),
+// not SMS-capable, unknown, landline or unreachable carrier
+const TWILIO_PERMANENT_ERRORS = new Set(['21211', '21610', '21614', '30005', '30006']);
+
+export function createTwilioTransport(options: {
+  accountSid: string;
+  apiKey: string; // API Key SID; Basic auth is API Key + secret, not Account SID + Auth Token
+  apiSecret: string;
+  from: string;
+  authToken?: string; // Account Auth Token, which signs webhooks; without it every webhook is rejected
+  statusCallbackUrl?: string; // Where Twilio posts delivery receipts
+  fetchImpl?: typeof fetch;
+}): SmsTransport {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    name: 'twilio',
+    async send(to, body) {
+      const res = await fetchImpl(`https://api.twilio.com/2010-04-01/Accounts/${options.accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${options.apiKey}:${options.apiSecret}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          To: to,
+          From: options.from,
+          Body: body,
+          ...(options.statusCallbackUrl ? { StatusCallback: options.statusCallbackUrl } : {}),
+        }).toString(),
+      });
+      const text = await res.text();
+      if (!res.ok) return { ok: false, error: `${res.status} ${res.statusText}: ${text}` };
+      return { ok: true, id: parseJson(text)?.sid };
+    },
+    async verifyWebhook(request) {
+      if (!options.authToken) return { ok: false, error: 'TWILIO_AUTH_TOKEN is not set, so webhooks cannot be verified' };
+      const signature = request.headers?.['x-twilio-signature'];
+      if (!signature) return { ok: false, error: 'Missing X-Twilio-Signature' };
+      if (!request.url) return { ok: false, error: 'Missing webhook URL' };
+      const expected = await twilioSignature(options.authToken, request.url, new URLSearchParams(request.body));
+      return timingSafeEqual(signature, expected) ? { ok: true } : { ok: false, error: 'Invalid X-Twilio-Signature' };
+    },
+    parseInbound(request) {
+      const form = new URLSearchParams(request.body);
+      const from = form.get('From');
+      const body = form.get('Body');
+      const messageStatus = form.get('MessageStatus');
+      if (messageStatus !== null && body === null) {
+        const messageId = form.get('MessageSid');
+        if (!messageId) return { error: 'Missing MessageSid' };
+        if (messageStatus === 'delivered') return { status: { messageId, state: 'delivered', permanent: false } };
+        if (messageStatus !== 'undelivered' && messageStatus !== 'failed') return { ignore: messageStatus };
+        const errorCode = form.get('ErrorCode') ?? '';
+        return {
+          status: {
+            messageId,
+            state: 'failed',
+            permanent: TWILIO_PERMANENT_ERRORS.has(errorCode),
+            error: errorCode ? `Twilio error ${errorCode}` : `Message ${messageStatus}`,
+          },
+        };
+      }
+      if (!from || body === null) return { error: 'Missing From or Body' };
+      return {
+        message: {
+          from,
+          to: form.get('To') ?? undefined,
+          body,
+          messageId: form.get('MessageSid') ?? undefined,
+        },
+      };
+    },
+    formatReply(message) {
+      return {
+        contentType: 'text/xml',
+        body: message === null
+          ? '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
+          : `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(message)}</Message></Response>`,
+        sendSeparately: null,
+      };
+    },
+  };
+}
+
+// --- Telnyx ---
+
+export function createTelnyxTransport(options: {
+  apiKey: string;
+  from: string;
+  messagingProfileId?: string;
+  publicKey?: string; // Base64 ed25519 key from the Telnyx portal; without it every webhook is rejected
+  webhookUrl?: string; // Where Telnyx posts delivery receipts, overriding the messaging profile's
+  fetchImpl?: typeof fetch;
+}): SmsTransport {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  return {
+    name: 'telnyx',
+    async send(to, body) {
+      const res = await fetchImpl('https://api.telnyx.com/v2/messages', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: options.from,
+          to,
+          text: body,
+          messaging_profile_id: options.messagingProfileId,
+          webhook_url: options.webhookUrl,
+        }),
+      });
+      const text = await res.text();
+      if (!res.ok) return { ok: false, error: `${res.status} ${res.statusText}: ${text}` };
+      return { ok: true, id: parseJson(text)?.data?.id };
+    },
+    async verifyWebhook(request, now = new Date()) {
+      if (!options.publicKey) return { ok: false, error: 'TELNYX_PUBLIC_KEY is not set, so webhooks cannot be verified' };
+      const signature = request.headers?.['telnyx-signature-ed25519'];
+      const timestamp = request.headers?.['telnyx-timestamp'];
+      if (!signature || !timestamp) return { ok: false, error: 'Missing Telnyx-Signature-Ed25519 or Telnyx-Timestamp' };
+      if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+        return { ok: false, error: 'Telnyx-Timestamp is too old or in the future' };
+      }
+      try {
+        const key = await crypto.subtle.importKey('raw', base64ToBytes(options.publicKey), { name: 'Ed25519' }, false, ['verify']);
+        const valid = await crypto.subtle.verify(
+          'Ed25519',
+          key,
+          base64ToBytes(signature),
+          new TextEncoder().encode(`${timestamp}|${request.body}`)
+        );
+        return valid ? { ok: true } : { ok: false, error: 'Invalid Telnyx-Signature-Ed25519' };
+      } catch (error) {
+        return { ok: false, error: `Cannot verify Telnyx signature: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    },
+    parseInbound(request) {
+      const data = parseJson(request.body)?.data;
+      if (!data || typeof data.event_type !== 'string') return { error: 'Not a Telnyx webhook' };
+      const payload = data.payload ?? {};
+      if (data.event_type === 'message.finalized') {
+        const recipient = payload.to?.[0] ?? {};
+        if (typeof payload.id !== 'string') return { error: 'Missing message id' };
+        if (recipient.status === 'delivered') return { status: { messageId: payload.id, state: 'delivered', permanent: false } };
+        if (recipient.status !== 'delivery_failed' && recipient.status !== 'sending_failed') {
+          return { ignore: `${data.event_type} ${recipient.status}` };
+        }
+        // Telnyx does not say whether the number is bad, so failures only count towards the threshold
+        const error = payload.errors?.[0]?.title ?? payload.errors?.[0]?.detail;
+        return { status: { messageId: payload.id, state: 'failed', permanent: false, error: error || recipient.status } };
+      }
+      if (data.event_type !== 'message.received') return { ignore: data.event_type };
+      const from = payload.from?.phone_number;
+      if (typeof from !== 'string' || typeof payload.text !== 'string') return { error: 'Missing from or text' };
+      return {
+        message: {
+          from,
+          to: payload.to?.[0]?.phone_number,
+          body: payload.text,
+          messageId: payload.id,
+        },
+      };
+    },
+    formatReply(message) {
+      return { contentType: 'application/json', body: '{"received":true}', sendSeparately: message };
+    },
+  };
+}
+
+// --- Fake (tests and local development) ---
+
+export interface FakeSmsTransport extends SmsTransport {
+  sent: { to: string; body: string }[];
+  clear(): void;
+}
+
+export const FAKE_SMS_NUMBER = '+15005550006';
+
+/**
+ * Records sent messages (and passes them to `persist`, e.g. to write a file).
+ * Its webhooks are not signed, so it is for local development only.
+ * Its webhook takes JSON `{ from, body }` and answers with JSON `{ reply }`,
+ * or a delivery receipt as JSON `{ messageId, status, permanent?, error? }`.
+ */
+export function createFakeSmsTransport(
+  options: { persist?: (message: { to: string; body: string }) => Promise<void> } = {}
+): FakeSmsTransport {
+  const sent: { to: string; body: string }[] = [];
+  return {
+    name: 'fake',
+    sent,
+    clear() {
+      sent.length = 0;
+    },
+    async send(to, body) {
+      sent.push({ to, body });
+      try {
+        await options.persist?.({ to, body });
+      } catch (error) {
+        return { ok: false, error: `Fake SMS failed: ${error instanceof Error ? error.message : String(error)}` };
+      }
+      return { ok: true, id: `fake-${sent.length}` };
+    },
+    async verifyWebhook() {
+      return { ok: true };
+    },
+    parseInbound(request) {
+      const data = parseJson(request.body);
+      if (typeof data?.messageId === 'string' && (data.status === 'delivered' || data.status === 'failed')) {
+        return { status: { messageId: data.messageId, state: data.status, permanent: !!data.permanent, error: data.error } };
+      }
+      if (typeof data?.from !== 'string' || typeof data?.body !== 'string') return { error: 'Missing from or body' };
+      return { message: { from: data.from, to: data.to ?? FAKE_SMS_NUMBER, body: data.body, messageId: data.messageId } };
+    },
+    formatReply(message) {
+      return { contentType: 'application/json', body: JSON.stringify({ reply: message }), sendSeparately: null };
+    },
+  };
+}
+
+/**
+ * A webhook request the fake provider accepts, as if `from` had texted `body`.
+ */
+export function fakeInboundSms(from: string, body: string): SmsWebhookRequest {
+  return { contentType: 'application/json', body: JSON.stringify({ from, body }) };
+}
+
+/**
+ * A delivery receipt the fake provider accepts for one of its sent messages.
+ */
+export function fakeDeliveryReport(messageId: string, status: 'delivered' | 'failed', permanent = false): SmsWebhookRequest {
+  return { contentType: 'application/json', body: JSON.stringify({ messageId, status, permanent }) };
+}
+
+// --- Webhook ---
+
+export interface SmsWebhookHandlers {
+  // Record that the webhook with this key was handled; false if it already was (a replay)
+  claim?: (key: string) => Promise<boolean>;
+  respond: (message: InboundSms) => Promise<string | null>;
+  sendReply?: (to: string, body: string) => Promise<unknown>; // Default: straight through the transport
+  onStatus?: (report: SmsDeliveryReport) => Promise<void>;
+}
+
+// Replay key for a parsed webhook: one per incoming message and per receipt state
+const webhookKey = (parsed: InboundSmsResult): string | null => {
+  if ('message' in parsed) return parsed.message.messageId ? `message:${parsed.message.messageId}` : null;
+  if ('status' in parsed) return `status:${parsed.status.messageId}:${parsed.status.state}`;
+  return null;
+};
+
+/**
+ * Handle an inbound SMS webhook: check its signature (403 if it fails), parse
+ * it, ask `respond` for the reply text (null for none) and format the response.
+ * Providers that cannot reply inline get the reply sent back to the sender as
+ * a new message, through `sendReply`. Delivery receipts go to `onStatus` and
+ * get an empty reply, as do replays of a message or receipt already handled.
+ */
+export async function handleSmsWebhook(
+  transport: SmsTransport,
+  request: SmsWebhookRequest,
+  handlers: SmsWebhookHandlers,
+  now: Date = new Date()
+): Promise<{ status: number; contentType: string; body: string }> {
+  const { respond, sendReply = (to, body) => transport.send(to, body) } = handlers;
+  const verification = await transport.verifyWebhook(request, now);
+  if (!verification.ok) {
+    return { status: 403, contentType: 'text/plain', body: verification.error };
+  }
+
+  const empty = () => {
+    const reply = transport.formatReply(null);
+    return { status: 200, contentType: reply.contentType, body: reply.body };
+  };
+  const parsed = transport.parseInbound(request);
+  if ('ignore' in parsed) {
+    return empty();
+  }
+  if ('error' in parsed) {
+    // No sender to send a separate reply to, so only inline replies carry this
+    const reply = transport.formatReply('Invalid request');
+    return { status: 200, contentType: reply.contentType, body: reply.body };
+  }
+
+  const key = webhookKey(parsed);
+  if (key && handlers.claim && !(await handlers.claim(key))) {
+    return empty();
+  }
+
+  if ('status' in parsed) {
+    await handlers.onStatus?.(parsed.status);
+    return empty();
+  }
+
+  const reply = transport.formatReply(await respond(parsed.message));
+  if (reply.sendSeparately) {
+    await sendReply(parsed.message.from, reply.sendSeparately);
+  }
+  return { status: 200, contentType: reply.contentType, body: reply.body };
+}
+
+// --- Configuration ---
+
+export type SmsTransportConfig =
+  | { kind: 'twilio'; accountSid: string; apiKey: string; apiSecret: string; from: string; authToken?: string }
+  | { kind: 'telnyx'; apiKey: string; from: string; messagingProfileId?: string; publicKey?: string }
+  | { kind: 'fake'; file?: string };
+
+/**
+ * Pick the provider from environment variables:
+ *
+ * - SMS_PROVIDER: twilio | telnyx | fake. Without it, Twilio is used when its
+ *   credentials are set, then Telnyx; otherwise SMS is off (null).
+ * - Twilio: TWILIO_ACCOUNT_SID, TWILIO_API_KEY, TWILIO_API_SECRET, TWILIO_PHONE_NUMBER;
+ *   TWILIO_AUTH_TOKEN to accept webhooks.
+ * - Telnyx: TELNYX_API_KEY, TELNYX_PHONE_NUMBER, optional TELNYX_MESSAGING_PROFILE_ID;
+ *   TELNYX_PUBLIC_KEY to accept webhooks.
+ * - Fake: SMS_FAKE_FILE to also append each sent message to a file (JSON lines).
+ */
+export function resolveSmsTransportConfig(
+  env: (name: string) => string | undefined
+): { config: SmsTransportConfig | null } | { error: string } {
+  const twilio = {
+    accountSid: env('TWILIO_ACCOUNT_SID'),
+    apiKey: env('TWILIO_API_KEY'),
+    apiSecret: env('TWILIO_API_SECRET'),
+    from: env('TWILIO_PHONE_NUMBER'),
+  };
+  const kind = env('SMS_PROVIDER')?.trim().toLowerCase()
+    || (twilio.accountSid ? 'twilio' : env('TELNYX_API_KEY') ? 'telnyx' : '');
+  if (!kind) return { config: null };
+
+  switch (kind) {
+    case 'twilio': {
+      const { accountSid, apiKey, apiSecret, from } = twilio;
+      if (!accountSid || !apiKey || !apiSecret || !from) {
+        return { error: 'SMS_PROVIDER=twilio needs TWILIO_ACCOUNT_SID, TWILIO_API_KEY, TWILIO_API_SECRET and TWILIO_PHONE_NUMBER' };
+      }
+      return { config: { kind: 'twilio', accountSid, apiKey, apiSecret, from, authToken: env('TWILIO_AUTH_TOKEN') || undefined } };
+    }
+    case 'telnyx': {
+      const apiKey = env('TELNYX_API_KEY');
+      const from = env('TELNYX_PHONE_NUMBER');
+      if (!apiKey || !from) return { error: 'SMS_PROVIDER=telnyx needs TELNYX_API_KEY and TELNYX_PHONE_NUMBER' };
+      return {
+        config: {
+          kind: 'telnyx',
+          apiKey,
+          from,
+          messagingProfileId: env('TELNYX_MESSAGING_PROFILE_ID') || undefined,
+          publicKey: env('TELNYX_PUBLIC_KEY') || undefined,
+        },
+      };
+    }
+    case 'fake':
+      return { config: { kind: 'fake', file: env('SMS_FAKE_FILE') || undefined } };
+    default:
+      return { error: `Unknown SMS_PROVIDER "${kind}" (expected twilio, telnyx or fake)` };
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatEventDate,
+  formatEventTime,
+  isValidTimeZone,
+  utcMsToZonedDateTime,
+  wallClockElsewhere,
+  zoneAbbreviation,
+  zonedDateTimeToUtcMs,
+  zonedEndDateTime,
+} from './zoned-time';
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones and rejects UTC, blanks and unknown names', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone(null)).toBe(false);
+    expect(isValidTimeZone('Not/AZone')).toBe(false);
+  });
+});
+
+describe('zonedDateTimeToUtcMs', () => {
+  it('treats events without a zone as UTC', () => {
+    expect(zonedDateTimeToUtcMs('2026-01-20', '15:00')).toBe(Date.parse('2026-01-20T15:00:00Z'));
+  });
+
+  it('converts wall-clock time in a zone, including summer time', () => {
+    expect(zonedDateTimeToUtcMs('2026-01-20', '15:00', 'America/New_York')).toBe(Date.parse('2026-01-20T20:00:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-07-20', '15:00', 'America/New_York')).toBe(Date.parse('2026-07-20T19:00:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-07-20', '09:30:00', 'Europe/Berlin')).toBe(Date.parse('2026-07-20T07:30:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-07-20', '09:30', 'Australia/Sydney')).toBe(Date.parse('2026-07-19T23:30:00Z'));
+  });
+
+  it('falls back to UTC for an unknown zone', () => {
+    expect(zonedDateTimeToUtcMs('2026-01-20', '15:00', 'Not/AZone')).toBe(Date.parse('2026-01-20T15:00:00Z'));
+  });
+
+  it('is exact on either side of a daylight saving change', () => {
+    // New York springs forward at 02:00 on 2026-03-08 and falls back at 02:00 on 2026-11-01
+    expect(zonedDateTimeToUtcMs('2026-03-08', '01:59', 'America/New_York')).toBe(Date.parse('2026-03-08T06:59:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-03-08', '03:00', 'America/New_York')).toBe(Date.parse('2026-03-08T07:00:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-11-01', '00:30', 'America/New_York')).toBe(Date.parse('2026-11-01T04:30:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-11-01', '03:00', 'America/New_York')).toBe(Date.parse('2026-11-01T08:00:00Z'));
+  });
+
+  it('moves a time skipped in spring past the jump', () => {
+    expect(zonedDateTimeToUtcMs('2026-03-08', '02:30', 'America/New_York')).toBe(Date.parse('2026-03-08T07:30:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-03-29', '02:30', 'Europe/Berlin')).toBe(Date.parse('2026-03-29T01:30:00Z'));
+  });
+
+  it('picks the first of a time repeated in autumn', () => {
+    expect(zonedDateTimeToUtcMs('2026-11-01', '01:30', 'America/New_York')).toBe(Date.parse('2026-11-01T05:30:00Z'));
+    expect(zonedDateTimeToUtcMs('2026-10-25', '02:30', 'Europe/Berlin')).toBe(Date.parse('2026-10-25T00:30:00Z'));
+  });
+});
+
+describe('utcMsToZonedDateTime', () => {
+  it('reads the wall clock in a zone, crossing the date line', () => {
+    const instant = Date.parse('2026-06-01T22:00:00Z');
+    expect(utcMsToZonedDateTime(instant, 'America/New_York')).toEqual({ date: '2026-06-01', time: '18:00' });
+    expect(utcMsToZonedDateTime(instant, 'Asia/Tokyo')).toEqual({ date: '2026-06-02', time: '07:00' });
+    expect(utcMsToZonedDateTime(instant)).toEqual({ date: '2026-06-01', time: '22:00' });
+  });
+});
+
+describe('zonedEndDateTime', () => {
+  it('adds elapsed time across a daylight saving change', () => {
+    // 90 minutes after 01:30 EST is 04:00 EDT, and after 01:00 EDT in autumn it is 01:30 EST
+    expect(zonedEndDateTime('2026-03-08', '01:30', 90, 'America/New_York')).toEqual({ date: '2026-03-08', time: '04:00' });
+    expect(zonedEndDateTime('2026-11-01', '01:00', 90, 'America/New_York')).toEqual({ date: '2026-11-01', time: '01:30' });
+  });
+
+  it('rolls over midnight', () => {
+    expect(zonedEndDateTime('2026-06-01', '23:00', 120, 'Europe/London')).toEqual({ date: '2026-06-02', time: '01:00' });
+  });
+});
+
+describe('zoneAbbreviation', () => {
+  it('names the zone in force at the instant', () => {
+    expect(zoneAbbreviation(Date.parse('2026-01-20T20:00:00Z'), 'America/New_York')).toBe('EST');
+    expect(zoneAbbreviation(Date.parse('2026-07-20T19:00:00Z'), 'America/New_York')).toBe('EDT');
+    expect(zoneAbbreviation(Date.parse('2026-07-20T19:00:00Z'))).toBe('UTC');
+  });
+});
+
+describe('formatEventDate', () => {
+  it('formats the calendar date without shifting it', () => {
+    expect(formatEventDate('2026-01-20')).toBe('Tue, Jan 20');
+    expect(formatEventDate('2026-03-08', { year: true })).toBe('Sun, Mar 8, 2026');
+  });
+});
+
+describe('formatEventTime', () => {
+  it('uses a 12-hour clock', () => {
+    expect(formatEventTime('00:05')).toBe('12:05 AM');
+    expect(formatEventTime('12:00')).toBe('12:00 PM');
+    expect(formatEventTime('18:30:00')).toBe('6:30 PM');
+  });
+});
+
+describe('wallClockElsewhere', () => {
+  it('shows a New York event on a Los Angeles clock', () => {
+    expect(wallClockElsewhere('2026-06-01', '18:00', 'America/New_York', 'America/Los_Angeles'))
+      .toEqual({ date: '2026-06-01', time: '15:00' });
+    expect(wallClockElsewhere('2026-06-01', '18:00', 'America/New_York', 'Asia/Tokyo'))
+      .toEqual({ date: '2026-06-02', time: '07:00' });
+  });
+
+  it('is null when the clocks agree', () => {
+    expect(wallClockElsewhere('2026-06-01', '18:00', 'America/New_York', 'America/Toronto')).toBeNull();
+    expect(wallClockElsewhere('2026-06-01', '18:00:00', 'America/New_York', 'America/New_York')).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Event dates and times in the event's own time zone.
+ *
+ * An event stores a wall-clock date ("2026-06-01") and time ("18:00") plus an
+ * IANA zone (events.time_zone). Every "when is that, really" question goes
+ * through here, so the dashboard, the reminders cron, the SMS templates and
+ * the calendar invites agree no matter which zone the viewer or server is in.
+ * Events without a (valid) zone are UTC, as in the database
+ * (COALESCE(NULLIF(time_zone, ''), 'UTC')).
+ */
+
+export interface WallClock {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+const MINUTE_MS = 60_000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const isUtcZone = (timeZone?: string | null) =>
+  !timeZone || timeZone === 'UTC' || timeZone === 'Etc/UTC' || timeZone === 'GMT' || timeZone === 'Etc/GMT';
+
+/**
+ * Whether `timeZone` is a zone other than UTC that this runtime knows.
+ */
+export function isValidTimeZone(timeZone?: string | null): timeZone is string {
+  if (isUtcZone(timeZone)) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timeZone! });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in ms. Creates one formatter, so
+ * callers that ask many times (VTIMEZONE scans) should keep the reader.
+ */
+export function zoneOffsetReader(timeZone: string): (utcMs: number) => number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  return (utcMs: number): number => {
+    const parts = formatter.formatToParts(new Date(utcMs));
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return wallClockAsUtc - Math.floor(utcMs / 1000) * 1000;
+  };
+}
+
+/**
+ * A wall-clock date and time as epoch ms, read as if it were UTC.
+ */
+export function wallClockMs(date: string, time: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes || 0, seconds || 0);
+}
+
+const toWallClock = (wallMs: number): WallClock => {
+  const d = new Date(wallMs);
+  return {
+    date: `${pad(d.getUTCFullYear(), 4)}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`,
+    time: `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`,
+  };
+};
+
+/**
+ * Instant (epoch ms) of a wall-clock date and time in an IANA time zone.
+ *
+ * A time skipped by a spring-forward change (02:30 on a night clocks jump
+ * from 02:00 to 03:00) lands after the jump, at 03:30; a time that happens
+ * twice in the autumn is the first of the two.
+ */
+export function zonedDateTimeToUtcMs(date: string, time: string, timeZone?: string | null): number {
+  const wall = wallClockMs(date, time);
+  if (!isValidTimeZone(timeZone)) return wall;
+
+  // The offsets half a day either side; they differ only around a DST change
+  const offsetAt = zoneOffsetReader(timeZone);
+  const before = wall - offsetAt(wall - 12 * 60 * MINUTE_MS);
+  const after = wall - offsetAt(wall + 12 * 60 * MINUTE_MS);
+  const matches = [before, after].filter((candidate) => candidate + offsetAt(candidate) === wall);
+  // None match in a spring-forward gap: keep the old offset, which lands after the jump
+  return matches.length > 0 ? Math.min(...matches) : before;
+}
+
+/**
+ * The wall-clock date and time in a zone at an instant.
+ */
+export function utcMsToZonedDateTime(utcMs: number, timeZone?: string | null): WallClock {
+  if (!isValidTimeZone(timeZone)) return toWallClock(utcMs);
+  return toWallClock(utcMs + zoneOffsetReader(timeZone)(utcMs));
+}
+
+/**
+ * Where the clock in the event's zone reads once `minutes` have actually
+ * elapsed from the start, e.g. a 90-minute event at 01:30 on the night
+ * clocks spring forward ends at 04:00.
+ */
+export function zonedEndDateTime(date: string, time: string, minutes: number, timeZone?: string | null): WallClock {
+  return utcMsToZonedDateTime(zonedDateTimeToUtcMs(date, time, timeZone) + minutes * MINUTE_MS, timeZone);
+}
+
+/**
+ * Short name of the zone at an instant ("EDT", "GMT+2"); "UTC" for events
+ * without a zone.
+ */
+export function zoneAbbreviation(utcMs: number, timeZone?: string | null): string {
+  if (!isValidTimeZone(timeZone)) return 'UTC';
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(utcMs));
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * "Tue, Jan 20" for a YYYY-MM-DD date, with `year` "Tue, Jan 20, 2026".
+ * Pure calendar arithmetic, so the viewer's zone cannot shift the day.
+ */
+export function formatEventDate(date: string, options: { year?: boolean } = {}): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  return `${weekday}, ${MONTHS[month - 1]} ${day}${options.year ? `, ${year}` : ''}`;
+}
+
+/**
+ * "3:00 PM" for an HH:MM time.
+ */
+export function formatEventTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const hour12 = hours % 12 || 12;
+  return `${hour12}:${pad(minutes || 0)} ${period}`;
+}
+
+/**
+ * The event's start as seen from another zone (the viewer's), or null when
+ * the clocks there read the same date and time.
+ */
+export function wallClockElsewhere(
+  date: string,
+  time: string,
+  timeZone: string | null | undefined,
+  otherZone: string | null | undefined
+): WallClock | null {
+  const there = utcMsToZonedDateTime(zonedDateTimeToUtcMs(date, time, timeZone), otherZone);
+  return there.date === date && there.time === time.slice(0, 5) ? null : there;
+}
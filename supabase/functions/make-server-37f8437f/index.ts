@@ -2,6 +2,106 @@ import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  processRsvpAction,
+  processRsvpActionById,
+  planAutoPromotion,
+  planExpiryNudges,
+  getWithdrawDeadline,
+  type Invitee as RsvpInvitee,
+  type InviteeStatus,
+  type RsvpAction,
+  type RsvpResult,
+} from "../../../src/lib/rsvp-logic.ts";
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  formatLeadTime,
+  normalizeReminderOffsets,
+  planReminders,
+  validateReminderOffsets,
+} from "../../../src/lib/reminders.ts";
+import {
+  addDays,
+  daysBetween,
+  expandOccurrenceDates,
+  validateRecurrenceRule,
+  type RecurrenceRule,
+} from "../../../src/lib/recurrence.ts";
+import { zonedDateTimeToUtcMs } from "../../../src/lib/zoned-time.ts";
+import {
+  answersFromSmsChoices,
+  readPollForm,
+  validatePollOptions,
+  type PollAnswer,
+} from "../../../src/lib/polls.ts";
+import { encodeEventCursor, parseEventListQuery } from "../../../src/lib/event-query.ts";
+import {
+  chooseReplyInvite,
+  generateReplyCode,
+  getHelpSms,
+  getOptInSms,
+  getOptOutSms,
+  chooseNoteInvite,
+  formatDateForSms,
+  formatTimeForSms,
+  getInviteeNote,
+  getMaybeReplySms,
+  getNoteForwardedSms,
+  getOrganizerNoteSms,
+  getPollInviteSms,
+  getPollVoteReplySms,
+  getReplyInstructions,
+  getRunningLateReplySms,
+  getCancellationSms,
+  getSeriesCancellationSms,
+  getEventUpdatedSms,
+  getExpiryNudgeSms,
+  getInviteExpiredSms,
+  getOrganizerQueueSummarySms,
+  getWhichEventSms,
+  parseInboundSms,
+  parseSmsKeyword,
+  getOrganizerWithdrawSms,
+  getWithdrawnReplySms,
+  type SmsReplyStatus,
+} from "../../../src/lib/sms-templates.ts";
+import {
+  createCaptureTransport,
+  createRateLimitedSender,
+  createResendTransport,
+  createSmtpTransport,
+  parseResendWebhook,
+  resolveEmailTransportConfig,
+  verifyResendWebhook,
+  type EmailAttachment,
+  type EmailTransport,
+  type SmtpConnection,
+  type SmtpConnector,
+} from "../../../src/lib/email-transport.ts";
+import {
+  createFakeSmsTransport,
+  createTelnyxTransport,
+  createTwilioTransport,
+  handleSmsWebhook,
+  resolveSmsTransportConfig,
+  type InboundSms,
+  type SmsTransport,
+} from "../../../src/lib/sms-transport.ts";
+import { planNotificationOutcome, smsSuppressionFailure } from "../../../src/lib/notification-outbox.ts";
+import { isContactReachable, UNDELIVERABLE_AFTER_FAILURES, type DeliveryReport } from "../../../src/lib/delivery-reports.ts";
+import {
+  buildCalendarFeed,
+  buildICalendar,
+  eventIdFromUid,
+  icsUid,
+  parseItipReply,
+  rsvpActionForReply,
+  toPartstat,
+  type IcsEvent,
+  type IcsMethod,
+  type ItipReply,
+} from "../../../src/lib/icalendar.ts";
+import { parseInboundEmail } from "../../../src/lib/inbound-email.ts";
 
 const app = new Hono();
 
@@ -14,7 +114,7 @@ app.use(
   cors({
     origin: "*",
     allowHeaders: ["Content-Type", "Authorization"],
-    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     exposeHeaders: ["Content-Length"],
     maxAge: 600,
   }),
@@ -26,11 +126,12 @@ const getServiceClient = () => createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
 );
 
-const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
-const RESEND_FROM_EMAIL = Deno.env.get('RESEND_FROM_EMAIL');
-const RESEND_CONFIRM_FROM_EMAIL = Deno.env.get('RESEND_CONFIRM_FROM_EMAIL'); // Optional: separate sender for confirmations
-const RESEND_TEMPLATE_ID = Deno.env.get('RESEND_TEMPLATE_ID');
-const RESEND_CONFIRM_TEMPLATE_ID = Deno.env.get('RESEND_CONFIRM_TEMPLATE_ID');
+// Sender addresses; the RESEND_* names are still read for existing deployments
+const EMAIL_FROM = Deno.env.get('EMAIL_FROM') || Deno.env.get('RESEND_FROM_EMAIL');
+const EMAIL_CONFIRM_FROM = Deno.env.get('EMAIL_CONFIRM_FROM') || Deno.env.get('RESEND_CONFIRM_FROM_EMAIL'); // Optional: separate sender for confirmations
+const RESEND_WEBHOOK_SECRET = Deno.env.get('RESEND_WEBHOOK_SECRET'); // whsec_... from Resend → Webhooks; /email/webhook rejects everything without it
+const CALENDAR_REPLY_ADDRESS = Deno.env.get('CALENDAR_REPLY_ADDRESS'); // Optional: inbox forwarded to /email/inbound; calendar invites name it as organizer
+const INBOUND_EMAIL_SECRET = Deno.env.get('INBOUND_EMAIL_SECRET'); // ?secret= on /email/inbound; it rejects everything without it
 const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://bookerbooker.com';
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 // Functions base used for RSVP links so they hit the Edge Function directly (avoids SPA 404)
@@ -38,13 +139,9 @@ const FUNCTION_BASE_URL = Deno.env.get('FUNCTION_BASE_URL') ||
   (SUPABASE_URL ? `${SUPABASE_URL}/functions/v1/make-server-37f8437f` : `${APP_BASE_URL}/make-server-37f8437f`);
 const RSVP_SECRET = Deno.env.get('RSVP_SECRET') || 'dev-secret-change-me';
 const DEFAULT_AUTO_PROMOTE_MINUTES = 30;
+const DEFAULT_EXPIRY_NUDGE_MINUTES = 10;
+const DEFAULT_TENTATIVE_HOLD_MINUTES = 60;
 
-// Twilio SMS configuration
-// Uses API Key authentication (API Key SID + API Secret)
-const TWILIO_ACCOUNT_SID = Deno.env.get('TWILIO_ACCOUNT_SID');
-const TWILIO_API_KEY = Deno.env.get('TWILIO_API_KEY');
-const TWILIO_API_SECRET = Deno.env.get('TWILIO_API_SECRET');
-const TWILIO_PHONE_NUMBER = Deno.env.get('TWILIO_PHONE_NUMBER');
 
 type InviteePayload = {
   email: string;
@@ -62,15 +159,23 @@ type EventEmailPayload = {
   notes?: string;
   confirmUrl?: string;
   declineUrl?: string;
+  tentativeUrl?: string; // "Maybe" link; omitted where a maybe makes no sense
+  withdrawUrl?: string; // "Can't make it anymore" link (confirm variant only)
   orgName?: string;
-  icsContent?: string;
+  icsAttachments?: EmailAttachment[]; // Calendar invites, see buildIcsAttachment
+  changeSummary?: string; // Human-readable list of what changed (update variant only)
+  leadTime?: string; // How far off the event is, e.g. "1 hour" (reminder variant only)
+  fromName?: string; // Invitee who sent the message (note variant only)
+  eventId?: string; // Links the outbox row to the event
+  icsInviteeId?: string; // Invitee whose calendar invite this carries; ics_sent_at is set once it is sent
+  reminderId?: string; // event_reminders row this email sends
 };
 
-type EmailAttachment = {
-  filename: string;
-  content: string; // base64
-  path?: string;
-};
+// Which occurrences of a series an edit or cancellation applies to
+type RecurrenceScope = 'this' | 'following' | 'all';
+
+const parseRecurrenceScope = (value: string | undefined | null): RecurrenceScope =>
+  value === 'following' || value === 'all' ? value : 'this';
 
 // --- RSVP token helpers ---
 const textEncoder = new TextEncoder();
@@ -81,8 +186,6 @@ const padTime = (isoLike: string) => {
   return isoLike;
 };
 
-const formatIcsDate = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
-
 const toBase64 = (input: string) => {
   const bytes = textEncoder.encode(input);
   let binary = '';
@@ -92,49 +195,44 @@ const toBase64 = (input: string) => {
   return btoa(binary);
 };
 
-const buildIcs = (event: {
-  id: string;
-  title: string;
-  description?: string;
-  location?: string;
-  date: string;
-  time: string;
-  timeZone?: string;
-  durationMinutes?: number;
-  organizerEmail: string;
-  attendeeEmail?: string;
-}) => {
-  // Format date/time as local time (no Z suffix) so calendar apps interpret in the given timezone
-  const localDateTime = `${event.date.replace(/-/g, '')}T${padTime(event.time).replace(/:/g, '')}`;
-  const duration = event.durationMinutes ?? 60;
-  const startDate = new Date(`${event.date}T${padTime(event.time)}`);
-  const endDate = new Date(startDate.getTime() + duration * 60_000);
-  const endDateTime = `${endDate.getFullYear()}${String(endDate.getMonth() + 1).padStart(2, '0')}${String(endDate.getDate()).padStart(2, '0')}T${String(endDate.getHours()).padStart(2, '0')}${String(endDate.getMinutes()).padStart(2, '0')}${String(endDate.getSeconds()).padStart(2, '0')}`;
-  const dtStamp = formatIcsDate(new Date().toISOString());
-  const uid = `${event.id}@bookerbooker.com`;
-  const tzid = event.timeZone || 'UTC';
-
-  const lines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Booker//EN',
-    'METHOD:PUBLISH',
-    'BEGIN:VEVENT',
-    `UID:${uid}`,
-    `DTSTAMP:${dtStamp}`,
-    `DTSTART;TZID=${tzid}:${localDateTime}`,
-    `DTEND;TZID=${tzid}:${endDateTime}`,
-    `SUMMARY:${event.title}`,
-    `DESCRIPTION:${event.description || ''}`,
-    `LOCATION:${event.location || ''}`,
-    `ORGANIZER:mailto:${event.organizerEmail}`,
-    event.attendeeEmail ? `ATTENDEE;CN=${event.attendeeEmail}:mailto:${event.attendeeEmail}` : '',
-    'END:VEVENT',
-    'END:VCALENDAR',
-  ].filter(Boolean).join('\r\n');
-
-  const content = toBase64(lines);
-  return { filename: 'event.ics', content } as EmailAttachment;
+// The calendar entry for an events row as one recipient sees it (see src/lib/icalendar.ts)
+const toIcsEvent = (
+  event: any,
+  organizer: { email?: string; name?: string },
+  attendee?: { email: string; name?: string; status: string },
+): IcsEvent => ({
+  uid: icsUid(event.id),
+  sequence: event.ics_sequence ?? 0,
+  title: event.title,
+  description: event.description || undefined,
+  location: event.location || undefined,
+  date: event.date,
+  time: event.time,
+  timeZone: event.time_zone || undefined,
+  durationMinutes: event.duration_minutes ?? undefined,
+  // With a reply address, "Yes"/"No" in the invitee's calendar app comes back to /email/inbound
+  organizer: { email: (attendee && CALENDAR_REPLY_ADDRESS) || organizer.email || '', name: organizer.name },
+  attendees: attendee ? [{ email: attendee.email, name: attendee.name, partstat: toPartstat(attendee.status) }] : [],
+  url: `${APP_BASE_URL}/events/${event.id}`,
+});
+
+// The method goes in the MIME type too, so mail clients offer Accept/Decline or remove the entry
+const buildIcsAttachment = (method: IcsMethod, event: IcsEvent, filename = 'event.ics'): EmailAttachment => ({
+  filename,
+  content: toBase64(buildICalendar(method, [event])),
+  contentType: `text/calendar; charset=utf-8; method=${method}`,
+});
+
+// Remember who has the event in their calendar, so a cancellation reaches them too
+const markIcsSent = async (supabase: any, inviteeIds: string[]) => {
+  if (inviteeIds.length === 0) return;
+  const { error } = await supabase
+    .from('event_invitees')
+    .update({ ics_sent_at: new Date().toISOString() })
+    .in('id', inviteeIds);
+  if (error) {
+    console.log('Error recording calendar invites:', error);
+  }
 };
 
 const base64UrlEncode = (bytes: Uint8Array) => {
@@ -156,7 +254,7 @@ const signData = async (data: string): Promise<string> => {
   return base64UrlEncode(new Uint8Array(sig));
 };
 
-const createRsvpToken = async (payload: { eventId: string; inviteeEmail: string; action: 'confirm' | 'decline'; exp: number; }) => {
+const createRsvpToken = async (payload: { eventId: string; inviteeEmail: string; action: RsvpAction; exp: number; }) => {
   const json = JSON.stringify(payload);
   const payloadB64 = base64UrlEncode(textEncoder.encode(json));
   const sig = await signData(payloadB64);
@@ -171,19 +269,27 @@ const verifyRsvpToken = async (token: string) => {
   const json = atob(payloadB64.replace(/-/g, '+').replace(/_/g, '/'));
   const payload = JSON.parse(json);
   if (!payload?.exp || Date.now() > payload.exp) return null;
-  return payload as { eventId: string; inviteeEmail: string; action: 'confirm' | 'decline'; exp: number; };
+  return payload as { eventId: string; inviteeEmail: string; action: RsvpAction; exp: number; };
 };
 
 const buildRsvpUrls = async (eventId: string, inviteeEmail: string) => {
   const exp = Date.now() + 1000 * 60 * 60 * 24 * 7; // 7 days
   const confirmToken = await createRsvpToken({ eventId, inviteeEmail, action: 'confirm', exp });
   const declineToken = await createRsvpToken({ eventId, inviteeEmail, action: 'decline', exp });
+  const tentativeToken = await createRsvpToken({ eventId, inviteeEmail, action: 'tentative', exp });
   return {
     confirmUrl: `${FUNCTION_BASE_URL}/rsvp?token=${confirmToken}`,
     declineUrl: `${FUNCTION_BASE_URL}/rsvp?token=${declineToken}`,
+    tentativeUrl: `${FUNCTION_BASE_URL}/rsvp?token=${tentativeToken}`,
   };
 };
 
+// "Can't make it anymore" link for the confirmation email; valid until the event starts
+const buildWithdrawUrl = async (eventId: string, inviteeEmail: string, startMs: number) => {
+  const token = await createRsvpToken({ eventId, inviteeEmail, action: 'withdraw', exp: startMs });
+  return `${FUNCTION_BASE_URL}/rsvp?token=${token}`;
+};
+
 const buildResultPage = (options: {
   title: string;
   detail: string;
@@ -235,41 +341,105 @@ const buildResultPage = (options: {
   </html>`;
 };
 
-// Rate limit helper: Resend free tier only allows 1 email/second
-// This helper adds a delay between consecutive emails
-const RESEND_RATE_LIMIT_MS = 1100; // 1.1 seconds to be safe
-let lastEmailSentAt = 0;
+// --- Email transport (see src/lib/email-transport.ts) ---
+
+// Plain TCP, TLS from the start, or upgraded with STARTTLS
+const wrapDenoConnection = (conn: Deno.Conn): SmtpConnection => {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const buffer = new Uint8Array(4096);
+  return {
+    async read() {
+      const n = await conn.read(buffer);
+      return n === null ? null : decoder.decode(buffer.subarray(0, n), { stream: true });
+    },
+    async write(data) {
+      const bytes = encoder.encode(data);
+      let written = 0;
+      while (written < bytes.length) {
+        written += await conn.write(bytes.subarray(written));
+      }
+    },
+    async startTls(hostname) {
+      return wrapDenoConnection(await Deno.startTls(conn as Deno.TcpConn, { hostname }));
+    },
+    close() {
+      try {
+        conn.close();
+      } catch {
+        // Already closed
+      }
+    },
+  };
+};
+
+const denoSmtpConnector: SmtpConnector = async ({ hostname, port, tls }) =>
+  wrapDenoConnection(tls ? await Deno.connectTls({ hostname, port }) : await Deno.connect({ hostname, port }));
 
-const waitForRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  const timeSinceLastEmail = now - lastEmailSentAt;
-  if (lastEmailSentAt > 0 && timeSinceLastEmail < RESEND_RATE_LIMIT_MS) {
-    const waitTime = RESEND_RATE_LIMIT_MS - timeSinceLastEmail;
-    console.log(`Rate limit: waiting ${waitTime}ms before sending next email`);
-    await new Promise(resolve => setTimeout(resolve, waitTime));
+const createEmailTransport = (): EmailTransport | null => {
+  const resolved = resolveEmailTransportConfig((name) => Deno.env.get(name));
+  if ('error' in resolved) {
+    console.log('Email disabled:', resolved.error);
+    return null;
+  }
+  const config = resolved.config;
+  if (!config) return null;
+  switch (config.kind) {
+    case 'resend':
+      return createResendTransport(config);
+    case 'smtp':
+      return createSmtpTransport(config, denoSmtpConnector);
+    case 'capture':
+      return createCaptureTransport({
+        persist: config.file
+          ? (message) => Deno.writeTextFile(config.file!, `${JSON.stringify(message)}\n`, { append: true })
+          : undefined,
+      });
   }
-  lastEmailSentAt = Date.now();
 };
 
+const emailTransport = createEmailTransport();
+// Sends wait for the transport's own rate limit (e.g. Resend free tier: 1 email/second)
+const sendEmail = emailTransport ? createRateLimitedSender(emailTransport) : null;
+
+// What an email is about; decides subject, wording and whether RSVP buttons are shown.
+// 'queue' (auto-promote summary) and 'note' (an invitee's SMS message) go to the
+// organizer, everything else to an invitee.
+type EmailVariant = 'invite' | 'confirm' | 'update' | 'reminder' | 'nudge' | 'expired' | 'queue' | 'note' | 'cancelled';
+
+// Invitee-written text (SMS notes) goes into email HTML escaped
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 const sendInviteEmail = async (
   invitee: InviteePayload,
   event: EventEmailPayload,
-  options?: { variant?: 'invite' | 'confirm' }
+  options?: { variant?: EmailVariant }
 ): Promise<boolean> => {
   const variant = options?.variant ?? 'invite';
-  if (!RESEND_API_KEY || !RESEND_FROM_EMAIL) {
-    console.log('Email not sent: RESEND_API_KEY or RESEND_FROM_EMAIL not configured');
+  if (!emailTransport || !EMAIL_FROM) {
+    console.log('Email not sent: no email transport or EMAIL_FROM configured');
     return false;
   }
 
-  // Wait for rate limit before sending
-  await waitForRateLimit();
-
   try {
-    const subject = variant === 'invite'
-      ? `You're invited: ${event.title}`
-      : `You're confirmed: ${event.title}`;
+    const subjects: Record<EmailVariant, string> = {
+      invite: `You're invited: ${event.title}`,
+      confirm: `You're confirmed: ${event.title}`,
+      update: `Updated: ${event.title}`,
+      reminder: `Reminder: ${event.title} starts in ${event.leadTime || 'soon'}`,
+      nudge: `Your invite to ${event.title} expires in ${event.leadTime || 'soon'}`,
+      expired: `Invite passed on: ${event.title}`,
+      queue: `Queue update: ${event.title}`,
+      note: `Message from ${event.fromName || 'an invitee'}: ${event.title}`,
+      cancelled: `Cancelled: ${event.title}`,
+    };
+    const subject = subjects[variant];
 
+    // Update emails only carry RSVP buttons when the invitee has to respond again
+    const showRsvpButtons = variant === 'invite' || variant === 'nudge' || (variant === 'update' && !!event.declineUrl);
+    // A cancelled event has no page left to view
+    const showViewButton = variant !== 'cancelled';
 
     const durationText = event.durationMinutes
       ? `${event.durationMinutes} minute${event.durationMinutes === 1 ? '' : 's'}`
@@ -289,44 +459,52 @@ const sendInviteEmail = async (
       event_notes: event.notes || '—',
       confirm_url: event.confirmUrl || 'https://bookerbooker.com/confirm',
       decline_url: event.declineUrl || 'https://bookerbooker.com/decline',
+      maybe_url: event.tentativeUrl || '',
+      withdraw_url: event.withdrawUrl || '',
       org_name: event.orgName || 'Booker',
+      change_summary: event.changeSummary || '',
+      lead_time: event.leadTime || 'soon',
+    };
+
+    const introText: Record<EmailVariant, string> = {
+      invite: `${templateVariables.host_name} invited you to ${templateVariables.event_title}.`,
+      confirm: `You're confirmed for ${templateVariables.event_title}.`,
+      update: `${templateVariables.host_name} updated ${templateVariables.event_title}.`,
+      reminder: `${templateVariables.event_title} starts in ${templateVariables.lead_time}.`,
+      nudge: `Your invitation to ${templateVariables.event_title} expires in ${templateVariables.lead_time}. If you can't make it, please decline so the spot goes to the next person.`,
+      expired: `Your invitation to ${templateVariables.event_title} expired without a reply, so it was passed to the next person in line. No action needed.`,
+      queue: `The invite queue for ${templateVariables.event_title} moved on.`,
+      note: `${event.fromName || 'An invitee'} texted about ${templateVariables.event_title}: "${templateVariables.change_summary}"`,
+      cancelled: `${templateVariables.host_name} cancelled ${templateVariables.event_title}. The attached calendar update removes it from your calendar.`,
     };
 
-    const bodyText = variant === 'invite'
-      ? [
-          `Hi ${templateVariables.invitee_name}`,
-          '',
-          `${templateVariables.host_name} invited you to ${templateVariables.event_title}.`,
-          `Date: ${templateVariables.event_date}`,
-          `Time: ${templateVariables.event_time} (${templateVariables.event_time_zone})`,
-          `Duration: ${templateVariables.event_duration}`,
-          `Location: ${templateVariables.event_location}`,
-          `Organizer: ${templateVariables.host_name}`,
-          `Notes: ${templateVariables.event_notes}`,
-          '',
-          'RSVP:',
-          `Confirm: ${templateVariables.confirm_url}`,
-          `Decline: ${templateVariables.decline_url}`,
-          '',
-          `Sent by ${templateVariables.org_name}`,
-        ].join('\n')
-      : [
-          `Hi ${templateVariables.invitee_name}`,
-          '',
-          `You're confirmed for ${templateVariables.event_title}.`,
-          `Date: ${templateVariables.event_date}`,
-          `Time: ${templateVariables.event_time} (${templateVariables.event_time_zone})`,
-          `Duration: ${templateVariables.event_duration}`,
-          `Location: ${templateVariables.event_location}`,
-          `Organizer: ${templateVariables.host_name}`,
-          `Notes: ${templateVariables.event_notes}`,
-          '',
-          `View: ${templateVariables.confirm_url}`,
-          '',
-          `Sent by ${templateVariables.org_name}`,
-        ].join('\n');
-
-    const buttonsHtml = variant === 'invite'
+    const bodyText = [
+      `Hi ${templateVariables.invitee_name}`,
+      '',
+      introText[variant],
+      ...(variant === 'update' && templateVariables.change_summary ? [`What changed: ${templateVariables.change_summary}`] : []),
+      ...((variant === 'queue' || variant === 'cancelled') && templateVariables.change_summary ? [templateVariables.change_summary] : []),
+      `Date: ${templateVariables.event_date}`,
+      `Time: ${templateVariables.event_time} (${templateVariables.event_time_zone})`,
+      `Duration: ${templateVariables.event_duration}`,
+      `Location: ${templateVariables.event_location}`,
+      `Organizer: ${templateVariables.host_name}`,
+      `Notes: ${templateVariables.event_notes}`,
+      '',
+      ...(showRsvpButtons
+        ? [
+            variant === 'update' ? 'Please RSVP again:' : 'RSVP:',
+            `Confirm: ${templateVariables.confirm_url}`,
+            `Decline: ${templateVariables.decline_url}`,
+            ...(templateVariables.maybe_url ? [`Maybe: ${templateVariables.maybe_url}`] : []),
+          ]
+        : showViewButton ? [`View: ${templateVariables.confirm_url}`] : []),
+      ...(templateVariables.withdraw_url ? [`Can't make it anymore? Withdraw: ${templateVariables.withdraw_url}`] : []),
+      '',
+      `Sent by ${templateVariables.org_name}`,
+    ].join('\n');
+
+    const buttonsHtml = showRsvpButtons
       ? `
         <p style="margin:0 0 10px 0; font-weight:600;">Quick RSVP</p>
         <table role="presentation" cellspacing="0" cellpadding="0" style="border-collapse:separate; border-spacing:0 10px; margin:0 0 12px 0;">
@@ -340,21 +518,49 @@ const sendInviteEmail = async (
               <a href="${templateVariables.decline_url}" style="display:block; padding:12px 16px; background:#dc2626; color:#ffffff; text-decoration:none; border-radius:10px; font-weight:700; text-align:center;">Decline</a>
             </td>
           </tr>
+          ${templateVariables.maybe_url ? `
+          <tr>
+            <td>
+              <a href="${templateVariables.maybe_url}" style="display:block; padding:12px 16px; background:#d97706; color:#ffffff; text-decoration:none; border-radius:10px; font-weight:700; text-align:center;">Maybe</a>
+            </td>
+          </tr>` : ''}
         </table>
       `
-      : `
+      : showViewButton ? `
         <div style="margin:0 0 14px 0;">
           <a href="${templateVariables.confirm_url}" style="display:inline-block; padding:12px 16px; background:#4f46e5; color:#ffffff; text-decoration:none; border-radius:10px; font-weight:700; text-align:center;">View event</a>
         </div>
-      `;
-
-    const inviteeGreeting = variant === 'invite'
-      ? `${templateVariables.host_name} invited you to <strong>${templateVariables.event_title}</strong>.`
-      : `You are confirmed for <strong>${templateVariables.event_title}</strong>.`;
+      ` : '';
+
+    const greetings: Record<EmailVariant, string> = {
+      invite: `${templateVariables.host_name} invited you to <strong>${templateVariables.event_title}</strong>.`,
+      confirm: `You are confirmed for <strong>${templateVariables.event_title}</strong>.`,
+      update: `${templateVariables.host_name} updated <strong>${templateVariables.event_title}</strong>.${templateVariables.change_summary ? `<br />What changed: ${templateVariables.change_summary}` : ''}`,
+      reminder: `<strong>${templateVariables.event_title}</strong> starts in ${templateVariables.lead_time}.`,
+      nudge: `Your invitation to <strong>${templateVariables.event_title}</strong> expires in ${templateVariables.lead_time}. If you can't make it, please decline so the spot goes to the next person.`,
+      expired: `Your invitation to <strong>${templateVariables.event_title}</strong> expired without a reply, so it was passed to the next person in line. No action needed.`,
+      queue: `The invite queue for <strong>${templateVariables.event_title}</strong> moved on.${templateVariables.change_summary ? `<br />${templateVariables.change_summary}` : ''}`,
+      note: `${escapeHtml(event.fromName || 'An invitee')} texted about <strong>${templateVariables.event_title}</strong>:<br />&ldquo;${escapeHtml(templateVariables.change_summary)}&rdquo;`,
+      cancelled: `${templateVariables.host_name} cancelled <strong>${templateVariables.event_title}</strong>. The attached calendar update removes it from your calendar.${templateVariables.change_summary ? `<br />${templateVariables.change_summary}` : ''}`,
+    };
+    const inviteeGreeting = greetings[variant];
+
+    const headings: Record<EmailVariant, string> = {
+      invite: "You're invited",
+      confirm: "You're confirmed",
+      update: 'Event updated',
+      reminder: 'Reminder',
+      nudge: 'Your invite expires soon',
+      expired: 'Invite passed on',
+      queue: 'Queue update',
+      note: 'Message from an invitee',
+      cancelled: 'Event cancelled',
+    };
+    const heading = headings[variant];
 
     const bodyHtml = `
       <div style="font-family:Arial,Helvetica,sans-serif;max-width:520px; color:#0f172a;">
-        <h2 style="margin:0 0 12px 0;">${variant === 'invite' ? "You're invited" : "You're confirmed"}: ${templateVariables.event_title}</h2>
+        <h2 style="margin:0 0 12px 0;">${heading}: ${templateVariables.event_title}</h2>
         <p style="margin:0 0 12px 0;">Hi ${templateVariables.invitee_name},</p>
         <p style="margin:0 0 14px 0;">${inviteeGreeting}</p>
         ${buttonsHtml}
@@ -367,31 +573,20 @@ const sendInviteEmail = async (
           <li><strong>Organizer:</strong> ${templateVariables.host_name}</li>
         </ul>
         <p style="margin:0 0 16px 0;">Notes: ${templateVariables.event_notes}</p>
-        <p style="margin:0; font-size:12px; color:#475569;">${variant === 'invite'
-          ? `If you do not see the buttons, copy these links:<br />Confirm: ${templateVariables.confirm_url}<br />Decline: ${templateVariables.decline_url}`
-          : `If the button does not work, open: ${templateVariables.confirm_url}`}</p>
+        ${templateVariables.withdraw_url ? `<p style="margin:0 0 16px 0;">Can't make it anymore? <a href="${templateVariables.withdraw_url}">Withdraw</a> so the spot goes to someone else.</p>` : ''}
+        <p style="margin:0; font-size:12px; color:#475569;">${showRsvpButtons
+          ? `If you do not see the buttons, copy these links:<br />Confirm: ${templateVariables.confirm_url}<br />Decline: ${templateVariables.decline_url}${templateVariables.maybe_url ? `<br />Maybe: ${templateVariables.maybe_url}` : ''}`
+          : showViewButton ? `If the button does not work, open: ${templateVariables.confirm_url}` : ''}</p>
       </div>`;
 
-    const attachments: EmailAttachment[] = [];
-    if (event.icsContent) {
-      attachments.push({ filename: 'event.ics', content: event.icsContent });
-    }
+    const attachments: EmailAttachment[] = [...(event.icsAttachments ?? [])];
 
     // Use different sender for confirmation emails if configured
-    const fromEmail = (variant === 'confirm' && RESEND_CONFIRM_FROM_EMAIL)
-      ? RESEND_CONFIRM_FROM_EMAIL
-      : RESEND_FROM_EMAIL;
-
-    const payload: Record<string, unknown> = {
-      from: fromEmail,
-      to: [invitee.email],
-      subject,
-      text: bodyText,
-      html: bodyHtml,
-      attachments: attachments.length ? attachments : undefined,
-    };
+    const fromEmail = (variant === 'confirm' && EMAIL_CONFIRM_FROM)
+      ? EMAIL_CONFIRM_FROM
+      : EMAIL_FROM;
 
-    console.log('Sending via Resend', {
+    console.log(`Queueing email via ${emailTransport.name}`, {
       to: invitee.email,
       from: fromEmail,
       subject,
@@ -399,34 +594,236 @@ const sendInviteEmail = async (
       hasIcs: attachments.length > 0,
     });
 
-    const res = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify(payload),
+    return await queueNotification({
+      eventId: event.eventId,
+      kind: variant,
+      channel: 'email',
+      recipient: invitee.email,
+      payload: { from: fromEmail, subject, text: bodyText, html: bodyHtml, attachments },
+      icsInviteeId: event.icsInviteeId,
+      reminderId: event.reminderId,
     });
+  } catch (error) {
+    console.log('Error sending invite email:', error);
+    return false;
+  }
+};
 
-    if (!res.ok) {
-      const errText = await res.text();
-      console.log('Resend email failed:', res.status, res.statusText, errText);
-      return false;
-    }
+// --- SMS Functions (see src/lib/sms-transport.ts) ---
+
+const createSmsTransport = (): SmsTransport | null => {
+  const resolved = resolveSmsTransportConfig((name) => Deno.env.get(name));
+  if ('error' in resolved) {
+    console.log('SMS disabled:', resolved.error);
+    return null;
+  }
+  const config = resolved.config;
+  if (!config) return null;
+  switch (config.kind) {
+    // Delivery receipts come back to the inbound webhook (see /sms/webhook)
+    case 'twilio':
+      return createTwilioTransport({ ...config, statusCallbackUrl: `${FUNCTION_BASE_URL}/sms/webhook` });
+    case 'telnyx':
+      return createTelnyxTransport({ ...config, webhookUrl: `${FUNCTION_BASE_URL}/sms/webhook` });
+    case 'fake':
+      return createFakeSmsTransport({
+        persist: config.file
+          ? (message) => Deno.writeTextFile(config.file!, `${JSON.stringify(message)}\n`, { append: true })
+          : undefined,
+      });
+  }
+};
+
+const smsTransport = createSmsTransport();
+
+// --- Notification outbox (see src/lib/notification-outbox.ts) ---
+
+// How long a claimed send has before another worker may retry it
+const NOTIFICATION_LEASE_SECONDS = 300;
 
-    console.log('Resend email sent to invitee:', invitee.email);
-    return true;
+type NotificationRow = {
+  id: string;
+  kind: string;
+  channel: 'email' | 'sms';
+  recipient: string;
+  payload: any;
+  attempts: number;
+  max_attempts: number;
+  ics_invitee_id: string | null;
+  reminder_id: string | null;
+};
+
+// Why a text to this phone must not go out (it replied STOP, or the lookup failed and is retried), or null
+const checkSmsSuppression = async (supabase: any, phone: string) => {
+  const lookup = await supabase.rpc('sms_is_suppressed', { p_phone: phone });
+  if (lookup.error) {
+    console.log('Error checking SMS suppression list:', lookup.error);
+  }
+  return smsSuppressionFailure(lookup);
+};
+
+/**
+ * Send one claimed outbox row and record the outcome: sent, queued for a retry
+ * with backoff, or failed for good. Only an accepted send marks the invitee's
+ * calendar invite and the reminder as sent. Returns whether the provider
+ * accepted it.
+ */
+const deliverNotification = async (supabase: any, row: NotificationRow): Promise<boolean> => {
+  let result: { ok: boolean; id?: string; error?: string; permanent?: boolean };
+  try {
+    if (row.channel === 'email') {
+      result = sendEmail
+        ? await sendEmail({ ...row.payload, to: [row.recipient] })
+        : { ok: false, error: 'No email transport configured' };
+    } else {
+      // Checked before every send, retries included; answers to a text the person just sent still go out
+      const suppressed = row.kind === 'reply' ? null : await checkSmsSuppression(supabase, row.recipient);
+      result = suppressed ?? (smsTransport
+        ? await smsTransport.send(row.recipient, row.payload.body)
+        : { ok: false, error: 'No SMS provider configured' });
+    }
   } catch (error) {
-    console.log('Error sending invite email:', error);
+    result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const now = new Date();
+  const outcome = planNotificationOutcome(result, row.attempts, row.max_attempts, now);
+  const { error: updateError } = await supabase
+    .from('notifications')
+    .update({
+      status: outcome.status,
+      provider: row.channel === 'email' ? emailTransport?.name : smsTransport?.name,
+      provider_message_id: result.id ?? null,
+      sent_at: outcome.status === 'sent' ? now.toISOString() : null,
+      last_error: outcome.status === 'sent' ? null : outcome.error,
+      ...(outcome.status === 'queued' ? { next_attempt_at: outcome.nextAttemptAt } : {}),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', row.id);
+  if (updateError) {
+    console.log('Error recording notification outcome:', { id: row.id, error: updateError });
+  }
+
+  if (result.ok && row.ics_invitee_id) {
+    await markIcsSent(supabase, [row.ics_invitee_id]);
+  }
+  // A failed reminder is retried by /cron/reminders (claimReminder)
+  if (row.reminder_id && outcome.status !== 'queued') {
+    const { error: reminderError } = await supabase
+      .from('event_reminders')
+      .update({
+        status: outcome.status === 'sent' ? 'sent' : 'failed',
+        sent_at: outcome.status === 'sent' ? now.toISOString() : null,
+        last_error: outcome.status === 'sent' ? null : outcome.error,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', row.reminder_id)
+      .eq('status', 'sending');
+    if (reminderError) {
+      console.log('Error recording reminder outcome:', { id: row.reminder_id, error: reminderError });
+    }
+  }
+
+  if (!result.ok) {
+    console.log(`📭 [OUTBOX] ${row.channel} to ${row.recipient} ${outcome.status === 'failed' ? 'failed for good' : 'will be retried'}:`, result.error);
+  }
+  return result.ok;
+};
+
+/**
+ * Add an email or SMS to the outbox and try to send it right away. Returns
+ * whether it was queued, not whether it was sent: failed sends are retried by
+ * /cron/notifications, and deliverNotification settles `icsInviteeId` and
+ * `reminderId` once the provider accepts the message.
+ */
+const queueNotification = async (notification: {
+  eventId?: string;
+  kind: string;
+  channel: 'email' | 'sms';
+  recipient: string;
+  payload: Record<string, unknown>;
+  icsInviteeId?: string;
+  reminderId?: string;
+}): Promise<boolean> => {
+  const supabase = getServiceClient();
+  // Inserted already claimed by this request, so a worker only picks it up if the send never finishes
+  const { data: row, error } = await supabase
+    .from('notifications')
+    .insert({
+      event_id: notification.eventId ?? null,
+      kind: notification.kind,
+      channel: notification.channel,
+      recipient: notification.recipient,
+      payload: notification.payload,
+      ics_invitee_id: notification.icsInviteeId ?? null,
+      reminder_id: notification.reminderId ?? null,
+      status: 'sending',
+      attempts: 1,
+      next_attempt_at: new Date(Date.now() + NOTIFICATION_LEASE_SECONDS * 1000).toISOString(),
+    })
+    .select('id, kind, channel, recipient, payload, attempts, max_attempts, ics_invitee_id, reminder_id')
+    .single();
+
+  if (error || !row) {
+    console.log('Error queueing notification:', error);
+    return false;
+  }
+
+  await deliverNotification(supabase, row);
+  return true;
+};
+
+/**
+ * Apply a provider's delivery report to its outbox row and the contacts with
+ * that address (record_delivery_report follows src/lib/delivery-reports.ts).
+ */
+const applyDeliveryReport = async (provider: string, report: DeliveryReport): Promise<void> => {
+  const { data, error } = await getServiceClient().rpc('record_delivery_report', {
+    p_provider: provider,
+    p_message_id: report.messageId,
+    p_state: report.state,
+    p_permanent: report.permanent,
+    p_error: report.error ?? null,
+    p_failure_threshold: UNDELIVERABLE_AFTER_FAILURES,
+  });
+  if (error) {
+    console.log('Error recording delivery report:', { provider, report, error });
+    return;
+  }
+  if (!data?.matched) {
+    console.log('Delivery report for an unknown message:', { provider, messageId: report.messageId });
+  } else if (data.marked_undeliverable > 0) {
+    console.log(`📭 [DELIVERY] ${provider} message ${report.messageId}: address marked undeliverable (${report.error ?? report.state})`);
+  }
+};
+
+/**
+ * Record that a webhook was handled. Returns false if it already was (a
+ * replay or a provider retry); if the insert fails for another reason the
+ * webhook is handled anyway rather than dropped.
+ */
+const claimWebhook = async (provider: string, key: string): Promise<boolean> => {
+  const { error } = await getServiceClient()
+    .from('webhook_receipts')
+    .insert({ provider, key });
+  if (!error) return true;
+  if (error.code === '23505') {
+    console.log('Ignoring replayed webhook:', { provider, key });
     return false;
   }
+  console.log('Error recording webhook receipt:', { provider, key, error });
+  return true;
 };
 
-// --- SMS Functions (Twilio) ---
+// Header names are lowercase in Headers iteration, as the signature checks expect
+const webhookHeaders = (req: Request): Record<string, string> => Object.fromEntries(req.headers);
 
 interface SmsPayload {
   to: string;      // Phone number in E.164 format (+1XXXXXXXXXX)
   message: string; // SMS body (keep under 160 chars for single segment)
+  eventId?: string; // Links the outbox row to the event
+  kind?: string;    // What the message is about (invite, confirm, reminder, ...)
+  reminderId?: string; // event_reminders row this text sends
 }
 
 /**
@@ -472,118 +869,61 @@ const removeEmojis = (text: string): string => {
 };
 
 /**
- * Send SMS via Twilio using API Key authentication
+ * Queue an SMS in the outbox and send it through the configured provider
  */
 const sendSms = async (payload: SmsPayload): Promise<boolean> => {
   // Remove emojis to keep SMS costs low (GSM encoding = 160 chars vs Unicode = 70 chars)
   const cleanMessage = removeEmojis(payload.message);
   
   console.log('📱 [SMS] Attempting to send SMS...', {
+    provider: smsTransport?.name ?? 'NOT SET',
     to: payload.to,
     originalLength: payload.message.length,
     cleanedLength: cleanMessage.length,
     messagePreview: cleanMessage.substring(0, 50) + '...',
   });
 
-  // Log credential status (not the actual values for security)
-  console.log('📱 [SMS] Credential check:', {
-    hasAccountSid: !!TWILIO_ACCOUNT_SID,
-    hasApiKey: !!TWILIO_API_KEY,
-    hasApiSecret: !!TWILIO_API_SECRET,
-    hasPhoneNumber: !!TWILIO_PHONE_NUMBER,
-    fromNumber: TWILIO_PHONE_NUMBER ? TWILIO_PHONE_NUMBER.substring(0, 5) + '***' : 'NOT SET',
-  });
-
-  if (!TWILIO_ACCOUNT_SID || !TWILIO_API_KEY || !TWILIO_API_SECRET || !TWILIO_PHONE_NUMBER) {
-    console.log('❌ [SMS] SMS not sent: Twilio credentials not configured');
-    return false;
-  }
-
-  try {
-    const url = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`;
-    // Use API Key + API Secret for Basic Auth (not Account SID + Auth Token)
-    const auth = btoa(`${TWILIO_API_KEY}:${TWILIO_API_SECRET}`);
-
-    const formData = new URLSearchParams();
-    formData.append('To', payload.to);
-    formData.append('From', TWILIO_PHONE_NUMBER);
-    formData.append('Body', cleanMessage);
-
-    console.log('📱 [SMS] Sending request to Twilio...', {
-      url,
-      to: payload.to,
-      from: TWILIO_PHONE_NUMBER,
-    });
-
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData.toString(),
-    });
-
-    const responseText = await res.text();
-    console.log('📱 [SMS] Twilio response:', {
-      status: res.status,
-      statusText: res.statusText,
-      body: responseText,
-    });
-
-    if (!res.ok) {
-      console.log('❌ [SMS] Twilio SMS failed:', res.status, res.statusText, responseText);
-      return false;
-    }
-
-    const data = JSON.parse(responseText);
-    console.log('✅ [SMS] SMS sent successfully:', { sid: data.sid, to: payload.to, status: data.status });
-    return true;
-  } catch (error) {
-    console.log('❌ [SMS] Error sending SMS:', error);
+  if (!smsTransport) {
+    console.log('❌ [SMS] SMS not sent: no SMS provider configured');
     return false;
   }
-};
-
-// SMS Template helpers
-const formatDateForSms = (dateStr: string): string => {
-  // Parse date string directly to avoid timezone issues
-  // dateStr is in YYYY-MM-DD format
-  const [year, month, day] = dateStr.split('-').map(Number);
-  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  
-  // Create date at noon to avoid any timezone edge cases
-  const date = new Date(year, month - 1, day, 12, 0, 0);
-  const weekday = weekdays[date.getDay()];
-  const monthName = months[month - 1];
-  
-  return `${weekday}, ${monthName} ${day}`;
-};
 
-const formatTimeForSms = (timeStr: string): string => {
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  const period = hours >= 12 ? 'PM' : 'AM';
-  const hour12 = hours % 12 || 12;
-  return `${hour12}:${minutes.toString().padStart(2, '0')} ${period}`;
+  return await queueNotification({
+    eventId: payload.eventId,
+    kind: payload.kind ?? 'sms',
+    channel: 'sms',
+    recipient: payload.to,
+    payload: { body: cleanMessage },
+    reminderId: payload.reminderId,
+  });
 };
 
+// SMS Template helpers (dates and times via src/lib/sms-templates.ts)
 interface EventSmsData {
   eventId: string;
   eventTitle: string;
   eventDate: string;
   eventTime: string;
+  timeZone?: string | null; // The event's zone; times are shown with its abbreviation
   location?: string;
   organizerName: string;
   inviteeName?: string;
+  replyCode?: string; // Set by the send helpers below from the invitee's sms_code
 }
 
+// Date and time as the src/lib/sms-templates.ts templates expect them ("Tue, Jan 20", "6:00 PM EST")
+const formatSmsData = (data: EventSmsData): EventSmsData => ({
+  ...data,
+  eventDate: formatDateForSms(data.eventDate),
+  eventTime: formatTimeForSms(data.eventTime, data.eventDate, data.timeZone),
+});
+
 /**
  * Get invitation SMS message
  */
 const getInvitationSmsMessage = (data: EventSmsData): string => {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `${data.organizerName} invited you to "${data.eventTitle}" on ${formatDateForSms(data.eventDate)} at ${formatTimeForSms(data.eventTime)}${locationPart}. Reply Y to confirm, N to decline.`;
+  return `${data.organizerName} invited you to "${data.eventTitle}" on ${formatDateForSms(data.eventDate)} at ${formatTimeForSms(data.eventTime, data.eventDate, data.timeZone)}${locationPart}. ${getReplyInstructions(data.replyCode)}`;
 };
 
 /**
@@ -591,14 +931,14 @@ const getInvitationSmsMessage = (data: EventSmsData): string => {
  */
 const getInviteeConfirmationSmsMessage = (data: EventSmsData): string => {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `Confirmed! "${data.eventTitle}" on ${formatDateForSms(data.eventDate)} at ${formatTimeForSms(data.eventTime)}${locationPart}. See you there!`;
+  return `Confirmed! "${data.eventTitle}" on ${formatDateForSms(data.eventDate)} at ${formatTimeForSms(data.eventTime, data.eventDate, data.timeZone)}${locationPart}. See you there!`;
 };
 
 /**
  * Get confirmation SMS for organizer
  */
 const getOrganizerConfirmationSmsMessage = (data: EventSmsData): string => {
-  return `${data.inviteeName || 'Someone'} confirmed for "${data.eventTitle}" on ${formatDateForSms(data.eventDate)} at ${formatTimeForSms(data.eventTime)}.`;
+  return `${data.inviteeName || 'Someone'} confirmed for "${data.eventTitle}" on ${formatDateForSms(data.eventDate)} at ${formatTimeForSms(data.eventTime, data.eventDate, data.timeZone)}.`;
 };
 
 /**
@@ -611,17 +951,17 @@ const getOrganizerDeclineSmsMessage = (data: EventSmsData): string => {
 /**
  * Get reminder SMS for invitee
  */
-const getInviteeReminderSmsMessage = (data: EventSmsData): string => {
+const getInviteeReminderSmsMessage = (data: EventSmsData, leadTime: string = '1 hour'): string => {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `Reminder: "${data.eventTitle}" starts in 1 hour (${formatTimeForSms(data.eventTime)})${locationPart}. See you soon!`;
+  return `Reminder: "${data.eventTitle}" starts in ${leadTime} (${formatTimeForSms(data.eventTime, data.eventDate, data.timeZone)})${locationPart}. See you soon!`;
 };
 
 /**
  * Get reminder SMS for organizer
  */
-const getOrganizerReminderSmsMessage = (data: EventSmsData): string => {
+const getOrganizerReminderSmsMessage = (data: EventSmsData, leadTime: string = '1 hour'): string => {
   const locationPart = data.location ? ` at ${data.location}` : '';
-  return `Reminder: Your event "${data.eventTitle}" starts in 1 hour (${formatTimeForSms(data.eventTime)})${locationPart}.`;
+  return `Reminder: Your event "${data.eventTitle}" starts in ${leadTime} (${formatTimeForSms(data.eventTime, data.eventDate, data.timeZone)})${locationPart}.`;
 };
 
 /**
@@ -631,15 +971,69 @@ const getEventFullSmsMessage = (data: EventSmsData): string => {
   return `"${data.eventTitle}" on ${formatDateForSms(data.eventDate)} is now full. Thanks for your interest!`;
 };
 
+// Phone numbers compare by their digits, without a leading US/Canada 1
+const normalizePhoneForComparison = (phone: string | null | undefined): string => {
+  if (!phone) return '';
+  const digitsOnly = phone.replace(/\D/g, '');
+  if (digitsOnly.length === 11 && digitsOnly.startsWith('1')) {
+    return digitsOnly.substring(1);
+  }
+  return digitsOnly;
+};
+
+/**
+ * The invitation's reply code, assigning one that none of the same number's
+ * other open invitations (nor `avoid`) uses. Two invitations texted to one
+ * number at the same moment may still draw the same code; a reply with it
+ * then gets the "which event?" menu, which hands out fresh codes.
+ */
+const assignReplyCode = async (inviteeId: string, phone: string, avoid: string[] = []): Promise<string | undefined> => {
+  const supabase = getServiceClient();
+  const { data: invitee } = await supabase
+    .from('event_invitees')
+    .select('sms_code')
+    .eq('id', inviteeId)
+    .single();
+  if (invitee?.sms_code && !avoid.includes(invitee.sms_code)) return invitee.sms_code;
+
+  const phoneKey = normalizePhoneForComparison(phone);
+  const { data: open, error } = await supabase
+    .from('event_invitees')
+    .select('id, sms_code, contact:contacts!inner (phone)')
+    .in('status', ['invited', 'pending', 'tentative'])
+    .not('sms_code', 'is', null)
+    .like('contact.phone', `%${phoneKey.slice(-4)}`);
+  if (error) {
+    console.log('Error loading reply codes:', error);
+    return undefined;
+  }
+
+  const taken = (open || [])
+    .filter((inv: any) => inv.id !== inviteeId && normalizePhoneForComparison(inv.contact?.phone) === phoneKey)
+    .map((inv: any) => inv.sms_code as string);
+  const code = generateReplyCode([...taken, ...avoid]);
+  const { error: updateError } = await supabase
+    .from('event_invitees')
+    .update({ sms_code: code })
+    .eq('id', inviteeId);
+  if (updateError) {
+    console.log('Error saving reply code:', updateError);
+    return undefined;
+  }
+  return code;
+};
+
 /**
  * Send invitation SMS to invitee
  */
 const sendInvitationSms = async (
   phone: string,
-  eventData: EventSmsData
+  eventData: EventSmsData,
+  inviteeId?: string
 ): Promise<boolean> => {
-  const message = getInvitationSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  const replyCode = inviteeId ? await assignReplyCode(inviteeId, phone) : undefined;
+  const message = getInvitationSmsMessage({ ...eventData, replyCode });
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'invite' });
 };
 
 /**
@@ -650,7 +1044,7 @@ const sendInviteeConfirmationSms = async (
   eventData: EventSmsData
 ): Promise<boolean> => {
   const message = getInviteeConfirmationSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'confirm' });
 };
 
 /**
@@ -661,7 +1055,7 @@ const sendOrganizerConfirmationSms = async (
   eventData: EventSmsData
 ): Promise<boolean> => {
   const message = getOrganizerConfirmationSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'organizer-confirm' });
 };
 
 /**
@@ -672,7 +1066,7 @@ const sendOrganizerDeclineSms = async (
   eventData: EventSmsData
 ): Promise<boolean> => {
   const message = getOrganizerDeclineSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'organizer-decline' });
 };
 
 /**
@@ -680,10 +1074,12 @@ const sendOrganizerDeclineSms = async (
  */
 const sendInviteeReminderSms = async (
   phone: string,
-  eventData: EventSmsData
+  eventData: EventSmsData,
+  leadTime?: string,
+  reminderId?: string
 ): Promise<boolean> => {
-  const message = getInviteeReminderSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  const message = getInviteeReminderSmsMessage(eventData, leadTime);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'reminder', reminderId });
 };
 
 /**
@@ -691,10 +1087,12 @@ const sendInviteeReminderSms = async (
  */
 const sendOrganizerReminderSms = async (
   phone: string,
-  eventData: EventSmsData
+  eventData: EventSmsData,
+  leadTime?: string,
+  reminderId?: string
 ): Promise<boolean> => {
-  const message = getOrganizerReminderSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  const message = getOrganizerReminderSmsMessage(eventData, leadTime);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'organizer-reminder', reminderId });
 };
 
 /**
@@ -705,335 +1103,662 @@ const sendEventFullSms = async (
   eventData: EventSmsData
 ): Promise<boolean> => {
   const message = getEventFullSmsMessage(eventData);
-  return sendSms({ to: phone, message });
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'event-full' });
 };
 
 /**
- * Parse Y/N reply from incoming SMS
+ * Send expiry nudge SMS to invitee
  */
-const parseReplyStatus = (message: string): 'accepted' | 'declined' | null => {
-  const normalized = message.trim().toUpperCase();
-  
-  // Accept variations of Yes
-  if (['Y', 'YES', 'YEP', 'YA', 'YEAH', 'YUP', 'CONFIRM', 'OK', 'OKAY', 'SURE'].includes(normalized)) {
-    return 'accepted';
-  }
-  
-  // Accept variations of No
-  if (['N', 'NO', 'NOPE', 'NAH', 'DECLINE', 'CANCEL', 'CANT', "CAN'T", 'CANNOT'].includes(normalized)) {
-    return 'declined';
-  }
-  
-  return null;
+const sendExpiryNudgeSms = async (
+  phone: string,
+  eventData: EventSmsData,
+  leadTime: string,
+  inviteeId?: string
+): Promise<boolean> => {
+  const replyCode = inviteeId ? await assignReplyCode(inviteeId, phone) : undefined;
+  const message = getExpiryNudgeSms(formatSmsData({ ...eventData, replyCode }), leadTime);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'nudge' });
 };
 
-// Helper function to get authenticated user
-async function getAuthenticatedUser(authHeader: string | null) {
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    console.log('Missing or invalid Authorization header');
-    return null;
-  }
-  
-  const accessToken = authHeader.split(' ')[1];
-  const supabase = getServiceClient();
+/**
+ * Send invite expired SMS to invitee
+ */
+const sendInviteExpiredSms = async (
+  phone: string,
+  eventData: EventSmsData
+): Promise<boolean> => {
+  const message = getInviteExpiredSms(formatSmsData(eventData));
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'expired' });
+};
 
-  try {
-    const { data, error } = await supabase.auth.getUser(accessToken);
-    if (error || !data?.user) {
-      console.log('Failed to validate user with Supabase auth', error?.message);
-      return null;
-    }
+/**
+ * Send queue summary SMS to organizer
+ */
+const sendOrganizerQueueSummarySms = async (
+  phone: string,
+  eventData: EventSmsData,
+  summary: { expired: string[]; promoted: string[] }
+): Promise<boolean> => {
+  const message = getOrganizerQueueSummarySms(formatSmsData(eventData), summary);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'queue' });
+};
 
-    const { user } = data;
-    console.log('User authenticated:', user.email);
-    return { user, accessToken };
-  } catch (err) {
-    console.log('Error validating user token:', err);
-    return null;
-  }
-}
+/**
+ * Pass an invitee's maybe/late/free-text message on to the organizer
+ */
+const sendOrganizerNoteSms = async (
+  phone: string,
+  eventData: EventSmsData,
+  note: string
+): Promise<boolean> => {
+  const message = getOrganizerNoteSms(eventData, note);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'organizer-note' });
+};
 
-// Health check endpoint
-app.get("/make-server-37f8437f/health", (c) => {
-  return c.json({ status: "ok" });
-});
+/**
+ * Tell the organizer someone who accepted can't make it anymore
+ */
+const sendOrganizerWithdrawSms = async (
+  phone: string,
+  eventData: EventSmsData,
+  promotedName?: string
+): Promise<boolean> => {
+  const message = getOrganizerWithdrawSms(eventData, promotedName);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'organizer-withdraw' });
+};
 
-// RSVP endpoint (GET /rsvp?token=...)
-app.get("/make-server-37f8437f/rsvp", async (c) => {
-  const token = c.req.query('token');
-  if (!token) {
-    return c.json({ error: 'Missing token' }, 400);
-  }
+/**
+ * Send event updated SMS to invitee
+ */
+const sendEventUpdatedSms = async (
+  phone: string,
+  eventData: EventSmsData,
+  needsResponse: boolean,
+  inviteeId?: string
+): Promise<boolean> => {
+  const replyCode = needsResponse && inviteeId ? await assignReplyCode(inviteeId, phone) : undefined;
+  const message = getEventUpdatedSms(formatSmsData({ ...eventData, replyCode }), needsResponse);
+  return sendSms({ to: phone, message, eventId: eventData.eventId, kind: 'update' });
+};
 
-  const payload = await verifyRsvpToken(token);
-  if (!payload) {
-    return c.json({ error: 'Invalid or expired token' }, 400);
-  }
+// Event columns plus organizer and invitee queue, as listed on the dashboard
+const EVENT_LIST_SELECT = `
+  *,
+  organizer:users!events_organizer_id_fkey(id, email, name, avatar_url),
+  invitees:event_invitees (
+    status,
+    priority,
+    invited_at,
+    responded_at,
+    note,
+    note_at,
+    contact:contacts!event_invitees_contact_id_fkey (id, email, name, phone)
+  )
+`;
+
+// Transform an event row (selected with EVENT_LIST_SELECT) to match frontend expected format.
+// Invitee notes (SMS messages to the organizer) and other invitees' email and phone
+// are only included for the organizer; an invitee sees their own contact details.
+const formatEventForResponse = (event: any, viewer?: { id: string; email?: string }) => {
+  const isOrganizer = event.organizer_id === viewer?.id;
+  const viewerEmail = viewer?.email?.toLowerCase();
+  const showContact = (inv: any) => isOrganizer || (!!viewerEmail && inv.contact?.email?.toLowerCase() === viewerEmail);
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    date: event.date,
+    time: event.time,
+    location: event.location,
+    timeZone: event.time_zone,
+    durationMinutes: event.duration_minutes,
+    spots: event.spots ?? 1,
+    inviteMode: event.invite_mode || 'priority',
+    autoPromoteInterval: event.auto_promote_after_minutes ?? DEFAULT_AUTO_PROMOTE_MINUTES,
+    reminderOffsets: event.reminder_offsets ?? DEFAULT_REMINDER_OFFSETS,
+    expiryNudgeMinutes: event.expiry_nudge_minutes ?? DEFAULT_EXPIRY_NUDGE_MINUTES,
+    tentativeHoldMinutes: event.tentative_hold_minutes ?? DEFAULT_TENTATIVE_HOLD_MINUTES,
+    withdrawCutoffMinutes: event.withdraw_cutoff_minutes ?? 0,
+    organizer: {
+      email: event.organizer.email,
+      name: event.organizer.name,
+    },
+    invitees: (event.invitees || []).map((inv: any) => ({
+      email: showContact(inv) ? inv.contact?.email : undefined,
+      name: inv.contact?.name,
+      phone: showContact(inv) ? inv.contact?.phone : undefined,
+      priority: inv.priority,
+      status: inv.status,
+      invitedAt: inv.invited_at ?? undefined,
+      respondedAt: inv.responded_at ?? undefined,
+      ...(isOrganizer
+        ? { note: inv.note ?? undefined, noteAt: inv.note_at ?? undefined }
+        : {}),
+    })),
+    recurrence: event.recurrence ?? undefined,
+    seriesId: event.series_id ?? undefined,
+    occurrenceIndex: event.occurrence_index ?? undefined,
+    createdAt: event.created_at,
+  };
+};
 
-  const { eventId, inviteeEmail, action } = payload;
-  const supabase = getServiceClient();
+// Full event row with organizer and invitee queue, as needed to edit or cancel an event
+const EVENT_EDIT_SELECT = `
+  *,
+  organizer:users!events_organizer_id_fkey(id, email, name, phone),
+  invitees:event_invitees (
+    id,
+    status,
+    priority,
+    invited_at,
+    responded_at,
+    nudged_at,
+    contact:contacts!event_invitees_contact_id_fkey (id, email, name, phone, email_undeliverable_at, phone_undeliverable_at, sms_opted_out_at)
+  )
+`;
+
+// Queue entry for the shared RSVP rules, keeping the contact for notifications
+type RsvpQueueEntry = RsvpInvitee & {
+  contact: { id: string; email?: string; name?: string; phone?: string };
+};
 
-  // Fetch all invitees for this event to check business rules
-  const { data: allInvitees, error: inviteesError } = await supabase
-    .from('event_invitees')
-    .select('*, contact:contacts!inner(email, name, phone, owner_id)')
-    .eq('event_id', eventId);
+// Whether a contact loaded with EVENT_EDIT_SELECT has an address that still works
+const isContactRowReachable = (contact: any) =>
+  isContactReachable({
+    email: contact?.email,
+    phone: contact?.phone,
+    emailUndeliverableAt: contact?.email_undeliverable_at,
+    phoneUndeliverableAt: contact?.phone_undeliverable_at,
+    smsOptedOutAt: contact?.sms_opted_out_at,
+  });
 
-  if (inviteesError || !allInvitees) {
-    return c.json({ error: 'Failed to fetch invitees' }, 500);
-  }
+// Shape returned by the record_rsvp database function
+type RsvpDecision = {
+  success: boolean;
+  reason?: RsvpResult['reason'];
+  error?: string;
+  new_status?: InviteeStatus;
+  is_event_full?: boolean;
+  spots_remaining?: number;
+  should_promote_next?: boolean;
+  promoted_invitee_id?: string | null;
+  notify_event_full_ids?: string[];
+};
 
-  const invitee = allInvitees.find(
-    (inv) => inv.contact.email.toLowerCase() === inviteeEmail.toLowerCase()
-  );
+const toRsvpResult = (decision: RsvpDecision, queue: RsvpQueueEntry[]): RsvpResult<RsvpQueueEntry> => ({
+  success: decision.success,
+  newStatus: decision.new_status,
+  error: decision.error,
+  reason: decision.reason,
+  isEventFull: decision.is_event_full,
+  spotsRemaining: decision.spots_remaining,
+  shouldPromoteNext: decision.should_promote_next,
+  promotedInvitee: queue.find((inv) => inv.id === decision.promoted_invitee_id),
+  notifyEventFull: queue.filter((inv) => (decision.notify_event_full_ids || []).includes(inv.id)),
+});
 
-  if (!invitee) {
-    return c.json({ error: 'Invitee not found' }, 404);
+/**
+ * Invite someone whose turn in the queue has come (promotion or a series
+ * occurrence starting), by email and/or SMS depending on their contact details.
+ * The event must be loaded with EVENT_EDIT_SELECT.
+ */
+const sendQueueInvitation = async (
+  event: any,
+  contact: { email?: string; name?: string; phone?: string },
+  inviteeId?: string,
+) => {
+  if (contact.email) {
+    const urls = await buildRsvpUrls(event.id, contact.email);
+    await sendInviteEmail(
+      { email: contact.email, name: contact.name },
+      {
+        title: event.title,
+        date: event.date,
+        time: event.time,
+        location: event.location,
+        timeZone: event.time_zone,
+        durationMinutes: event.duration_minutes,
+        organizerName: event.organizer?.name,
+        notes: event.description || '—',
+        orgName: event.organizer?.name || 'Booker',
+        confirmUrl: urls.confirmUrl,
+        declineUrl: urls.declineUrl,
+        tentativeUrl: urls.tentativeUrl,
+        eventId: event.id,
+      },
+    );
   }
 
-  // Fetch event details to get spots count
-  const { data: eventForSpots } = await supabase
-    .from('events')
-    .select('spots')
-    .eq('id', eventId)
-    .single();
-  
-  const maxSpots = eventForSpots?.spots ?? 1;
-
-  // Business rule: Check if all spots are filled
-  const acceptedCount = allInvitees.filter(
-    (inv) => inv.status === 'accepted'
-  ).length;
-
-  if (action === 'confirm' && acceptedCount >= maxSpots) {
-    const html = buildResultPage({
-      title: 'Event Full',
-      detail: `Sorry, all ${maxSpots === 1 ? 'spots are' : maxSpots + ' spots are'} already filled for this event.`,
-      eventTitle: '',
-      eventWhen: '',
-      accentColor: '#f59e0b',
-      badge: '!',
-    });
-    return new Response(html, {
-      status: 200,
-      headers: { 'Content-Type': 'text/html; charset=utf-8' },
-    });
+  if (contact.phone) {
+    await sendInvitationSms(contact.phone, {
+      eventId: event.id,
+      eventTitle: event.title,
+      eventDate: event.date,
+      eventTime: event.time,
+      timeZone: event.time_zone,
+      location: event.location,
+      organizerName: event.organizer?.name || 'Organizer',
+      inviteeName: contact.name,
+    }, inviteeId);
   }
+};
 
-  // Check if invitee already responded
-  if (invitee.status === 'accepted') {
-    const html = buildResultPage({
-      title: 'Already Accepted',
-      detail: 'You have already accepted this invitation.',
-      eventTitle: '',
-      eventWhen: '',
-      accentColor: '#16a34a',
-      badge: '✓',
-    });
-    return new Response(html, {
-      status: 200,
-      headers: { 'Content-Type': 'text/html; charset=utf-8' },
-    });
+// Event details shared by the queue notices below (event loaded with EVENT_EDIT_SELECT)
+const queueNoticeEmailData = (event: any): EventEmailPayload => ({
+  title: event.title,
+  date: event.date,
+  time: event.time,
+  location: event.location,
+  timeZone: event.time_zone,
+  durationMinutes: event.duration_minutes,
+  organizerName: event.organizer?.name,
+  notes: event.description || '—',
+  orgName: event.organizer?.name || 'Booker',
+  confirmUrl: `${APP_BASE_URL}/events/${event.id}`,
+  eventId: event.id,
+});
+
+const queueNoticeSmsData = (event: any, inviteeName?: string): EventSmsData => ({
+  eventId: event.id,
+  eventTitle: event.title,
+  eventDate: event.date,
+  eventTime: event.time,
+  timeZone: event.time_zone,
+  location: event.location,
+  organizerName: event.organizer?.name || 'Organizer',
+  inviteeName,
+});
+
+/**
+ * Tell an invited person their invitation is about to pass to the next in line.
+ */
+const sendExpiryNudge = async (
+  event: any,
+  contact: { email?: string; name?: string; phone?: string },
+  minutesLeft: number,
+  inviteeId?: string,
+) => {
+  const leadTime = formatLeadTime(minutesLeft);
+
+  if (contact.email) {
+    const urls = await buildRsvpUrls(event.id, contact.email);
+    await sendInviteEmail(
+      { email: contact.email, name: contact.name },
+      { ...queueNoticeEmailData(event), confirmUrl: urls.confirmUrl, declineUrl: urls.declineUrl, tentativeUrl: urls.tentativeUrl, leadTime },
+      { variant: 'nudge' },
+    );
   }
 
-  if (invitee.status === 'declined') {
-    const html = buildResultPage({
-      title: 'Already Declined',
-      detail: 'You have already declined this invitation.',
-      eventTitle: '',
-      eventWhen: '',
-      accentColor: '#6b7280',
-      badge: 'X',
-    });
-    return new Response(html, {
-      status: 200,
-      headers: { 'Content-Type': 'text/html; charset=utf-8' },
-    });
+  if (contact.phone) {
+    await sendExpiryNudgeSms(contact.phone, queueNoticeSmsData(event, contact.name), leadTime, inviteeId);
+  }
+};
+
+/**
+ * Tell someone whose invitation expired that it went to the next person.
+ */
+const sendInviteExpiredNotice = async (
+  event: any,
+  contact: { email?: string; name?: string; phone?: string },
+) => {
+  if (contact.email) {
+    await sendInviteEmail({ email: contact.email, name: contact.name }, queueNoticeEmailData(event), { variant: 'expired' });
   }
 
-  // Database constraint allows: pending, invited, accepted, declined
-  const newStatus = action === 'confirm' ? 'accepted' : 'declined';
+  if (contact.phone) {
+    await sendInviteExpiredSms(contact.phone, queueNoticeSmsData(event, contact.name));
+  }
+};
 
-  const { error: updateError } = await supabase
-    .from('event_invitees')
-    .update({ status: newStatus, responded_at: new Date().toISOString(), updated_at: new Date().toISOString() })
-    .eq('event_id', eventId)
-    .eq('contact_id', invitee.contact_id);
+/**
+ * Summarize one auto-promote sweep for the organizer: by SMS when they have a
+ * phone number, otherwise by email.
+ */
+const sendQueueSummary = async (event: any, summary: { expired: string[]; promoted: string[] }) => {
+  const organizer = event.organizer;
+  if (organizer?.phone) {
+    await sendOrganizerQueueSummarySms(organizer.phone, queueNoticeSmsData(event), summary);
+    return;
+  }
 
-  if (updateError) {
-    return c.json({ error: updateError.message }, 400);
+  if (organizer?.email) {
+    const changeSummary = [
+      summary.expired.length > 0 ? `No response in time: ${summary.expired.join(', ')}.` : '',
+      summary.promoted.length > 0 ? `Now invited: ${summary.promoted.join(', ')}.` : 'No one is left in line to invite.',
+    ].filter(Boolean).join(' ');
+    await sendInviteEmail(
+      { email: organizer.email, name: organizer.name },
+      { ...queueNoticeEmailData(event), changeSummary },
+      { variant: 'queue' },
+    );
+  }
+};
+
+/**
+ * Pass an invitee's SMS note on to the organizer: by SMS when they have a
+ * phone number, otherwise by email.
+ */
+const sendNoteToOrganizer = async (event: any, inviteeName: string | undefined, note: string) => {
+  const organizer = event.organizer;
+  if (organizer?.phone) {
+    await sendOrganizerNoteSms(organizer.phone, queueNoticeSmsData(event, inviteeName), note);
+    return;
+  }
+
+  if (organizer?.email) {
+    await sendInviteEmail(
+      { email: organizer.email, name: organizer.name },
+      { ...queueNoticeEmailData(event), changeSummary: note, fromName: inviteeName },
+      { variant: 'note' },
+    );
   }
+};
 
-  // Fetch event details for follow-up
+/**
+ * Record an RSVP from any entry point (email link, dashboard, SMS reply).
+ * The shared rules in src/lib/rsvp-logic.ts reject obviously invalid responses up front;
+ * the record_rsvp database function then makes the final decision and writes it
+ * (status, spot accounting, promotion) in one transaction with the event row locked,
+ * so two people can never take the same last spot. This sends the follow-up notifications.
+ * SMS replies get their confirmation in the webhook reply, so no separate invitee SMS is sent.
+ */
+const recordRsvp = async (
+  supabase: ReturnType<typeof getServiceClient>,
+  eventId: string,
+  target: { inviteeId: string } | { email: string },
+  action: RsvpAction,
+  channel: 'link' | 'dashboard' | 'sms' | 'calendar',
+): Promise<{ result: RsvpResult<RsvpQueueEntry>; event: any | null; invitee?: RsvpQueueEntry }> => {
   const { data: event } = await supabase
     .from('events')
-    .select(`
-      *,
-      organizer:users!events_organizer_id_fkey(id, email, name, phone)
-    `)
+    .select(EVENT_EDIT_SELECT)
     .eq('id', eventId)
     .single();
 
-  // Send confirmation email to invitee on confirm
-  if (newStatus === 'accepted' && event) {
-    const ics = buildIcs({
-      id: eventId,
-      title: event.title,
-      description: event.description,
-      location: event.location,
-      date: event.date,
-      time: event.time,
-      timeZone: event.time_zone,
-      durationMinutes: event.duration_minutes,
-      organizerEmail: event.organizer?.email || '',
-      attendeeEmail: inviteeEmail,
-    });
+  if (!event) {
+    return { result: { success: false, error: 'Event not found', reason: 'not-found' }, event: null };
+  }
 
-    await sendInviteEmail(
-      { email: inviteeEmail, name: invitee?.name },
-      {
-        title: event.title,
-        date: event.date,
-        time: event.time,
-        location: event.location,
-        timeZone: event.time_zone,
-        durationMinutes: event.duration_minutes,
-        organizerName: event.organizer?.name,
-        notes: event.description || '—',
-        orgName: event.organizer?.name || 'Booker',
-        confirmUrl: `${APP_BASE_URL}/events/${eventId}`,
-        declineUrl: `${APP_BASE_URL}/events/${eventId}`,
-        icsContent: ics.content,
-      },
-      { variant: 'confirm' },
-    );
+  const queue: RsvpQueueEntry[] = (event.invitees || []).map((inv: any) => ({
+    id: inv.id,
+    email: inv.contact?.email || undefined,
+    status: inv.status,
+    priority: inv.priority ?? 0,
+    contact_id: inv.contact?.id,
+    unreachable: !isContactRowReachable(inv.contact),
+    contact: inv.contact || {},
+  }));
+  const inviteMode = event.invite_mode || 'priority';
+  const spots = event.spots ?? 1;
+  const startMs = zonedDateTimeToUtcMs(event.date, event.time, event.time_zone);
+  const withdrawDeadline = getWithdrawDeadline(startMs, event.withdraw_cutoff_minutes ?? 0);
+
+  const precheck = 'inviteeId' in target
+    ? processRsvpActionById(queue, target.inviteeId, action, inviteMode, spots, withdrawDeadline)
+    : processRsvpAction(queue, target.email, action, inviteMode, spots, withdrawDeadline);
+  const invitee = 'inviteeId' in target
+    ? queue.find((inv) => inv.id === target.inviteeId)
+    : queue.find((inv) => inv.email?.toLowerCase() === target.email.toLowerCase());
+
+  if (!precheck.success || !invitee) {
+    return { result: precheck, event, invitee };
+  }
 
-    // SMS notifications for acceptance
-    const eventSmsData: EventSmsData = {
-      eventId,
-      eventTitle: event.title,
-      eventDate: event.date,
-      eventTime: event.time,
-      location: event.location,
-      organizerName: event.organizer?.name || 'Organizer',
-      inviteeName: invitee?.contact?.name || inviteeEmail,
-    };
+  const { data: decision, error: rpcError } = await supabase.rpc('record_rsvp', {
+    p_invitee_id: invitee.id,
+    p_action: action,
+  });
+
+  if (rpcError || !decision) {
+    console.log('Error recording RSVP:', rpcError);
+    return { result: { success: false, error: rpcError?.message || 'Failed to record RSVP' }, event, invitee };
+  }
+
+  const result = toRsvpResult(decision as RsvpDecision, queue);
+  if (!result.success) {
+    console.log('RSVP rejected under lock:', { eventId, inviteeId: invitee.id, reason: result.reason });
+    return { result, event, invitee };
+  }
+
+  const eventSmsData: EventSmsData = {
+    eventId,
+    eventTitle: event.title,
+    eventDate: event.date,
+    eventTime: event.time,
+    timeZone: event.time_zone,
+    location: event.location,
+    organizerName: event.organizer?.name || 'Organizer',
+    inviteeName: invitee.contact.name || invitee.contact.email,
+  };
+
+  if (result.newStatus === 'accepted') {
+    // Confirmation email with calendar invite
+    if (invitee.contact.email) {
+      const ics = buildIcsAttachment('REQUEST', toIcsEvent(event, event.organizer || {}, {
+        email: invitee.contact.email,
+        name: invitee.contact.name,
+        status: 'accepted',
+      }));
+
+      await sendInviteEmail(
+        { email: invitee.contact.email, name: invitee.contact.name },
+        {
+          title: event.title,
+          date: event.date,
+          time: event.time,
+          location: event.location,
+          timeZone: event.time_zone,
+          durationMinutes: event.duration_minutes,
+          organizerName: event.organizer?.name,
+          notes: event.description || '—',
+          orgName: event.organizer?.name || 'Booker',
+          confirmUrl: `${APP_BASE_URL}/events/${eventId}`,
+          declineUrl: `${APP_BASE_URL}/events/${eventId}`,
+          withdrawUrl: await buildWithdrawUrl(eventId, invitee.contact.email, startMs),
+          icsAttachments: [ics],
+          eventId,
+          icsInviteeId: invitee.id,
+        },
+        { variant: 'confirm' },
+      );
+    }
 
-    // Send confirmation SMS to invitee if they have a phone
-    if (invitee?.contact?.phone) {
+    if (channel !== 'sms' && invitee.contact.phone) {
       await sendInviteeConfirmationSms(invitee.contact.phone, eventSmsData);
     }
 
-    // Send notification SMS to organizer if they have a phone
     if (event.organizer?.phone) {
       await sendOrganizerConfirmationSms(event.organizer.phone, eventSmsData);
     }
 
-    // Check if all spots are now filled - notify remaining invitees
-    const newAcceptedCount = acceptedCount + 1; // Include this acceptance
-    if (newAcceptedCount >= maxSpots) {
-      // Get all remaining invited/pending invitees who haven't responded
-      const remainingInvitees = allInvitees.filter(
-        (inv) => 
-          (inv.status === 'invited' || inv.status === 'pending') &&
-          inv.contact.email.toLowerCase() !== inviteeEmail.toLowerCase()
-      );
+    // Last spot taken - tell everyone still waiting
+    const waiting = result.notifyEventFull || [];
+    for (const remaining of waiting) {
+      if (remaining.contact.phone) {
+        await sendEventFullSms(remaining.contact.phone, eventSmsData);
+      }
+    }
+    if (result.isEventFull) {
+      console.log(`Event ${eventId} is now full (${spots} spots). Notified ${waiting.length} remaining invitees.`);
+    }
+  }
 
-      // Notify each remaining invitee that the event is full
-      for (const remaining of remainingInvitees) {
-        if (remaining.contact?.phone) {
-          await sendEventFullSms(remaining.contact.phone, eventSmsData);
-        }
+  if (result.newStatus === 'declined') {
+    // Already promoted to invited by record_rsvp; just send the invitation
+    const next = result.shouldPromoteNext ? result.promotedInvitee : undefined;
+    if (next) {
+      await sendQueueInvitation(event, next.contact, next.id);
+      console.log('Promoted next invitee:', next.id);
+    }
+
+    if (event.organizer?.phone) {
+      if (action === 'withdraw') {
+        const nextName = next ? next.contact.name || next.contact.email || next.contact.phone : undefined;
+        await sendOrganizerWithdrawSms(event.organizer.phone, eventSmsData, nextName);
+      } else {
+        await sendOrganizerDeclineSms(event.organizer.phone, eventSmsData);
       }
+    }
+  }
 
-      console.log(`Event ${eventId} is now full (${newAcceptedCount}/${maxSpots} spots). Notified ${remainingInvitees.length} remaining invitees.`);
+  // A maybe takes no spot and promotes no one; the organizer just hears about it
+  if (result.newStatus === 'tentative' && event.organizer?.phone) {
+    await sendOrganizerNoteSms(event.organizer.phone, eventSmsData, 'Maybe');
+  }
+
+  console.log('RSVP recorded:', { eventId, inviteeId: invitee.id, status: result.newStatus, channel });
+  return { result, event, invitee };
+};
+
+// Helper function to get authenticated user
+async function getAuthenticatedUser(authHeader: string | null) {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    console.log('Missing or invalid Authorization header');
+    return null;
+  }
+  
+  const accessToken = authHeader.split(' ')[1];
+  const supabase = getServiceClient();
+
+  try {
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (error || !data?.user) {
+      console.log('Failed to validate user with Supabase auth', error?.message);
+      return null;
     }
+
+    const { user } = data;
+    console.log('User authenticated:', user.email);
+    return { user, accessToken };
+  } catch (err) {
+    console.log('Error validating user token:', err);
+    return null;
   }
+}
 
-  // If declined, promote next pending invitee
-  if (newStatus === 'declined') {
-    const { data: nextInvitee } = await supabase
-      .from('event_invitees')
-      .select('*, contact:contacts!inner(email, name)')
-      .eq('event_id', eventId)
-      .eq('status', 'pending')
-      .gt('priority', invitee.priority)
-      .order('priority', { ascending: true })
-      .limit(1)
-      .single();
+// Health check endpoint
+app.get("/make-server-37f8437f/health", (c) => {
+  return c.json({ status: "ok" });
+});
 
-    if (nextInvitee) {
-      await supabase
-        .from('event_invitees')
-        .update({
-          status: 'invited',
-          invited_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', nextInvitee.id);
+// RSVP endpoint (GET /rsvp?token=...)
+app.get("/make-server-37f8437f/rsvp", async (c) => {
+  const token = c.req.query('token');
+  if (!token) {
+    return c.json({ error: 'Missing token' }, 400);
+  }
 
-      // Send invite to promoted
-      await sendInviteEmail(
-        { email: nextInvitee.contact.email, name: nextInvitee.contact.name },
-        {
-          title: event?.title || 'Event Invitation',
-          date: event?.date || '',
-          time: event?.time || '',
-          location: event?.location,
-          timeZone: event?.time_zone,
-          durationMinutes: event?.duration_minutes,
-          organizerName: event?.organizer?.name,
-          notes: event?.description || '—',
-          orgName: event?.organizer?.name || 'Booker',
-          confirmUrl: (await buildRsvpUrls(eventId, nextInvitee.contact.email)).confirmUrl,
-          declineUrl: (await buildRsvpUrls(eventId, nextInvitee.contact.email)).declineUrl,
-        },
-      );
+  const payload = await verifyRsvpToken(token);
+  if (!payload) {
+    return c.json({ error: 'Invalid or expired token' }, 400);
+  }
 
-      // Send SMS invite to promoted invitee if they have a phone
-      if (nextInvitee.contact.phone) {
-        await sendInvitationSms(nextInvitee.contact.phone, {
-          eventId,
-          eventTitle: event?.title || 'Event',
-          eventDate: event?.date || '',
-          eventTime: event?.time || '',
-          location: event?.location,
-          organizerName: event?.organizer?.name || 'Organizer',
-          inviteeName: nextInvitee.contact.name,
-        });
-      }
+  const { eventId, inviteeEmail, action } = payload;
+  const supabase = getServiceClient();
+
+  const { result, event } = await recordRsvp(supabase, eventId, { email: inviteeEmail }, action, 'link');
+
+  if (!result.success) {
+    if (result.reason === 'not-found') {
+      return c.json({ error: result.error }, 404);
     }
 
-    // Send decline notification SMS to organizer
-    if (event?.organizer?.phone) {
-      await sendOrganizerDeclineSms(event.organizer.phone, {
-        eventId,
-        eventTitle: event.title,
-        eventDate: event.date,
-        eventTime: event.time,
-        location: event.location,
-        organizerName: event.organizer.name || 'Organizer',
-        inviteeName: invitee?.contact?.name || inviteeEmail,
-      });
+    const maxSpots = event?.spots ?? 1;
+    const failurePages: Record<string, Parameters<typeof buildResultPage>[0]> = {
+      'event-full': {
+        title: 'Event Full',
+        detail: `Sorry, all ${maxSpots === 1 ? 'spots are' : maxSpots + ' spots are'} already filled for this event.`,
+        eventTitle: '',
+        eventWhen: '',
+        accentColor: '#f59e0b',
+        badge: '!',
+      },
+      'already-accepted': {
+        title: 'Already Accepted',
+        detail: 'You have already accepted this invitation.',
+        eventTitle: '',
+        eventWhen: '',
+        accentColor: '#16a34a',
+        badge: '✓',
+      },
+      'already-declined': {
+        title: 'Already Declined',
+        detail: 'You have already declined this invitation.',
+        eventTitle: '',
+        eventWhen: '',
+        accentColor: '#6b7280',
+        badge: 'X',
+      },
+      'already-tentative': {
+        title: 'Already Answered Maybe',
+        detail: 'You have already answered maybe. Use the Confirm or Decline link once you know.',
+        eventTitle: '',
+        eventWhen: '',
+        accentColor: '#d97706',
+        badge: '?',
+      },
+      'not-accepted': {
+        title: 'Not Confirmed',
+        detail: 'You have not accepted this invitation, so there is nothing to withdraw.',
+        eventTitle: '',
+        eventWhen: '',
+        accentColor: '#6b7280',
+        badge: '!',
+      },
+      'withdraw-closed': {
+        title: 'Too Late to Withdraw',
+        detail: 'Withdrawals for this event are closed. Please contact the organizer.',
+        eventTitle: '',
+        eventWhen: '',
+        accentColor: '#f59e0b',
+        badge: '!',
+      },
+    };
+
+    const page = result.reason ? failurePages[result.reason] : undefined;
+    if (!page) {
+      return c.json({ error: result.error || 'Failed to record RSVP' }, 400);
     }
+    return new Response(buildResultPage(page), {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
   }
 
-  const isAccepted = newStatus === 'accepted';
+  const isAccepted = result.newStatus === 'accepted';
   const eventTitle = event?.title || 'Event';
   const eventWhen = event?.date && event?.time
     ? `${event.date} at ${event.time}${event?.time_zone ? ` (${event.time_zone})` : ''}`
     : '';
 
-  const html = buildResultPage({
-    title: isAccepted ? 'You are confirmed' : 'RSVP recorded',
-    detail: isAccepted
-      ? 'Thanks! Your attendance is confirmed. We will send you a calendar invite.'
-      : 'You have declined this invitation. The organizer has been notified.',
-    eventTitle,
-    eventWhen,
-    accentColor: isAccepted ? '#16a34a' : '#ef4444',
-    badge: isAccepted ? 'OK' : 'X',
-  });
+  const html = action === 'withdraw'
+    ? buildResultPage({
+        title: 'You have withdrawn',
+        detail: 'Your spot has been given back and the organizer has been notified.',
+        eventTitle,
+        eventWhen,
+        accentColor: '#ef4444',
+        badge: 'X',
+      })
+    : result.newStatus === 'tentative'
+    ? buildResultPage({
+        title: 'Maybe recorded',
+        detail: 'The organizer knows you might come. Use the Confirm or Decline link in your invitation once you know.',
+        eventTitle,
+        eventWhen,
+        accentColor: '#d97706',
+        badge: '?',
+      })
+    : buildResultPage({
+        title: isAccepted ? 'You are confirmed' : 'RSVP recorded',
+        detail: isAccepted
+          ? 'Thanks! Your attendance is confirmed. We will send you a calendar invite.'
+          : 'You have declined this invitation. The organizer has been notified.',
+        eventTitle,
+        eventWhen,
+        accentColor: isAccepted ? '#16a34a' : '#ef4444',
+        badge: isAccepted ? 'OK' : 'X',
+      });
 
   return new Response(html, {
     status: 200,
@@ -1041,123 +1766,536 @@ app.get("/make-server-37f8437f/rsvp", async (c) => {
   });
 });
 
-// Scheduled endpoint to auto-promote when invited users don't respond in time
+// Scheduled endpoint to auto-promote when invited users don't respond in time.
+// Nudges invitations that are about to expire, expires stale ones and invites
+// the next people in line (one per open spot), then tells the organizer.
 app.get("/make-server-37f8437f/cron/auto-promote", async (c) => {
   const supabase = getServiceClient();
   const now = new Date();
+  const today = now.toISOString().slice(0, 10);
 
+  // Priority-mode events whose queue has started and that have not happened yet
   const { data: events, error } = await supabase
     .from('events')
-    .select(`
-      id,
-      title,
-      description,
-      date,
-      time,
-      duration_minutes,
-      location,
-      invite_mode,
-      auto_promote_after_minutes,
-      organizer:users!events_organizer_id_fkey(email, name),
-      invitees:invitees(id, email, name, status, priority, invited_at)
-    `);
+    .select(EVENT_EDIT_SELECT)
+    .eq('invite_mode', 'priority')
+    .not('invites_sent_at', 'is', null)
+    .gte('date', today);
 
   if (error || !events) {
     console.log('Auto-promote fetch error:', error);
-    return c.json({ promoted: 0, error: error?.message || 'Fetch failed' }, 500);
+    return c.json({ nudged: 0, expired: 0, promoted: 0, error: error?.message || 'Fetch failed' }, 500);
   }
 
+  let nudged = 0;
+  let expired = 0;
   let promoted = 0;
 
   for (const event of events) {
-    const hasConfirmed = event.invitees.some((inv: any) => inv.status === 'confirmed' || inv.status === 'accepted');
-    if (hasConfirmed) continue;
-
+    const queue = ((event.invitees || []) as any[]).map((inv) => ({
+      id: inv.id,
+      status: inv.status,
+      priority: inv.priority ?? 0,
+      contact_id: inv.contact?.id,
+      unreachable: !isContactRowReachable(inv.contact),
+      invitedAt: inv.invited_at,
+      respondedAt: inv.responded_at,
+      nudgedAt: inv.nudged_at,
+      contact: inv.contact || {},
+    }));
     const thresholdMinutes = event.auto_promote_after_minutes ?? DEFAULT_AUTO_PROMOTE_MINUTES;
-    const cutoff = now.getTime() - thresholdMinutes * 60_000;
+    const nudgeBeforeMinutes = event.expiry_nudge_minutes ?? DEFAULT_EXPIRY_NUDGE_MINUTES;
+    const tentativeHoldMinutes = event.tentative_hold_minutes ?? DEFAULT_TENTATIVE_HOLD_MINUTES;
+
+    for (const nudge of planExpiryNudges(queue, 'priority', thresholdMinutes, nudgeBeforeMinutes, now)) {
+      // Claim the nudge for this invitation so overlapping runs don't send it twice
+      const { data: claimed } = await supabase
+        .from('event_invitees')
+        .update({ nudged_at: now.toISOString() })
+        .eq('id', nudge.invitee.id)
+        .eq('status', 'invited')
+        .or(`nudged_at.is.null,nudged_at.lt.${nudge.invitee.invitedAt}`)
+        .select('id');
+      if (!claimed || claimed.length === 0) continue;
+
+      await sendExpiryNudge(event, nudge.invitee.contact, nudge.minutesLeft, nudge.invitee.id);
+      nudged += 1;
+    }
 
-    const staleInvited = event.invitees.filter((inv: any) => inv.status === 'invited' && inv.invited_at && new Date(inv.invited_at).getTime() <= cutoff);
-    if (staleInvited.length === 0) continue;
+    const plan = planAutoPromotion(queue, 'priority', event.spots ?? 1, thresholdMinutes, now, tentativeHoldMinutes);
+    if (plan.expired.length === 0 && plan.promoted.length === 0) continue;
 
-    const nextPending = event.invitees
-      .filter((inv: any) => inv.status === 'pending')
-      .sort((a: any, b: any) => a.priority - b.priority)[0];
+    // The database function re-checks under the event lock and logs each step to event_activity
+    const { data: sweep, error: rpcError } = await supabase.rpc('auto_promote_event', { p_event_id: event.id });
+    if (rpcError || !sweep) {
+      console.log('Auto-promote update error:', { eventId: event.id, error: rpcError });
+      continue;
+    }
 
-    if (!nextPending) continue;
+    const expiredIds: string[] = sweep.expired_ids || [];
+    const promotedIds: string[] = sweep.promoted_ids || [];
+    if (expiredIds.length === 0 && promotedIds.length === 0) continue;
 
-    const nowIso = now.toISOString();
+    const expiredEntries = queue.filter((entry) => expiredIds.includes(entry.id));
+    const promotedEntries = queue.filter((entry) => promotedIds.includes(entry.id));
 
-    // Expire stale invited users
-    const staleIds = staleInvited.map((inv: any) => inv.id);
-    if (staleIds.length > 0) {
-      await supabase
-        .from('invitees')
-        .update({ status: 'declined', updated_at: nowIso })
-        .in('id', staleIds);
+    for (const inv of expiredEntries) {
+      await sendInviteExpiredNotice(event, inv.contact);
+    }
+    for (const inv of promotedEntries) {
+      await sendQueueInvitation(event, inv.contact, inv.id);
     }
 
-    // Promote next pending
-    const { error: promoteError } = await supabase
-      .from('invitees')
-      .update({ status: 'invited', invited_at: nowIso, updated_at: nowIso })
-      .eq('id', nextPending.id);
+    const displayName = (entry: { contact: { name?: string; email?: string; phone?: string } }) =>
+      entry.contact.name || entry.contact.email || entry.contact.phone || 'Someone';
+    await sendQueueSummary(event, {
+      expired: expiredEntries.map(displayName),
+      promoted: promotedEntries.map(displayName),
+    });
 
-    if (promoteError) {
-      console.log('Auto-promote update error:', promoteError);
-      continue;
-    }
+    expired += expiredIds.length;
+    promoted += promotedIds.length;
+    console.log(`⏱️ Auto-promote for "${event.title}" on ${event.date}: ${expiredIds.length} expired, ${promotedIds.length} promoted`);
+  }
 
-    // Send invite to promoted user
-    const urls = await buildRsvpUrls(event.id, nextPending.email);
+  return c.json({ nudged, expired, promoted });
+});
 
-    await sendInviteEmail(
-      { email: nextPending.email, name: nextPending.name },
-      {
-        title: event.title,
-        date: event.date,
-        time: event.time,
-        location: event.location,
-        timeZone: event.time_zone,
-        durationMinutes: event.duration_minutes,
-        organizerName: event.organizer?.name,
-        notes: event.description || '—',
-        orgName: event.organizer?.name || 'Booker',
-        confirmUrl: urls.confirmUrl,
-        declineUrl: urls.declineUrl,
-      },
-    );
+// Start the invite queue of the next occurrence in each series once the previous
+// occurrence has taken place. Each occurrence keeps its own queue from then on.
+app.get("/make-server-37f8437f/cron/series", async (c) => {
+  const supabase = getServiceClient();
+  const today = new Date().toISOString().slice(0, 10);
 
-    promoted += 1;
+  const { data: waiting, error } = await supabase
+    .from('events')
+    .select(EVENT_EDIT_SELECT)
+    .not('series_id', 'is', null)
+    .is('invites_sent_at', null)
+    .gte('date', today)
+    .order('date', { ascending: true });
+
+  if (error || !waiting) {
+    console.log('Series fetch error:', error);
+    return c.json({ started: 0, error: error?.message || 'Fetch failed' }, 500);
   }
 
-  return c.json({ promoted });
-});
+  // Only the earliest waiting occurrence of each series is a candidate
+  const nextBySeries = new Map<string, any>();
+  for (const occurrence of waiting) {
+    if (!nextBySeries.has(occurrence.series_id)) {
+      nextBySeries.set(occurrence.series_id, occurrence);
+    }
+  }
 
-// Sign up endpoint - creates user in auth and profile
-app.post("/make-server-37f8437f/signup", async (c) => {
-  try {
-    const { email, password, name } = await c.req.json();
-    const supabase = getServiceClient();
-    
-    const { data, error } = await supabase.auth.admin.createUser({
-      email,
-      password,
-      user_metadata: { name },
-      email_confirm: true
-    });
-    
-    if (error) {
-      console.log('Error creating user:', error);
-      return c.json({ error: error.message }, 400);
+  let started = 0;
+  let invited = 0;
+
+  for (const occurrence of nextBySeries.values()) {
+    const { data: announced } = await supabase
+      .from('events')
+      .select('date')
+      .eq('series_id', occurrence.series_id)
+      .not('invites_sent_at', 'is', null)
+      .order('date', { ascending: false })
+      .limit(1);
+
+    // Wait until the latest announced occurrence is in the past
+    if (announced && announced.length > 0 && announced[0].date >= today) continue;
+
+    // Claim the occurrence so overlapping cron runs don't invite twice
+    const nowIso = new Date().toISOString();
+    const { data: claimed } = await supabase
+      .from('events')
+      .update({ invites_sent_at: nowIso })
+      .eq('id', occurrence.id)
+      .is('invites_sent_at', null)
+      .select('id');
+    if (!claimed || claimed.length === 0) continue;
+
+    const queue = ((occurrence.invitees || []) as any[])
+      .filter((inv) => inv.status === 'pending')
+      .sort((a, b) => a.priority - b.priority);
+    const toInvite = occurrence.invite_mode === 'first-come-first-serve' ? queue : queue.slice(0, occurrence.spots ?? 1);
+
+    if (toInvite.length > 0) {
+      await supabase
+        .from('event_invitees')
+        .update({ status: 'invited', invited_at: nowIso, updated_at: nowIso })
+        .in('id', toInvite.map((inv) => inv.id));
     }
-    
-    return c.json({ success: true, user: data.user });
-  } catch (error) {
-    console.log('Unexpected error during signup:', error);
-    return c.json({ error: 'Internal server error' }, 500);
+
+    for (const inv of toInvite) {
+      await sendQueueInvitation(occurrence, inv.contact || {}, inv.id);
+    }
+
+    started += 1;
+    invited += toInvite.length;
+    console.log(`🔁 Started invite queue for "${occurrence.title}" on ${occurrence.date} (${toInvite.length} invited)`);
   }
+
+  return c.json({ started, invited });
 });
 
+const MAX_REMINDER_ATTEMPTS = 3;
+
+type ReminderRow = {
+  id: string;
+  recipient_key: string;
+  offset_minutes: number;
+  channel: 'email' | 'sms';
+  status: 'sending' | 'sent' | 'failed' | 'skipped';
+  attempts: number;
+};
+
+/**
+ * Claim one reminder for this cron run. New reminders are claimed by inserting
+ * their row: the unique (event, recipient, offset, channel) key lets only one
+ * overlapping run win. Failed sends are retried, up to MAX_REMINDER_ATTEMPTS,
+ * by flipping the row back to 'sending' with a conditional update.
+ * Returns the row id when this run should send, otherwise null.
+ */
+const claimReminder = async (
+  supabase: ReturnType<typeof getServiceClient>,
+  row: { event_id: string; event_invitee_id: string | null; recipient_key: string; offset_minutes: number; channel: 'email' | 'sms' },
+  existing: ReminderRow | undefined,
+): Promise<string | null> => {
+  if (!existing) {
+    const { data: inserted } = await supabase
+      .from('event_reminders')
+      .upsert({ ...row, status: 'sending', attempts: 1 }, {
+        onConflict: 'event_id,recipient_key,offset_minutes,channel',
+        ignoreDuplicates: true,
+      })
+      .select('id');
+    return inserted && inserted.length > 0 ? inserted[0].id : null;
+  }
+
+  if (existing.status !== 'failed' || existing.attempts >= MAX_REMINDER_ATTEMPTS) return null;
+
+  const { data: reclaimed } = await supabase
+    .from('event_reminders')
+    .update({ status: 'sending', attempts: existing.attempts + 1, updated_at: new Date().toISOString() })
+    .eq('id', existing.id)
+    .eq('status', 'failed')
+    .eq('attempts', existing.attempts)
+    .select('id');
+  return reclaimed && reclaimed.length > 0 ? existing.id : null;
+};
+
+// Scheduled endpoint to send reminders to the organizer and accepted invitees
+// at each of the event's reminder offsets (e.g. 24 hours and 1 hour before)
+app.get("/make-server-37f8437f/cron/reminders", async (c) => {
+  const supabase = getServiceClient();
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+
+  // Dates are wall-clock dates in the event's zone, so allow a day either side
+  const { data: events, error } = await supabase
+    .from('events')
+    .select(`
+      id, title, description, date, time, location, time_zone, duration_minutes, reminder_offsets, created_at,
+      organizer:users!events_organizer_id_fkey(id, email, name, phone),
+      invitees:event_invitees (
+        id,
+        status,
+        responded_at,
+        contact:contacts!event_invitees_contact_id_fkey (id, email, name, phone)
+      )
+    `)
+    .gte('date', addDays(today, -1))
+    .lte('date', addDays(today, 31));
+
+  if (error || !events) {
+    console.log('Reminders fetch error:', error);
+    return c.json({ queued: 0, failed: 0, error: error?.message || 'Fetch failed' }, 500);
+  }
+
+  let queued = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (const event of events as any[]) {
+    const offsets: number[] = event.reminder_offsets || [];
+    if (offsets.length === 0) continue;
+
+    const startMs = zonedDateTimeToUtcMs(event.date, event.time, event.time_zone);
+    const earliestSlotMs = startMs - Math.max(...offsets) * 60_000;
+    if (now.getTime() < earliestSlotMs || now.getTime() >= startMs) continue;
+
+    const recipients = [
+      {
+        key: 'organizer',
+        inviteeId: null,
+        isOrganizer: true,
+        contact: event.organizer || {},
+        joinedAt: event.created_at,
+      },
+      ...((event.invitees || []) as any[])
+        .filter((inv) => inv.status === 'accepted')
+        .map((inv) => ({
+          key: inv.id as string,
+          inviteeId: inv.id as string,
+          isOrganizer: false,
+          contact: inv.contact || {},
+          joinedAt: inv.responded_at,
+        })),
+    ];
+
+    const { data: existingRows } = await supabase
+      .from('event_reminders')
+      .select('id, recipient_key, offset_minutes, channel, status, attempts')
+      .eq('event_id', event.id);
+    const existingByKey = new Map<string, ReminderRow>(
+      ((existingRows || []) as ReminderRow[]).map((row) => [`${row.recipient_key}:${row.offset_minutes}:${row.channel}`, row]),
+    );
+
+    for (const recipient of recipients) {
+      const channels: ('email' | 'sms')[] = [];
+      if (recipient.contact.email) channels.push('email');
+      if (recipient.contact.phone) channels.push('sms');
+      if (channels.length === 0) continue;
+
+      const plan = planReminders(startMs, offsets, now, recipient.joinedAt ? Date.parse(recipient.joinedAt) : null);
+
+      // Record superseded reminders so they never go out later
+      const skipRows = plan.skip.flatMap((offset) => channels
+        .filter((channel) => !existingByKey.has(`${recipient.key}:${offset}:${channel}`))
+        .map((channel) => ({
+          event_id: event.id,
+          event_invitee_id: recipient.inviteeId,
+          recipient_key: recipient.key,
+          offset_minutes: offset,
+          channel,
+          status: 'skipped',
+        })));
+      if (skipRows.length > 0) {
+        await supabase
+          .from('event_reminders')
+          .upsert(skipRows, { onConflict: 'event_id,recipient_key,offset_minutes,channel', ignoreDuplicates: true });
+        skipped += skipRows.length;
+      }
+
+      if (!plan.send) continue;
+      const leadTime = formatLeadTime(plan.send.leadMinutes);
+
+      for (const channel of channels) {
+        const reminderId = await claimReminder(
+          supabase,
+          {
+            event_id: event.id,
+            event_invitee_id: recipient.inviteeId,
+            recipient_key: recipient.key,
+            offset_minutes: plan.send.offsetMinutes,
+            channel,
+          },
+          existingByKey.get(`${recipient.key}:${plan.send.offsetMinutes}:${channel}`),
+        );
+        if (!reminderId) continue;
+
+        // The row stays 'sending' until the outbox sends it (deliverNotification marks it sent or failed)
+        let wasQueued = false;
+        if (channel === 'email') {
+          wasQueued = await sendInviteEmail(
+            { email: recipient.contact.email, name: recipient.contact.name },
+            {
+              title: event.title,
+              date: event.date,
+              time: event.time,
+              location: event.location,
+              timeZone: event.time_zone,
+              durationMinutes: event.duration_minutes,
+              organizerName: event.organizer?.name,
+              notes: event.description || '—',
+              orgName: event.organizer?.name || 'Booker',
+              confirmUrl: `${APP_BASE_URL}/events/${event.id}`,
+              leadTime,
+              eventId: event.id,
+              reminderId,
+            },
+            { variant: 'reminder' },
+          );
+        } else {
+          const smsData: EventSmsData = {
+            eventId: event.id,
+            eventTitle: event.title,
+            eventDate: event.date,
+            eventTime: event.time,
+            timeZone: event.time_zone,
+            location: event.location,
+            organizerName: event.organizer?.name || 'Organizer',
+            inviteeName: recipient.contact.name,
+          };
+          wasQueued = recipient.isOrganizer
+            ? await sendOrganizerReminderSms(recipient.contact.phone, smsData, leadTime, reminderId)
+            : await sendInviteeReminderSms(recipient.contact.phone, smsData, leadTime, reminderId);
+        }
+
+        if (wasQueued) {
+          queued += 1;
+          continue;
+        }
+        await supabase
+          .from('event_reminders')
+          .update({
+            status: 'failed',
+            last_error: `${channel === 'email' ? 'Email' : 'SMS'} could not be queued`,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', reminderId);
+        failed += 1;
+      }
+    }
+  }
+
+  console.log(`⏰ Reminders: ${queued} queued, ${failed} failed, ${skipped} skipped`);
+  return c.json({ queued, failed, skipped });
+});
+
+// Scheduled endpoint that retries queued notifications whose backoff has passed
+// and picks up sends that never finished (their lease ran out)
+app.get("/make-server-37f8437f/cron/notifications", async (c) => {
+  const supabase = getServiceClient();
+  const limit = Math.min(Math.max(Number(c.req.query('limit')) || 20, 1), 100);
+
+  const { data: claimed, error } = await supabase.rpc('claim_notifications', {
+    p_limit: limit,
+    p_lease_seconds: NOTIFICATION_LEASE_SECONDS,
+  });
+
+  if (error || !claimed) {
+    console.log('Notifications claim error:', error);
+    return c.json({ sent: 0, failed: 0, error: error?.message || 'Claim failed' }, 500);
+  }
+
+  let sent = 0;
+  let failed = 0;
+  // Sequential, so each transport's rate limit holds
+  for (const row of claimed as NotificationRow[]) {
+    if (await deliverNotification(supabase, row)) sent += 1;
+    else failed += 1;
+  }
+
+  console.log(`📬 Notifications: ${sent} sent, ${failed} failed of ${claimed.length} due`);
+  return c.json({ sent, failed });
+});
+
+// Sign up endpoint - creates user in auth and profile
+app.post("/make-server-37f8437f/signup", async (c) => {
+  try {
+    const { email, password, name } = await c.req.json();
+    const supabase = getServiceClient();
+    
+    const { data, error } = await supabase.auth.admin.createUser({
+      email,
+      password,
+      user_metadata: { name },
+      email_confirm: true
+    });
+    
+    if (error) {
+      console.log('Error creating user:', error);
+      return c.json({ error: error.message }, 400);
+    }
+    
+    return c.json({ success: true, user: data.user });
+  } catch (error) {
+    console.log('Unexpected error during signup:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * Find or create the organizer's contact for each invitee (matched by email,
+ * then phone; name and the other field are updated). Keyed by the invitee's
+ * email or phone; invitees with neither are skipped.
+ */
+const upsertInviteeContacts = async (supabase: any, ownerId: string, invitees: any[]): Promise<Map<string, any>> => {
+  // Upsert contacts - handle email-based and phone-based separately
+  const contactMap = new Map<string, any>();
+
+  for (const invitee of invitees) {
+    const hasEmail = invitee.email && invitee.email.trim().length > 0;
+    const hasPhone = invitee.phone && invitee.phone.trim().length > 0;
+    
+    if (!hasEmail && !hasPhone) {
+      console.log('Skipping invitee without email or phone:', invitee.name);
+      continue;
+    }
+
+    const contactPayload = {
+      owner_id: ownerId,
+      email: hasEmail ? invitee.email.trim() : null,
+      name: invitee.name,
+      phone: hasPhone ? invitee.phone.trim() : null,
+    };
+
+    let contact = null;
+    
+    // Try to find existing contact by email or phone
+    if (hasEmail) {
+      const { data: existing } = await supabase
+        .from('contacts')
+        .select()
+        .eq('owner_id', ownerId)
+        .eq('email', invitee.email.trim())
+        .single();
+      
+      if (existing) {
+        // Update existing contact
+        const { data: updated } = await supabase
+          .from('contacts')
+          .update({ name: invitee.name, phone: contactPayload.phone })
+          .eq('id', existing.id)
+          .select()
+          .single();
+        contact = updated || existing;
+      }
+    }
+    
+    if (!contact && hasPhone) {
+      const { data: existing } = await supabase
+        .from('contacts')
+        .select()
+        .eq('owner_id', ownerId)
+        .eq('phone', invitee.phone.trim())
+        .single();
+      
+      if (existing) {
+        // Update existing contact
+        const { data: updated } = await supabase
+          .from('contacts')
+          .update({ name: invitee.name, email: contactPayload.email })
+          .eq('id', existing.id)
+          .select()
+          .single();
+        contact = updated || existing;
+      }
+    }
+    
+    if (!contact) {
+      // Insert new contact
+      const { data: inserted, error: insertError } = await supabase
+        .from('contacts')
+        .insert(contactPayload)
+        .select()
+        .single();
+      
+      if (insertError) {
+        console.log('Error inserting contact:', insertError);
+      }
+      contact = inserted;
+    }
+    
+    if (contact) {
+      // Use email or phone as key for the map
+      const key = invitee.email || invitee.phone;
+      contactMap.set(key, contact);
+    }
+  }
+  return contactMap;
+};
+
 // Create event endpoint
 app.post("/make-server-37f8437f/events", async (c) => {
   try {
@@ -1178,13 +2316,66 @@ app.post("/make-server-37f8437f/events", async (c) => {
       avatar_url: user.user_metadata?.avatar_url || user.user_metadata?.picture,
     }, { onConflict: 'id' });
     
-    // Create the event
-    const { data: event, error: eventError } = await supabase
+    // Recurring events are stored as one row per occurrence sharing a series id
+    const recurrence = eventData.recurrence as RecurrenceRule | undefined;
+    if (recurrence) {
+      const recurrenceError = validateRecurrenceRule(recurrence, eventData.date);
+      if (recurrenceError) {
+        return c.json({ error: recurrenceError }, 400);
+      }
+    }
+    if (eventData.reminderOffsets !== undefined) {
+      const reminderError = validateReminderOffsets(eventData.reminderOffsets);
+      if (reminderError) {
+        return c.json({ error: reminderError }, 400);
+      }
+    }
+    const reminderOffsets = normalizeReminderOffsets(eventData.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS);
+
+    // Short auto-promote timers leave no room for the default nudge
+    const autoPromoteMinutes = eventData.autoPromoteInterval ?? DEFAULT_AUTO_PROMOTE_MINUTES;
+    const expiryNudgeMinutes = eventData.expiryNudgeMinutes
+      ?? (autoPromoteMinutes > DEFAULT_EXPIRY_NUDGE_MINUTES ? DEFAULT_EXPIRY_NUDGE_MINUTES : 0);
+    const nudgeError = validateExpiryNudge(expiryNudgeMinutes, autoPromoteMinutes);
+    if (nudgeError) {
+      return c.json({ error: nudgeError }, 400);
+    }
+    const tentativeHoldMinutes = eventData.tentativeHoldMinutes ?? DEFAULT_TENTATIVE_HOLD_MINUTES;
+    const holdError = validateTentativeHold(tentativeHoldMinutes);
+    if (holdError) {
+      return c.json({ error: holdError }, 400);
+    }
+    const withdrawCutoffMinutes = eventData.withdrawCutoffMinutes ?? 0;
+    const cutoffError = validateWithdrawCutoff(withdrawCutoffMinutes);
+    if (cutoffError) {
+      return c.json({ error: cutoffError }, 400);
+    }
+
+    const occurrenceDates = recurrence ? expandOccurrenceDates(eventData.date, recurrence) : [eventData.date];
+    const seriesId = recurrence ? crypto.randomUUID() : null;
+    const createdAt = new Date().toISOString();
+
+    // Booking a find-a-time poll: claim it first, so a second click cannot book it twice
+    const pollId: string | null = eventData.pollId || null;
+    if (pollId) {
+      if (recurrence) {
+        return c.json({ error: 'A poll books a single event, not a series' }, 400);
+      }
+      const claimError = await claimPollForBooking(supabase, pollId, eventData.pollOptionId, user.id);
+      if (claimError) {
+        return c.json({ error: claimError.error }, claimError.status);
+      }
+    }
+
+    // Create the event (or every occurrence of the series). Only the first
+    // occurrence starts its invite queue now; the rest are started by
+    // /cron/series once the previous occurrence has taken place.
+    const { data: occurrences, error: eventError } = await supabase
       .from('events')
-      .insert({
+      .insert(occurrenceDates.map((date, index) => ({
         title: eventData.title,
         description: eventData.description,
-        date: eventData.date,
+        date,
         time: eventData.time,
         location: eventData.location,
         time_zone: eventData.timeZone || null,
@@ -1192,14 +2383,36 @@ app.post("/make-server-37f8437f/events", async (c) => {
         spots: eventData.spots ?? 1, // Default to 1 spot
         invite_mode: eventData.inviteMode || 'priority',
         auto_promote_after_minutes: eventData.autoPromoteInterval ?? 30,
+        reminder_offsets: reminderOffsets,
+        expiry_nudge_minutes: expiryNudgeMinutes,
+        tentative_hold_minutes: tentativeHoldMinutes,
+        withdraw_cutoff_minutes: withdrawCutoffMinutes,
         organizer_id: user.id,
-      })
-      .select()
-      .single();
+        series_id: seriesId,
+        recurrence: recurrence ?? null,
+        occurrence_index: recurrence ? index : null,
+        invites_sent_at: index === 0 ? createdAt : null,
+      })))
+      .select();
     
-    if (eventError) {
+    if (eventError || !occurrences || occurrences.length === 0) {
       console.log('Error creating event:', eventError);
-      return c.json({ error: eventError.message }, 400);
+      if (pollId) {
+        await releasePoll(supabase, pollId);
+      }
+      return c.json({ error: eventError?.message || 'Failed to create event' }, 400);
+    }
+
+    occurrences.sort((a: any, b: any) => (a.occurrence_index ?? 0) - (b.occurrence_index ?? 0));
+    const event = occurrences[0];
+    if (pollId) {
+      const { error: pollLinkError } = await supabase.from('polls').update({ event_id: event.id }).eq('id', pollId);
+      if (pollLinkError) {
+        console.log('Error linking poll to its event:', pollLinkError);
+      }
+    }
+    if (seriesId) {
+      console.log(`🔁 Created series ${seriesId} with ${occurrences.length} occurrences`);
     }
     
     // Add invitees: upsert contacts and link via event_invitees
@@ -1207,107 +2420,33 @@ app.post("/make-server-37f8437f/events", async (c) => {
     const notices: string[] = [];
     if (eventData.invitees && eventData.invitees.length > 0) {
       const isPriorityMode = eventData.inviteMode === 'priority';
+      const spots = eventData.spots ?? 1; // Priority mode invites one person per spot
       const invitedAt = new Date().toISOString();
 
-      // Upsert contacts - handle email-based and phone-based separately
-      const contactMap = new Map<string, any>();
-      
-      for (const invitee of eventData.invitees) {
-        const hasEmail = invitee.email && invitee.email.trim().length > 0;
-        const hasPhone = invitee.phone && invitee.phone.trim().length > 0;
-        
-        if (!hasEmail && !hasPhone) {
-          console.log('Skipping invitee without email or phone:', invitee.name);
-          continue;
-        }
+      const contactMap = await upsertInviteeContacts(supabase, user.id, eventData.invitees);
 
-        const contactPayload = {
-          owner_id: user.id,
-          email: hasEmail ? invitee.email.trim() : null,
-          name: invitee.name,
-          phone: hasPhone ? invitee.phone.trim() : null,
-        };
+      // Each occurrence gets its own queue; queues that have not started yet are all pending
+      const inviteesData = occurrences.flatMap((occurrence: any) =>
+        eventData.invitees.map((invitee: any, index: number) => {
+          const queueStarted = occurrence.id === event.id;
+          const status = !queueStarted
+            ? 'pending'
+            : isPriorityMode
+              ? (index < spots ? 'invited' : 'pending')
+              : 'invited';
 
-        let contact = null;
-        
-        // Try to find existing contact by email or phone
-        if (hasEmail) {
-          const { data: existing } = await supabase
-            .from('contacts')
-            .select()
-            .eq('owner_id', user.id)
-            .eq('email', invitee.email.trim())
-            .single();
-          
-          if (existing) {
-            // Update existing contact
-            const { data: updated } = await supabase
-              .from('contacts')
-              .update({ name: invitee.name, phone: contactPayload.phone })
-              .eq('id', existing.id)
-              .select()
-              .single();
-            contact = updated || existing;
-          }
-        }
-        
-        if (!contact && hasPhone) {
-          const { data: existing } = await supabase
-            .from('contacts')
-            .select()
-            .eq('owner_id', user.id)
-            .eq('phone', invitee.phone.trim())
-            .single();
-          
-          if (existing) {
-            // Update existing contact
-            const { data: updated } = await supabase
-              .from('contacts')
-              .update({ name: invitee.name, email: contactPayload.email })
-              .eq('id', existing.id)
-              .select()
-              .single();
-            contact = updated || existing;
-          }
-        }
-        
-        if (!contact) {
-          // Insert new contact
-          const { data: inserted, error: insertError } = await supabase
-            .from('contacts')
-            .insert(contactPayload)
-            .select()
-            .single();
-          
-          if (insertError) {
-            console.log('Error inserting contact:', insertError);
-          }
-          contact = inserted;
-        }
-        
-        if (contact) {
-          // Use email or phone as key for the map
           const key = invitee.email || invitee.phone;
-          contactMap.set(key, contact);
-        }
-      }
-
-      const inviteesData = eventData.invitees.map((invitee: any, index: number) => {
-        const status = isPriorityMode
-          ? (index === 0 ? 'invited' : 'pending')
-          : 'invited';
+          const contact = contactMap.get(key);
 
-        const key = invitee.email || invitee.phone;
-        const contact = contactMap.get(key);
-
-        return {
-          event_id: event.id,
-          contact_id: contact?.id,
-          status,
-          priority: invitee.priority ?? index,
-          invited_at: status === 'invited' ? invitedAt : null,
-        };
-      }).filter((inv: any) => inv.contact_id);
+          return {
+            event_id: occurrence.id,
+            contact_id: contact?.id,
+            status,
+            priority: invitee.priority ?? index,
+            invited_at: status === 'invited' ? invitedAt : null,
+          };
+        })
+      ).filter((inv: any) => inv.contact_id);
       
       const { data: insertedLinks, error: inviteesError } = await supabase
         .from('event_invitees')
@@ -1322,7 +2461,7 @@ app.post("/make-server-37f8437f/events", async (c) => {
         if (insertedLinks && insertedLinks.length < inviteesData.length) {
           notices.push('Some invitees already existed for this event and were updated.');
         }
-        invitedNow.push(...inviteSource.filter((inv: any) => inv.status === 'invited'));
+        invitedNow.push(...inviteSource.filter((inv: any) => inv.event_id === event.id && inv.status === 'invited'));
       }
     }
     
@@ -1359,6 +2498,10 @@ app.post("/make-server-37f8437f/events", async (c) => {
       durationMinutes: fullEvent.duration_minutes ?? eventData.durationMinutes ?? null,
       inviteMode: fullEvent.invite_mode || 'priority',
       autoPromoteInterval: fullEvent.auto_promote_after_minutes ?? 30,
+      reminderOffsets: fullEvent.reminder_offsets ?? reminderOffsets,
+      expiryNudgeMinutes: fullEvent.expiry_nudge_minutes ?? expiryNudgeMinutes,
+      tentativeHoldMinutes: fullEvent.tentative_hold_minutes ?? tentativeHoldMinutes,
+      withdrawCutoffMinutes: fullEvent.withdraw_cutoff_minutes ?? withdrawCutoffMinutes,
       organizer: {
         email: fullEvent.organizer.email,
         name: fullEvent.organizer.name,
@@ -1370,12 +2513,27 @@ app.post("/make-server-37f8437f/events", async (c) => {
         status: inv.status,
         invitedAt: inv.invited_at,
       })).filter((inv: any) => inv.email),
+      recurrence: fullEvent.recurrence ?? undefined,
+      seriesId: fullEvent.series_id ?? undefined,
+      occurrenceIndex: fullEvent.occurrence_index ?? undefined,
       createdAt: fullEvent.created_at,
     };
+
+    // The remaining occurrences of a series, in the same shape as GET /events
+    let responseOccurrences: any[] = [];
+    if (seriesId) {
+      const { data: seriesEvents } = await supabase
+        .from('events')
+        .select(EVENT_LIST_SELECT)
+        .eq('series_id', seriesId)
+        .neq('id', event.id)
+        .order('occurrence_index', { ascending: true });
+      responseOccurrences = (seriesEvents || []).map((row: any) => formatEventForResponse(row, user));
+    }
     const responseNotices = eventData.invitees && eventData.invitees.length > 0 ? notices : [];
 
     // Send invitee invites only (no email to organizer on event creation)
-    // Invitees - send sequentially to respect Resend rate limit (1 email/sec)
+    // Invitees - send sequentially; sendEmail spaces them by the transport's rate limit
     console.log('📤 [EVENT CREATE] Sending invitations to', invitedNow.length, 'invitees');
     if (invitedNow.length > 0) {
       for (const inv of invitedNow) {
@@ -1414,6 +2572,8 @@ app.post("/make-server-37f8437f/events", async (c) => {
               orgName: responseEvent.organizer.name || 'Booker',
               confirmUrl: urls.confirmUrl,
               declineUrl: urls.declineUrl,
+              tentativeUrl: urls.tentativeUrl,
+              eventId: responseEvent.id,
             },
           );
         } else {
@@ -1428,17 +2588,18 @@ app.post("/make-server-37f8437f/events", async (c) => {
             eventTitle: responseEvent.title,
             eventDate: responseEvent.date,
             eventTime: responseEvent.time,
+            timeZone: responseEvent.timeZone,
             location: responseEvent.location,
             organizerName: responseEvent.organizer.name || 'Organizer',
             inviteeName: name,
-          });
+          }, inv.id);
         } else {
           console.log('📱 [EVENT CREATE] No phone number for invitee, skipping SMS');
         }
       };
     }
     
-    return c.json({ success: true, event: responseEvent, notices: responseNotices });
+    return c.json({ success: true, event: responseEvent, occurrences: responseOccurrences, notices: responseNotices });
   } catch (error) {
     console.log('Error creating event:', error);
     return c.json({ error: 'Internal server error' }, 500);
@@ -1455,108 +2616,134 @@ app.get("/make-server-37f8437f/events", async (c) => {
     
     const { user } = auth;
     const supabase = getServiceClient();
-    
-    // Parse pagination params
-    const limit = Math.min(parseInt(c.req.query('limit') || '10'), 50); // max 50
-    const offset = parseInt(c.req.query('offset') || '0');
-    
-    // Get events organized by user
-    const { data: organizedEvents, error: orgError } = await supabase
-      .from('events')
-      .select(`
-        *,
-        organizer:users!events_organizer_id_fkey(id, email, name, avatar_url),
-        invitees:event_invitees (
-          status,
-          priority,
-          invited_at,
-          contact:contacts!event_invitees_contact_id_fkey (id, email, name, phone)
-        )
-      `)
-      .eq('organizer_id', user.id);
-    
-    if (orgError) {
-      console.log('Error fetching organized events:', orgError);
+
+    const parsed = parseEventListQuery(new URL(c.req.url).searchParams);
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
     }
-    
-    // Get event IDs where user is invited
-    const { data: invitedEventIds } = await supabase
-      .from('event_invitees')
-      .select('event_id, contact:contacts!inner(email, owner_id)')
-      .eq('contact.email', user.email)
-      .eq('contact.owner_id', user.id);
-    
-    let invitedEvents: any[] = [];
-    if (invitedEventIds && invitedEventIds.length > 0) {
-      const ids = invitedEventIds.map(i => i.event_id);
-      const { data } = await supabase
+    const { query } = parsed;
+
+    // Filters shared by the page and the counts (see filter_events)
+    const filters = {
+      p_user_id: user.id,
+      p_email: user.email,
+      p_role: query.role ?? null,
+      p_status: query.status ?? null,
+      p_invitees: query.invitees ?? null,
+      p_search: query.search ?? null,
+    };
+
+    const { data: rows, error: listError } = await supabase.rpc('list_events', {
+      ...filters,
+      p_from: query.from ?? null,
+      p_to: query.to ?? null,
+      p_descending: query.order === 'desc',
+      p_after_date: query.cursor?.date ?? null,
+      p_after_time: query.cursor?.time ?? null,
+      p_after_id: query.cursor?.id ?? null,
+      p_limit: query.limit,
+    });
+
+    if (listError) {
+      console.log('Error listing events:', listError);
+      return c.json({ error: 'Failed to fetch events' }, 500);
+    }
+
+    // list_events returns one row past the page when more exist
+    const pageRows = (rows || []).slice(0, query.limit);
+    const hasMore = (rows || []).length > query.limit;
+    const totalCount = Number(rows?.[0]?.total_count ?? 0);
+    const lastRow = pageRows[pageRows.length - 1];
+    const nextCursor = hasMore && lastRow
+      ? encodeEventCursor({ date: lastRow.date, time: lastRow.time, id: lastRow.id })
+      : null;
+
+    let events: any[] = [];
+    if (pageRows.length > 0) {
+      const ids = pageRows.map((row: any) => row.id);
+      const { data: eventRows, error: eventsError } = await supabase
         .from('events')
-        .select(`
-          *,
-          organizer:users!events_organizer_id_fkey(id, email, name, avatar_url),
-          invitees:event_invitees (
-            status,
-            priority,
-            invited_at,
-            contact:contacts!event_invitees_contact_id_fkey (id, email, name, phone)
-          )
-        `)
-        .in('id', ids)
-        .neq('organizer_id', user.id);
-      
-      invitedEvents = data || [];
+        .select(EVENT_LIST_SELECT)
+        .in('id', ids);
+
+      if (eventsError) {
+        console.log('Error fetching events:', eventsError);
+        return c.json({ error: 'Failed to fetch events' }, 500);
+      }
+
+      // Keep the page order from list_events
+      const byId = new Map((eventRows || []).map((event: any) => [event.id, event]));
+      events = ids.map((id: string) => byId.get(id)).filter(Boolean).map((row: any) => formatEventForResponse(row, user));
     }
-    
-    // Combine and dedupe events
-    const allEvents = [...(organizedEvents || []), ...invitedEvents];
-    const uniqueEvents = Array.from(new Map(allEvents.map(e => [e.id, e])).values());
-    
-    // Sort by created_at descending (newest first)
-    uniqueEvents.sort((a: any, b: any) => 
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-    );
-    
-    // Get total count before pagination
-    const totalCount = uniqueEvents.length;
-    
-    // Apply pagination
-    const paginatedEvents = uniqueEvents.slice(offset, offset + limit);
-    
-    // Transform to match frontend expected format
-    const events = paginatedEvents.map((event: any) => ({
-      id: event.id,
-      title: event.title,
-      description: event.description,
-      date: event.date,
-      time: event.time,
-      location: event.location,
-      timeZone: event.time_zone,
-      durationMinutes: event.duration_minutes,
-      spots: event.spots ?? 1,
-      inviteMode: event.invite_mode || 'priority',
-      organizer: {
-        email: event.organizer.email,
-        name: event.organizer.name,
-      },
-      invitees: (event.invitees || []).map((inv: any) => ({
-        email: inv.contact?.email,
-        name: inv.contact?.name,
-        phone: inv.contact?.phone,
-        priority: inv.priority,
-        status: inv.status,
-      })),
-      createdAt: event.created_at,
-    }));
-    
-    const hasMore = offset + limit < totalCount;
-    console.log(`Returning ${events.length} of ${totalCount} events (offset: ${offset}, hasMore: ${hasMore})`);
-    return c.json({ events, totalCount, hasMore });
+
+    let counts = null;
+    if (query.countDays) {
+      const { data, error: countError } = await supabase.rpc('count_events', {
+        ...filters,
+        p_today: query.countDays.today,
+        p_week_start: query.countDays.weekStart,
+        p_week_end: query.countDays.weekEnd,
+      });
+      if (countError) {
+        console.log('Error counting events:', countError);
+      } else {
+        counts = data;
+      }
+    }
+
+    console.log(`Returning ${events.length} of ${totalCount} events (hasMore: ${hasMore})`);
+    return c.json({ events, totalCount, hasMore, nextCursor, counts });
   } catch (error) {
     console.log('Error fetching events:', error);
     return c.json({ error: 'Internal server error' }, 500);
   }
 });
 
+// Get a single event (detail page); the organizer or one of its invitees
+app.get("/make-server-37f8437f/events/:eventId", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const eventId = c.req.param('eventId');
+    const supabase = getServiceClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select(EVENT_LIST_SELECT)
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    if (event.organizer_id !== user.id) {
+      // Same invitee match as the events list (filter_events): a contact with the user's email, already invited
+      const { data: invitations } = await supabase
+        .from('event_invitees')
+        .select('id, contact:contacts!inner(email)')
+        .eq('event_id', eventId)
+        .neq('status', 'pending')
+        .ilike('contact.email', user.email.replace(/[\\%_]/g, '\\$&')) // case-insensitive, no wildcards
+        .limit(1);
+
+      if (!invitations || invitations.length === 0) {
+        // Don't reveal that the event exists
+        return c.json({ error: 'Event not found' }, 404);
+      }
+    }
+
+    return c.json({ event: formatEventForResponse(event, user) });
+  } catch (error) {
+    console.log('Error fetching event:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
 // Update invitee status
 app.put("/make-server-37f8437f/events/:eventId/invitees/:inviteeEmail/status", async (c) => {
   try {
@@ -1577,256 +2764,1503 @@ app.put("/make-server-37f8437f/events/:eventId/invitees/:inviteeEmail/status", a
       return c.json({ error: 'Unauthorized - not the invitee' }, 403);
     }
     
-    // Get the invitee record
-    const { data: invitee, error: inviteeError } = await supabase
-      .from('event_invitees')
-      .select('*, contact:contacts!inner(email, name, id)')
-      .eq('event_id', eventId)
-      .eq('contact.email', inviteeEmail)
-      .single();
-    
-    if (inviteeError || !invitee) {
-      return c.json({ error: 'Invitee not found' }, 404);
+    // 'withdrawn': accepted, can't make it anymore (ends up declined)
+    const actions: Record<string, RsvpAction> = {
+      accepted: 'confirm',
+      declined: 'decline',
+      tentative: 'tentative',
+      withdrawn: 'withdraw',
+    };
+    if (!actions[status]) {
+      return c.json({ error: 'Status must be accepted, declined, tentative or withdrawn' }, 400);
+    }
+
+    const { result } = await recordRsvp(supabase, eventId, { email: inviteeEmail }, actions[status], 'dashboard');
+
+    if (!result.success) {
+      const httpStatus = result.reason === 'not-found' ? 404 : result.reason ? 409 : 400;
+      return c.json({ error: result.error, reason: result.reason }, httpStatus);
     }
     
-    // Fetch event upfront for later notifications
+    // Fetch the updated event
     const { data: event } = await supabase
       .from('events')
-      .select(`
-        *,
-        organizer:users!events_organizer_id_fkey(id, email, name, avatar_url),
-        invitees:event_invitees (
-          status,
-          priority,
-          invited_at,
-          contact:contacts!event_invitees_contact_id_fkey (id, email, name, phone)
-        )
-      `)
+      .select(EVENT_LIST_SELECT)
       .eq('id', eventId)
       .single();
 
-    // Update the invitee status
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+    
+    return c.json({ success: true, event: formatEventForResponse(event, user) });
+  } catch (error) {
+    console.log('Error updating invitee status:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// How long a "maybe" holds the invitee's place before the next person is invited; 0 for not at all
+const validateTentativeHold = (holdMinutes: unknown): string | null =>
+  Number.isInteger(holdMinutes) && (holdMinutes as number) >= 0
+    ? null
+    : 'Maybe hold must be a whole number of minutes (0 for none)';
+
+// How long before the start accepted invitees can no longer withdraw; 0 = until it starts
+const validateWithdrawCutoff = (cutoffMinutes: unknown): string | null =>
+  Number.isInteger(cutoffMinutes) && (cutoffMinutes as number) >= 0
+    ? null
+    : 'Withdrawal cutoff must be a whole number of minutes (0 for none)';
+
+// Nudges must come before the invite expires; 0 turns them off
+const validateExpiryNudge = (nudgeMinutes: unknown, autoPromoteMinutes: number): string | null => {
+  if (!Number.isInteger(nudgeMinutes) || (nudgeMinutes as number) < 0) {
+    return 'Expiry reminder must be a whole number of minutes (0 for none)';
+  }
+  if ((nudgeMinutes as number) > 0 && (nudgeMinutes as number) >= autoPromoteMinutes) {
+    return 'Expiry reminder must come before the auto-promote timer runs out';
+  }
+  return null;
+};
+
+// Map editable payload fields to columns; only fields present in the payload are touched
+const EDITABLE_EVENT_FIELDS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  date: 'date',
+  time: 'time',
+  location: 'location',
+  timeZone: 'time_zone',
+  durationMinutes: 'duration_minutes',
+  spots: 'spots',
+  inviteMode: 'invite_mode',
+  autoPromoteInterval: 'auto_promote_after_minutes',
+  reminderOffsets: 'reminder_offsets',
+  expiryNudgeMinutes: 'expiry_nudge_minutes',
+  tentativeHoldMinutes: 'tentative_hold_minutes',
+  withdrawCutoffMinutes: 'withdraw_cutoff_minutes',
+};
+
+type EventUpdatePlan = {
+  eventUpdate: Record<string, unknown>;
+  changedFields: string[];
+  timeMoved: boolean;
+};
+
+/**
+ * Work out which columns an edit changes and validate it against the event's
+ * current invitee queue. Nothing is written here.
+ */
+const planEventUpdate = (event: any, updates: Record<string, any>): EventUpdatePlan | { error: string } => {
+  const eventUpdate: Record<string, unknown> = {};
+  const changedFields: string[] = [];
+  if (updates.reminderOffsets !== undefined) {
+    const reminderError = validateReminderOffsets(updates.reminderOffsets);
+    if (reminderError) {
+      return { error: reminderError };
+    }
+    updates = { ...updates, reminderOffsets: normalizeReminderOffsets(updates.reminderOffsets) };
+  }
+
+  for (const [payloadKey, column] of Object.entries(EDITABLE_EVENT_FIELDS)) {
+    if (updates[payloadKey] === undefined) continue;
+    // Treat empty strings as null and compare times with seconds so "14:00" matches "14:00:00".
+    // Lists (reminder offsets) compare by value.
+    const normalize = (value: unknown) => (value === '' || value === undefined ? null : value);
+    const comparable = (value: unknown) => (Array.isArray(value) ? JSON.stringify(value) : value);
+    const current = column === 'time' ? padTime(event.time || '') : comparable(normalize(event[column]));
+    const next = column === 'time' ? padTime(updates[payloadKey]) : comparable(normalize(updates[payloadKey]));
+    if (current !== next) {
+      eventUpdate[column] = updates[payloadKey];
+      changedFields.push(payloadKey);
+    }
+  }
+
+  const invitees = (event.invitees || []) as any[];
+  const acceptedCount = invitees.filter((inv) => inv.status === 'accepted').length;
+
+  if (eventUpdate.spots !== undefined && Number(eventUpdate.spots) < 1) {
+    return { error: 'Spots must be at least 1' };
+  }
+
+  if (eventUpdate.invite_mode !== undefined && !['priority', 'first-come-first-serve'].includes(eventUpdate.invite_mode as string)) {
+    return { error: 'Invalid invite mode' };
+  }
+
+  if (eventUpdate.withdraw_cutoff_minutes !== undefined) {
+    const cutoffError = validateWithdrawCutoff(eventUpdate.withdraw_cutoff_minutes);
+    if (cutoffError) {
+      return { error: cutoffError };
+    }
+  }
+
+  if (eventUpdate.tentative_hold_minutes !== undefined) {
+    const holdError = validateTentativeHold(eventUpdate.tentative_hold_minutes);
+    if (holdError) {
+      return { error: holdError };
+    }
+  }
+
+  if (eventUpdate.expiry_nudge_minutes !== undefined || eventUpdate.auto_promote_after_minutes !== undefined) {
+    const nudgeError = validateExpiryNudge(
+      eventUpdate.expiry_nudge_minutes ?? event.expiry_nudge_minutes ?? DEFAULT_EXPIRY_NUDGE_MINUTES,
+      Number(eventUpdate.auto_promote_after_minutes ?? event.auto_promote_after_minutes ?? DEFAULT_AUTO_PROMOTE_MINUTES),
+    );
+    if (nudgeError) {
+      return { error: nudgeError };
+    }
+  }
+
+  const timeMoved = ['date', 'time', 'timeZone'].some((field) => changedFields.includes(field));
+
+  // Acceptances are reset when the time moves, so only block shrinking spots otherwise
+  if (!timeMoved && eventUpdate.spots !== undefined && Number(eventUpdate.spots) < acceptedCount) {
+    return { error: `Cannot reduce spots below the ${acceptedCount} accepted invitee${acceptedCount === 1 ? '' : 's'}` };
+  }
+
+  return { eventUpdate, changedFields, timeMoved };
+};
+
+/**
+ * Write a planned edit, adjust the invitee queue and notify everyone holding an invite.
+ */
+const applyEventUpdate = async (
+  supabase: ReturnType<typeof getServiceClient>,
+  event: any,
+  plan: EventUpdatePlan,
+) => {
+  const { eventUpdate, changedFields, timeMoved } = plan;
+  const eventId = event.id;
+  const invitees = (event.invitees || []) as any[];
+
+  // Only people who currently hold an invite are affected by detail changes
+  const detailFields = ['title', 'description', 'date', 'time', 'location', 'timeZone', 'durationMinutes'];
+  const detailsChanged = changedFields.some((field) => detailFields.includes(field));
+  // Calendar apps only replace their copy of the event when the sequence goes up
+  const calendarUpdate = detailsChanged ? { ics_sequence: (event.ics_sequence ?? 0) + 1 } : {};
+
+  const nowIso = new Date().toISOString();
+  if (changedFields.length > 0) {
     const { error: updateError } = await supabase
+      .from('events')
+      .update({ ...eventUpdate, ...calendarUpdate, updated_at: nowIso })
+      .eq('id', eventId);
+
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+  }
+
+  // Reminders already sent were for the old time; schedule them afresh
+  if (timeMoved) {
+    await supabase.from('event_reminders').delete().eq('event_id', eventId);
+  }
+
+  // Moving the time invalidates acceptances and maybes: everyone who answered yes or maybe has to answer again
+  const resetIds = timeMoved
+    ? invitees.filter((inv) => inv.status === 'accepted' || inv.status === 'tentative').map((inv) => inv.id)
+    : [];
+  if (resetIds.length > 0) {
+    await supabase
+      .from('event_invitees')
+      .update({ status: 'invited', invited_at: nowIso, responded_at: null, updated_at: nowIso })
+      .in('id', resetIds);
+  }
+
+  // Switching to first-come-first-serve invites everyone still waiting in the queue
+  // (series occurrences whose queue has not started yet stay pending)
+  const newlyInvitedIds = eventUpdate.invite_mode === 'first-come-first-serve' && event.invites_sent_at
+    ? invitees.filter((inv) => inv.status === 'pending').map((inv) => inv.id)
+    : [];
+  if (newlyInvitedIds.length > 0) {
+    await supabase
       .from('event_invitees')
-      .update({ status, responded_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .update({ status: 'invited', invited_at: nowIso, updated_at: nowIso })
+      .in('id', newlyInvitedIds);
+  }
+
+  const updatedEvent = { ...event, ...eventUpdate, ...calendarUpdate };
+  const organizerName = event.organizer?.name || 'Organizer';
+
+  const changeLabels: Record<string, string> = {
+    title: 'title',
+    description: 'notes',
+    date: 'date',
+    time: 'time',
+    location: 'location',
+    timeZone: 'time zone',
+    durationMinutes: 'duration',
+    spots: 'spots',
+    inviteMode: 'invitation type',
+    autoPromoteInterval: 'auto-promote timer',
+    reminderOffsets: 'reminders',
+    expiryNudgeMinutes: 'expiry reminder',
+    tentativeHoldMinutes: 'maybe hold',
+    withdrawCutoffMinutes: 'withdrawal cutoff',
+  };
+  const changeSummary = changedFields.map((field) => changeLabels[field]).join(', ');
+
+  let notifiedCount = 0;
+  for (const inv of invitees) {
+    const email = inv.contact?.email;
+    const phone = inv.contact?.phone;
+    const name = inv.contact?.name;
+    const wasReset = resetIds.includes(inv.id);
+    const isNewlyInvited = newlyInvitedIds.includes(inv.id);
+    const holdsInvite = inv.status === 'invited' || inv.status === 'accepted' || inv.status === 'tentative';
+
+    if (!isNewlyInvited && !(holdsInvite && detailsChanged)) continue;
+
+    const needsResponse = isNewlyInvited || wasReset || inv.status === 'invited' || inv.status === 'tentative';
+    const smsData: EventSmsData = {
+      eventId,
+      eventTitle: updatedEvent.title,
+      eventDate: updatedEvent.date,
+      eventTime: updatedEvent.time,
+      timeZone: updatedEvent.time_zone,
+      location: updatedEvent.location,
+      organizerName,
+      inviteeName: name,
+    };
+
+    if (email) {
+      const urls = needsResponse ? await buildRsvpUrls(eventId, email) : null;
+      // Newly invited people get the plain invitation; their calendar entry comes with the confirmation
+      const ics = isNewlyInvited
+        ? undefined
+        : buildIcsAttachment('REQUEST', toIcsEvent(updatedEvent, event.organizer || {}, {
+          email,
+          name,
+          status: wasReset ? 'invited' : inv.status,
+        }));
+
+      await sendInviteEmail(
+        { email, name },
+        {
+          title: updatedEvent.title,
+          date: updatedEvent.date,
+          time: updatedEvent.time,
+          location: updatedEvent.location,
+          timeZone: updatedEvent.time_zone,
+          durationMinutes: updatedEvent.duration_minutes,
+          organizerName: event.organizer?.name,
+          notes: updatedEvent.description || '—',
+          orgName: event.organizer?.name || 'Booker',
+          confirmUrl: urls?.confirmUrl || `${APP_BASE_URL}/events/${eventId}`,
+          declineUrl: urls?.declineUrl,
+          tentativeUrl: urls?.tentativeUrl,
+          icsAttachments: ics ? [ics] : undefined,
+          changeSummary: isNewlyInvited ? undefined : changeSummary,
+          eventId,
+          icsInviteeId: ics ? inv.id : undefined,
+        },
+        { variant: isNewlyInvited ? 'invite' : 'update' },
+      );
+    }
+
+    if (phone) {
+      if (isNewlyInvited) {
+        await sendInvitationSms(phone, smsData, inv.id);
+      } else {
+        await sendEventUpdatedSms(phone, smsData, needsResponse, inv.id);
+      }
+    }
+
+    if (email || phone) notifiedCount += 1;
+  }
+
+  console.log(`✏️ Event "${updatedEvent.title}" (${updatedEvent.date}) updated (${changeSummary}); reset ${resetIds.length} acceptance(s), notified ${notifiedCount} invitee(s)`);
+
+  const responseEvent = {
+    id: updatedEvent.id,
+    title: updatedEvent.title,
+    description: updatedEvent.description,
+    date: updatedEvent.date,
+    time: updatedEvent.time,
+    location: updatedEvent.location,
+    timeZone: updatedEvent.time_zone,
+    durationMinutes: updatedEvent.duration_minutes,
+    spots: updatedEvent.spots ?? 1,
+    inviteMode: updatedEvent.invite_mode || 'priority',
+    autoPromoteInterval: updatedEvent.auto_promote_after_minutes ?? 30,
+    organizer: {
+      email: event.organizer.email,
+      name: event.organizer.name,
+    },
+    invitees: invitees.map((inv: any) => ({
+      email: inv.contact?.email,
+      name: inv.contact?.name,
+      phone: inv.contact?.phone,
+      priority: inv.priority,
+      status: resetIds.includes(inv.id) || newlyInvitedIds.includes(inv.id) ? 'invited' : inv.status,
+    })),
+    recurrence: updatedEvent.recurrence ?? undefined,
+    seriesId: updatedEvent.series_id ?? undefined,
+    occurrenceIndex: updatedEvent.occurrence_index ?? undefined,
+    createdAt: updatedEvent.created_at,
+  };
+
+  return { responseEvent, notifiedCount };
+};
+
+// Load the occurrences an edit or cancellation applies to: the event itself,
+// or for a series "this and following" / "all" occurrences, in date order
+const loadScopedOccurrences = async (
+  supabase: ReturnType<typeof getServiceClient>,
+  event: any,
+  scope: RecurrenceScope,
+  select: string,
+): Promise<any[]> => {
+  if (!event.series_id || scope === 'this') return [event];
+
+  let query = supabase
+    .from('events')
+    .select(select)
+    .eq('series_id', event.series_id);
+  if (scope === 'following') {
+    query = query.gte('occurrence_index', event.occurrence_index ?? 0);
+  }
+  const { data } = await query.order('occurrence_index', { ascending: true });
+  return data && data.length > 0 ? data : [event];
+};
+
+// Update event (organizer only). Notifies invitees who hold an invite about the change.
+// For a series occurrence, ?scope=this|following|all picks which occurrences are edited;
+// a date change is applied to each of them as the same shift in days.
+app.patch("/make-server-37f8437f/events/:eventId", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const eventId = c.req.param('eventId');
+    const updates = await c.req.json();
+    const scope = parseRecurrenceScope(c.req.query('scope') || updates.scope);
+    const supabase = getServiceClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select(EVENT_EDIT_SELECT)
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    if (event.organizer_id !== user.id) {
+      return c.json({ error: 'Unauthorized - not the organizer' }, 403);
+    }
+
+    const targets = await loadScopedOccurrences(supabase, event, scope, EVENT_EDIT_SELECT);
+    const dateShift = updates.date && updates.date !== event.date ? daysBetween(event.date, updates.date) : 0;
+
+    // Validate every occurrence before writing anything so a series is never half-edited
+    const plans: { occurrence: any; plan: EventUpdatePlan }[] = [];
+    for (const occurrence of targets) {
+      const occurrenceUpdates = occurrence.id === event.id || updates.date === undefined
+        ? updates
+        : { ...updates, date: addDays(occurrence.date, dateShift) };
+      const plan = planEventUpdate(occurrence, occurrenceUpdates);
+      if ('error' in plan) {
+        const prefix = targets.length > 1 ? `${formatDateForSms(occurrence.date)}: ` : '';
+        return c.json({ error: `${prefix}${plan.error}` }, 400);
+      }
+      plans.push({ occurrence, plan });
+    }
+
+    const updatedEvents: any[] = [];
+    let notifiedCount = 0;
+    for (const { occurrence, plan } of plans) {
+      try {
+        const result = await applyEventUpdate(supabase, occurrence, plan);
+        updatedEvents.push(result.responseEvent);
+        notifiedCount += result.notifiedCount;
+      } catch (updateError) {
+        console.log('Error updating event:', updateError);
+        return c.json({ error: (updateError as Error).message, events: updatedEvents }, 400);
+      }
+    }
+
+    const responseEvent = updatedEvents.find((e) => e.id === eventId) || updatedEvents[0];
+    const changedFields = plans.find((p) => p.occurrence.id === eventId)?.plan.changedFields ?? [];
+
+    return c.json({ success: true, event: responseEvent, events: updatedEvents, notifiedCount, changedFields });
+  } catch (error) {
+    console.log('Error updating event:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Queue activity log (auto-promote expiries and promotions), newest first
+app.get("/make-server-37f8437f/events/:eventId/activity", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const eventId = c.req.param('eventId');
+    const supabase = getServiceClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('id, organizer_id')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    if (event.organizer_id !== user.id) {
+      return c.json({ error: 'Unauthorized - not the organizer' }, 403);
+    }
+
+    const { data: entries, error } = await supabase
+      .from('event_activity')
+      .select('id, action, detail, created_at, invitee:event_invitees(contact:contacts!event_invitees_contact_id_fkey(email, name, phone))')
       .eq('event_id', eventId)
-      .eq('contact_id', invitee.contact_id);
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.log('Error fetching event activity:', error);
+      return c.json({ error: 'Failed to fetch activity' }, 500);
+    }
+
+    const activity = (entries || []).map((entry: any) => ({
+      id: entry.id,
+      action: entry.action,
+      detail: entry.detail,
+      createdAt: entry.created_at,
+      inviteeName: entry.invitee?.contact?.name || entry.invitee?.contact?.email || entry.invitee?.contact?.phone || null,
+    }));
+
+    return c.json({ activity });
+  } catch (error) {
+    console.log('Error fetching event activity:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Email/SMS sent for an event and whether they went out (organizer only)
+app.get("/make-server-37f8437f/events/:eventId/notifications", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const eventId = c.req.param('eventId');
+    const supabase = getServiceClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('id, organizer_id')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
+    }
+
+    if (event.organizer_id !== user.id) {
+      return c.json({ error: 'Unauthorized - not the organizer' }, 403);
+    }
+
+    // Not the payload: it holds the recipients' RSVP links
+    const { data: rows, error } = await supabase
+      .from('notifications')
+      .select('id, kind, channel, recipient, status, attempts, last_error, sent_at, delivered_at, created_at')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.log('Error fetching event notifications:', error);
+      return c.json({ error: 'Failed to fetch notifications' }, 500);
+    }
+
+    const notifications = (rows || []).map((row: any) => ({
+      id: row.id,
+      kind: row.kind,
+      channel: row.channel,
+      recipient: row.recipient,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error ?? undefined,
+      sentAt: row.sent_at ?? undefined,
+      deliveredAt: row.delivered_at ?? undefined,
+      createdAt: row.created_at,
+    }));
+
+    return c.json({ notifications });
+  } catch (error) {
+    console.log('Error fetching event notifications:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Delete event
+app.delete("/make-server-37f8437f/events/:eventId", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
     
-    if (updateError) {
-      console.log('Error updating invitee status:', updateError);
-      return c.json({ error: updateError.message }, 400);
+    const { user } = auth;
+    const eventId = c.req.param('eventId');
+    const scope = parseRecurrenceScope(c.req.query('scope'));
+    const supabase = getServiceClient();
+    
+    // Fetch full event details including invitees for notification
+    const cancelSelect = `
+      id, organizer_id, title, description, date, time, time_zone, duration_minutes, location,
+      series_id, occurrence_index, invites_sent_at, ics_sequence,
+      invitees:event_invitees(
+        id, status, ics_sent_at,
+        contact:contacts(email, phone, name)
+      )
+    `;
+    const { data: event } = await supabase
+      .from('events')
+      .select(cancelSelect)
+      .eq('id', eventId)
+      .single();
+    
+    if (!event) {
+      return c.json({ error: 'Event not found' }, 404);
     }
     
-    // If declined, invite the next person in queue
-    if (status === 'declined') {
-      // Find next pending invitee with higher priority number (lower priority)
-      const { data: nextInvitee } = await supabase
-        .from('event_invitees')
-        .select('*, contact:contacts!inner(email, name)')
-        .eq('event_id', eventId)
-        .eq('status', 'pending')
-        .gt('priority', invitee.priority)
-        .order('priority', { ascending: true })
-        .limit(1)
-        .single();
-      
-      if (nextInvitee) {
-        await supabase
-          .from('event_invitees')
-          .update({ status: 'invited', invited_at: new Date().toISOString(), updated_at: new Date().toISOString() })
-          .eq('id', nextInvitee.id);
+    if (event.organizer_id !== user.id) {
+      return c.json({ error: 'Unauthorized - not the organizer' }, 403);
+    }
 
-        // Send invite to the promoted invitee
-        await sendInviteEmail(
-          { email: nextInvitee.contact.email, name: nextInvitee.contact.name },
-          {
-            title: event?.title || 'Event Invitation',
-            date: event?.date || '',
-            time: event?.time || '',
-            location: event?.location,
-            timeZone: event?.time_zone,
-            durationMinutes: event?.duration_minutes,
-            organizerName: event?.organizer?.name,
-            notes: event?.description || '—',
-            orgName: event?.organizer?.name || 'Booker',
-            confirmUrl: (await buildRsvpUrls(eventId, nextInvitee.contact.email)).confirmUrl,
-            declineUrl: (await buildRsvpUrls(eventId, nextInvitee.contact.email)).declineUrl,
-          },
-        );
+    // Get organizer name from profiles or user metadata
+    let organizerName = 'The organizer';
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('name')
+      .eq('id', user.id)
+      .single();
+    
+    if (profile?.name) {
+      organizerName = profile.name;
+    } else if (user.user_metadata?.name) {
+      organizerName = user.user_metadata.name;
+    } else if (user.user_metadata?.full_name) {
+      organizerName = user.user_metadata.full_name;
+    }
+    
+    console.log(`📛 Organizer name for cancellation: "${organizerName}" (profile: ${profile?.name}, metadata: ${JSON.stringify(user.user_metadata)})`);
+
+    // Format date and time for SMS (use the global functions defined at the top)
+    // No need to redefine - using the global formatDateForSms and formatTimeForSms
+
+    // For a series, cancel this / this and following / all occurrences
+    const targets = await loadScopedOccurrences(supabase, event, scope, cancelSelect);
+    const targetIds = targets.map((occurrence: any) => occurrence.id);
+
+    // Collect the cancelled dates per phone so each invitee gets one SMS, even for a whole series.
+    // Occurrences whose invite queue has not started yet were never announced, so they are skipped.
+    const cancelledDatesByPhone = new Map<string, string[]>();
+    for (const occurrence of targets) {
+      if (occurrence.series_id && !occurrence.invites_sent_at) continue;
+      for (const inv of occurrence.invitees || []) {
+        const phone = inv.contact?.phone;
+        if (!phone) continue;
+        cancelledDatesByPhone.set(phone, [...(cancelledDatesByPhone.get(phone) || []), occurrence.date]);
+      }
+    }
+
+    // Send cancellation SMS to all invitees with phone numbers
+    const inviteesWithPhone = Array.from(cancelledDatesByPhone.keys());
+    console.log(`📤 Sending cancellation SMS to ${inviteesWithPhone.length} invitees for event "${event.title}" (${targets.length} occurrence(s))`);
+
+    for (const phone of inviteesWithPhone) {
+      try {
+        const dates = cancelledDatesByPhone.get(phone) || [];
+        const smsData = formatSmsData({
+          eventTitle: event.title,
+          eventDate: dates[0],
+          eventTime: event.time,
+          timeZone: event.time_zone,
+          organizerName,
+        });
+        const message = dates.length > 1 ? getSeriesCancellationSms(smsData, dates.length) : getCancellationSms(smsData);
+        
+        console.log(`📱 Sending cancellation SMS to ${phone}`);
+
+        if (await sendSms({ to: phone, message, eventId: event.id, kind: 'cancelled' })) {
+          console.log(`✅ Cancellation SMS queued for ${phone}`);
+        } else {
+          console.log(`⚠️ Failed to queue cancellation SMS for ${phone}`);
+        }
+      } catch (smsError) {
+        console.log(`⚠️ Error sending cancellation SMS:`, smsError);
+        // Continue with other invitees even if one fails
+      }
+    }
+
+    // Everyone who was sent the event for their calendar gets a CANCEL, one email per person
+    // with an attachment per cancelled occurrence; the bumped sequence makes calendars remove it
+    const calendarCopiesByEmail = new Map<string, { name?: string; copies: { occurrence: any; status: string }[] }>();
+    for (const occurrence of targets) {
+      for (const inv of occurrence.invitees || []) {
+        const email = inv.contact?.email;
+        if (!email || !inv.ics_sent_at) continue;
+        const entry = calendarCopiesByEmail.get(email) || { name: inv.contact?.name, copies: [] };
+        entry.copies.push({ occurrence, status: inv.status });
+        calendarCopiesByEmail.set(email, entry);
       }
     }
-    
-    // Fetch the updated event
-    if (!event) {
-      return c.json({ error: 'Event not found' }, 404);
+
+    for (const [email, { name, copies }] of calendarCopiesByEmail) {
+      const first = copies[0].occurrence;
+      const icsAttachments = copies.map(({ occurrence, status }) => buildIcsAttachment(
+        'CANCEL',
+        toIcsEvent(
+          { ...occurrence, ics_sequence: (occurrence.ics_sequence ?? 0) + 1 },
+          { email: user.email, name: organizerName },
+          { email, name, status },
+        ),
+        copies.length > 1 ? `event-${occurrence.date}.ics` : 'event.ics',
+      ));
+
+      await sendInviteEmail(
+        { email, name },
+        {
+          title: event.title,
+          date: first.date,
+          time: first.time,
+          location: first.location,
+          timeZone: first.time_zone,
+          durationMinutes: first.duration_minutes,
+          organizerName,
+          notes: first.description || '—',
+          orgName: organizerName,
+          changeSummary: copies.length > 1
+            ? `Cancelled dates: ${copies.map(({ occurrence }) => formatDateForSms(occurrence.date)).join(', ')}`
+            : undefined,
+          icsAttachments,
+          eventId: event.id,
+        },
+        { variant: 'cancelled' },
+      );
+    }
+    
+    // Delete the event(s) (invitees will cascade delete)
+    const { error: deleteError } = await supabase
+      .from('events')
+      .delete()
+      .in('id', targetIds);
+    
+    if (deleteError) {
+      console.log('Error deleting event:', deleteError);
+      return c.json({ error: deleteError.message }, 400);
+    }
+    
+    console.log(`✅ Event "${event.title}" deleted (${targetIds.length} occurrence(s)), ${inviteesWithPhone.length} invitees notified`);
+    return c.json({ success: true, notifiedCount: inviteesWithPhone.length, deletedIds: targetIds });
+  } catch (error) {
+    console.log('Error deleting event:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// --- Calendar feed ---
+// Each user can subscribe their calendar app to a secret URL listing the events they
+// organize and the ones they accepted. Regenerating the token revokes the old URL.
+
+// Feeds start this many days back and hold at most this many events
+const FEED_PAST_DAYS = 30;
+const FEED_MAX_EVENTS = 200;
+
+const calendarFeedUrl = (token: string) => `${FUNCTION_BASE_URL}/calendar/${token}.ics`;
+
+const createFeedToken = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(24)));
+
+// The user's feed URL; the first request creates it
+app.get("/make-server-37f8437f/calendar-feed", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const supabase = getServiceClient();
+
+    // ignoreDuplicates keeps an existing token, so two first requests agree on one
+    const { error: insertError } = await supabase
+      .from('calendar_feeds')
+      .upsert({ user_id: user.id, token: createFeedToken() }, { onConflict: 'user_id', ignoreDuplicates: true });
+    const { data: feed, error } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', user.id)
+      .single();
+
+    if (insertError || error || !feed) {
+      console.log('Error loading calendar feed:', insertError || error);
+      return c.json({ error: 'Failed to load calendar feed' }, 500);
+    }
+
+    return c.json({ url: calendarFeedUrl(feed.token) });
+  } catch (error) {
+    console.log('Error loading calendar feed:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Replace the token; calendars subscribed to the old URL stop updating
+app.post("/make-server-37f8437f/calendar-feed/regenerate", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const supabase = getServiceClient();
+    const token = createFeedToken();
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .upsert({ user_id: user.id, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.log('Error regenerating calendar feed:', error);
+      return c.json({ error: 'Failed to regenerate calendar feed' }, 500);
+    }
+
+    console.log(`📅 Calendar feed token regenerated for user ${user.id}`);
+    return c.json({ url: calendarFeedUrl(token) });
+  } catch (error) {
+    console.log('Error regenerating calendar feed:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// The feed itself (no auth header: calendar apps only have the URL)
+app.get("/make-server-37f8437f/calendar/:token", async (c) => {
+  try {
+    const token = c.req.param('token').replace(/\.ics$/, '');
+    const supabase = getServiceClient();
+
+    const from = new Date(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { data: rows, error } = await supabase.rpc('calendar_feed_events', {
+      p_token: token,
+      p_from: from,
+      p_limit: FEED_MAX_EVENTS,
+    });
+
+    if (error) {
+      console.log('Error listing calendar feed events:', error);
+      return c.text('Failed to load calendar', 500);
+    }
+
+    // An unknown token and an empty feed look alike to calendar_feed_events
+    if (!rows || rows.length === 0) {
+      const { data: feed } = await supabase.from('calendar_feeds').select('user_id').eq('token', token).maybeSingle();
+      if (!feed) {
+        return c.text('Calendar not found', 404);
+      }
+    }
+
+    let events: any[] = [];
+    if (rows && rows.length > 0) {
+      const { data, error: eventsError } = await supabase
+        .from('events')
+        .select('*, organizer:users!events_organizer_id_fkey(email, name)')
+        .in('id', rows.map((row: any) => row.id));
+
+      if (eventsError) {
+        console.log('Error fetching calendar feed events:', eventsError);
+        return c.text('Failed to load calendar', 500);
+      }
+      events = data || [];
+    }
+
+    const ics = buildCalendarFeed('Booker', events.map((event) => toIcsEvent(event, event.organizer || {})));
+    return c.body(ics, 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="booker.ics"',
+      'Cache-Control': 'private, max-age=300',
+    });
+  } catch (error) {
+    console.log('Error serving calendar feed:', error);
+    return c.text('Internal server error', 500);
+  }
+});
+
+// --- Find-a-time polls (see src/lib/polls.ts) ---
+// The organizer proposes a few date/time options; everyone on the list answers
+// yes/maybe/no from a personal link or by texting "VOTE 1 3". Booking the
+// winning option goes through POST /events with pollId, which marks the poll booked.
+
+// Poll columns with its options, participants and their votes
+const POLL_SELECT = `
+  *,
+  options:poll_options (id, position, date, time),
+  participants:poll_participants (
+    id,
+    priority,
+    token,
+    invited_at,
+    responded_at,
+    contact:contacts (id, email, name, phone),
+    votes:poll_votes (option_id, answer)
+  )
+`;
+
+// Transform a poll row (selected with POLL_SELECT) for the organizer's dashboard
+const formatPoll = (poll: any) => {
+  const participants = [...(poll.participants || [])].sort((a: any, b: any) => a.priority - b.priority);
+  return {
+    id: poll.id,
+    title: poll.title,
+    description: poll.description || '',
+    location: poll.location || '',
+    timeZone: poll.time_zone || undefined,
+    status: poll.status,
+    eventId: poll.event_id || undefined,
+    bookedOptionId: poll.booked_option_id || undefined,
+    draft: poll.event_draft || {},
+    createdAt: poll.created_at,
+    options: [...(poll.options || [])]
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((option: any) => ({ id: option.id, position: option.position, date: option.date, time: option.time.slice(0, 5) })),
+    participants: participants.map((participant: any) => ({
+      id: participant.id,
+      name: participant.contact?.name,
+      email: participant.contact?.email || undefined,
+      phone: participant.contact?.phone || undefined,
+      priority: participant.priority,
+      invitedAt: participant.invited_at || undefined,
+      respondedAt: participant.responded_at || undefined,
+    })),
+    votes: participants.flatMap((participant: any) =>
+      (participant.votes || []).map((vote: any) => ({ participantId: participant.id, optionId: vote.option_id, answer: vote.answer }))
+    ),
+  };
+};
+
+// "Tue, Jan 20 3:00 PM EST" for a poll option
+const formatPollOption = (option: { date: string; time: string }, timeZone?: string | null) =>
+  `${formatDateForSms(option.date)} ${formatTimeForSms(option.time, option.date, timeZone)}`;
+
+const pollVoteUrl = (token: string) => `${FUNCTION_BASE_URL}/poll/${token}`;
+
+const createPollToken = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+
+// Store a participant's answers (by option id), replacing earlier ones
+const savePollVotes = async (supabase: any, participantId: string, answers: Record<string, PollAnswer>): Promise<boolean> => {
+  const nowIso = new Date().toISOString();
+  const { error } = await supabase
+    .from('poll_votes')
+    .upsert(
+      Object.entries(answers).map(([optionId, answer]) => ({
+        participant_id: participantId,
+        option_id: optionId,
+        answer,
+        updated_at: nowIso,
+      })),
+      { onConflict: 'participant_id,option_id' },
+    );
+  if (error) {
+    console.log('Error saving poll votes:', { participantId, error });
+    return false;
+  }
+  await supabase.from('poll_participants').update({ responded_at: nowIso }).eq('id', participantId);
+  return true;
+};
+
+// Email and text a participant their vote link (poll loaded with POLL_SELECT)
+const sendPollInvite = async (poll: any, participant: any, organizerName: string) => {
+  const contact = participant.contact || {};
+  const voteUrl = pollVoteUrl(participant.token);
+  const options = [...(poll.options || [])]
+    .sort((a: any, b: any) => a.position - b.position)
+    .map((option: any) => formatPollOption(option, poll.time_zone));
+
+  if (contact.email && emailTransport && EMAIL_FROM) {
+    const subject = `${organizerName} is finding a time: ${poll.title}`;
+    const text = [
+      `Hi ${contact.name || 'there'},`,
+      '',
+      `${organizerName} is finding a time for "${poll.title}". Which of these work for you?`,
+      ...options.map((option, index) => `${index + 1}) ${option}`),
+      '',
+      `Vote here: ${voteUrl}`,
+    ].join('\n');
+    const html = `
+      <div style="font-family:Arial,Helvetica,sans-serif;max-width:520px; color:#0f172a;">
+        <h2 style="margin:0 0 12px 0;">Finding a time: ${escapeHtml(poll.title)}</h2>
+        <p style="margin:0 0 12px 0;">Hi ${escapeHtml(contact.name || 'there')},</p>
+        <p style="margin:0 0 12px 0;">${escapeHtml(organizerName)} is finding a time for <strong>${escapeHtml(poll.title)}</strong>. Which of these work for you?</p>
+        <ol style="padding-left:18px; margin:0 0 16px 0; line-height:1.4;">
+          ${options.map((option) => `<li>${option}</li>`).join('')}
+        </ol>
+        <div style="margin:0 0 14px 0;">
+          <a href="${voteUrl}" style="display:inline-block; padding:12px 16px; background:#4f46e5; color:#ffffff; text-decoration:none; border-radius:10px; font-weight:700; text-align:center;">Vote</a>
+        </div>
+        <p style="margin:0; font-size:12px; color:#475569;">If the button does not work, open: ${voteUrl}</p>
+      </div>`;
+    await queueNotification({
+      kind: 'poll',
+      channel: 'email',
+      recipient: contact.email,
+      payload: { from: EMAIL_FROM, subject, text, html, attachments: [] },
+    });
+  }
+
+  if (contact.phone) {
+    await sendSms({
+      to: contact.phone,
+      message: getPollInviteSms({ organizerName, pollTitle: poll.title, options, voteUrl }),
+      kind: 'poll',
+    });
+  }
+};
+
+/**
+ * Mark an open poll booked with one of its options, for POST /events. Returns
+ * an error for the response, or null once the poll is claimed.
+ */
+const claimPollForBooking = async (
+  supabase: any,
+  pollId: string,
+  optionId: string | undefined,
+  organizerId: string,
+): Promise<{ error: string; status: 400 | 404 | 409 } | null> => {
+  if (!optionId) {
+    return { error: 'Pick one of the poll times to book', status: 400 };
+  }
+  const { data: option } = await supabase
+    .from('poll_options')
+    .select('id, poll:polls!inner (id, organizer_id)')
+    .eq('id', optionId)
+    .eq('poll_id', pollId)
+    .maybeSingle();
+  if (!option || option.poll?.organizer_id !== organizerId) {
+    return { error: 'Poll option not found', status: 404 };
+  }
+
+  // Only one booking wins: the update matches nothing once the poll is booked
+  const { data: claimed, error } = await supabase
+    .from('polls')
+    .update({ status: 'booked', booked_option_id: option.id, updated_at: new Date().toISOString() })
+    .eq('id', pollId)
+    .eq('organizer_id', organizerId)
+    .eq('status', 'open')
+    .select('id');
+  if (error) {
+    console.log('Error claiming poll:', error);
+    return { error: 'Failed to book poll', status: 400 };
+  }
+  if (!claimed || claimed.length === 0) {
+    return { error: 'This poll has already been booked', status: 409 };
+  }
+  return null;
+};
+
+// Reopen a claimed poll whose event could not be created
+const releasePoll = async (supabase: any, pollId: string) => {
+  const { error } = await supabase
+    .from('polls')
+    .update({ status: 'open', booked_option_id: null, updated_at: new Date().toISOString() })
+    .eq('id', pollId);
+  if (error) {
+    console.log('Error reopening poll:', { pollId, error });
+  }
+};
+
+// The public vote page: one yes/maybe/no row per option, with earlier answers checked
+const buildPollVotePage = (poll: any, participant: any, options: { error?: string } = {}) => {
+  const answers = new Map<string, string>(
+    (participant.votes || []).map((vote: any) => [vote.option_id, vote.answer])
+  );
+  const rows = [...(poll.options || [])]
+    .sort((a: any, b: any) => a.position - b.position)
+    .map((option: any) => {
+      const choices = ([['yes', 'Yes'], ['maybe', 'Maybe'], ['no', 'No']] as const)
+        .map(([value, label]) => `
+          <label style="margin-right:14px;font-size:14px;">
+            <input type="radio" name="option-${option.id}" value="${value}"${answers.get(option.id) === value ? ' checked' : ''} required /> ${label}
+          </label>`)
+        .join('');
+      return `
+        <div style="border:1px solid #e5e7eb;border-radius:12px;padding:12px 14px;margin:0 0 10px 0;">
+          <div style="font-weight:700;margin-bottom:8px;">${formatPollOption(option, poll.time_zone)}</div>
+          ${choices}
+        </div>`;
+    })
+    .join('');
+  const organizerName = escapeHtml(poll.organizer?.name || 'The organizer');
+
+  return `<!doctype html>
+  <html lang="en">
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>${escapeHtml(poll.title)}</title>
+    </head>
+    <body style="margin:0;padding:0;font-family:'Helvetica Neue',Helvetica,Arial,sans-serif;background:#f8fafc;color:#0f172a;">
+      <div style="max-width:560px;margin:48px auto;background:#ffffff;border-radius:16px;padding:28px;box-shadow:0 20px 60px rgba(15,23,42,0.10);border:1px solid #e5e7eb;">
+        <div style="font-size:14px;color:#6b7280;">Find a time</div>
+        <h1 style="margin:2px 0 12px 0;font-size:22px;">${escapeHtml(poll.title)}</h1>
+        <p style="margin:0 0 16px 0;font-size:15px;color:#374151;">Hi ${escapeHtml(participant.contact?.name || 'there')}, ${organizerName} wants to know which times work for you.${poll.location ? ` Location: ${escapeHtml(poll.location)}.` : ''}</p>
+        ${options.error ? `<p style="margin:0 0 16px 0;color:#dc2626;font-weight:700;">${escapeHtml(options.error)}</p>` : ''}
+        <form method="post" action="${pollVoteUrl(participant.token)}">
+          ${rows}
+          <button type="submit" style="margin-top:8px;padding:12px 18px;border:0;border-radius:12px;background:#4f46e5;color:#ffffff;font-weight:700;font-size:15px;cursor:pointer;">Save my answers</button>
+        </form>
+      </div>
+    </body>
+  </html>`;
+};
+
+// Load a poll participant (with their poll) by vote link token
+const loadPollParticipant = async (supabase: any, token: string) => {
+  const { data, error } = await supabase
+    .from('poll_participants')
+    .select(`
+      id,
+      token,
+      contact:contacts (name),
+      votes:poll_votes (option_id, answer),
+      poll:polls!inner (
+        id,
+        title,
+        location,
+        time_zone,
+        status,
+        options:poll_options (id, position, date, time),
+        organizer:users!polls_organizer_id_fkey (name)
+      )
+    `)
+    .eq('token', token)
+    .maybeSingle();
+  if (error) {
+    console.log('Error loading poll participant:', error);
+  }
+  return data;
+};
+
+const htmlPage = (html: string, status = 200) =>
+  new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+const pollClosedPage = (poll: any) => buildResultPage({
+  title: 'This poll is closed',
+  detail: 'A time has already been picked. Watch for your invitation.',
+  eventTitle: escapeHtml(poll.title),
+  accentColor: '#6b7280',
+  badge: '—',
+});
+
+/**
+ * Reply text for a "VOTE 1 3" text: records the answers on the most recently
+ * sent open poll for that phone number.
+ */
+const replyToPollVote = async (supabase: any, from: string, choices: number[]): Promise<string> => {
+  const normalizedIncoming = normalizePhoneForComparison(from);
+  const { data: participants, error } = await supabase
+    .from('poll_participants')
+    .select(`
+      id,
+      invited_at,
+      contact:contacts!inner (phone),
+      poll:polls!inner (id, title, time_zone, status, options:poll_options (id, position, date, time))
+    `)
+    .eq('poll.status', 'open')
+    .like('contact.phone', `%${normalizedIncoming.slice(-4)}`)
+    .order('invited_at', { ascending: false, nullsFirst: false });
+
+  if (error) {
+    console.log('Error finding polls for SMS vote:', error);
+    return 'Error processing your request. Please try again.';
+  }
+
+  const participant = (participants || []).find(
+    (row: any) => normalizedIncoming.length > 0 && normalizePhoneForComparison(row.contact?.phone) === normalizedIncoming,
+  );
+  if (!participant) {
+    return "You don't have any open polls to vote on.";
+  }
+
+  const { poll } = participant;
+  const options = [...(poll.options || [])].sort((a: any, b: any) => a.position - b.position);
+  const answers = answersFromSmsChoices(options.map((option: any) => option.id), choices);
+  if ('error' in answers) {
+    return answers.error as string;
+  }
+  if (!(await savePollVotes(supabase, participant.id, answers))) {
+    return 'Sorry, something went wrong. Please try again.';
+  }
+
+  console.log(`🗳️ [SMS WEBHOOK] Vote recorded for poll ${poll.id}`);
+  return getPollVoteReplySms(
+    poll.title,
+    options.filter((option: any) => answers[option.id] === 'yes').map((option: any) => formatPollOption(option, poll.time_zone)),
+  );
+};
+
+// Create a poll and send everyone their vote link
+app.post("/make-server-37f8437f/polls", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { user } = auth;
+    const pollData = await c.req.json();
+    const supabase = getServiceClient();
+
+    if (!pollData.title || !pollData.title.trim()) {
+      return c.json({ error: 'Title is required' }, 400);
+    }
+    const optionsError = validatePollOptions(pollData.pollOptions, pollData.timeZone);
+    if (optionsError) {
+      return c.json({ error: optionsError }, 400);
+    }
+    const invitees = (pollData.invitees || []).filter((invitee: any) => invitee.email?.trim() || invitee.phone?.trim());
+    if (invitees.length === 0) {
+      return c.json({ error: 'Add at least one person to ask' }, 400);
+    }
+
+    await supabase.from('users').upsert({
+      id: user.id,
+      email: user.email,
+      name: user.user_metadata?.name || user.email,
+      avatar_url: user.user_metadata?.avatar_url || user.user_metadata?.picture,
+    }, { onConflict: 'id' });
+
+    // The rest of the event form is kept for booking; date, time and invitees come from the poll
+    const { date: _date, time: _time, invitees: _invitees, recurrence: _recurrence, pollOptions, ...draft } = pollData;
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .insert({
+        organizer_id: user.id,
+        title: pollData.title.trim(),
+        description: pollData.description || null,
+        location: pollData.location || null,
+        time_zone: pollData.timeZone || null,
+        event_draft: draft,
+      })
+      .select('id')
+      .single();
+
+    if (pollError || !poll) {
+      console.log('Error creating poll:', pollError);
+      return c.json({ error: pollError?.message || 'Failed to create poll' }, 400);
+    }
+
+    const { error: optionError } = await supabase
+      .from('poll_options')
+      .insert(pollOptions.map((option: any, index: number) => ({
+        poll_id: poll.id,
+        position: index + 1,
+        date: option.date,
+        time: option.time,
+      })));
+    if (optionError) {
+      console.log('Error adding poll options:', optionError);
+      await supabase.from('polls').delete().eq('id', poll.id);
+      return c.json({ error: 'Failed to create poll' }, 400);
+    }
+
+    const contactMap = await upsertInviteeContacts(supabase, user.id, invitees);
+    const invitedAt = new Date().toISOString();
+    const participantRows = invitees
+      .map((invitee: any, index: number) => ({
+        poll_id: poll.id,
+        contact_id: contactMap.get(invitee.email || invitee.phone)?.id,
+        priority: invitee.priority ?? index,
+        token: createPollToken(),
+        invited_at: invitedAt,
+      }))
+      .filter((row: any) => row.contact_id);
+    const { error: participantError } = await supabase
+      .from('poll_participants')
+      .upsert(participantRows, { onConflict: 'poll_id,contact_id', ignoreDuplicates: true });
+    if (participantError) {
+      console.log('Error adding poll participants:', participantError);
+    }
+
+    const { data: fullPoll, error: fetchError } = await supabase
+      .from('polls')
+      .select(POLL_SELECT)
+      .eq('id', poll.id)
+      .single();
+    if (fetchError || !fullPoll) {
+      console.log('Error fetching poll after creation:', fetchError);
+      return c.json({ error: 'Failed to fetch created poll' }, 500);
+    }
+
+    const organizerName = user.user_metadata?.name || user.email || 'Organizer';
+    console.log('📤 [POLL CREATE] Sending vote links to', fullPoll.participants?.length || 0, 'people');
+    for (const participant of fullPoll.participants || []) {
+      await sendPollInvite(fullPoll, participant, organizerName);
+    }
+
+    return c.json({ success: true, poll: formatPoll(fullPoll) });
+  } catch (error) {
+    console.log('Error creating poll:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// The organizer's polls, newest first
+app.get("/make-server-37f8437f/polls", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: polls, error } = await getServiceClient()
+      .from('polls')
+      .select(POLL_SELECT)
+      .eq('organizer_id', auth.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.log('Error fetching polls:', error);
+      return c.json({ error: 'Failed to fetch polls' }, 500);
     }
-    
-    // Transform to match frontend expected format
-    const responseEvent = {
-      id: event.id,
-      title: event.title,
-      description: event.description,
-      date: event.date,
-      time: event.time,
-      location: event.location,
-      organizer: {
-        email: event.organizer.email,
-        name: event.organizer.name,
-      },
-      invitees: event.invitees.map((inv: any) => ({
-        email: inv.contact.email,
-        name: inv.contact.name,
-        priority: inv.priority,
-        status: inv.status,
-      })),
-      createdAt: event.created_at,
-    };
-    
-    return c.json({ success: true, event: responseEvent });
+
+    return c.json({ polls: (polls || []).map(formatPoll) });
   } catch (error) {
-    console.log('Error updating invitee status:', error);
+    console.log('Error fetching polls:', error);
     return c.json({ error: 'Internal server error' }, 500);
   }
 });
 
-// Delete event
-app.delete("/make-server-37f8437f/events/:eventId", async (c) => {
+// One poll with its tally (organizer only)
+app.get("/make-server-37f8437f/polls/:pollId", async (c) => {
   try {
     const auth = await getAuthenticatedUser(c.req.header('Authorization'));
     if (!auth) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
-    
-    const { user } = auth;
-    const eventId = c.req.param('eventId');
-    const supabase = getServiceClient();
-    
-    // Fetch full event details including invitees for notification
-    const { data: event } = await supabase
-      .from('events')
-      .select(`
-        id, organizer_id, title, date, time, location,
-        invitees:event_invitees(
-          id, status,
-          contact:contacts(phone, name)
-        )
-      `)
-      .eq('id', eventId)
-      .single();
-    
-    if (!event) {
-      return c.json({ error: 'Event not found' }, 404);
+
+    const { data: poll, error } = await getServiceClient()
+      .from('polls')
+      .select(POLL_SELECT)
+      .eq('id', c.req.param('pollId'))
+      .eq('organizer_id', auth.user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.log('Error fetching poll:', error);
+      return c.json({ error: 'Failed to fetch poll' }, 500);
     }
-    
-    if (event.organizer_id !== user.id) {
-      return c.json({ error: 'Unauthorized - not the organizer' }, 403);
+    if (!poll) {
+      return c.json({ error: 'Poll not found' }, 404);
     }
 
-    // Get organizer name from profiles or user metadata
-    let organizerName = 'The organizer';
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('name')
-      .eq('id', user.id)
-      .single();
-    
-    if (profile?.name) {
-      organizerName = profile.name;
-    } else if (user.user_metadata?.name) {
-      organizerName = user.user_metadata.name;
-    } else if (user.user_metadata?.full_name) {
-      organizerName = user.user_metadata.full_name;
+    return c.json({ poll: formatPoll(poll) });
+  } catch (error) {
+    console.log('Error fetching poll:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+// Delete a poll (organizer only); a booked poll's event is kept
+app.delete("/make-server-37f8437f/polls/:pollId", async (c) => {
+  try {
+    const auth = await getAuthenticatedUser(c.req.header('Authorization'));
+    if (!auth) {
+      return c.json({ error: 'Unauthorized' }, 401);
     }
-    
-    console.log(`📛 Organizer name for cancellation: "${organizerName}" (profile: ${profile?.name}, metadata: ${JSON.stringify(user.user_metadata)})`);
 
-    // Format date and time for SMS (use the global functions defined at the top)
-    // No need to redefine - using the global formatDateForSms and formatTimeForSms
+    const { data: deleted, error } = await getServiceClient()
+      .from('polls')
+      .delete()
+      .eq('id', c.req.param('pollId'))
+      .eq('organizer_id', auth.user.id)
+      .select('id');
 
-    // Send cancellation SMS to all invitees with phone numbers
-    const inviteesWithPhone = (event.invitees || []).filter((inv: any) => inv.contact?.phone);
-    console.log(`📤 Sending cancellation SMS to ${inviteesWithPhone.length} invitees for event "${event.title}"`);
+    if (error) {
+      console.log('Error deleting poll:', error);
+      return c.json({ error: 'Failed to delete poll' }, 500);
+    }
+    if (!deleted || deleted.length === 0) {
+      return c.json({ error: 'Poll not found' }, 404);
+    }
 
-    for (const inv of inviteesWithPhone) {
-      try {
-        const phone = inv.contact.phone;
-        const message = `CANCELLED: "${event.title}" on ${formatDateForSms(event.date)} at ${formatTimeForSms(event.time)} has been cancelled by ${organizerName}.`;
-        
-        console.log(`📱 Sending cancellation SMS to ${phone}`);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Error deleting poll:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
 
-        if (TWILIO_ACCOUNT_SID && TWILIO_API_KEY && TWILIO_API_SECRET && TWILIO_PHONE_NUMBER) {
-          const twilioResponse = await fetch(
-            `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Basic ${btoa(`${TWILIO_API_KEY}:${TWILIO_API_SECRET}`)}`,
-                'Content-Type': 'application/x-www-form-urlencoded',
-              },
-              body: new URLSearchParams({
-                To: phone,
-                From: TWILIO_PHONE_NUMBER,
-                Body: message,
-              }),
-            }
-          );
+// Vote page (no auth header: the token in the link is the participant's)
+app.get("/make-server-37f8437f/poll/:token", async (c) => {
+  try {
+    const participant = await loadPollParticipant(getServiceClient(), c.req.param('token'));
+    if (!participant) {
+      return htmlPage(buildResultPage({
+        title: 'Poll not found',
+        detail: 'This link is not valid. Ask the organizer to send it again.',
+        accentColor: '#dc2626',
+        badge: '!',
+      }), 404);
+    }
+    if (participant.poll.status !== 'open') {
+      return htmlPage(pollClosedPage(participant.poll));
+    }
+    return htmlPage(buildPollVotePage(participant.poll, participant));
+  } catch (error) {
+    console.log('Error showing poll:', error);
+    return c.text('Internal server error', 500);
+  }
+});
 
-          if (twilioResponse.ok) {
-            console.log(`✅ Cancellation SMS sent to ${phone}`);
-          } else {
-            const errorText = await twilioResponse.text();
-            console.log(`⚠️ Failed to send cancellation SMS to ${phone}:`, errorText);
-          }
-        } else {
-          console.log('⚠️ Twilio credentials not configured for cancellation SMS');
-        }
-      } catch (smsError) {
-        console.log(`⚠️ Error sending cancellation SMS:`, smsError);
-        // Continue with other invitees even if one fails
-      }
+// Vote form submission
+app.post("/make-server-37f8437f/poll/:token", async (c) => {
+  try {
+    const supabase = getServiceClient();
+    const participant = await loadPollParticipant(supabase, c.req.param('token'));
+    if (!participant) {
+      return htmlPage(buildResultPage({
+        title: 'Poll not found',
+        detail: 'This link is not valid. Ask the organizer to send it again.',
+        accentColor: '#dc2626',
+        badge: '!',
+      }), 404);
     }
-    
-    // Delete the event (invitees will cascade delete)
-    const { error: deleteError } = await supabase
-      .from('events')
-      .delete()
-      .eq('id', eventId);
-    
-    if (deleteError) {
-      console.log('Error deleting event:', deleteError);
-      return c.json({ error: deleteError.message }, 400);
+    const { poll } = participant;
+    if (poll.status !== 'open') {
+      return htmlPage(pollClosedPage(poll));
     }
-    
-    console.log(`✅ Event "${event.title}" deleted, ${inviteesWithPhone.length} invitees notified`);
-    return c.json({ success: true, notifiedCount: inviteesWithPhone.length });
+
+    const options = [...(poll.options || [])].sort((a: any, b: any) => a.position - b.position);
+    const answers = readPollForm(await c.req.parseBody(), options.map((option: any) => option.id));
+    if ('error' in answers) {
+      return htmlPage(buildPollVotePage(poll, participant, { error: answers.error as string }), 400);
+    }
+    if (!(await savePollVotes(supabase, participant.id, answers))) {
+      return htmlPage(buildPollVotePage(poll, participant, { error: 'Sorry, something went wrong. Please try again.' }), 500);
+    }
+
+    const yes = options.filter((option: any) => answers[option.id] === 'yes').map((option: any) => formatPollOption(option, poll.time_zone));
+    return htmlPage(buildResultPage({
+      title: 'Thanks, your answers are saved',
+      detail: yes.length > 0
+        ? `You said yes to ${yes.join('; ')}. You'll get an invite once a time is picked.`
+        : 'You can change your answers from this link until a time is picked.',
+      eventTitle: escapeHtml(poll.title),
+    }));
   } catch (error) {
-    console.log('Error deleting event:', error);
-    return c.json({ error: 'Internal server error' }, 500);
+    console.log('Error saving poll votes:', error);
+    return c.text('Internal server error', 500);
   }
 });
 
-// --- Twilio SMS Webhook (Incoming SMS) ---
-// This endpoint receives incoming SMS messages from Twilio
+// --- SMS Webhook (Incoming SMS) ---
+// This endpoint receives incoming SMS messages from the SMS provider
 // Users can reply Y/N to confirm/decline event invitations
-app.post("/make-server-37f8437f/sms/webhook", async (c) => {
-  try {
-    // Parse the incoming SMS from Twilio (application/x-www-form-urlencoded)
-    const formData = await c.req.parseBody();
-    const from = formData['From'] as string; // Phone number of sender
-    const body = formData['Body'] as string; // SMS message body
-    const messageSid = formData['MessageSid'] as string;
 
-    console.log('Incoming SMS:', { from, body, messageSid });
+// Invitation columns an incoming SMS needs: the contact to match the phone, the event and its organizer
+const INBOUND_INVITE_SELECT = `
+  id,
+  event_id,
+  status,
+  sms_code,
+  contact:contacts!inner (
+    id,
+    phone,
+    email,
+    name,
+    owner_id
+  ),
+  event:events!inner (
+    id,
+    title,
+    description,
+    date,
+    time,
+    time_zone,
+    duration_minutes,
+    location,
+    organizer_id,
+    organizer:users!events_organizer_id_fkey (
+      id,
+      email,
+      name,
+      phone
+    )
+  )
+`;
+
+/**
+ * Store an invitee's late/free-text message on their invitation and
+ * pass it on to the organizer.
+ */
+const recordInviteeNote = async (supabase: any, invite: any, note: string) => {
+  const nowIso = new Date().toISOString();
+  const { error } = await supabase
+    .from('event_invitees')
+    .update({ note, note_at: nowIso, updated_at: nowIso })
+    .eq('id', invite.id);
+  if (error) {
+    console.log('Error saving invitee note:', { inviteeId: invite.id, error });
+  }
+  await sendNoteToOrganizer(invite.event, invite.contact?.name || invite.contact?.email, note);
+};
+
+/**
+ * Reply text for an incoming SMS: handles STOP/START/HELP, records a Y/N
+ * (or maybe) reply as an RSVP and a VOTE as find-a-time poll answers, and
+ * passes late/free-text messages on to the organizer as a note on the invitation.
+ */
+const replyToInboundSms = async ({ from, body, messageId }: InboundSms): Promise<string> => {
+  try {
+    console.log('Incoming SMS:', { from, body, messageId });
 
     if (!from || !body) {
-      // Return TwiML response with error
-      return c.text('<?xml version="1.0" encoding="UTF-8"?><Response><Message>Invalid request</Message></Response>', 200, {
-        'Content-Type': 'text/xml',
-      });
+      return 'Invalid request';
     }
 
     const supabase = getServiceClient();
 
+    // Carrier keywords come first so an opt-out is never read as an RSVP
+    const keyword = parseSmsKeyword(body);
+    if (keyword === 'help') {
+      return getHelpSms(APP_BASE_URL);
+    }
+    if (keyword) {
+      const { error: optOutError } = await supabase.rpc('set_sms_opt_out', {
+        p_phone: from,
+        p_opted_out: keyword === 'stop',
+        p_keyword: body.trim().toUpperCase(),
+      });
+      if (optOutError) {
+        console.log('Error updating SMS suppression list:', optOutError);
+        return 'Sorry, something went wrong. Please try again.';
+      }
+      console.log(`📵 [SMS WEBHOOK] ${from} ${keyword === 'stop' ? 'opted out' : 'opted back in'}`);
+      return keyword === 'stop' ? getOptOutSms() : getOptInSms();
+    }
+
+    const intent = parseInboundSms(body);
+    if (intent.kind === 'unrecognized') {
+      return 'Sorry, I didn\'t understand that. Reply Y to confirm or N to decline your event invitation.';
+    }
+    if (intent.kind === 'vote') {
+      return await replyToPollVote(supabase, from, intent.choices);
+    }
+
     // Normalize phone number (remove any spaces/dashes)
     const normalizedPhone = from.replace(/[^\d+]/g, '');
     console.log('📱 [SMS WEBHOOK] Normalized phone:', normalizedPhone);
@@ -1836,43 +4270,17 @@ app.post("/make-server-37f8437f/sms/webhook", async (c) => {
     console.log('📱 [SMS WEBHOOK] Querying for pending invites...');
     const { data: pendingInvites, error: inviteError } = await supabase
       .from('event_invitees')
-      .select(`
-        id,
-        event_id,
-        status,
-        contact:contacts!inner (
-          id,
-          phone,
-          email,
-          name,
-          owner_id
-        ),
-        event:events!inner (
-          id,
-          title,
-          date,
-          time,
-          location,
-          organizer_id,
-          organizer:users!events_organizer_id_fkey (
-            id,
-            email,
-            name,
-            phone
-          )
-        )
-      `)
-      .or(`status.eq.invited,status.eq.pending`)
-      .order('invited_at', { ascending: false });
+      .select(INBOUND_INVITE_SELECT)
+      .or(`status.eq.invited,status.eq.pending,status.eq.tentative`)
+      // Series occurrences that haven't started have pending rows without invited_at; keep them last
+      .order('invited_at', { ascending: false, nullsFirst: false });
 
     console.log('📱 [SMS WEBHOOK] Looking for invites with phone:', normalizedPhone);
     console.log('📱 [SMS WEBHOOK] Found', pendingInvites?.length || 0, 'pending invites total');
     
     if (inviteError) {
       console.log('Error finding pending invites:', inviteError);
-      return c.text('<?xml version="1.0" encoding="UTF-8"?><Response><Message>Error processing your request. Please try again.</Message></Response>', 200, {
-        'Content-Type': 'text/xml',
-      });
+      return 'Error processing your request. Please try again.';
     }
 
     // Log all pending invites for debugging
@@ -1886,124 +4294,315 @@ app.post("/make-server-37f8437f/sms/webhook", async (c) => {
       });
     });
 
-    // Helper to normalize phone to just digits (strip + and country code variations)
-    const normalizePhoneForComparison = (phone: string | null | undefined): string => {
-      if (!phone) return '';
-      // Remove all non-digit characters
-      const digitsOnly = phone.replace(/\D/g, '');
-      // If starts with 1 and has 11 digits (US/Canada), strip the leading 1
-      if (digitsOnly.length === 11 && digitsOnly.startsWith('1')) {
-        return digitsOnly.substring(1);
-      }
-      return digitsOnly;
-    };
-
     const normalizedIncoming = normalizePhoneForComparison(normalizedPhone);
     console.log('📱 [SMS WEBHOOK] Normalized for comparison:', normalizedIncoming);
 
-    // Find invitation matching the phone number
-    const matchingInvite = pendingInvites?.find((inv: any) => {
+    // Open invitations for this phone number, most recently invited first
+    const matchingInvites = (pendingInvites || []).filter((inv: any) => {
       const contactPhoneNormalized = normalizePhoneForComparison(inv.contact?.phone);
-      const isMatch = contactPhoneNormalized === normalizedIncoming && contactPhoneNormalized.length > 0;
-      console.log('📱 [SMS WEBHOOK] Comparing:', { contactPhoneNormalized, normalizedIncoming, match: isMatch });
-      return isMatch;
+      return contactPhoneNormalized === normalizedIncoming && contactPhoneNormalized.length > 0;
     });
 
-    if (!matchingInvite) {
+    // The events they're confirmed for; a day back so evening events still count in any time zone
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const loadConfirmedInvites = async (): Promise<any[]> => {
+      const { data: acceptedInvites, error: acceptedError } = await supabase
+        .from('event_invitees')
+        .select(INBOUND_INVITE_SELECT)
+        .eq('status', 'accepted')
+        .gte('event.date', since)
+        .like('contact.phone', `%${normalizedIncoming.slice(-4)}`);
+      if (acceptedError) {
+        console.log('Error finding accepted invites:', acceptedError);
+      }
+      return (acceptedInvites || []).filter(
+        (inv: any) => normalizePhoneForComparison(inv.contact?.phone) === normalizedIncoming,
+      );
+    };
+
+    if (intent.kind === 'withdraw') {
+      const confirmed = await loadConfirmedInvites();
+      if (confirmed.length > 0) {
+        const target = chooseReplyInvite(
+          confirmed.map((inv: any) => ({ ...inv, replyCode: inv.sms_code })),
+          intent.code,
+        );
+        if ('ask' in target) {
+          const listed: { replyCode: string; eventTitle: string; eventDate: string }[] = [];
+          for (const inv of target.ask as any[]) {
+            const seen = listed.map((entry) => entry.replyCode);
+            const replyCode = inv.sms_code && !seen.includes(inv.sms_code)
+              ? inv.sms_code
+              : await assignReplyCode(inv.id, from, seen);
+            if (!replyCode) continue;
+            listed.push({ replyCode, eventTitle: inv.event?.title, eventDate: formatDateForSms(inv.event?.date) });
+          }
+          console.log('📱 [SMS WEBHOOK] Asking which event to withdraw from:', { from, code: intent.code, confirmed: listed.length });
+          return getWhichEventSms(listed, target.unknownCode, true);
+        }
+        if ('invite' in target) {
+          const withdrawing = target.invite as any;
+          const { result } = await recordRsvp(supabase, withdrawing.event_id, { inviteeId: withdrawing.id }, 'withdraw', 'sms');
+          if (!result.success) {
+            return result.reason === 'withdraw-closed' || result.reason === 'not-accepted'
+              ? result.error!
+              : 'Error updating your RSVP. Please try again.';
+          }
+          console.log('SMS withdrawal processed:', { from, eventId: withdrawing.event_id });
+          return getWithdrawnReplySms(queueNoticeSmsData(withdrawing.event));
+        }
+      }
+      // Not confirmed for anything: "can't make it" declines an open invitation instead
+    }
+
+    if (intent.kind === 'late' || intent.kind === 'note') {
+      const confirmed = await loadConfirmedInvites();
+
+      const noteInvite = chooseNoteInvite(
+        (intent.kind === 'late' ? confirmed : [...matchingInvites, ...confirmed])
+          .map((inv: any) => ({ ...inv, replyCode: inv.sms_code, eventDate: inv.event?.date })),
+        intent.code,
+        since,
+      ) as any;
+      if (!noteInvite) {
+        return intent.kind === 'late'
+          ? 'We couldn\'t find an upcoming event you\'re confirmed for.'
+          : 'You don\'t have any pending event invitations to respond to.';
+      }
+
+      await recordInviteeNote(supabase, noteInvite, getInviteeNote(intent)!);
+      console.log('📱 [SMS WEBHOOK] Passed note to organizer:', { from, kind: intent.kind, inviteeId: noteInvite.id });
+      const noteSmsData = queueNoticeSmsData(noteInvite.event);
+      return intent.kind === 'late'
+        ? getRunningLateReplySms(noteSmsData, intent.minutes)
+        : getNoteForwardedSms(noteSmsData);
+    }
+
+    if (matchingInvites.length === 0) {
       console.log('📱 [SMS WEBHOOK] No matching invite found for phone:', normalizedIncoming);
-      return c.text('<?xml version="1.0" encoding="UTF-8"?><Response><Message>You don\'t have any pending event invitations to respond to.</Message></Response>', 200, {
-        'Content-Type': 'text/xml',
-      });
+      return 'You don\'t have any pending event invitations to respond to.';
+    }
+
+    // Y/N/maybe, optionally with the invitation's code (maybe is recorded as tentative)
+    const reply = intent.kind === 'withdraw' ? { status: 'declined' as const, code: intent.code } : intent;
+    const newStatus = reply.status;
+
+    const target = chooseReplyInvite(
+      matchingInvites.map((inv: any) => ({ ...inv, replyCode: inv.sms_code })),
+      reply.code,
+    );
+    if ('none' in target) {
+      return 'You don\'t have any pending event invitations to respond to.';
+    }
+    if ('ask' in target) {
+      // Several open invitations and no (matching) code: list them with codes to reply with
+      const listed: { replyCode: string; eventTitle: string; eventDate: string }[] = [];
+      for (const inv of target.ask as any[]) {
+        const seen = listed.map((entry) => entry.replyCode);
+        const replyCode = inv.sms_code && !seen.includes(inv.sms_code)
+          ? inv.sms_code
+          : await assignReplyCode(inv.id, from, seen);
+        if (!replyCode) continue;
+        listed.push({ replyCode, eventTitle: inv.event?.title, eventDate: formatDateForSms(inv.event?.date) });
+      }
+      console.log('📱 [SMS WEBHOOK] Asking which event:', { from, code: reply.code, open: listed.length });
+      return getWhichEventSms(listed, target.unknownCode);
     }
+    const matchingInvite = target.invite as any;
 
     console.log('📱 [SMS WEBHOOK] Found matching invite:', matchingInvite.id, 'for event:', matchingInvite.event?.title);
 
-    // Parse the reply (Y/N)
-    const newStatus = parseReplyStatus(body);
+    const event = matchingInvite.event as any;
 
-    if (!newStatus) {
-      return c.text('<?xml version="1.0" encoding="UTF-8"?><Response><Message>Sorry, I didn\'t understand that. Reply Y to confirm or N to decline your event invitation.</Message></Response>', 200, {
-        'Content-Type': 'text/xml',
-      });
+    const actions: Record<SmsReplyStatus, RsvpAction> = { accepted: 'confirm', declined: 'decline', maybe: 'tentative' };
+    const { result } = await recordRsvp(supabase, event.id, { inviteeId: matchingInvite.id }, actions[newStatus], 'sms');
+
+    if (!result.success) {
+      const failureMessage = result.reason === 'event-full'
+        ? getEventFullSmsMessage({
+            eventId: event.id,
+            eventTitle: event.title,
+            eventDate: event.date,
+            eventTime: event.time,
+            timeZone: event.time_zone,
+            organizerName: event.organizer?.name || 'Organizer',
+          })
+        : result.reason === 'already-accepted' || result.reason === 'already-declined' || result.reason === 'already-tentative'
+          ? result.error
+          : 'Error updating your RSVP. Please try again.';
+      return failureMessage;
     }
 
-    const event = matchingInvite.event as any;
-    const contact = matchingInvite.contact as any;
-    const organizer = event.organizer as any;
+    // Build response message
+    const responseMessage = newStatus === 'maybe'
+      ? getMaybeReplySms({ ...queueNoticeSmsData(event), replyCode: matchingInvite.sms_code ?? undefined })
+      : newStatus === 'accepted'
+        ? `Confirmed! "${event.title}" on ${formatDateForSms(event.date)} at ${formatTimeForSms(event.time, event.date, event.time_zone)}. See you there! Can't make it after all? Reply WITHDRAW.`
+        : `Your decline has been recorded for "${event.title}". Thank you for letting us know.`;
 
-    // Update the invitee status
-    const { error: updateError } = await supabase
-      .from('event_invitees')
-      .update({ status: newStatus })
-      .eq('id', matchingInvite.id);
+    console.log('SMS RSVP processed:', { from, status: newStatus, eventId: event.id });
 
-    if (updateError) {
-      console.log('Error updating invitee status:', updateError);
-      return c.text('<?xml version="1.0" encoding="UTF-8"?><Response><Message>Error updating your RSVP. Please try again.</Message></Response>', 200, {
-        'Content-Type': 'text/xml',
-      });
+    return responseMessage;
+  } catch (error) {
+    console.log('Error processing SMS webhook:', error);
+    return 'An error occurred. Please try again later.';
+  }
+};
+
+app.post("/make-server-37f8437f/sms/webhook", async (c) => {
+  if (!smsTransport) {
+    return c.json({ error: 'SMS is not configured' }, 503);
+  }
+  try {
+    const reply = await handleSmsWebhook(
+      smsTransport,
+      {
+        contentType: c.req.header('Content-Type') ?? '',
+        body: await c.req.text(),
+        // Twilio signs the URL it was given, not the one the function sees behind the gateway
+        url: `${FUNCTION_BASE_URL}/sms/webhook${new URL(c.req.url).search}`,
+        headers: webhookHeaders(c.req.raw),
+      },
+      {
+        claim: (key) => claimWebhook(smsTransport.name, key),
+        respond: replyToInboundSms,
+        sendReply: (to, message) => sendSms({ to, message, kind: 'reply' }),
+        onStatus: (report) => applyDeliveryReport(smsTransport.name, report),
+      },
+    );
+    if (reply.status !== 200) {
+      console.log('Rejected SMS webhook:', reply.body);
     }
+    return c.text(reply.body, reply.status, { 'Content-Type': reply.contentType });
+  } catch (error) {
+    console.log('Error processing SMS webhook:', error);
+    const reply = smsTransport.formatReply('An error occurred. Please try again later.');
+    return c.text(reply.body, 200, { 'Content-Type': reply.contentType });
+  }
+});
 
-    // Prepare event data for SMS
-    const eventSmsData: EventSmsData = {
-      eventId: event.id,
-      eventTitle: event.title,
-      eventDate: event.date,
-      eventTime: event.time,
-      location: event.location,
-      organizerName: organizer.name || organizer.email,
-      inviteeName: contact.name || contact.email,
-    };
+// Resend webhook: delivered, bounced and complained events for sent emails
+app.post("/make-server-37f8437f/email/webhook", async (c) => {
+  const body = await c.req.text();
+  const headers = webhookHeaders(c.req.raw);
+  const verification = await verifyResendWebhook(RESEND_WEBHOOK_SECRET, body, headers);
+  if (!verification.ok) {
+    console.log('Rejected email webhook:', verification.error);
+    return c.json({ error: verification.error }, 403);
+  }
+  const parsed = parseResendWebhook(body);
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  if ('report' in parsed && await claimWebhook('resend', headers['svix-id'])) {
+    await applyDeliveryReport('resend', parsed.report);
+  }
+  return c.json({ received: true });
+});
 
-    // Send SMS to organizer about the response
-    if (organizer.phone) {
-      if (newStatus === 'accepted') {
-        await sendOrganizerConfirmationSms(organizer.phone, eventSmsData);
-      } else {
-        await sendOrganizerDeclineSms(organizer.phone, eventSmsData);
-      }
-    }
+// --- Calendar replies (inbound email) ---
+// Invites name CALENDAR_REPLY_ADDRESS as their organizer, so answering inside a calendar app
+// emails an iTIP REPLY there. The mail provider forwards it as raw MIME to
+// /email/inbound?secret=INBOUND_EMAIL_SECRET: the request body itself, or the `email`
+// (SendGrid) or `body-mime` (Mailgun) field of a form post. Each reply is applied like a
+// click on the matching RSVP link.
+
+const readInboundMime = async (req: Request): Promise<string> => {
+  const type = req.headers.get('content-type') || '';
+  if (type.includes('multipart/form-data') || type.includes('application/x-www-form-urlencoded')) {
+    const form = await req.formData();
+    const field = form.get('email') ?? form.get('body-mime');
+    if (!field) return '';
+    return typeof field === 'string' ? field : await field.text();
+  }
+  return await req.text();
+};
 
-    // Build response message
-    const responseMessage = newStatus === 'accepted'
-      ? `Confirmed! "${event.title}" on ${formatDateForSms(event.date)} at ${formatTimeForSms(event.time)}. See you there!`
-      : `Your decline has been recorded for "${event.title}". Thank you for letting us know.`;
-
-    // If user declined and this is FCFS mode, we should promote the next person in line
-    // (This logic is similar to the RSVP endpoint - you may want to trigger promotion here)
-    if (newStatus === 'declined') {
-      // Check if there's a pending invitee to promote
-      const { data: nextPending } = await supabase
-        .from('event_invitees')
-        .select('id, contact:contacts!inner(email, name, phone)')
-        .eq('event_id', event.id)
-        .eq('status', 'pending')
-        .order('priority', { ascending: true })
-        .limit(1);
+// Compare without bailing out at the first difference
+const secretsMatch = (given: string, expected: string) => {
+  if (given.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < given.length; i++) {
+    diff |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+};
 
-      if (nextPending && nextPending.length > 0) {
-        const nextInvitee = nextPending[0];
-        // Promote to invited
-        await supabase
-          .from('event_invitees')
-          .update({ status: 'invited', invited_at: new Date().toISOString() })
-          .eq('id', nextInvitee.id);
+type CalendarReplyOutcome = { eventId: string; applied: boolean; action?: RsvpAction; reason?: string };
 
-        // TODO: Send invitation SMS/email to the newly promoted invitee
-        console.log('Promoted next invitee:', nextInvitee.contact);
-      }
+const applyCalendarReply = async (
+  supabase: ReturnType<typeof getServiceClient>,
+  eventId: string,
+  reply: ItipReply,
+): Promise<CalendarReplyOutcome> => {
+  const { data: event } = await supabase
+    .from('events')
+    .select('id, ics_sequence, invitees:event_invitees (id, status, contact:contacts!event_invitees_contact_id_fkey (email))')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (!event) {
+    return { eventId, applied: false, reason: 'not-found' };
+  }
+
+  // A reply to an older copy (say, before the time moved) does not answer the current one
+  if (reply.sequence < (event.ics_sequence ?? 0)) {
+    return { eventId, applied: false, reason: 'outdated' };
+  }
+
+  const invitee = (event.invitees || []).find((inv: any) => inv.contact?.email?.toLowerCase() === reply.attendee.email);
+  if (!invitee) {
+    return { eventId, applied: false, reason: 'not-invited' };
+  }
+
+  const action = rsvpActionForReply(reply.attendee.partstat, invitee.status);
+  if (!action) {
+    return { eventId, applied: false, reason: 'no-answer' };
+  }
+
+  const { result } = await recordRsvp(supabase, eventId, { inviteeId: invitee.id }, action, 'calendar');
+  return { eventId, applied: result.success, action, reason: result.success ? undefined : result.reason };
+};
+
+app.post("/make-server-37f8437f/email/inbound", async (c) => {
+  try {
+    if (!INBOUND_EMAIL_SECRET || !secretsMatch(c.req.query('secret') || '', INBOUND_EMAIL_SECRET)) {
+      console.log('Rejected inbound email: bad or missing secret');
+      return c.json({ error: 'Invalid secret' }, 403);
     }
 
-    console.log('SMS RSVP processed:', { from, status: newStatus, eventId: event.id });
+    const parsed = parseInboundEmail(await readInboundMime(c.req.raw));
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+    if (parsed.messageId && !(await claimWebhook('inbound-email', parsed.messageId))) {
+      return c.json({ received: true });
+    }
 
-    return c.text(`<?xml version="1.0" encoding="UTF-8"?><Response><Message>${responseMessage}</Message></Response>`, 200, {
-      'Content-Type': 'text/xml',
-    });
+    const supabase = getServiceClient();
+    const outcomes: CalendarReplyOutcome[] = [];
+    for (const calendar of parsed.calendars) {
+      const reply = parseItipReply(calendar);
+      const eventId = reply ? eventIdFromUid(reply.uid) : null;
+      // Gmail sends the same reply inline and as an attachment
+      if (!reply || !eventId || outcomes.some((outcome) => outcome.eventId === eventId)) continue;
+
+      // People can only answer for themselves
+      if (reply.attendee.email !== parsed.from) {
+        console.log('Ignoring calendar reply for someone else:', { from: parsed.from, attendee: reply.attendee.email, eventId });
+        outcomes.push({ eventId, applied: false, reason: 'sender-mismatch' });
+        continue;
+      }
+
+      const outcome = await applyCalendarReply(supabase, eventId, reply);
+      console.log(`📅 Calendar reply from ${parsed.from} (${reply.attendee.partstat}):`, outcome);
+      outcomes.push(outcome);
+    }
+
+    return c.json({ received: true, replies: outcomes });
   } catch (error) {
-    console.log('Error processing SMS webhook:', error);
-    return c.text('<?xml version="1.0" encoding="UTF-8"?><Response><Message>An error occurred. Please try again later.</Message></Response>', 200, {
-      'Content-Type': 'text/xml',
-    });
+    console.log('Error handling inbound email:', error);
+    return c.json({ error: 'Internal server error' }, 500);
   }
 });
 
@@ -0,0 +1,15 @@
+-- Recurring events: each occurrence is its own events row (with its own
+-- invitee queue) linked to the others by series_id.
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS series_id UUID,
+  ADD COLUMN IF NOT EXISTS recurrence JSONB, -- { frequency, interval, until?, count? } as entered by the organizer
+  ADD COLUMN IF NOT EXISTS occurrence_index INTEGER,
+  -- When the invite queue was started (first invitations sent). Later
+  -- occurrences of a series stay NULL until they come within the lead window.
+  ADD COLUMN IF NOT EXISTS invites_sent_at TIMESTAMPTZ;
+
+-- Existing events already sent their invitations at creation
+UPDATE events SET invites_sent_at = created_at WHERE invites_sent_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_series ON events(series_id, occurrence_index);
+CREATE INDEX IF NOT EXISTS idx_events_invites_not_sent ON events(date) WHERE invites_sent_at IS NULL;
@@ -0,0 +1,131 @@
+-- Atomic RSVP: acceptance, spot accounting and next-invitee promotion in one transaction.
+-- Every RSVP path (email link, in-app status PUT, SMS reply) calls this via RPC.
+-- The rules mirror src/lib/rsvp-logic.ts (processRsvpActionById); keep them in sync.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.record_rsvp(p_invitee_id uuid, p_action text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_event public.events%ROWTYPE;
+  v_target public.event_invitees%ROWTYPE;
+  v_spots integer;
+  v_accepted integer;
+  v_is_full boolean;
+  v_next_id uuid;
+  v_notify_ids uuid[];
+  v_now timestamptz := now();
+BEGIN
+  IF p_action NOT IN ('confirm', 'decline') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid-action', 'error', 'Invalid action');
+  END IF;
+
+  SELECT event_id INTO v_event_id FROM public.event_invitees WHERE id = p_invitee_id;
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Invitee not found');
+  END IF;
+
+  -- Lock the event row: concurrent RSVPs for the same event queue up here,
+  -- so the accepted count below cannot change until this transaction commits.
+  SELECT * INTO v_event FROM public.events WHERE id = v_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Event not found');
+  END IF;
+
+  -- Re-read the invitee under the lock (it may have responded in the meantime)
+  SELECT * INTO v_target FROM public.event_invitees WHERE id = p_invitee_id FOR UPDATE;
+
+  v_spots := COALESCE(v_event.spots, 1);
+  SELECT count(*) INTO v_accepted
+  FROM public.event_invitees
+  WHERE event_id = v_event_id AND status = 'accepted' AND id <> p_invitee_id;
+
+  IF p_action = 'confirm' THEN
+    IF v_target.status = 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+        'error', 'You have already accepted this invitation');
+    END IF;
+
+    IF v_accepted >= v_spots THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'event-full', 'is_event_full', true,
+        'error', CASE WHEN v_spots = 1
+          THEN 'This event has already been confirmed by another invitee'
+          ELSE format('This event is full (%s spots filled)', v_spots) END);
+    END IF;
+
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    UPDATE public.event_invitees
+    SET status = 'accepted', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    v_is_full := v_accepted + 1 >= v_spots;
+    IF v_is_full THEN
+      SELECT array_agg(id) INTO v_notify_ids
+      FROM public.event_invitees
+      WHERE event_id = v_event_id AND id <> p_invitee_id AND status IN ('invited', 'pending');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'new_status', 'accepted',
+      'is_event_full', v_is_full,
+      'spots_remaining', v_spots - v_accepted - 1,
+      'notify_event_full_ids', COALESCE(to_jsonb(v_notify_ids), '[]'::jsonb)
+    );
+  END IF;
+
+  -- Decline
+  IF v_target.status = 'declined' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+      'error', 'You have already declined this invitation');
+  END IF;
+
+  IF v_target.status = 'accepted' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+      'error', 'You have already accepted this invitation. Contact the organizer to cancel.');
+  END IF;
+
+  UPDATE public.event_invitees
+  SET status = 'declined', responded_at = v_now, updated_at = v_now
+  WHERE id = p_invitee_id;
+
+  -- Priority mode: hand the invite to the next person queued after the decliner,
+  -- unless every spot is already taken
+  IF COALESCE(v_event.invite_mode, 'priority') = 'priority' AND v_accepted < v_spots THEN
+    SELECT id INTO v_next_id
+    FROM public.event_invitees
+    WHERE event_id = v_event_id AND status = 'pending' AND priority > v_target.priority
+    ORDER BY priority ASC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_next_id IS NOT NULL THEN
+      UPDATE public.event_invitees
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      WHERE id = v_next_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'new_status', 'declined',
+    'should_promote_next', v_next_id IS NOT NULL,
+    'promoted_invitee_id', v_next_id
+  );
+END;
+$$;
+
+-- Only the edge function (service role) records RSVPs
+REVOKE ALL ON FUNCTION public.record_rsvp(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_rsvp(uuid, text) TO service_role;
+
+COMMIT;
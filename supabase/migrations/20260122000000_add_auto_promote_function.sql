@@ -0,0 +1,110 @@
+-- Auto-promote sweep on event_invitees: expire unanswered invitations and fill
+-- open spots from the priority queue, logging each step for the organizer.
+-- The rules mirror src/lib/rsvp-logic.ts (planAutoPromotion); keep them in sync.
+
+BEGIN;
+
+-- What the queue did on its own, shown to the organizer on the event
+CREATE TABLE IF NOT EXISTS public.event_activity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  event_invitee_id uuid REFERENCES public.event_invitees(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('expired', 'promoted')),
+  detail text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_activity_event ON public.event_activity(event_id, created_at DESC);
+
+ALTER TABLE public.event_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "EventActivity: organizer view" ON public.event_activity;
+CREATE POLICY "EventActivity: organizer view" ON public.event_activity
+  FOR SELECT USING (public.is_event_organizer(event_id));
+
+CREATE OR REPLACE FUNCTION public.auto_promote_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events%ROWTYPE;
+  v_threshold integer;
+  v_spots integer;
+  v_accepted integer;
+  v_outstanding integer;
+  v_open integer;
+  v_expired_ids uuid[];
+  v_promoted_ids uuid[];
+  v_now timestamptz := now();
+BEGIN
+  -- Same lock as record_rsvp, so a sweep and an RSVP for the event never interleave
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND
+    OR COALESCE(v_event.invite_mode, 'priority') <> 'priority'
+    OR v_event.invites_sent_at IS NULL THEN
+    RETURN jsonb_build_object('expired_ids', '[]'::jsonb, 'promoted_ids', '[]'::jsonb);
+  END IF;
+
+  v_threshold := COALESCE(v_event.auto_promote_after_minutes, 30);
+  v_spots := COALESCE(v_event.spots, 1);
+
+  WITH expired AS (
+    UPDATE public.event_invitees
+    SET status = 'declined', updated_at = v_now
+    WHERE event_id = p_event_id
+      AND status = 'invited'
+      AND invited_at <= v_now - make_interval(mins => v_threshold)
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_expired_ids FROM expired;
+
+  INSERT INTO public.event_activity (event_id, event_invitee_id, action, detail)
+  SELECT p_event_id, expired_id, 'expired', format('No response within %s minutes', v_threshold)
+  FROM unnest(v_expired_ids) AS expired_id;
+
+  SELECT
+    count(*) FILTER (WHERE status = 'accepted'),
+    count(*) FILTER (WHERE status = 'invited')
+  INTO v_accepted, v_outstanding
+  FROM public.event_invitees
+  WHERE event_id = p_event_id;
+
+  v_open := GREATEST(v_spots - v_accepted - v_outstanding, 0);
+
+  IF v_open > 0 THEN
+    WITH next_up AS (
+      SELECT id
+      FROM public.event_invitees
+      WHERE event_id = p_event_id AND status = 'pending'
+      ORDER BY priority ASC
+      LIMIT v_open
+      FOR UPDATE
+    ), promoted AS (
+      UPDATE public.event_invitees ei
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      FROM next_up
+      WHERE ei.id = next_up.id
+      RETURNING ei.id
+    )
+    SELECT array_agg(id) INTO v_promoted_ids FROM promoted;
+
+    INSERT INTO public.event_activity (event_id, event_invitee_id, action, detail)
+    SELECT p_event_id, promoted_id, 'promoted',
+      format('Invited for an open spot (%s of %s accepted)', v_accepted, v_spots)
+    FROM unnest(v_promoted_ids) AS promoted_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'expired_ids', COALESCE(to_jsonb(v_expired_ids), '[]'::jsonb),
+    'promoted_ids', COALESCE(to_jsonb(v_promoted_ids), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Only the edge function (service role) runs the sweep
+REVOKE ALL ON FUNCTION public.auto_promote_event(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.auto_promote_event(uuid) TO service_role;
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Scheduled reminders: per-event offsets (minutes before the start) and one
+-- row per reminder sent, so the reminders cron never sends the same one twice.
+
+BEGIN;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS reminder_offsets integer[] NOT NULL DEFAULT '{1440,60}';
+
+CREATE TABLE IF NOT EXISTS public.event_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  event_invitee_id uuid REFERENCES public.event_invitees(id) ON DELETE CASCADE, -- NULL for the organizer
+  recipient_key text NOT NULL, -- 'organizer' or the event_invitees id
+  offset_minutes integer NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  -- sending: claimed by a cron run; skipped: due but superseded (see planReminders)
+  status text NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed', 'skipped')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- Claiming a reminder is an insert against this key: only one run can win it
+  UNIQUE (event_id, recipient_key, offset_minutes, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_reminders_failed ON public.event_reminders(event_id) WHERE status = 'failed';
+
+ALTER TABLE public.event_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "EventReminders: organizer view" ON public.event_reminders;
+CREATE POLICY "EventReminders: organizer view" ON public.event_reminders
+  FOR SELECT USING (public.is_event_organizer(event_id));
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Priority-mode nudges: remind an invited person shortly before their invite
+-- expires and passes to the next in line (sent by /cron/auto-promote).
+ALTER TABLE public.events
+  -- Minutes before expiry to nudge; 0 turns nudges off
+  ADD COLUMN IF NOT EXISTS expiry_nudge_minutes integer NOT NULL DEFAULT 10
+    CHECK (expiry_nudge_minutes >= 0);
+
+-- When this invitee was last nudged. A nudge counts for the current invitation
+-- only if it is later than invited_at, so re-invited people get nudged again.
+ALTER TABLE public.event_invitees
+  ADD COLUMN IF NOT EXISTS nudged_at timestamptz;
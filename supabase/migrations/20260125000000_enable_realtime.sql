@@ -0,0 +1,17 @@
+-- Live dashboard updates: stream events and event_invitees changes over
+-- Supabase Realtime. Realtime checks each subscriber's RLS policies, so a user
+-- only receives rows they can already select (their events and invitations).
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.events;
+EXCEPTION
+  WHEN duplicate_object THEN NULL; -- already published
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.event_invitees;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
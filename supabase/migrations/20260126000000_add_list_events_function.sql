@@ -0,0 +1,178 @@
+-- GET /events filtering, sorting and pagination in SQL.
+-- filter_events applies the dashboard filters to the events a user can see;
+-- list_events pages through them by (date, time, id) with a keyset cursor;
+-- count_events returns the quick-filter counts. Query parsing lives in
+-- src/lib/event-query.ts, and the confirmation status mirrors
+-- src/lib/event-status.ts (calculateEventStatuses); keep them in sync.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.filter_events(
+  p_user_id uuid,
+  p_email text,
+  p_role text DEFAULT NULL,        -- 'organized', 'invited', or NULL for both
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_status text DEFAULT NULL,      -- scheduled, invited, declined, no-show, unconfirmed
+  p_invitees text[] DEFAULT NULL,  -- lowercased invitee emails or phone numbers; any may match
+  p_search text DEFAULT NULL,
+  p_now timestamptz DEFAULT now()
+)
+RETURNS TABLE (id uuid, date date, "time" time)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT
+      e.id,
+      e.date,
+      e.time,
+      (e.date + e.time) AT TIME ZONE COALESCE(NULLIF(e.time_zone, ''), 'UTC') < p_now AS has_passed,
+      stats.accepted,
+      stats.declined,
+      stats.total
+    FROM public.events e
+    CROSS JOIN LATERAL (
+      SELECT
+        count(*) FILTER (WHERE ei.status = 'accepted') AS accepted,
+        count(*) FILTER (WHERE ei.status = 'declined') AS declined,
+        count(*) AS total
+      FROM public.event_invitees ei
+      WHERE ei.event_id = e.id
+    ) stats
+    WHERE (
+        (p_role IS DISTINCT FROM 'invited' AND e.organizer_id = p_user_id)
+        OR (
+          p_role IS DISTINCT FROM 'organized'
+          AND e.organizer_id <> p_user_id
+          -- Invited: a contact with the user's email that has been sent the
+          -- invite; people still waiting in the queue have not been told yet
+          AND EXISTS (
+            SELECT 1
+            FROM public.event_invitees ei
+            JOIN public.contacts c ON c.id = ei.contact_id
+            WHERE ei.event_id = e.id
+              AND ei.status <> 'pending'
+              AND lower(c.email) = lower(p_email)
+          )
+        )
+      )
+      AND (p_from IS NULL OR e.date >= p_from)
+      AND (p_to IS NULL OR e.date <= p_to)
+      AND (
+        p_invitees IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM public.event_invitees ei
+          JOIN public.contacts c ON c.id = ei.contact_id
+          WHERE ei.event_id = e.id
+            AND (lower(c.email) = ANY (p_invitees) OR c.phone = ANY (p_invitees))
+        )
+      )
+      AND (
+        p_search IS NULL
+        OR concat_ws(' ', e.title, e.description, e.location) ILIKE
+          '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+  )
+  SELECT v.id, v.date, v.time
+  FROM visible v
+  WHERE p_status IS NULL
+    OR p_status = CASE
+      WHEN v.accepted > 0 THEN 'scheduled'
+      WHEN v.total > 0 AND v.declined = v.total THEN 'declined'
+      WHEN v.has_passed THEN 'no-show'
+      ELSE 'invited'
+    END
+    OR (p_status = 'unconfirmed' AND v.has_passed AND v.accepted = 0);
+$$;
+
+-- One page: up to p_limit + 1 rows (the extra row only signals that more exist).
+-- total_count is the number of matching events across all pages.
+CREATE OR REPLACE FUNCTION public.list_events(
+  p_user_id uuid,
+  p_email text,
+  p_role text DEFAULT NULL,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_invitees text[] DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_descending boolean DEFAULT false,
+  p_after_date date DEFAULT NULL,
+  p_after_time time DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (id uuid, date date, "time" time, total_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH matching AS (
+    SELECT * FROM public.filter_events(p_user_id, p_email, p_role, p_from, p_to, p_status, p_invitees, p_search)
+  )
+  SELECT m.id, m.date, m.time, (SELECT count(*) FROM matching) AS total_count
+  FROM matching m
+  WHERE p_after_id IS NULL
+    OR (NOT p_descending AND (m.date, m.time, m.id) > (p_after_date, p_after_time, p_after_id))
+    OR (p_descending AND (m.date, m.time, m.id) < (p_after_date, p_after_time, p_after_id))
+  ORDER BY
+    CASE WHEN NOT p_descending THEN m.date END ASC,
+    CASE WHEN NOT p_descending THEN m.time END ASC,
+    CASE WHEN NOT p_descending THEN m.id END ASC,
+    CASE WHEN p_descending THEN m.date END DESC,
+    CASE WHEN p_descending THEN m.time END DESC,
+    CASE WHEN p_descending THEN m.id END DESC
+  LIMIT GREATEST(p_limit, 0) + 1;
+$$;
+
+-- Quick-filter counts for the dashboard: the same filters without the date
+-- range, split by the user's calendar days. unconfirmed counts organized past
+-- events nobody accepted (what "Clear Past" deletes).
+CREATE OR REPLACE FUNCTION public.count_events(
+  p_user_id uuid,
+  p_email text,
+  p_role text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_invitees text[] DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_today date DEFAULT CURRENT_DATE,
+  p_week_start date DEFAULT NULL,
+  p_week_end date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'all', count(*),
+    'today', count(*) FILTER (WHERE f.date = p_today),
+    'tomorrow', count(*) FILTER (WHERE f.date = p_today + 1),
+    'week', count(*) FILTER (WHERE f.date BETWEEN p_week_start AND p_week_end),
+    'past', count(*) FILTER (WHERE f.date < p_today),
+    'unconfirmed', (
+      SELECT count(*)
+      FROM public.filter_events(p_user_id, p_email, 'organized', NULL, NULL, 'unconfirmed', NULL, NULL)
+    )
+  )
+  FROM public.filter_events(p_user_id, p_email, p_role, NULL, NULL, p_status, p_invitees, p_search) f;
+$$;
+
+-- Keyset pagination walks events in (date, time, id) order
+CREATE INDEX IF NOT EXISTS idx_events_organizer_date ON public.events(organizer_id, date, time, id);
+
+-- Only the edge function (service role) lists events; it passes the authenticated user
+REVOKE ALL ON FUNCTION public.filter_events(uuid, text, text, date, date, text, text[], text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.list_events(uuid, text, text, date, date, text, text[], text, boolean, date, time, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.count_events(uuid, text, text, text, text[], text, date, date, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.filter_events(uuid, text, text, date, date, text, text[], text, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public.list_events(uuid, text, text, date, date, text, text[], text, boolean, date, time, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.count_events(uuid, text, text, text, text[], text, date, date, date) TO service_role;
+
+COMMIT;
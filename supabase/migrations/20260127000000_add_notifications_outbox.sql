@@ -0,0 +1,91 @@
+-- Notification outbox: one row per email or SMS. The edge function tries each
+-- one right away; failures are retried by /cron/notifications with exponential
+-- backoff and end up 'failed' after max_attempts (src/lib/notification-outbox.ts).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the event is deleted: cancellation notices go out after the delete
+  event_id uuid REFERENCES public.events(id) ON DELETE SET NULL,
+  kind text NOT NULL, -- What it is about: invite, confirm, update, reminder, cancelled, ...
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient text NOT NULL, -- Email address or phone number
+  payload jsonb NOT NULL, -- email: from, subject, text, html, attachments; sms: body
+  -- sending: claimed by a worker until next_attempt_at (a lease, so a crashed send is retried)
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'delivered')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  provider text,
+  provider_message_id text,
+  sent_at timestamptz,
+  delivered_at timestamptz,
+  -- Settled once the provider accepts the send, not when it is queued: the
+  -- invitee whose calendar invite this carries (event_invitees.ics_sent_at)
+  -- and the reminder it sends (event_reminders.status)
+  ics_invitee_id uuid REFERENCES public.event_invitees(id) ON DELETE SET NULL,
+  reminder_id uuid REFERENCES public.event_reminders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON public.notifications(next_attempt_at)
+  WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notifications_event ON public.notifications(event_id, created_at DESC);
+
+-- Payloads contain RSVP links, so there is no client access; the edge function
+-- returns statuses to organizers (GET /events/:id/notifications)
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Claim up to p_limit due notifications for one worker run. Skips rows another
+-- run has locked, and gives up on claimed sends that never finished and have
+-- no attempts left (failing their reminder too, so /cron/reminders retries it).
+CREATE OR REPLACE FUNCTION public.claim_notifications(p_limit integer DEFAULT 20, p_lease_seconds integer DEFAULT 300)
+RETURNS SETOF public.notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH gave_up AS (
+    UPDATE public.notifications
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Send did not finish'),
+        updated_at = now()
+    WHERE status = 'sending'
+      AND next_attempt_at <= now()
+      AND attempts >= max_attempts
+    RETURNING reminder_id, last_error
+  )
+  UPDATE public.event_reminders r
+  SET status = 'failed', last_error = gave_up.last_error, updated_at = now()
+  FROM gave_up
+  WHERE r.id = gave_up.reminder_id AND r.status = 'sending';
+
+  RETURN QUERY
+  UPDATE public.notifications n
+  SET status = 'sending',
+      attempts = n.attempts + 1,
+      next_attempt_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE n.id IN (
+    SELECT due.id
+    FROM public.notifications due
+    WHERE due.status IN ('queued', 'sending')
+      AND due.next_attempt_at <= now()
+      AND due.attempts < due.max_attempts
+    ORDER BY due.next_attempt_at
+    LIMIT GREATEST(p_limit, 0)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$;
+
+-- Only the edge function (service role) sends notifications
+REVOKE ALL ON FUNCTION public.claim_notifications(integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_notifications(integer, integer) TO service_role;
+
+COMMIT;
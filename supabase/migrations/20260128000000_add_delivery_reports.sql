@@ -0,0 +1,362 @@
+-- Delivery reports: provider callbacks (SMS status, Resend bounces/complaints)
+-- mark notifications delivered or failed and flag contact addresses that keep
+-- failing. Priority-mode promotion skips invitees with no reachable address.
+-- The rules mirror src/lib/delivery-reports.ts (shouldMarkUndeliverable,
+-- isContactReachable); keep them in sync.
+
+BEGIN;
+
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS email_undeliverable_at timestamptz,
+  ADD COLUMN IF NOT EXISTS email_undeliverable_reason text,
+  ADD COLUMN IF NOT EXISTS email_failures integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS phone_undeliverable_at timestamptz,
+  ADD COLUMN IF NOT EXISTS phone_undeliverable_reason text,
+  ADD COLUMN IF NOT EXISTS phone_failures integer NOT NULL DEFAULT 0;
+
+-- A new address starts with a clean record
+CREATE OR REPLACE FUNCTION public.reset_contact_deliverability()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.email_undeliverable_at = NULL;
+    NEW.email_undeliverable_reason = NULL;
+    NEW.email_failures = 0;
+  END IF;
+  IF NEW.phone IS DISTINCT FROM OLD.phone THEN
+    NEW.phone_undeliverable_at = NULL;
+    NEW.phone_undeliverable_reason = NULL;
+    NEW.phone_failures = 0;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_contact_deliverability ON public.contacts;
+CREATE TRIGGER reset_contact_deliverability
+  BEFORE UPDATE OF email, phone ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.reset_contact_deliverability();
+
+CREATE INDEX IF NOT EXISTS idx_notifications_provider_message
+  ON public.notifications(provider, provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+-- isContactReachable: an email or phone that has not been marked undeliverable
+CREATE OR REPLACE FUNCTION public.contact_is_reachable(p_contact_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT (NULLIF(email, '') IS NOT NULL AND email_undeliverable_at IS NULL)
+        OR (NULLIF(phone, '') IS NOT NULL AND phone_undeliverable_at IS NULL)
+    FROM public.contacts
+    WHERE id = p_contact_id
+  ), false);
+$$;
+
+-- Apply one provider report. Returns whether a notification matched and how
+-- many contacts were newly marked undeliverable.
+CREATE OR REPLACE FUNCTION public.record_delivery_report(
+  p_provider text,
+  p_message_id text,
+  p_state text,
+  p_permanent boolean DEFAULT false,
+  p_error text DEFAULT NULL,
+  p_failure_threshold integer DEFAULT 3
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification public.notifications%ROWTYPE;
+  v_now timestamptz := now();
+  v_marked integer := 0;
+BEGIN
+  IF p_state NOT IN ('delivered', 'failed', 'complained') THEN
+    RETURN jsonb_build_object('matched', false, 'error', 'Invalid state');
+  END IF;
+
+  UPDATE public.notifications
+  SET status = CASE WHEN p_state = 'delivered' THEN 'delivered' ELSE 'failed' END,
+      delivered_at = CASE WHEN p_state = 'delivered' THEN v_now ELSE delivered_at END,
+      last_error = CASE WHEN p_state = 'delivered' THEN last_error ELSE COALESCE(p_error, p_state) END,
+      updated_at = v_now
+  WHERE provider = p_provider AND provider_message_id = p_message_id
+  RETURNING * INTO v_notification;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'marked_undeliverable', 0);
+  END IF;
+
+  IF v_notification.channel = 'email' THEN
+    IF p_state = 'delivered' THEN
+      UPDATE public.contacts
+      SET email_failures = 0, email_undeliverable_at = NULL, email_undeliverable_reason = NULL
+      WHERE lower(email) = lower(v_notification.recipient)
+        AND (email_failures > 0 OR email_undeliverable_at IS NOT NULL);
+    ELSE
+      WITH updated AS (
+        UPDATE public.contacts c
+        SET email_failures = c.email_failures + 1,
+            email_undeliverable_at = CASE
+              WHEN c.email_undeliverable_at IS NOT NULL THEN c.email_undeliverable_at
+              WHEN p_state = 'complained' OR p_permanent OR c.email_failures + 1 >= p_failure_threshold THEN v_now
+            END,
+            email_undeliverable_reason = CASE
+              WHEN c.email_undeliverable_at IS NOT NULL THEN c.email_undeliverable_reason
+              WHEN p_state = 'complained' OR p_permanent OR c.email_failures + 1 >= p_failure_threshold
+                THEN COALESCE(p_error, p_state)
+            END
+        WHERE lower(c.email) = lower(v_notification.recipient)
+        RETURNING c.email_undeliverable_at
+      )
+      SELECT count(*) INTO v_marked FROM updated WHERE email_undeliverable_at = v_now;
+    END IF;
+  ELSE
+    -- Phone numbers compare by their last 10 digits, like summarizeInviteDeliveries
+    IF p_state = 'delivered' THEN
+      UPDATE public.contacts
+      SET phone_failures = 0, phone_undeliverable_at = NULL, phone_undeliverable_reason = NULL
+      WHERE right(regexp_replace(phone, '\D', '', 'g'), 10) = right(regexp_replace(v_notification.recipient, '\D', '', 'g'), 10)
+        AND (phone_failures > 0 OR phone_undeliverable_at IS NOT NULL);
+    ELSE
+      WITH updated AS (
+        UPDATE public.contacts c
+        SET phone_failures = c.phone_failures + 1,
+            phone_undeliverable_at = CASE
+              WHEN c.phone_undeliverable_at IS NOT NULL THEN c.phone_undeliverable_at
+              WHEN p_permanent OR c.phone_failures + 1 >= p_failure_threshold THEN v_now
+            END,
+            phone_undeliverable_reason = CASE
+              WHEN c.phone_undeliverable_at IS NOT NULL THEN c.phone_undeliverable_reason
+              WHEN p_permanent OR c.phone_failures + 1 >= p_failure_threshold THEN COALESCE(p_error, p_state)
+            END
+        WHERE right(regexp_replace(c.phone, '\D', '', 'g'), 10) = right(regexp_replace(v_notification.recipient, '\D', '', 'g'), 10)
+        RETURNING c.phone_undeliverable_at
+      )
+      SELECT count(*) INTO v_marked FROM updated WHERE phone_undeliverable_at = v_now;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('matched', true, 'notification_id', v_notification.id, 'marked_undeliverable', v_marked);
+END;
+$$;
+
+-- record_rsvp and auto_promote_event as in 20260121000000 / 20260122000000,
+-- with unreachable invitees left in the queue when promoting
+
+CREATE OR REPLACE FUNCTION public.record_rsvp(p_invitee_id uuid, p_action text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_event public.events%ROWTYPE;
+  v_target public.event_invitees%ROWTYPE;
+  v_spots integer;
+  v_accepted integer;
+  v_is_full boolean;
+  v_next_id uuid;
+  v_notify_ids uuid[];
+  v_now timestamptz := now();
+BEGIN
+  IF p_action NOT IN ('confirm', 'decline') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid-action', 'error', 'Invalid action');
+  END IF;
+
+  SELECT event_id INTO v_event_id FROM public.event_invitees WHERE id = p_invitee_id;
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Invitee not found');
+  END IF;
+
+  -- Lock the event row: concurrent RSVPs for the same event queue up here,
+  -- so the accepted count below cannot change until this transaction commits.
+  SELECT * INTO v_event FROM public.events WHERE id = v_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Event not found');
+  END IF;
+
+  -- Re-read the invitee under the lock (it may have responded in the meantime)
+  SELECT * INTO v_target FROM public.event_invitees WHERE id = p_invitee_id FOR UPDATE;
+
+  v_spots := COALESCE(v_event.spots, 1);
+  SELECT count(*) INTO v_accepted
+  FROM public.event_invitees
+  WHERE event_id = v_event_id AND status = 'accepted' AND id <> p_invitee_id;
+
+  IF p_action = 'confirm' THEN
+    IF v_target.status = 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+        'error', 'You have already accepted this invitation');
+    END IF;
+
+    IF v_accepted >= v_spots THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'event-full', 'is_event_full', true,
+        'error', CASE WHEN v_spots = 1
+          THEN 'This event has already been confirmed by another invitee'
+          ELSE format('This event is full (%s spots filled)', v_spots) END);
+    END IF;
+
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    UPDATE public.event_invitees
+    SET status = 'accepted', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    v_is_full := v_accepted + 1 >= v_spots;
+    IF v_is_full THEN
+      SELECT array_agg(id) INTO v_notify_ids
+      FROM public.event_invitees
+      WHERE event_id = v_event_id AND id <> p_invitee_id AND status IN ('invited', 'pending');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'new_status', 'accepted',
+      'is_event_full', v_is_full,
+      'spots_remaining', v_spots - v_accepted - 1,
+      'notify_event_full_ids', COALESCE(to_jsonb(v_notify_ids), '[]'::jsonb)
+    );
+  END IF;
+
+  -- Decline
+  IF v_target.status = 'declined' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+      'error', 'You have already declined this invitation');
+  END IF;
+
+  IF v_target.status = 'accepted' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+      'error', 'You have already accepted this invitation. Contact the organizer to cancel.');
+  END IF;
+
+  UPDATE public.event_invitees
+  SET status = 'declined', responded_at = v_now, updated_at = v_now
+  WHERE id = p_invitee_id;
+
+  -- Priority mode: hand the invite to the next reachable person queued after
+  -- the decliner, unless every spot is already taken
+  IF COALESCE(v_event.invite_mode, 'priority') = 'priority' AND v_accepted < v_spots THEN
+    SELECT id INTO v_next_id
+    FROM public.event_invitees
+    WHERE event_id = v_event_id AND status = 'pending' AND priority > v_target.priority
+      AND public.contact_is_reachable(contact_id)
+    ORDER BY priority ASC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_next_id IS NOT NULL THEN
+      UPDATE public.event_invitees
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      WHERE id = v_next_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'new_status', 'declined',
+    'should_promote_next', v_next_id IS NOT NULL,
+    'promoted_invitee_id', v_next_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.auto_promote_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events%ROWTYPE;
+  v_threshold integer;
+  v_spots integer;
+  v_accepted integer;
+  v_outstanding integer;
+  v_open integer;
+  v_expired_ids uuid[];
+  v_promoted_ids uuid[];
+  v_now timestamptz := now();
+BEGIN
+  -- Same lock as record_rsvp, so a sweep and an RSVP for the event never interleave
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND
+    OR COALESCE(v_event.invite_mode, 'priority') <> 'priority'
+    OR v_event.invites_sent_at IS NULL THEN
+    RETURN jsonb_build_object('expired_ids', '[]'::jsonb, 'promoted_ids', '[]'::jsonb);
+  END IF;
+
+  v_threshold := COALESCE(v_event.auto_promote_after_minutes, 30);
+  v_spots := COALESCE(v_event.spots, 1);
+
+  WITH expired AS (
+    UPDATE public.event_invitees
+    SET status = 'declined', updated_at = v_now
+    WHERE event_id = p_event_id
+      AND status = 'invited'
+      AND invited_at <= v_now - make_interval(mins => v_threshold)
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_expired_ids FROM expired;
+
+  INSERT INTO public.event_activity (event_id, event_invitee_id, action, detail)
+  SELECT p_event_id, expired_id, 'expired', format('No response within %s minutes', v_threshold)
+  FROM unnest(v_expired_ids) AS expired_id;
+
+  SELECT
+    count(*) FILTER (WHERE status = 'accepted'),
+    count(*) FILTER (WHERE status = 'invited')
+  INTO v_accepted, v_outstanding
+  FROM public.event_invitees
+  WHERE event_id = p_event_id;
+
+  v_open := GREATEST(v_spots - v_accepted - v_outstanding, 0);
+
+  IF v_open > 0 THEN
+    WITH next_up AS (
+      SELECT id
+      FROM public.event_invitees
+      WHERE event_id = p_event_id AND status = 'pending'
+        AND public.contact_is_reachable(contact_id)
+      ORDER BY priority ASC
+      LIMIT v_open
+      FOR UPDATE
+    ), promoted AS (
+      UPDATE public.event_invitees ei
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      FROM next_up
+      WHERE ei.id = next_up.id
+      RETURNING ei.id
+    )
+    SELECT array_agg(id) INTO v_promoted_ids FROM promoted;
+
+    INSERT INTO public.event_activity (event_id, event_invitee_id, action, detail)
+    SELECT p_event_id, promoted_id, 'promoted',
+      format('Invited for an open spot (%s of %s accepted)', v_accepted, v_spots)
+    FROM unnest(v_promoted_ids) AS promoted_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'expired_ids', COALESCE(to_jsonb(v_expired_ids), '[]'::jsonb),
+    'promoted_ids', COALESCE(to_jsonb(v_promoted_ids), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Only the edge function (service role) applies reports and promotes
+REVOKE ALL ON FUNCTION public.contact_is_reachable(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.contact_is_reachable(uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.record_delivery_report(text, text, text, boolean, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_delivery_report(text, text, text, boolean, text, integer) TO service_role;
+
+COMMIT;
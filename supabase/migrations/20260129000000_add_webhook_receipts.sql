@@ -0,0 +1,18 @@
+-- Webhook replay protection: each provider message, delivery receipt or event
+-- is handled once. The edge function inserts a row before acting on a signed
+-- webhook and skips it when the row already exists (src/lib/sms-transport.ts,
+-- handleSmsWebhook). Twilio signatures carry no timestamp, so rows are kept.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.webhook_receipts (
+  provider text NOT NULL, -- twilio, telnyx, fake, resend
+  key text NOT NULL, -- message:<id>, status:<id>:<state>, or the Resend svix-id
+  received_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, key)
+);
+
+-- Only the edge function (service role) reads and writes receipts
+ALTER TABLE public.webhook_receipts ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
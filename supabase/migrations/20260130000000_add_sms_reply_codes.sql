@@ -0,0 +1,10 @@
+-- SMS reply codes: each invitation SMS asks for "Y <code>" / "N <code>", so
+-- someone with several open invitations answers the right one. Codes are
+-- unique among one phone number's open invitations, not globally
+-- (src/lib/sms-templates.ts, generateReplyCode).
+
+BEGIN;
+
+ALTER TABLE public.event_invitees ADD COLUMN IF NOT EXISTS sms_code text;
+
+COMMIT;
@@ -0,0 +1,133 @@
+-- SMS opt-out: phones that replied STOP (or CANCEL, END, QUIT, ...) are kept
+-- on a suppression list until they reply START. The edge function checks it
+-- before every SMS it sends, except answers to a text the person just sent.
+-- Contacts with that phone show the opt-out (contacts.sms_opted_out_at) and
+-- count as unreachable by SMS when promoting. Keywords are parsed by
+-- src/lib/sms-templates.ts (parseSmsKeyword); reachability mirrors
+-- src/lib/delivery-reports.ts (isContactReachable); keep them in sync.
+
+BEGIN;
+
+-- Keyed by the last 10 digits, like record_delivery_report, so +1 (555) 010-2000 and 5550102000 match
+CREATE TABLE IF NOT EXISTS public.sms_suppressions (
+  phone_key text PRIMARY KEY,
+  phone text NOT NULL, -- As the provider sent it
+  keyword text, -- What they replied, e.g. STOP
+  opted_out_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only the edge function (service role) reads and writes the list
+ALTER TABLE public.sms_suppressions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS sms_opted_out_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.sms_phone_key(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10);
+$$;
+
+-- A contact added or edited with an opted-out phone shows the opt-out right away
+CREATE OR REPLACE FUNCTION public.sync_contact_sms_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone THEN
+    NEW.sms_opted_out_at = (
+      SELECT opted_out_at
+      FROM public.sms_suppressions
+      WHERE phone_key = public.sms_phone_key(NEW.phone)
+        AND NULLIF(NEW.phone, '') IS NOT NULL
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_contact_sms_opt_out ON public.contacts;
+CREATE TRIGGER sync_contact_sms_opt_out
+  BEFORE INSERT OR UPDATE OF phone ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_contact_sms_opt_out();
+
+-- Whether a phone is on the suppression list
+CREATE OR REPLACE FUNCTION public.sms_is_suppressed(p_phone text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.sms_suppressions WHERE phone_key = public.sms_phone_key(p_phone)
+  );
+$$;
+
+-- STOP adds the phone to the list, START removes it; either way every contact
+-- with that phone is updated. Returns how many contacts changed.
+CREATE OR REPLACE FUNCTION public.set_sms_opt_out(
+  p_phone text,
+  p_opted_out boolean,
+  p_keyword text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text := public.sms_phone_key(p_phone);
+  v_now timestamptz := now();
+  v_updated integer;
+BEGIN
+  IF v_key = '' THEN
+    RETURN 0;
+  END IF;
+
+  IF p_opted_out THEN
+    INSERT INTO public.sms_suppressions (phone_key, phone, keyword, opted_out_at)
+    VALUES (v_key, p_phone, p_keyword, v_now)
+    ON CONFLICT (phone_key) DO NOTHING;
+  ELSE
+    DELETE FROM public.sms_suppressions WHERE phone_key = v_key;
+  END IF;
+
+  UPDATE public.contacts
+  SET sms_opted_out_at = CASE WHEN p_opted_out THEN COALESCE(sms_opted_out_at, v_now) ELSE NULL END
+  WHERE NULLIF(phone, '') IS NOT NULL
+    AND public.sms_phone_key(phone) = v_key
+    AND (sms_opted_out_at IS NULL) = p_opted_out;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated;
+END;
+$$;
+
+-- isContactReachable: an email that has not been marked undeliverable, or a
+-- phone that is neither undeliverable nor opted out
+CREATE OR REPLACE FUNCTION public.contact_is_reachable(p_contact_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT (NULLIF(email, '') IS NOT NULL AND email_undeliverable_at IS NULL)
+        OR (NULLIF(phone, '') IS NOT NULL AND phone_undeliverable_at IS NULL AND sms_opted_out_at IS NULL)
+    FROM public.contacts
+    WHERE id = p_contact_id
+  ), false);
+$$;
+
+REVOKE ALL ON FUNCTION public.sms_is_suppressed(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sms_is_suppressed(text) TO service_role;
+REVOKE ALL ON FUNCTION public.set_sms_opt_out(text, boolean, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_sms_opt_out(text, boolean, text) TO service_role;
+
+COMMIT;
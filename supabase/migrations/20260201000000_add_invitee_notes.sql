@@ -0,0 +1,12 @@
+-- Invitee notes: the latest "maybe", "running late" or free-text SMS an
+-- invitee sent about an event. The text is also passed on to the organizer;
+-- the event card shows it next to the invitee. Parsing lives in
+-- src/lib/sms-templates.ts (parseInboundSms, getInviteeNote).
+
+BEGIN;
+
+ALTER TABLE public.event_invitees
+  ADD COLUMN IF NOT EXISTS note text,
+  ADD COLUMN IF NOT EXISTS note_at timestamptz;
+
+COMMIT;
@@ -0,0 +1,265 @@
+-- Tentative ("maybe") answers: a status that holds the invitee's place without
+-- taking a spot. In priority mode the sweep waits tentative_hold_minutes after
+-- the answer before inviting the next person; the tentative invitee can still
+-- confirm (if a spot is free) or decline. Rules mirror
+-- src/lib/rsvp-logic.ts (processRsvpActionById, planAutoPromotion); keep them
+-- in sync.
+
+BEGIN;
+
+ALTER TABLE public.event_invitees DROP CONSTRAINT IF EXISTS event_invitees_status_check;
+ALTER TABLE public.event_invitees ADD CONSTRAINT event_invitees_status_check
+  CHECK (status IN ('pending', 'invited', 'accepted', 'declined', 'tentative'));
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS tentative_hold_minutes integer NOT NULL DEFAULT 60
+    CHECK (tentative_hold_minutes >= 0);
+
+-- record_rsvp and auto_promote_event as in 20260128000000, with the tentative
+-- action and hold
+
+CREATE OR REPLACE FUNCTION public.record_rsvp(p_invitee_id uuid, p_action text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_event public.events%ROWTYPE;
+  v_target public.event_invitees%ROWTYPE;
+  v_spots integer;
+  v_accepted integer;
+  v_is_full boolean;
+  v_next_id uuid;
+  v_notify_ids uuid[];
+  v_now timestamptz := now();
+BEGIN
+  IF p_action NOT IN ('confirm', 'decline', 'tentative') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid-action', 'error', 'Invalid action');
+  END IF;
+
+  SELECT event_id INTO v_event_id FROM public.event_invitees WHERE id = p_invitee_id;
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Invitee not found');
+  END IF;
+
+  -- Lock the event row: concurrent RSVPs for the same event queue up here,
+  -- so the accepted count below cannot change until this transaction commits.
+  SELECT * INTO v_event FROM public.events WHERE id = v_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Event not found');
+  END IF;
+
+  -- Re-read the invitee under the lock (it may have responded in the meantime)
+  SELECT * INTO v_target FROM public.event_invitees WHERE id = p_invitee_id FOR UPDATE;
+
+  v_spots := COALESCE(v_event.spots, 1);
+  SELECT count(*) INTO v_accepted
+  FROM public.event_invitees
+  WHERE event_id = v_event_id AND status = 'accepted' AND id <> p_invitee_id;
+
+  IF p_action = 'confirm' THEN
+    IF v_target.status = 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+        'error', 'You have already accepted this invitation');
+    END IF;
+
+    IF v_accepted >= v_spots THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'event-full', 'is_event_full', true,
+        'error', CASE WHEN v_spots = 1
+          THEN 'This event has already been confirmed by another invitee'
+          ELSE format('This event is full (%s spots filled)', v_spots) END);
+    END IF;
+
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    UPDATE public.event_invitees
+    SET status = 'accepted', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    v_is_full := v_accepted + 1 >= v_spots;
+    IF v_is_full THEN
+      SELECT array_agg(id) INTO v_notify_ids
+      FROM public.event_invitees
+      WHERE event_id = v_event_id AND id <> p_invitee_id AND status IN ('invited', 'pending', 'tentative');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'new_status', 'accepted',
+      'is_event_full', v_is_full,
+      'spots_remaining', v_spots - v_accepted - 1,
+      'notify_event_full_ids', COALESCE(to_jsonb(v_notify_ids), '[]'::jsonb)
+    );
+  END IF;
+
+  IF p_action = 'tentative' THEN
+    IF v_target.status = 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+        'error', 'You have already accepted this invitation. Contact the organizer to cancel.');
+    END IF;
+
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    IF v_target.status = 'tentative' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-tentative',
+        'error', 'You have already answered maybe to this invitation');
+    END IF;
+
+    IF v_accepted >= v_spots THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'event-full', 'is_event_full', true,
+        'error', CASE WHEN v_spots = 1
+          THEN 'This event has already been confirmed by another invitee'
+          ELSE format('This event is full (%s spots filled)', v_spots) END);
+    END IF;
+
+    -- responded_at starts the tentative hold (see auto_promote_event)
+    UPDATE public.event_invitees
+    SET status = 'tentative', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    RETURN jsonb_build_object('success', true, 'new_status', 'tentative', 'should_promote_next', false);
+  END IF;
+
+  -- Decline
+  IF v_target.status = 'declined' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+      'error', 'You have already declined this invitation');
+  END IF;
+
+  IF v_target.status = 'accepted' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+      'error', 'You have already accepted this invitation. Contact the organizer to cancel.');
+  END IF;
+
+  UPDATE public.event_invitees
+  SET status = 'declined', responded_at = v_now, updated_at = v_now
+  WHERE id = p_invitee_id;
+
+  -- Priority mode: hand the invite to the next reachable person queued after
+  -- the decliner, unless every spot is already taken. A tentative invitee's
+  -- place may already have been handed on, so the sweep handles theirs.
+  IF COALESCE(v_event.invite_mode, 'priority') = 'priority' AND v_accepted < v_spots
+    AND v_target.status <> 'tentative' THEN
+    SELECT id INTO v_next_id
+    FROM public.event_invitees
+    WHERE event_id = v_event_id AND status = 'pending' AND priority > v_target.priority
+      AND public.contact_is_reachable(contact_id)
+    ORDER BY priority ASC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_next_id IS NOT NULL THEN
+      UPDATE public.event_invitees
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      WHERE id = v_next_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'new_status', 'declined',
+    'should_promote_next', v_next_id IS NOT NULL,
+    'promoted_invitee_id', v_next_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.auto_promote_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events%ROWTYPE;
+  v_threshold integer;
+  v_hold integer;
+  v_spots integer;
+  v_accepted integer;
+  v_outstanding integer;
+  v_open integer;
+  v_expired_ids uuid[];
+  v_promoted_ids uuid[];
+  v_now timestamptz := now();
+BEGIN
+  -- Same lock as record_rsvp, so a sweep and an RSVP for the event never interleave
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND
+    OR COALESCE(v_event.invite_mode, 'priority') <> 'priority'
+    OR v_event.invites_sent_at IS NULL THEN
+    RETURN jsonb_build_object('expired_ids', '[]'::jsonb, 'promoted_ids', '[]'::jsonb);
+  END IF;
+
+  v_threshold := COALESCE(v_event.auto_promote_after_minutes, 30);
+  v_hold := COALESCE(v_event.tentative_hold_minutes, 60);
+  v_spots := COALESCE(v_event.spots, 1);
+
+  WITH expired AS (
+    UPDATE public.event_invitees
+    SET status = 'declined', updated_at = v_now
+    WHERE event_id = p_event_id
+      AND status = 'invited'
+      AND invited_at <= v_now - make_interval(mins => v_threshold)
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO v_expired_ids FROM expired;
+
+  INSERT INTO public.event_activity (event_id, event_invitee_id, action, detail)
+  SELECT p_event_id, expired_id, 'expired', format('No response within %s minutes', v_threshold)
+  FROM unnest(v_expired_ids) AS expired_id;
+
+  SELECT
+    count(*) FILTER (WHERE status = 'accepted'),
+    count(*) FILTER (WHERE status = 'invited'
+      OR (status = 'tentative' AND responded_at > v_now - make_interval(mins => v_hold)))
+  INTO v_accepted, v_outstanding
+  FROM public.event_invitees
+  WHERE event_id = p_event_id;
+
+  v_open := GREATEST(v_spots - v_accepted - v_outstanding, 0);
+
+  IF v_open > 0 THEN
+    WITH next_up AS (
+      SELECT id
+      FROM public.event_invitees
+      WHERE event_id = p_event_id AND status = 'pending'
+        AND public.contact_is_reachable(contact_id)
+      ORDER BY priority ASC
+      LIMIT v_open
+      FOR UPDATE
+    ), promoted AS (
+      UPDATE public.event_invitees ei
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      FROM next_up
+      WHERE ei.id = next_up.id
+      RETURNING ei.id
+    )
+    SELECT array_agg(id) INTO v_promoted_ids FROM promoted;
+
+    INSERT INTO public.event_activity (event_id, event_invitee_id, action, detail)
+    SELECT p_event_id, promoted_id, 'promoted',
+      format('Invited for an open spot (%s of %s accepted)', v_accepted, v_spots)
+    FROM unnest(v_promoted_ids) AS promoted_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'expired_ids', COALESCE(to_jsonb(v_expired_ids), '[]'::jsonb),
+    'promoted_ids', COALESCE(to_jsonb(v_promoted_ids), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_rsvp(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_rsvp(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.auto_promote_event(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.auto_promote_event(uuid) TO service_role;
+
+COMMIT;
@@ -0,0 +1,223 @@
+-- Withdrawals: an accepted invitee who can't make it anymore gives the spot
+-- back (RSVP link, dashboard or SMS). They are marked declined and, in
+-- priority mode, the first reachable person in the queue is invited. The
+-- organizer can close withdrawals events.withdraw_cutoff_minutes before the
+-- start (0 = open until the event starts). Rules mirror src/lib/rsvp-logic.ts
+-- (processRsvpActionById); keep them in sync.
+
+BEGIN;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS withdraw_cutoff_minutes integer NOT NULL DEFAULT 0
+    CHECK (withdraw_cutoff_minutes >= 0);
+
+-- record_rsvp as in 20260202000000, with the withdraw action
+
+CREATE OR REPLACE FUNCTION public.record_rsvp(p_invitee_id uuid, p_action text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_event public.events%ROWTYPE;
+  v_target public.event_invitees%ROWTYPE;
+  v_spots integer;
+  v_accepted integer;
+  v_is_full boolean;
+  v_next_id uuid;
+  v_notify_ids uuid[];
+  v_deadline timestamptz;
+  v_now timestamptz := now();
+BEGIN
+  IF p_action NOT IN ('confirm', 'decline', 'tentative', 'withdraw') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid-action', 'error', 'Invalid action');
+  END IF;
+
+  SELECT event_id INTO v_event_id FROM public.event_invitees WHERE id = p_invitee_id;
+  IF v_event_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Invitee not found');
+  END IF;
+
+  -- Lock the event row: concurrent RSVPs for the same event queue up here,
+  -- so the accepted count below cannot change until this transaction commits.
+  SELECT * INTO v_event FROM public.events WHERE id = v_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not-found', 'error', 'Event not found');
+  END IF;
+
+  -- Re-read the invitee under the lock (it may have responded in the meantime)
+  SELECT * INTO v_target FROM public.event_invitees WHERE id = p_invitee_id FOR UPDATE;
+
+  v_spots := COALESCE(v_event.spots, 1);
+  SELECT count(*) INTO v_accepted
+  FROM public.event_invitees
+  WHERE event_id = v_event_id AND status = 'accepted' AND id <> p_invitee_id;
+
+  IF p_action = 'confirm' THEN
+    IF v_target.status = 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+        'error', 'You have already accepted this invitation');
+    END IF;
+
+    IF v_accepted >= v_spots THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'event-full', 'is_event_full', true,
+        'error', CASE WHEN v_spots = 1
+          THEN 'This event has already been confirmed by another invitee'
+          ELSE format('This event is full (%s spots filled)', v_spots) END);
+    END IF;
+
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    UPDATE public.event_invitees
+    SET status = 'accepted', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    v_is_full := v_accepted + 1 >= v_spots;
+    IF v_is_full THEN
+      SELECT array_agg(id) INTO v_notify_ids
+      FROM public.event_invitees
+      WHERE event_id = v_event_id AND id <> p_invitee_id AND status IN ('invited', 'pending', 'tentative');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'new_status', 'accepted',
+      'is_event_full', v_is_full,
+      'spots_remaining', v_spots - v_accepted - 1,
+      'notify_event_full_ids', COALESCE(to_jsonb(v_notify_ids), '[]'::jsonb)
+    );
+  END IF;
+
+  IF p_action = 'tentative' THEN
+    IF v_target.status = 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+        'error', 'You have already accepted this invitation. Withdraw instead if you can no longer make it.');
+    END IF;
+
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    IF v_target.status = 'tentative' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-tentative',
+        'error', 'You have already answered maybe to this invitation');
+    END IF;
+
+    IF v_accepted >= v_spots THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'event-full', 'is_event_full', true,
+        'error', CASE WHEN v_spots = 1
+          THEN 'This event has already been confirmed by another invitee'
+          ELSE format('This event is full (%s spots filled)', v_spots) END);
+    END IF;
+
+    -- responded_at starts the tentative hold (see auto_promote_event)
+    UPDATE public.event_invitees
+    SET status = 'tentative', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    RETURN jsonb_build_object('success', true, 'new_status', 'tentative', 'should_promote_next', false);
+  END IF;
+
+  IF p_action = 'withdraw' THEN
+    IF v_target.status = 'declined' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+        'error', 'You have already declined this invitation');
+    END IF;
+
+    IF v_target.status <> 'accepted' THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'not-accepted',
+        'error', 'You have not accepted this invitation. Decline it instead.');
+    END IF;
+
+    -- Event start in its own time zone (UTC without one), minus the cutoff
+    v_deadline := ((v_event.date + v_event.time) AT TIME ZONE COALESCE(NULLIF(v_event.time_zone, ''), 'UTC'))
+      - make_interval(mins => COALESCE(v_event.withdraw_cutoff_minutes, 0));
+    IF v_now >= v_deadline THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'withdraw-closed',
+        'error', 'It is too late to withdraw. Contact the organizer.');
+    END IF;
+
+    UPDATE public.event_invitees
+    SET status = 'declined', responded_at = v_now, updated_at = v_now
+    WHERE id = p_invitee_id;
+
+    -- Priority mode: the freed spot goes to the first reachable person in the queue
+    IF COALESCE(v_event.invite_mode, 'priority') = 'priority' THEN
+      SELECT id INTO v_next_id
+      FROM public.event_invitees
+      WHERE event_id = v_event_id AND status = 'pending'
+        AND public.contact_is_reachable(contact_id)
+      ORDER BY priority ASC
+      LIMIT 1
+      FOR UPDATE;
+
+      IF v_next_id IS NOT NULL THEN
+        UPDATE public.event_invitees
+        SET status = 'invited', invited_at = v_now, updated_at = v_now
+        WHERE id = v_next_id;
+      END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'new_status', 'declined',
+      'spots_remaining', v_spots - v_accepted,
+      'should_promote_next', v_next_id IS NOT NULL,
+      'promoted_invitee_id', v_next_id
+    );
+  END IF;
+
+  -- Decline
+  IF v_target.status = 'declined' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-declined',
+      'error', 'You have already declined this invitation');
+  END IF;
+
+  IF v_target.status = 'accepted' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already-accepted',
+      'error', 'You have already accepted this invitation. Withdraw instead if you can no longer make it.');
+  END IF;
+
+  UPDATE public.event_invitees
+  SET status = 'declined', responded_at = v_now, updated_at = v_now
+  WHERE id = p_invitee_id;
+
+  -- Priority mode: hand the invite to the next reachable person queued after
+  -- the decliner, unless every spot is already taken. A tentative invitee's
+  -- place may already have been handed on, so the sweep handles theirs.
+  IF COALESCE(v_event.invite_mode, 'priority') = 'priority' AND v_accepted < v_spots
+    AND v_target.status <> 'tentative' THEN
+    SELECT id INTO v_next_id
+    FROM public.event_invitees
+    WHERE event_id = v_event_id AND status = 'pending' AND priority > v_target.priority
+      AND public.contact_is_reachable(contact_id)
+    ORDER BY priority ASC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_next_id IS NOT NULL THEN
+      UPDATE public.event_invitees
+      SET status = 'invited', invited_at = v_now, updated_at = v_now
+      WHERE id = v_next_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'new_status', 'declined',
+    'should_promote_next', v_next_id IS NOT NULL,
+    'promoted_invitee_id', v_next_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_rsvp(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_rsvp(uuid, text) TO service_role;
+
+COMMIT;
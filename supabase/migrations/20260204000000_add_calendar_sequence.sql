@@ -0,0 +1,15 @@
+-- Calendar invites follow iTIP (src/lib/icalendar.ts): each emailed .ics
+-- carries the event's SEQUENCE, bumped whenever the title, notes, time or
+-- place changes and again when the event is cancelled, so calendar apps
+-- replace the copy they hold. event_invitees.ics_sent_at records who has a
+-- copy; cancelling the event sends those people a CANCEL.
+
+BEGIN;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS ics_sequence integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.event_invitees
+  ADD COLUMN IF NOT EXISTS ics_sent_at timestamptz;
+
+COMMIT;
@@ -0,0 +1,58 @@
+-- Personal calendar feeds: each user can subscribe their calendar app to a
+-- secret URL (GET /calendar/<token>.ics) listing the events they organize
+-- and the ones they accepted. Regenerating the token from Settings replaces
+-- the row, which revokes the old URL. The feed is built by
+-- src/lib/icalendar.ts (buildCalendarFeed).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only the edge function (service role) reads and writes tokens
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Events in a feed: organized by its owner or accepted by their email, from
+-- p_from on, at most p_limit of them. Upcoming events are kept first (soonest
+-- first), then the past ones, most recent first, so a long history never
+-- pushes upcoming events out of the feed
+CREATE OR REPLACE FUNCTION public.calendar_feed_events(
+  p_token text,
+  p_from date,
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE (id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id
+  FROM public.calendar_feeds f
+  JOIN public.users u ON u.id = f.user_id
+  JOIN public.events e ON e.date >= p_from
+  WHERE f.token = p_token
+    AND (
+      e.organizer_id = u.id
+      OR EXISTS (
+        SELECT 1
+        FROM public.event_invitees ei
+        JOIN public.contacts c ON c.id = ei.contact_id
+        WHERE ei.event_id = e.id
+          AND ei.status = 'accepted'
+          AND lower(c.email) = lower(u.email)
+      )
+    )
+  ORDER BY e.date < CURRENT_DATE,
+    CASE WHEN e.date >= CURRENT_DATE THEN e.date END,
+    e.date DESC, e.time, e.id
+  LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.calendar_feed_events(text, date, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calendar_feed_events(text, date, integer) TO service_role;
+
+COMMIT;
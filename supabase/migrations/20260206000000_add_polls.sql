@@ -0,0 +1,62 @@
+-- Find-a-time polls: before booking, the organizer proposes a few date/time
+-- options and everyone on the list answers yes, maybe or no to each, from a
+-- personal link (/poll/<token>) or by texting "VOTE 1 3". Booking the
+-- winning option creates a normal event (POST /events with pollId) and marks
+-- the poll booked. Tallying and queue order are in src/lib/polls.ts.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.polls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organizer_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  location text,
+  time_zone text,
+  -- Everything else the event form collected (duration, spots, invite mode,
+  -- reminders, ...), sent back to POST /events when the poll is booked
+  event_draft jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'booked')),
+  booked_option_id uuid,
+  event_id uuid REFERENCES public.events(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS polls_organizer_idx ON public.polls (organizer_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  position integer NOT NULL, -- 1-based; the number to text back
+  date date NOT NULL,
+  time time NOT NULL,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_participants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id uuid NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  contact_id uuid NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  priority integer NOT NULL DEFAULT 0,
+  token text NOT NULL UNIQUE, -- The secret in their vote link
+  invited_at timestamptz,
+  responded_at timestamptz,
+  UNIQUE (poll_id, contact_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  participant_id uuid NOT NULL REFERENCES public.poll_participants(id) ON DELETE CASCADE,
+  option_id uuid NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  answer text NOT NULL CHECK (answer IN ('yes', 'maybe', 'no')),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (participant_id, option_id)
+);
+
+-- Only the edge function (service role) reads and writes polls
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+COMMIT;